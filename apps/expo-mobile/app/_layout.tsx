@@ -19,6 +19,7 @@
  */
 import { Providers } from '../providers'; // Imports the central Providers component.
 import { Stack } from 'expo-router'; // Imports the Stack navigator from Expo Router.
+import { SchemaDriftOverlay } from '@hello-world/shared'; // Lists API schema drift in development.
 
 /**
  * Defines the root layout for the application.
@@ -39,6 +40,8 @@ export default function RootLayout() {
           custom header component if desired.
       */}
       <Stack screenOptions={{ headerShown: false }} />
+      {/* Development-only badge listing API responses that didn't match their schema. */}
+      <SchemaDriftOverlay />
     </Providers>
   );
 }
@@ -1,13 +1,27 @@
+import { useState } from 'react';
 import { YStack, H1 } from 'tamagui';
 import { Button } from '@hello-world/ui';
+import { SessionSwitcher } from '@hello-world/auth';
+import { DeveloperMenu, useSecretTaps } from '@hello-world/shared';
 import { StatusBar } from 'expo-status-bar';
 import { Alert } from 'react-native';
 import { Link } from 'solito/link';
+import { useRouter } from 'solito/navigation';
 
 export default function IndexScreen() {
+  const router = useRouter();
+  // Hidden developer menu (API environment switcher): tap the title five times quickly.
+  const [showDeveloperMenu, setShowDeveloperMenu] = useState(false);
+  const handleTitlePress = useSecretTaps(() => setShowDeveloperMenu(true));
+
   return (
     <YStack flex={1} alignItems="center" justifyContent="center" space>
-      <H1>Expo Home</H1>
+      <H1 onPress={handleTitlePress}>Expo Home</H1>
+      {showDeveloperMenu && (
+        <DeveloperMenu onClose={() => setShowDeveloperMenu(false)} />
+      )}
+      {/* Switch between the accounts signed in on this device, or add another one. */}
+      <SessionSwitcher onAddAccount={() => router.push('/login')} />
       <Button onPress={() => Alert.alert('Button Pressed!')}>
         Test Button
       </Button>
@@ -0,0 +1,6 @@
+import { LoginScreen } from '@hello-world/auth';
+
+// Also used to add another account from the account switcher on the home screen.
+export default function LoginPage() {
+  return <LoginScreen />;
+}
@@ -0,0 +1,5 @@
+import { RegisterScreen } from '@hello-world/auth';
+
+export default function RegisterPage() {
+  return <RegisterScreen />;
+}
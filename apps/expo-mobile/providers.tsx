@@ -11,15 +11,16 @@
  * For a learner:
  * - This is a common pattern in React applications to set up the "root" environment.
  * - `TamaguiProvider` initializes the Tamagui UI kit with specific configurations and themes.
- * - `QueryClientProvider` makes React Query's caching and data fetching capabilities accessible.
+ * - `SessionQueryClientProvider` makes React Query's caching and data fetching capabilities accessible,
+ *   with a separate cache for each signed-in account.
  * - Font loading (`useFonts`) is crucial for ensuring custom fonts are ready before UI renders,
  *   preventing layout shifts or incorrect text rendering.
  */
 import config from './tamagui.config'; // Tamagui configuration specific to the expo-mobile app.
 import { TamaguiProvider, TamaguiProviderProps } from 'tamagui'; // Core Tamagui provider.
 import { useColorScheme } from 'react-native'; // Hook to get the device's current color scheme (light/dark).
-import React, { useState, PropsWithChildren } from 'react';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'; // Core React Query provider and client.
+import React, { PropsWithChildren } from 'react';
+import { SessionQueryClientProvider } from '@hello-world/auth'; // React Query provider with one cache per signed-in account.
 import { useFonts } from 'expo-font'; // Expo hook for loading custom fonts.
 
 /**
@@ -44,11 +45,10 @@ export function Providers({ children, ...rest }: AppProvidersProps) {
   // This is used to set the `defaultTheme` for Tamagui.
   const colorScheme = useColorScheme() ?? 'light';
 
-  // Initialize the React Query client.
-  // `useState(() => new QueryClient())` ensures that the QueryClient instance
-  // is created only once when the component mounts and is persisted across re-renders.
-  // This is the recommended way to create and provide the client.
-  const [queryClient] = useState(() => new QueryClient());
+  // React Query clients are created by `SessionQueryClientProvider`: one per signed-in
+  // account plus one for anonymous browsing, so cached data never bleeds between accounts.
+  // When a session ends (logout, or the API client failing to renew it), that session's
+  // cache is discarded and auth-aware screens see a logged-out state.
 
   // Load custom fonts required by the application.
   // `useFonts` is an asynchronous hook. `loaded` will be true once fonts are ready.
@@ -71,10 +71,10 @@ export function Providers({ children, ...rest }: AppProvidersProps) {
   return (
     <TamaguiProvider config={config} defaultTheme={colorScheme} {...rest}>
       {/*
-        QueryClientProvider makes the `queryClient` instance available to all
+        SessionQueryClientProvider makes the active account's `QueryClient` available to all
         descendant components, allowing them to use React Query hooks (useQuery, useMutation).
       */}
-      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+      <SessionQueryClientProvider>{children}</SessionQueryClientProvider>
     </TamaguiProvider>
   );
 }
@@ -0,0 +1,25 @@
+<?php
+
+/**
+ * @file apps/laravel-api/app/Enums/NoteVisibility.php
+ * @description Who can read a note.
+ *
+ * - `Private`: Only the author.
+ * - `Public`: Everyone, including visitors who are not logged in.
+ * - `Shared`: The author plus the users listed in the note's share list (`note_shares` table).
+ *
+ * For a learner:
+ * - This is a PHP "backed enum": each case has a string value, which is what gets stored in
+ *   the `notes.visibility` column and sent in JSON. Casting the column to this enum in the
+ *   `Note` model means `$note->visibility` is always one of these cases, never a typo.
+ * - Scramble reads the enum to document the allowed values in the OpenAPI spec.
+ */
+
+namespace App\Enums;
+
+enum NoteVisibility: string
+{
+    case Private = 'private';
+    case Public = 'public';
+    case Shared = 'shared';
+}
@@ -9,16 +9,33 @@
 use Illuminate\Support\Facades\Hash;
 use Illuminate\Validation\Rules;
 use Illuminate\Validation\ValidationException;
+use Laravel\Sanctum\PersonalAccessToken;
+use Laravel\Sanctum\TransientToken;
 
 /**
  * Authentication controller for managing user registration, login, and session management.
  *
+ * Two kinds of clients sign in here:
+ * - Token clients (the mobile app, the web app in token mode) receive an access/refresh token
+ *   pair and send `Authorization: Bearer ...` with every request.
+ * - Stateful clients (the web app in cookie mode, from a domain in SANCTUM_STATEFUL_DOMAINS)
+ *   get a session cookie instead; no tokens are issued, so none can leak from the browser.
+ *   Sanctum's `statefulApi()` middleware gives their requests a session, which is how
+ *   `$request->hasSession()` tells the two apart.
+ *
  * Note: Custom validation error messages for these endpoints are defined in the frontend
  * at packages/api-types/src/extendedSchemas.ts. When updating validation rules here,
  * make sure to update the corresponding error messages in the extended schemas.
  */
 class AuthController extends Controller
 {
+    /**
+     * Name given to refresh tokens in the `personal_access_tokens` table.
+     * `AppServiceProvider` refuses tokens with this name on `auth:sanctum` routes,
+     * so a refresh token can only ever be exchanged at POST /auth/refresh.
+     */
+    public const REFRESH_TOKEN_NAME = 'refresh-token';
+
     /**
      * Register a new user.
      *
@@ -30,6 +47,8 @@ class AuthController extends Controller
      * @bodyParam password string required The user's password (min 8 characters). Example: password123
      * @bodyParam password_confirmation string required Password confirmation. Example: password123
      *
+     * The token fields are left out for stateful (cookie) clients.
+     *
      * @response {
      *   "message": "User registered successfully.",
      *   "user": {
@@ -39,7 +58,9 @@ class AuthController extends Controller
      *     "created_at": "2025-05-07T01:00:00.000000Z",
      *     "updated_at": "2025-05-07T01:00:00.000000Z"
      *   },
-     *   "token": "1|laravel_sanctum_token..."
+     *   "token": "1|laravel_sanctum_token...",
+     *   "refresh_token": "2|laravel_sanctum_token...",
+     *   "expires_at": "2025-05-07T02:00:00.000000Z"
      * }
      *
      * @response 422 {
@@ -73,19 +94,17 @@ public function register(Request $request)
             'password' => Hash::make($request->password),
         ]);
 
-        // Issue a new Sanctum API token for the newly registered user.
-        // 'api-token' is a descriptive name for the token (can be used for token abilities/scopes if needed).
-        // `plainTextToken` is the actual token string that must be sent to the client.
-        // The token itself is stored hashed in the database for security.
-        $token = $user->createToken('api-token')->plainTextToken;
+        // Issue a short-lived access token and a long-lived refresh token for the new user,
+        // or sign a stateful client in with a session cookie. See `startSession()` below.
+        $tokens = $this->startSession($request, $user);
 
         // Return a JSON response with a success message, the created user data (transformed by UserResource),
-        // and the API token. HTTP status 201 indicates "Created".
+        // and the token pair. HTTP status 201 indicates "Created".
         // `UserResource` controls how the User model is serialized to JSON.
         return response()->json([
             'message' => 'User registered successfully.',
             'user' => new UserResource($user),
-            'token' => $token
+            ...$tokens,
         ], 201);
     }
 
@@ -98,6 +117,8 @@ public function register(Request $request)
      * @bodyParam email string required The user's email address. Example: john@example.com
      * @bodyParam password string required The user's password. Example: password123
      *
+     * The token fields are left out for stateful (cookie) clients.
+     *
      * @response {
      *   "message": "Login successful.",
      *   "user": {
@@ -107,7 +128,9 @@ public function register(Request $request)
      *     "created_at": "2025-05-07T01:00:00.000000Z",
      *     "updated_at": "2025-05-07T01:00:00.000000Z"
      *   },
-     *   "token": "1|laravel_sanctum_token..."
+     *   "token": "1|laravel_sanctum_token...",
+     *   "refresh_token": "2|laravel_sanctum_token...",
+     *   "expires_at": "2025-05-07T02:00:00.000000Z"
      * }
      *
      * @response 422 {
@@ -143,23 +166,80 @@ public function login(Request $request)
         // has identified the user based on the successful `Auth::attempt`.
         $user = $request->user();
 
-        // Create a new Sanctum API token for the authenticated user.
-        $token = $user->createToken('api-token')->plainTextToken;
+        // Create a new access/refresh token pair for the authenticated user, or keep a stateful
+        // client signed in with its session cookie.
+        $tokens = $this->startSession($request, $user);
 
-        // Return a JSON response with a success message, user data, and the token.
+        // Return a JSON response with a success message, user data, and the tokens.
         // `UserResource` ensures the user data is formatted consistently for API responses.
         return response()->json([
             'message' => 'Login successful.',
             'user' => new UserResource($user),
-            'token' => $token
+            ...$tokens,
+        ]);
+    }
+
+    /**
+     * Exchange a refresh token for a new access/refresh token pair.
+     *
+     * Clients call this when the access token has expired (or a request returned 401).
+     * The refresh token is single-use: it is revoked as soon as it is exchanged, and the
+     * response contains a brand new refresh token (refresh token rotation).
+     *
+     * @bodyParam refresh_token string required The refresh token returned by login, register or a previous refresh. Example: 2|laravel_sanctum_token...
+     *
+     * @response {
+     *   "message": "Token refreshed successfully.",
+     *   "token": "3|laravel_sanctum_token...",
+     *   "refresh_token": "4|laravel_sanctum_token...",
+     *   "expires_at": "2025-05-07T03:00:00.000000Z"
+     * }
+     *
+     * @response 401 {
+     *   "message": "Invalid or expired refresh token."
+     * }
+     */
+    public function refresh(Request $request)
+    {
+        $request->validate([
+            'refresh_token' => 'required|string',
+        ]);
+
+        // `findToken()` accepts the "{id}|{plain-text}" format sent to clients and
+        // compares the hashed value against the `personal_access_tokens` table.
+        $refreshToken = PersonalAccessToken::findToken($request->refresh_token);
+
+        // Reject unknown tokens, access tokens posing as refresh tokens, and expired refresh tokens.
+        if (
+            !$refreshToken
+            || $refreshToken->name !== self::REFRESH_TOKEN_NAME
+            || ($refreshToken->expires_at && $refreshToken->expires_at->isPast())
+        ) {
+            return response()->json(['message' => 'Invalid or expired refresh token.'], 401);
+        }
+
+        $user = $refreshToken->tokenable;
+
+        // Rotate: the refresh token that was just used can never be used again.
+        $refreshToken->delete();
+
+        return response()->json([
+            'message' => 'Token refreshed successfully.',
+            ...$this->issueTokens($user),
         ]);
     }
 
     /**
      * Logout user (revoke token).
      *
+     * When the client also sends its refresh token, that token is revoked as well
+     * so it cannot be used to start a new session. A stateful (cookie) client's session
+     * is ended instead.
+     *
      * @authenticated
      *
+     * @bodyParam refresh_token string The refresh token to revoke alongside the access token. Example: 2|laravel_sanctum_token...
+     *
      * @response {
      *   "message": "Logged out successfully."
      * }
@@ -170,6 +250,16 @@ public function login(Request $request)
      */
     public function logout(Request $request)
     {
+        // Cookie sessions are authenticated by Sanctum with a `TransientToken` (nothing is stored
+        // in `personal_access_tokens`). End the session and rotate the CSRF token instead.
+        if ($request->user()->currentAccessToken() instanceof TransientToken) {
+            Auth::guard('web')->logout();
+            $request->session()->invalidate();
+            $request->session()->regenerateToken();
+
+            return response()->json(['message' => 'Logged out successfully.']);
+        }
+
         // `$request->user()` retrieves the authenticated user model instance via Sanctum.
         // `currentAccessToken()` gets the specific Sanctum token instance that was used
         // to authenticate the current request.
@@ -177,6 +267,22 @@ public function logout(Request $request)
         // Other tokens the user might have (e.g., on other devices) remain valid.
         $request->user()->currentAccessToken()->delete();
 
+        // Also revoke the refresh token if one was sent. Only refresh tokens belonging to
+        // the current user are deleted, so a client can't revoke someone else's session.
+        $validated = $request->validate([
+            'refresh_token' => 'nullable|string',
+        ]);
+        if (!empty($validated['refresh_token'])) {
+            $refreshToken = PersonalAccessToken::findToken($validated['refresh_token']);
+            if (
+                $refreshToken
+                && $refreshToken->name === self::REFRESH_TOKEN_NAME
+                && $refreshToken->tokenable_id === $request->user()->id
+            ) {
+                $refreshToken->delete();
+            }
+        }
+
         return response()->json(['message' => 'Logged out successfully.']);
     }
 
@@ -204,4 +310,49 @@ public function user(Request $request)
         // The User model instance is then passed to `UserResource` to format it for the JSON response.
         return new UserResource($request->user());
     }
-}
\ No newline at end of file
+
+    /**
+     * Sign the user in: with a session cookie for stateful clients, with tokens for the others.
+     *
+     * For a stateful client, `Auth::login()` stores the user in the session, and the session ID
+     * is regenerated so a session ID planted before login (session fixation) is useless.
+     *
+     * @return array{token?: string, refresh_token?: string, expires_at?: string} The fields to
+     *   add to the response.
+     */
+    private function startSession(Request $request, User $user): array
+    {
+        if ($request->hasSession()) {
+            Auth::guard('web')->login($user);
+            $request->session()->regenerate();
+
+            return [];
+        }
+
+        return $this->issueTokens($user);
+    }
+
+    /**
+     * Create an access token and a refresh token for the given user.
+     *
+     * - The access token (`token`) authenticates API requests and expires after
+     *   `sanctum.access_token_expiration` minutes.
+     * - The refresh token (`refresh_token`) can only be used at POST /auth/refresh and
+     *   expires after `sanctum.refresh_token_expiration` minutes.
+     * - `expires_at` tells the client when the access token stops working, so it can
+     *   refresh ahead of time instead of waiting for a 401.
+     *
+     * @return array{token: string, refresh_token: string, expires_at: string}
+     */
+    private function issueTokens(User $user): array
+    {
+        $accessExpiresAt = now()->addMinutes((int) config('sanctum.access_token_expiration'));
+        $refreshExpiresAt = now()->addMinutes((int) config('sanctum.refresh_token_expiration'));
+
+        return [
+            'token' => $user->createToken('api-token', ['*'], $accessExpiresAt)->plainTextToken,
+            'refresh_token' => $user->createToken(self::REFRESH_TOKEN_NAME, [], $refreshExpiresAt)->plainTextToken,
+            'expires_at' => $accessExpiresAt->toISOString(),
+        ];
+    }
+}
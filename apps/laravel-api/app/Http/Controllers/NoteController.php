@@ -4,8 +4,13 @@
 
 use Illuminate\Http\Request;
 use App\Models\Note;
+use App\Models\Tag;
 use App\Http\Resources\NoteResource;
 use Illuminate\Http\JsonResponse;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Support\Facades\Gate;
+use Illuminate\Validation\Rule;
+use App\Enums\NoteVisibility;
 
 /**
  * Notes controller for managing user notes.
@@ -17,23 +22,29 @@
 class NoteController extends Controller
 {
     /**
-     * List all notes with their authors.
+     * Columns the notes list may be sorted by (see the `sort` query parameter of `index`).
+     */
+    private const SORTABLE_COLUMNS = ['created_at', 'updated_at', 'title'];
+
+    /**
+     * List notes with their authors, one page at a time.
+     *
+     * Notes are paginated with a cursor: each response includes meta.next_cursor and
+     * links.next, which the client sends back to load the following page. Cursor pagination
+     * stays fast on large tables and never skips or repeats notes when new ones are added.
+     * This endpoint is public and does not require authentication. Guests only see public notes;
+     * with a token, the list also includes notes written by the caller and notes shared with them.
      *
-     * Retrieves all notes from the database with their associated authors.
-     * This endpoint is public and does not require authentication.
+     * @queryParam q string Search term matched against note titles and content. Example: groceries
+     * @queryParam sort string Column to sort by: created_at, updated_at or title. Defaults to created_at. Example: created_at
+     * @queryParam direction string Sort direction: asc or desc. Defaults to desc (newest first). Example: desc
+     * @queryParam per_page integer Number of notes per page (1-100). Defaults to 20. Example: 20
+     * @queryParam tags string[] Only return notes carrying all of these tags. Example: ["laravel"]
+     * @queryParam cursor string Cursor returned in `meta.next_cursor` or `meta.prev_cursor` of a previous page.
      *
      * @response {
      *   "data": [
      *     {
-     *       "id": 1,
-     *       "title": "My First Note",
-     *       "content": "This is the content of my first note",
-     *       "userId": 1,
-     *       "authorName": "John Doe",
-     *       "created_at": "2025-05-07T01:00:00.000000Z",
-     *       "updated_at": "2025-05-07T01:00:00.000000Z"
-     *     },
-     *     {
      *       "id": 2,
      *       "title": "Another Note",
      *       "content": "This is another note with some content",
@@ -42,23 +53,102 @@ class NoteController extends Controller
      *       "created_at": "2025-05-07T01:10:00.000000Z",
      *       "updated_at": "2025-05-07T01:10:00.000000Z"
      *     }
-     *   ]
+     *   ],
+     *   "links": {
+     *     "first": null,
+     *     "last": null,
+     *     "prev": null,
+     *     "next": "http://localhost:8000/api/notes?cursor=eyJjcmVhdGVkX2F0Ijo..."
+     *   },
+     *   "meta": {
+     *     "path": "http://localhost:8000/api/notes",
+     *     "per_page": 20,
+     *     "next_cursor": "eyJjcmVhdGVkX2F0Ijo...",
+     *     "prev_cursor": null
+     *   }
      * }
+     */
+    public function index(Request $request)
+    {
+        // The route has no auth middleware, so ask the sanctum guard directly: it returns the
+        // user when a valid token was sent and null for guests.
+        return $this->paginatedNotes($request, Note::visibleTo($request->user('sanctum')));
+    }
+
+    /**
+     * List the authenticated user's own notes, one page at a time.
      *
-     * @return JsonResponse
+     * Accepts the same search, sort and pagination parameters as the public notes list and
+     * returns the same paginated envelope, but only includes notes written by the caller,
+     * whatever their visibility.
+     *
+     * @authenticated
+     *
+     * @queryParam q string Search term matched against note titles and content. Example: groceries
+     * @queryParam sort string Column to sort by: created_at, updated_at or title. Defaults to created_at. Example: created_at
+     * @queryParam direction string Sort direction: asc or desc. Defaults to desc (newest first). Example: desc
+     * @queryParam per_page integer Number of notes per page (1-100). Defaults to 20. Example: 20
+     * @queryParam tags string[] Only return notes carrying all of these tags. Example: ["laravel"]
+     * @queryParam cursor string Cursor returned in `meta.next_cursor` or `meta.prev_cursor` of a previous page.
+     *
+     * @response 401 {
+     *   "message": "Unauthenticated."
+     * }
      */
-    public function index(): JsonResponse
+    public function mine(Request $request)
     {
-        // Retrieve all notes. `Note` is an Eloquent model.
+        return $this->paginatedNotes(
+            $request,
+            Note::where('user_id', $request->user()->id)
+        );
+    }
+
+    /**
+     * Applies the shared search, sort and cursor pagination parameters to a notes query.
+     *
+     * @param Request $request The incoming request carrying the query parameters.
+     * @param Builder $query The base query, e.g., all notes or one user's notes.
+     */
+    private function paginatedNotes(Request $request, Builder $query)
+    {
+        $validated = $request->validate([
+            'q' => 'nullable|string|max:255',
+            'sort' => 'nullable|string|in:'.implode(',', self::SORTABLE_COLUMNS),
+            'direction' => 'nullable|string|in:asc,desc',
+            'per_page' => 'nullable|integer|min:1|max:100',
+            'tags' => 'nullable|array|max:10',
+            'tags.*' => 'string|max:'.Tag::MAX_NAME_LENGTH,
+            'cursor' => 'nullable|string',
+        ]);
+
+        $sort = $validated['sort'] ?? 'created_at';
+        $direction = $validated['direction'] ?? 'desc';
+
         // `with('user')` performs eager loading of the 'user' relationship (defined in the Note model).
         // This is crucial for performance as it fetches all related user data in a single additional query,
         // preventing the "N+1 query problem" that would occur if each note's user was loaded separately.
-        $notes = Note::with('user')->get();
+        // The share list is loaded too; `NoteResource` only reveals it to the note's author.
+        $notes = $query->with(['user', 'sharedWith', 'tags'])
+            // `when()` only applies the search constraint if a search term was given.
+            ->when($validated['q'] ?? null, function ($query, string $search) {
+                $query->where(function ($query) use ($search) {
+                    $query->where('title', 'like', "%{$search}%")
+                        ->orWhere('content', 'like', "%{$search}%");
+                });
+            })
+            ->when($validated['tags'] ?? null, function ($query, array $tags) {
+                $query->withAllTags(array_map(Tag::normalizeName(...), $tags));
+            })
+            ->orderBy($sort, $direction)
+            // Tie-breaker: cursors need a unique ordering, and many notes can share a timestamp or title.
+            ->orderBy('id', $direction)
+            ->cursorPaginate($validated['per_page'] ?? 20)
+            // Keep `q`, `sort`, `tags`, etc. in the `links.next`/`links.prev` URLs.
+            ->withQueryString();
 
-        // `NoteResource::collection($notes)` transforms the collection of Note models
-        // into a JSON-serializable array, where each note is formatted by `NoteResource`.
-        // This allows consistent formatting and control over which data is exposed.
-        return response()->json(NoteResource::collection($notes));
+        // Passing a paginator to `NoteResource::collection()` produces the paginated envelope:
+        // `data` (the notes, each formatted by `NoteResource`), plus `links` and `meta`.
+        return NoteResource::collection($notes);
     }
 
     /**
@@ -71,6 +161,9 @@ public function index(): JsonResponse
      *
      * @bodyParam title string required The title of the note. Example: My Note Title
      * @bodyParam content string required The content of the note. Example: This is the content of my note
+     * @bodyParam visibility string Who can read the note: private, public or shared. Defaults to public. Example: shared
+     * @bodyParam shared_with integer[] IDs of the users a shared note is shared with. Example: [2, 5]
+     * @bodyParam tags string[] Tag names; new names create tags for the author. Example: ["laravel", "snippets"]
      *
      * @response {
      *   "id": 3,
@@ -78,6 +171,9 @@ public function index(): JsonResponse
      *   "content": "This is the content of my note",
      *   "userId": 1,
      *   "authorName": "John Doe",
+     *   "visibility": "shared",
+     *   "sharedWith": [2, 5],
+     *   "tags": ["laravel", "snippets"],
      *   "created_at": "2025-05-07T01:30:00.000000Z",
      *   "updated_at": "2025-05-07T01:30:00.000000Z"
      * }
@@ -104,6 +200,8 @@ public function store(Request $request): JsonResponse
         $validated = $request->validate([
             'title' => 'required|string|max:255',
             'content' => 'required|string',
+            ...$this->visibilityRules(),
+            ...$this->tagRules(),
         ]);
 
         // Retrieve the currently authenticated user instance.
@@ -119,15 +217,200 @@ public function store(Request $request): JsonResponse
             'user_id' => $user->id,
             'title' => $validated['title'],
             'content' => $validated['content'],
+            'visibility' => $validated['visibility'] ?? NoteVisibility::Public,
         ]);
 
+        $this->syncShares($note, $validated);
+        $this->syncTags($note, $validated);
+
         // After creating the note, explicitly load the 'user' relationship onto this instance.
         // This ensures that the `NoteResource` can access the author's details (e.g., name)
         // without triggering an additional database query when the resource is being prepared.
-        $note->load('user');
+        $note->load(['user', 'sharedWith', 'tags']);
 
         // Return the newly created note, formatted by `NoteResource`, as a JSON response.
         // HTTP status 201 ("Created") is standard for successful resource creation.
         return response()->json(new NoteResource($note), 201);
     }
+
+    /**
+     * Update an existing note owned by the authenticated user.
+     *
+     * Custom validation error messages for this endpoint are defined in ExtendedNoteSchema
+     * at packages/api-types/src/extendedSchemas.ts.
+     *
+     * @authenticated
+     *
+     * @urlParam note integer required The ID of the note. Example: 3
+     * @bodyParam title string required The new title of the note. Example: My Updated Title
+     * @bodyParam content string required The new content of the note. Example: Fixed a typo
+     * @bodyParam visibility string Who can read the note: private, public or shared. Unchanged when omitted. Example: private
+     * @bodyParam shared_with integer[] Replaces the list of users the note is shared with. Unchanged when omitted. Example: [2]
+     * @bodyParam tags string[] Replaces the note's tags; new names create tags for the author. Unchanged when omitted. Example: ["laravel"]
+     *
+     * @response {
+     *   "id": 3,
+     *   "title": "My Updated Title",
+     *   "content": "Fixed a typo",
+     *   "userId": 1,
+     *   "authorName": "John Doe",
+     *   "visibility": "private",
+     *   "sharedWith": [2],
+     *   "tags": ["laravel"],
+     *   "created_at": "2025-05-07T01:30:00.000000Z",
+     *   "updated_at": "2025-05-07T02:00:00.000000Z"
+     * }
+     *
+     * @response 401 {
+     *   "message": "Unauthenticated."
+     * }
+     *
+     * @response 403 {
+     *   "message": "This action is unauthorized."
+     * }
+     *
+     * @response 404 {
+     *   "message": "No query results for model [App\\Models\\Note] 3"
+     * }
+     *
+     * @param Request $request
+     * @param Note $note The note resolved from the `{note}` route segment (route model binding).
+     * @return JsonResponse
+     */
+    public function update(Request $request, Note $note): JsonResponse
+    {
+        // `Gate::authorize` runs the `update` method of `App\Policies\NotePolicy`.
+        // If the authenticated user is not the author, an AuthorizationException is thrown
+        // and Laravel responds with 403 before any data is changed.
+        Gate::authorize('update', $note);
+
+        // Same rules as `store`, so the frontend can reuse its note form validation.
+        $validated = $request->validate([
+            'title' => 'required|string|max:255',
+            'content' => 'required|string',
+            ...$this->visibilityRules(),
+            ...$this->tagRules(),
+        ]);
+
+        // `update()` mass-assigns the validated attributes that are in `$fillable`
+        // (`shared_with` and `tags` are not columns and are ignored here) and saves the model,
+        // refreshing the `updated_at` timestamp.
+        $note->update($validated);
+
+        $this->syncShares($note, $validated);
+        $this->syncTags($note, $validated);
+
+        // Load the author so `NoteResource` includes `authorName`, matching the other note endpoints.
+        $note->load(['user', 'sharedWith', 'tags']);
+
+        return response()->json(new NoteResource($note));
+    }
+
+    /**
+     * Delete a note owned by the authenticated user.
+     *
+     * @authenticated
+     *
+     * @urlParam note integer required The ID of the note. Example: 3
+     *
+     * @response {
+     *   "message": "Note deleted successfully."
+     * }
+     *
+     * @response 401 {
+     *   "message": "Unauthenticated."
+     * }
+     *
+     * @response 403 {
+     *   "message": "This action is unauthorized."
+     * }
+     *
+     * @response 404 {
+     *   "message": "No query results for model [App\\Models\\Note] 3"
+     * }
+     *
+     * @param Note $note The note resolved from the `{note}` route segment (route model binding).
+     * @return JsonResponse
+     */
+    public function destroy(Note $note): JsonResponse
+    {
+        // Only the author may delete a note (see `NotePolicy::delete`).
+        Gate::authorize('delete', $note);
+
+        $note->delete();
+
+        // A small JSON body (rather than 204 No Content) keeps the response parseable
+        // by the frontend Zod schemas, like the logout endpoint does.
+        return response()->json(['message' => 'Note deleted successfully.']);
+    }
+
+    /**
+     * Validation rules for the optional `visibility` and `shared_with` fields of `store` and `update`.
+     *
+     * @return array<string, mixed>
+     */
+    private function visibilityRules(): array
+    {
+        return [
+            // `Rule::enum` accepts only the values of `NoteVisibility` (private, public, shared).
+            'visibility' => ['sometimes', Rule::enum(NoteVisibility::class)],
+            'shared_with' => 'sometimes|array|max:100',
+            'shared_with.*' => 'integer|distinct|exists:users,id',
+        ];
+    }
+
+    /**
+     * Replaces the note's share list when the request included `shared_with`.
+     * The author is dropped from the list: they can always read their own note.
+     *
+     * @param Note $note The note being created or updated.
+     * @param array<string, mixed> $validated The validated request data.
+     */
+    private function syncShares(Note $note, array $validated): void
+    {
+        if (! array_key_exists('shared_with', $validated)) {
+            return;
+        }
+
+        // `sync()` adds missing rows to `note_shares` and removes the ones no longer listed.
+        $note->sharedWith()->sync(
+            array_values(array_diff($validated['shared_with'], [$note->user_id]))
+        );
+    }
+
+    /**
+     * Validation rules for the optional `tags` field of `store` and `update`.
+     *
+     * @return array<string, mixed>
+     */
+    private function tagRules(): array
+    {
+        return [
+            'tags' => 'sometimes|array|max:10',
+            // Same characters as `TagController` accepts: letters, digits, spaces, dots, dashes and underscores.
+            'tags.*' => ['string', 'max:'.Tag::MAX_NAME_LENGTH, 'regex:/^[\pL\pN ._-]+$/u'],
+        ];
+    }
+
+    /**
+     * Replaces the note's tags when the request included `tags`.
+     * Names are normalized, and names the author hasn't used before become new tags.
+     *
+     * @param Note $note The note being created or updated.
+     * @param array<string, mixed> $validated The validated request data.
+     */
+    private function syncTags(Note $note, array $validated): void
+    {
+        if (! array_key_exists('tags', $validated)) {
+            return;
+        }
+
+        $tagIds = collect($validated['tags'])
+            ->map(fn (string $name) => Tag::normalizeName($name))
+            ->filter()
+            ->unique()
+            ->map(fn (string $name) => Tag::firstOrCreate(['user_id' => $note->user_id, 'name' => $name])->id);
+
+        $note->tags()->sync($tagIds->all());
+    }
 }
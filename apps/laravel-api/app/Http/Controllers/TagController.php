@@ -0,0 +1,126 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use Illuminate\Http\Request;
+use App\Models\Tag;
+use App\Http\Resources\TagResource;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Support\Facades\Gate;
+use Illuminate\Validation\Rule;
+
+/**
+ * Tags controller for managing the authenticated user's tags.
+ *
+ * Tags are usually created implicitly by saving a note with a new tag name (see
+ * `NoteController::syncTags`); these endpoints let users list, rename and clean up their tags.
+ * Tag names are normalized to lower case before validation (see `Tag::normalizeName`).
+ */
+class TagController extends Controller
+{
+    /**
+     * List the authenticated user's tags, alphabetically, with the number of notes using each.
+     *
+     * @authenticated
+     *
+     * @response [
+     *   {
+     *     "id": 1,
+     *     "name": "laravel",
+     *     "notesCount": 4,
+     *     "created_at": "2025-05-07T01:30:00.000000Z",
+     *     "updated_at": "2025-05-07T01:30:00.000000Z"
+     *   }
+     * ]
+     */
+    public function index(Request $request)
+    {
+        $tags = $request->user()->tags()->withCount('notes')->orderBy('name')->get();
+
+        return TagResource::collection($tags);
+    }
+
+    /**
+     * Create a tag for the authenticated user.
+     *
+     * @authenticated
+     *
+     * @bodyParam name string required The tag name; stored in lower case. Example: laravel
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $validated = $this->validateName($request);
+
+        $tag = $request->user()->tags()->create(['name' => $validated['name']]);
+
+        return response()->json(new TagResource($tag), 201);
+    }
+
+    /**
+     * Rename a tag owned by the authenticated user. Notes keep the tag under its new name.
+     *
+     * @authenticated
+     *
+     * @urlParam tag integer required The ID of the tag. Example: 1
+     * @bodyParam name string required The new tag name; stored in lower case. Example: php
+     */
+    public function update(Request $request, Tag $tag): JsonResponse
+    {
+        Gate::authorize('update', $tag);
+
+        $validated = $this->validateName($request, $tag);
+
+        $tag->update(['name' => $validated['name']]);
+
+        return response()->json(new TagResource($tag));
+    }
+
+    /**
+     * Delete a tag owned by the authenticated user. It is removed from every note that had it;
+     * the notes themselves are kept.
+     *
+     * @authenticated
+     *
+     * @urlParam tag integer required The ID of the tag. Example: 1
+     *
+     * @response {
+     *   "message": "Tag deleted successfully."
+     * }
+     */
+    public function destroy(Tag $tag): JsonResponse
+    {
+        Gate::authorize('delete', $tag);
+
+        // Rows in `note_tag` are removed by the foreign key's `cascadeOnDelete`.
+        $tag->delete();
+
+        return response()->json(['message' => 'Tag deleted successfully.']);
+    }
+
+    /**
+     * Normalizes and validates the `name` field.
+     *
+     * @param Request $request The incoming request.
+     * @param Tag|null $tag The tag being renamed, which may keep its own name.
+     * @return array<string, string>
+     */
+    private function validateName(Request $request, ?Tag $tag = null): array
+    {
+        if (is_string($request->input('name'))) {
+            $request->merge(['name' => Tag::normalizeName($request->input('name'))]);
+        }
+
+        return $request->validate([
+            'name' => [
+                'required',
+                'string',
+                'max:'.Tag::MAX_NAME_LENGTH,
+                // Letters, digits, spaces, dots, dashes and underscores.
+                'regex:/^[\pL\pN ._-]+$/u',
+                Rule::unique('tags')
+                    ->where('user_id', $request->user()->id)
+                    ->ignore($tag?->id),
+            ],
+        ]);
+    }
+}
@@ -62,6 +62,24 @@ public function toArray(Request $request): array
                 return $this->user->name;
             }),
 
+            // Who can read the note: private, public or shared (see `App\Enums\NoteVisibility`).
+            'visibility' => $this->visibility->value,
+
+            // IDs of the users a shared note is shared with. Only the author gets to see who else
+            // can read their note; everyone else receives an empty list.
+            'sharedWith' => $this->when(
+                $request->user('sanctum')?->id === $this->user_id && $this->relationLoaded('sharedWith'),
+                fn () => $this->sharedWith->pluck('id')->all(),
+                []
+            ),
+
+            // Tag names, alphabetically. Empty when the note has no tags.
+            'tags' => $this->whenLoaded(
+                'tags',
+                fn () => $this->tags->pluck('name')->sort()->values()->all(),
+                []
+            ),
+
             // Format timestamps into a standard ISO 8601 compatible string.
             // Assumes `created_at` and `updated_at` are Carbon instances (default Eloquent behavior for timestamps).
             'created_at' => $this->created_at->toDateTimeString(),
@@ -0,0 +1,38 @@
+<?php
+
+/**
+ * @file apps/laravel-api/app/Http/Resources/TagResource.php
+ * @description API Resource for transforming a Tag model into a JSON representation.
+ *
+ * For a learner:
+ * - `whenCounted('notes')` only includes `notesCount` when the query used
+ *   `withCount('notes')`, in the same way `whenLoaded` works for relationships.
+ */
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+/**
+ * Represents a Tag object formatted for API responses.
+ */
+class TagResource extends JsonResource
+{
+    /**
+     * Transform the resource (a single Tag model) into an array.
+     *
+     * @param \Illuminate\Http\Request $request The incoming request instance.
+     * @return array<string, mixed> The array representation of the resource.
+     */
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->id, // Unique ID of the tag.
+            'name' => $this->name, // Lower-case tag name, unique per user.
+            'notesCount' => $this->whenCounted('notes'), // Number of notes with this tag.
+            'created_at' => $this->created_at->toDateTimeString(),
+            'updated_at' => $this->updated_at->toDateTimeString(),
+        ];
+    }
+}
@@ -15,12 +15,17 @@
  * - Methods like `user()` define relationships between models (e.g., Note belongs to User).
  * - These relationships allow easy data retrieval (e.g., `$note->user->name`) and
  *   efficient querying using eager loading (`Note::with('user')`).
+ * - `scopeVisibleTo()` is a "local scope": it is called as `Note::visibleTo($user)` and keeps
+ *   the "who may read which note" rule in one place for every query that lists notes.
  */
 
 namespace App\Models;
 
+use Illuminate\Database\Eloquent\Builder; // Type hint for query scopes.
 use Illuminate\Database\Eloquent\Model; // Base Eloquent model class.
 use Illuminate\Database\Eloquent\Relations\BelongsTo; // Type hint for BelongsTo relationship.
+use Illuminate\Database\Eloquent\Relations\BelongsToMany; // Type hint for the share list.
+use App\Enums\NoteVisibility; // Who can read a note.
 use App\Models\User; // Import the related User model.
 
 class Note extends Model
@@ -38,7 +43,25 @@ class Note extends Model
      *
      * @var array<int, string>
      */
-    protected $fillable = ['user_id', 'title', 'content'];
+    protected $fillable = ['user_id', 'title', 'content', 'visibility'];
+
+    /**
+     * Attribute casts. `visibility` is read and written as a `NoteVisibility` enum case.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'visibility' => NoteVisibility::class,
+    ];
+
+    /**
+     * Default attribute values for new notes that don't specify them.
+     *
+     * @var array<string, mixed>
+     */
+    protected $attributes = [
+        'visibility' => 'public',
+    ];
 
     /**
      * Get the user (author) that owns the note.
@@ -60,4 +83,55 @@ public function user(): BelongsTo
         // Defines the relationship: A Note belongs to a User.
         return $this->belongsTo(User::class);
     }
+
+    /**
+     * Get the users a `shared` note is shared with (the `note_shares` pivot table).
+     *
+     * The list is kept even if the author later switches the note to `private` or `public`,
+     * but it only grants access while the visibility is `shared`.
+     */
+    public function sharedWith(): BelongsToMany
+    {
+        return $this->belongsToMany(User::class, 'note_shares')->withTimestamps();
+    }
+
+    /**
+     * Get the tags attached to the note (the `note_tag` pivot table).
+     * Notes only carry tags owned by their author.
+     */
+    public function tags(): BelongsToMany
+    {
+        return $this->belongsToMany(Tag::class);
+    }
+
+    /**
+     * Scope a query to the notes the given user (or a guest, when `null`) may read:
+     * public notes, the user's own notes, and `shared` notes listing the user.
+     */
+    public function scopeVisibleTo(Builder $query, ?User $user): void
+    {
+        $query->where(function (Builder $query) use ($user) {
+            $query->where('visibility', NoteVisibility::Public->value);
+
+            if ($user) {
+                $query->orWhere('user_id', $user->id)
+                    ->orWhere(function (Builder $query) use ($user) {
+                        $query->where('visibility', NoteVisibility::Shared->value)
+                            ->whereHas('sharedWith', fn (Builder $query) => $query->whereKey($user->id));
+                    });
+            }
+        });
+    }
+
+    /**
+     * Scope a query to notes carrying every one of the given tag names.
+     *
+     * @param array<int, string> $names Normalized tag names (see `Tag::normalizeName`).
+     */
+    public function scopeWithAllTags(Builder $query, array $names): void
+    {
+        foreach (array_unique($names) as $name) {
+            $query->whereHas('tags', fn (Builder $query) => $query->where('name', $name));
+        }
+    }
 }
@@ -0,0 +1,60 @@
+<?php
+
+/**
+ * @file apps/laravel-api/app/Models/Tag.php
+ * @description Eloquent model for a tag used to categorise notes.
+ *
+ * Each tag belongs to one user, who attaches it to their own notes. Names are stored in
+ * lower case (see `normalizeName`), so "Laravel" and "laravel" are the same tag.
+ *
+ * For a learner:
+ * - `notes()` is a many-to-many relationship: a note can have many tags and a tag can be
+ *   on many notes. Laravel stores the links in the `note_tag` pivot table, named by
+ *   convention from the two models in alphabetical order.
+ */
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\BelongsToMany;
+
+class Tag extends Model
+{
+    /**
+     * Maximum length of a tag name, shared by validation and the `tags.name` column.
+     */
+    public const MAX_NAME_LENGTH = 30;
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = ['user_id', 'name'];
+
+    /**
+     * Get the user who owns the tag.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Get the notes the tag is attached to.
+     */
+    public function notes(): BelongsToMany
+    {
+        return $this->belongsToMany(Note::class);
+    }
+
+    /**
+     * Normalizes a tag name as typed by a user: trims it, collapses inner whitespace and
+     * lower-cases it, so equivalent spellings map to the same tag.
+     */
+    public static function normalizeName(string $name): string
+    {
+        return mb_strtolower(preg_replace('/\s+/u', ' ', trim($name)));
+    }
+}
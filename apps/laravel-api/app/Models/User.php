@@ -92,4 +92,12 @@ protected function casts(): array
     // {
     //     return $this->hasMany(Note::class);
     // }
+
+    /**
+     * Get the tags the user has created for categorising their notes.
+     */
+    public function tags(): \Illuminate\Database\Eloquent\Relations\HasMany
+    {
+        return $this->hasMany(Tag::class);
+    }
 }
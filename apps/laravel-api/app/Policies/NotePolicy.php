@@ -0,0 +1,43 @@
+<?php
+
+/**
+ * @file apps/laravel-api/app/Policies/NotePolicy.php
+ * @description Authorization rules for actions performed on a Note.
+ *
+ * Policies group the "is this user allowed to do X with this model?" logic in one place,
+ * instead of scattering `if ($note->user_id !== $user->id)` checks across controllers.
+ * Laravel discovers this policy automatically because it follows the naming convention
+ * `App\Policies\{Model}Policy` for the `App\Models\Note` model.
+ *
+ * For a learner:
+ * - Controllers call `Gate::authorize('update', $note)`; Laravel resolves this policy and
+ *   calls the `update` method with the authenticated user and the note.
+ * - Returning `false` makes Laravel throw an `AuthorizationException`, which is rendered
+ *   as a 403 JSON response (and documented as such by Scramble).
+ */
+
+namespace App\Policies;
+
+use App\Models\Note;
+use App\Models\User;
+
+class NotePolicy
+{
+    /**
+     * Determine whether the user can update the note.
+     * Only the author of a note may edit it.
+     */
+    public function update(User $user, Note $note): bool
+    {
+        return $note->user_id === $user->id;
+    }
+
+    /**
+     * Determine whether the user can delete the note.
+     * Only the author of a note may delete it.
+     */
+    public function delete(User $user, Note $note): bool
+    {
+        return $note->user_id === $user->id;
+    }
+}
@@ -0,0 +1,33 @@
+<?php
+
+/**
+ * @file apps/laravel-api/app/Policies/TagPolicy.php
+ * @description Authorization rules for actions performed on a Tag.
+ *
+ * Tags belong to the user who created them, so only that user may rename or delete them.
+ * Like `NotePolicy`, Laravel discovers this class by naming convention.
+ */
+
+namespace App\Policies;
+
+use App\Models\Tag;
+use App\Models\User;
+
+class TagPolicy
+{
+    /**
+     * Determine whether the user can rename the tag.
+     */
+    public function update(User $user, Tag $tag): bool
+    {
+        return $tag->user_id === $user->id;
+    }
+
+    /**
+     * Determine whether the user can delete the tag.
+     */
+    public function delete(User $user, Tag $tag): bool
+    {
+        return $tag->user_id === $user->id;
+    }
+}
@@ -4,6 +4,8 @@
 
 use Illuminate\Support\ServiceProvider;
 use Illuminate\Http\Resources\Json\JsonResource;
+use App\Http\Controllers\AuthController;
+use Laravel\Sanctum\Sanctum;
 
 class AppServiceProvider extends ServiceProvider
 {
@@ -21,5 +23,12 @@ public function register(): void
     public function boot(): void
     {
         JsonResource::withoutWrapping();
+
+        // Refresh tokens live in the same table as access tokens, so tell Sanctum to
+        // reject them on `auth:sanctum` routes. They are only accepted by POST /auth/refresh.
+        Sanctum::authenticateAccessTokensUsing(
+            fn ($accessToken, bool $isValid) => $isValid
+                && $accessToken->name !== AuthController::REFRESH_TOKEN_NAME
+        );
     }
 }
@@ -16,9 +16,11 @@
         $middleware->api(prepend: [
             \Illuminate\Http\Middleware\HandleCors::class,
         ]);
-        // Remove statefulApi() to make API routes stateless
-        // This is appropriate for token-based authentication with Sanctum
-        // and doesn't require CSRF protection
+        // Sanctum's SPA authentication (the web app's cookie auth mode): requests coming from
+        // a domain listed in SANCTUM_STATEFUL_DOMAINS get a session cookie and CSRF protection.
+        // Every other request (the mobile app, the web app in token mode) stays stateless and
+        // authenticates with its Bearer token. The list is empty by default.
+        $middleware->statefulApi();
     })
     ->withExceptions(function (Exceptions $exceptions) {
         //
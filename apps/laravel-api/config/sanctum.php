@@ -1,7 +1,5 @@
 <?php
 
-use Laravel\Sanctum\Sanctum;
-
 return [
 
     /*
@@ -13,14 +11,14 @@
     | authentication cookies. Typically, these should include your local
     | and production domains which access your API via a frontend SPA.
     |
+    | Only list the web app here when it runs in cookie auth mode
+    | (NEXT_PUBLIC_AUTH_MODE=cookie), e.g. "localhost:3000": stateful requests
+    | must carry a CSRF token, which the token mode doesn't send. Empty by
+    | default, so every client authenticates with Bearer tokens.
+    |
     */
 
-    'stateful' => explode(',', env('SANCTUM_STATEFUL_DOMAINS', sprintf(
-        '%s%s',
-        'localhost,localhost:3000,127.0.0.1,127.0.0.1:8000,::1',
-        Sanctum::currentApplicationUrlWithPort(),
-        // Sanctum::currentRequestHost(),
-    ))),
+    'stateful' => array_filter(explode(',', env('SANCTUM_STATEFUL_DOMAINS', ''))),
 
     /*
     |--------------------------------------------------------------------------
@@ -49,6 +47,22 @@
 
     'expiration' => null,
 
+    /*
+    |--------------------------------------------------------------------------
+    | Access & Refresh Token Lifetimes
+    |--------------------------------------------------------------------------
+    |
+    | The API issues a short-lived access token together with a long-lived
+    | refresh token on login and registration. Clients exchange the refresh
+    | token at POST /api/auth/refresh for a new pair when the access token
+    | expires. Both values are expressed in minutes.
+    |
+    */
+
+    'access_token_expiration' => env('SANCTUM_ACCESS_TOKEN_EXPIRATION', 60),
+
+    'refresh_token_expiration' => env('SANCTUM_REFRESH_TOKEN_EXPIRATION', 60 * 24 * 30),
+
     /*
     |--------------------------------------------------------------------------
     | Token Prefix
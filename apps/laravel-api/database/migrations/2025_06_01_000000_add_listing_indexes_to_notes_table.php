@@ -0,0 +1,35 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Indexes matching the sort orders offered by GET /api/notes, so cursor
+     * pagination doesn't have to sort the whole table for every page.
+     */
+    public function up(): void
+    {
+        Schema::table('notes', function (Blueprint $table) {
+            $table->index(['created_at', 'id']);
+            $table->index(['updated_at', 'id']);
+            $table->index(['title', 'id']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('notes', function (Blueprint $table) {
+            $table->dropIndex(['created_at', 'id']);
+            $table->dropIndex(['updated_at', 'id']);
+            $table->dropIndex(['title', 'id']);
+        });
+    }
+};
@@ -0,0 +1,43 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Adds `notes.visibility` (see App\Enums\NoteVisibility) and the `note_shares` table
+     * listing the users a "shared" note is shared with. Existing notes were readable by
+     * everyone, so they default to "public".
+     */
+    public function up(): void
+    {
+        Schema::table('notes', function (Blueprint $table) {
+            $table->string('visibility', 16)->default('public')->index()->after('content');
+        });
+
+        Schema::create('note_shares', function (Blueprint $table) {
+            $table->foreignId('note_id')->constrained()->cascadeOnDelete();
+            $table->foreignId('user_id')->constrained()->cascadeOnDelete();
+            $table->timestamps();
+            // A note is shared with each user at most once.
+            $table->primary(['note_id', 'user_id']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('note_shares');
+
+        Schema::table('notes', function (Blueprint $table) {
+            $table->dropIndex(['visibility']);
+            $table->dropColumn('visibility');
+        });
+    }
+};
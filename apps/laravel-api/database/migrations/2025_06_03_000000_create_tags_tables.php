@@ -0,0 +1,43 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Tags belong to a user (each user curates their own list) and are attached to
+     * notes through the `note_tag` pivot table.
+     */
+    public function up(): void
+    {
+        Schema::create('tags', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->constrained()->cascadeOnDelete();
+            $table->string('name', 30);
+            $table->timestamps();
+            // A user can't have two tags with the same name.
+            $table->unique(['user_id', 'name']);
+            // Filtering notes by tag looks tags up by name across users.
+            $table->index('name');
+        });
+
+        Schema::create('note_tag', function (Blueprint $table) {
+            $table->foreignId('note_id')->constrained()->cascadeOnDelete();
+            $table->foreignId('tag_id')->constrained()->cascadeOnDelete();
+            $table->primary(['note_id', 'tag_id']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('note_tag');
+        Schema::dropIfExists('tags');
+    }
+};
@@ -9,7 +9,9 @@
  * to specific controller actions or closures.
  *
  * It utilizes Laravel Sanctum for API authentication, protecting routes that
- * require a valid user session (via API tokens).
+ * require a valid user session (via API tokens or, for the web app in cookie auth mode,
+ * a session cookie). Sanctum itself registers GET /sanctum/csrf-cookie, which cookie
+ * clients call to receive the CSRF token their state-changing requests must carry.
  *
  * For a learner:
  * - This is the entry point for all API requests to your backend.
@@ -25,6 +27,7 @@
 use Illuminate\Support\Facades\Route; // Laravel's Facade for defining routes.
 use App\Http\Controllers\AuthController;
 use App\Http\Controllers\NoteController;
+use App\Http\Controllers\TagController;
 
 // A simple public GET route for testing or basic info.
 // Example: GET /api/hello
@@ -39,6 +42,9 @@
     // Publicly accessible routes for user registration and login.
     Route::post('/register', [AuthController::class, 'register'])->name('auth.register'); // Named route
     Route::post('/login', [AuthController::class, 'login'])->name('auth.login');       // Named route
+    // Exchanges a refresh token for a new access/refresh token pair. Public because the
+    // access token is usually already expired when this is called.
+    Route::post('/refresh', [AuthController::class, 'refresh'])->name('auth.refresh');
 
     // Routes within this group require authentication via Sanctum API tokens.
     // The 'auth:sanctum' middleware will ensure that the request includes a valid token.
@@ -56,7 +62,31 @@
 // Example: GET /api/notes
 Route::get('/notes', [NoteController::class, 'index'])->name('notes.index');
 
+// Authenticated endpoint: retrieves only the logged-in user's notes.
+// Accepts the same search, sort and pagination parameters as GET /notes.
+// Example: GET /api/notes/mine
+Route::middleware('auth:sanctum')->get('/notes/mine', [NoteController::class, 'mine'])->name('notes.mine');
+
 // Authenticated endpoint: creates a new note for the logged-in user.
 // Requires a valid Sanctum API token due to the 'auth:sanctum' middleware.
 // Example: POST /api/notes
-Route::middleware('auth:sanctum')->post('/notes', [NoteController::class, 'store'])->name('notes.store');
\ No newline at end of file
+Route::middleware('auth:sanctum')->post('/notes', [NoteController::class, 'store'])->name('notes.store');
+
+// Authenticated endpoints: edit or delete an existing note.
+// `{note}` uses route model binding, so a missing note returns 404 automatically.
+// Ownership is enforced inside the controller via `App\Policies\NotePolicy`.
+// Example: PUT /api/notes/3, DELETE /api/notes/3
+Route::middleware('auth:sanctum')->put('/notes/{note}', [NoteController::class, 'update'])->name('notes.update');
+Route::middleware('auth:sanctum')->delete('/notes/{note}', [NoteController::class, 'destroy'])->name('notes.destroy');
+
+// --- Tag Routes ---
+
+// Authenticated endpoints: list, create, rename and delete the logged-in user's tags.
+// Renaming and deleting are limited to the tag's owner via `App\Policies\TagPolicy`.
+// Example: GET /api/tags, POST /api/tags, PUT /api/tags/1, DELETE /api/tags/1
+Route::middleware('auth:sanctum')->group(function () {
+    Route::get('/tags', [TagController::class, 'index'])->name('tags.index');
+    Route::post('/tags', [TagController::class, 'store'])->name('tags.store');
+    Route::put('/tags/{tag}', [TagController::class, 'update'])->name('tags.update');
+    Route::delete('/tags/{tag}', [TagController::class, 'destroy'])->name('tags.destroy');
+});
\ No newline at end of file
@@ -31,6 +31,7 @@ import React from 'react';
 import { Providers } from './providers'; // Centralized context providers.
 import { Header } from '../components/Header'; // Global header component.
 import { YStack } from 'tamagui'; // Tamagui component for vertical stacking/layout.
+import { SchemaDriftOverlay } from '@hello-world/shared'; // Lists API schema drift in development.
 
 /**
  * Defines the root layout for the Next.js application.
@@ -79,6 +80,8 @@ export default function RootLayout({
             {/* `children` will be the actual page component rendered by Next.js routing. */}
             {children}
           </YStack>
+          {/* Development-only badge listing API responses that didn't match their schema. */}
+          <SchemaDriftOverlay />
         </Providers>
       </body>
     </html>
@@ -1,12 +1,23 @@
 'use client'; // Required for pages that use client-side hooks like TanStack Query
 
+import { Suspense } from 'react';
 import { NotesScreen } from '@hello-world/features-notes';
 import { YStack } from 'tamagui';
+import { useTagsSearchParam } from '../../components/useTagsSearchParam';
+
+// The tag filter lives in the URL (`/notes?tags=work,ideas`) so filtered lists can be shared.
+function NotesWithTagFilter() {
+  const { tags, setTags } = useTagsSearchParam();
+  return <NotesScreen tags={tags} onTagsChange={setTags} />;
+}
 
 export default function NotesPage() {
   return (
     <YStack f={1} p="$4">
-      <NotesScreen />
+      {/* `useSearchParams` needs a Suspense boundary so the page can still be prerendered. */}
+      <Suspense>
+        <NotesWithTagFilter />
+      </Suspense>
     </YStack>
   );
 }
@@ -7,19 +7,20 @@ import { HomeScreen } from '@hello-world/dashboard';
 import { YStack, Spinner } from 'tamagui'; // Import Spinner for loading state
 
 export default function ProtectedHomePage() {
-  const { isAuthenticated, isLoadingUser } = useAuth();
+  const { status } = useAuth();
   const router = useRouter();
 
   useEffect(() => {
-    // Wait until the auth state is determined (not loading)
-    if (!isLoadingUser && !isAuthenticated) {
-      // If not loading and not authenticated, redirect to notes
+    // Wait until the auth state is determined: on a cold start the stored session is still
+    // loading, and redirecting then would send signed-in users away too
+    if (status === 'anonymous') {
+      // Nobody is signed in, redirect to notes
       router.replace('/notes');
     }
-  }, [isAuthenticated, isLoadingUser, router]);
+  }, [status, router]);
 
   // Show loading indicator while checking auth status
-  if (isLoadingUser) {
+  if (status === 'unknown') {
     return (
       <YStack flex={1} justifyContent="center" alignItems="center">
         <Spinner size="large" />
@@ -29,11 +30,11 @@ export default function ProtectedHomePage() {
 
   // If authenticated, render the actual home screen content
   // The HomeScreen component itself handles displaying user info and logout
-  if (isAuthenticated) {
+  if (status === 'authenticated') {
     return <HomeScreen />;
   }
 
-  // Render null or a minimal layout while redirecting or if auth state is indeterminate
+  // Render null while redirecting
   // This prevents flashing unauthenticated content
   return null;
 }
@@ -1,20 +1,37 @@
 'use client';
 
+import { Suspense } from 'react';
 import { useRouter } from 'next/navigation';
 import { ProtectedNotesScreen } from '@hello-world/features-notes';
 import { YStack } from 'tamagui';
+import { useTagsSearchParam } from '../../components/useTagsSearchParam';
 
-export default function ProtectedNotesPage() {
+function ProtectedNotesWithTagFilter() {
   const router = useRouter();
+  // The tag filter lives in the URL (`/protected-notes?tags=work`) so it survives reloads.
+  const { tags, setTags } = useTagsSearchParam();
 
   // Handle unauthorized access by redirecting to login
   const handleUnauthorized = () => {
     router.push('/login?returnUrl=/protected-notes');
   };
 
+  return (
+    <ProtectedNotesScreen
+      onUnauthorized={handleUnauthorized}
+      tags={tags}
+      onTagsChange={setTags}
+    />
+  );
+}
+
+export default function ProtectedNotesPage() {
   return (
     <YStack f={1} p="$4">
-      <ProtectedNotesScreen onUnauthorized={handleUnauthorized} />
+      {/* `useSearchParams` needs a Suspense boundary so the page can still be prerendered. */}
+      <Suspense>
+        <ProtectedNotesWithTagFilter />
+      </Suspense>
     </YStack>
   );
 }
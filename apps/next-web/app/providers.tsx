@@ -18,10 +18,10 @@
  */
 'use client'; // This directive is essential for Next.js App Router.
 
-import React, { useState, PropsWithChildren } from 'react';
+import React, { PropsWithChildren } from 'react';
 import TamaguiConfig from '../tamagui.config'; // Tamagui configuration for the Next.js app.
 import { TamaguiProvider, TamaguiProviderProps } from 'tamagui'; // Core Tamagui provider.
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'; // Core React Query provider and client.
+import { SessionQueryClientProvider } from '@hello-world/auth'; // React Query provider with one cache per signed-in account.
 
 /**
  * Props for the `Providers` component.
@@ -40,12 +40,10 @@ type AppProvidersProps = PropsWithChildren<
  * @param {AppProvidersProps} props - The props for the component, including children.
  */
 export function Providers({ children, ...rest }: AppProvidersProps) {
-  // Initialize the React Query client.
-  // `useState(() => new QueryClient())` ensures that the QueryClient instance
-  // is created only once when the component mounts on the client-side and is
-  // persisted across re-renders. This is the recommended way to create and
-  // provide the client in a React application.
-  const [queryClient] = useState(() => new QueryClient());
+  // React Query clients are created by `SessionQueryClientProvider`: one per signed-in
+  // account plus one for anonymous browsing, so cached data never bleeds between accounts.
+  // When a session ends (logout, or the API client failing to renew it), that session's
+  // cache is discarded and auth-aware screens see a logged-out state.
 
   // Render the providers, wrapping the application's children.
   return (
@@ -56,10 +54,10 @@ export function Providers({ children, ...rest }: AppProvidersProps) {
     //   separately if desired, potentially by managing a theme state here or in a theme context.
     <TamaguiProvider config={TamaguiConfig} defaultTheme="light" {...rest}>
       {/*
-        QueryClientProvider makes the `queryClient` instance available to all
+        SessionQueryClientProvider makes the active account's `QueryClient` available to all
         descendant components, allowing them to use React Query hooks (useQuery, useMutation).
       */}
-      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+      <SessionQueryClientProvider>{children}</SessionQueryClientProvider>
     </TamaguiProvider>
   );
 }
@@ -1,10 +1,12 @@
 'use client';
 
-import React from 'react';
-import { XStack, Paragraph, styled, Stack } from 'tamagui';
+import React, { useState } from 'react';
+import { XStack, YStack, Paragraph, styled, Stack } from 'tamagui';
 import { Link } from 'solito/link';
-import { useAuth } from '@hello-world/auth';
+import { useRouter } from 'next/navigation';
+import { useAuth, SessionSwitcher } from '@hello-world/auth';
 import { Button } from '@hello-world/ui';
+import { DeveloperMenu, useSecretTaps } from '@hello-world/shared';
 
 // Create a styled container for our links
 const NavContainer = styled(Stack, {
@@ -31,7 +33,11 @@ function NavLink({
 }
 
 export function Header() {
-  const { isAuthenticated, logout, isLoggingOut, user } = useAuth();
+  const { status, isAuthenticated, logout, isLoggingOut, user } = useAuth();
+  const router = useRouter();
+  // Hidden developer menu (API environment switcher): tap "MyApp" five times quickly.
+  const [showDeveloperMenu, setShowDeveloperMenu] = useState(false);
+  const handleLogoPress = useSecretTaps(() => setShowDeveloperMenu(true));
 
   const handleLogout = () => {
     logout({
@@ -57,48 +63,66 @@ export function Header() {
   ];
 
   return (
-    <XStack
-      tag="header"
-      gap="$4"
-      padding="$4"
-      alignItems="center"
-      borderBottomWidth={1}
-      borderBottomColor="$borderColor"
-    >
-      <XStack alignItems="center" gap="$4">
-        <NavLink href="/">
-          <Paragraph cursor="pointer" fontWeight="bold">
-            MyApp
-          </Paragraph>
-        </NavLink>
-        {isAuthenticated && user && (
-          <Paragraph cursor="default" fontWeight="normal">
-            Hello {user.name}!
-          </Paragraph>
-        )}
+    <YStack>
+      <XStack
+        tag="header"
+        gap="$4"
+        padding="$4"
+        alignItems="center"
+        borderBottomWidth={1}
+        borderBottomColor="$borderColor"
+      >
+        <XStack alignItems="center" gap="$4">
+          <NavLink href="/">
+            <Paragraph
+              cursor="pointer"
+              fontWeight="bold"
+              onPress={handleLogoPress}
+            >
+              MyApp
+            </Paragraph>
+          </NavLink>
+          {isAuthenticated && user && (
+            <Paragraph cursor="default" fontWeight="normal">
+              Hello {user.name}!
+            </Paragraph>
+          )}
+        </XStack>
+        <XStack gap="$2" marginLeft="auto" alignItems="flex-start">
+          {/* Lists every account signed in on this device; hidden until someone has logged in. */}
+          <SessionSwitcher onAddAccount={() => router.push('/login')} />
+          {/* Nothing until the auth state is known, so signed-in users don't see "Login" flash by. */}
+          {status === 'unknown' ? null : isAuthenticated ? (
+            <>
+              {userLinks.map((link) => (
+                <NavLink key={link.href} href={link.href}>
+                  <Paragraph cursor="pointer">{link.label}</Paragraph>
+                </NavLink>
+              ))}
+              <Button
+                onPress={handleLogout}
+                disabled={isLoggingOut}
+                size="small"
+              >
+                {isLoggingOut ? 'Logging out...' : 'Logout'}
+              </Button>
+            </>
+          ) : (
+            <>
+              {authLinks.map((link) => (
+                <NavLink key={link.href} href={link.href}>
+                  <Paragraph cursor="pointer">{link.label}</Paragraph>
+                </NavLink>
+              ))}
+            </>
+          )}
+        </XStack>
       </XStack>
-      <XStack gap="$2" marginLeft="auto">
-        {isAuthenticated ? (
-          <>
-            {userLinks.map((link) => (
-              <NavLink key={link.href} href={link.href}>
-                <Paragraph cursor="pointer">{link.label}</Paragraph>
-              </NavLink>
-            ))}
-            <Button onPress={handleLogout} disabled={isLoggingOut} size="small">
-              {isLoggingOut ? 'Logging out...' : 'Logout'}
-            </Button>
-          </>
-        ) : (
-          <>
-            {authLinks.map((link) => (
-              <NavLink key={link.href} href={link.href}>
-                <Paragraph cursor="pointer">{link.label}</Paragraph>
-              </NavLink>
-            ))}
-          </>
-        )}
-      </XStack>
-    </XStack>
+      {showDeveloperMenu && (
+        <YStack padding="$4" maxWidth={560}>
+          <DeveloperMenu onClose={() => setShowDeveloperMenu(false)} />
+        </YStack>
+      )}
+    </YStack>
   );
 }
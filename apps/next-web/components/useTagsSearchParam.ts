@@ -0,0 +1,44 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+/**
+ * Keeps the notes tag filter in the `?tags=` query string (comma-separated, e.g.
+ * `/notes?tags=work,ideas`), so a filtered list can be bookmarked or shared as a link.
+ *
+ * @returns The selected tags and a setter that updates the URL without adding history entries.
+ */
+export function useTagsSearchParam() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const tagsParam = searchParams.get('tags') ?? '';
+
+  const tags = useMemo(
+    () =>
+      tagsParam
+        .split(',')
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean),
+    [tagsParam]
+  );
+
+  const setTags = useCallback(
+    (newTags: string[]) => {
+      const params = new URLSearchParams(searchParams.toString());
+      if (newTags.length > 0) {
+        params.set('tags', newTags.join(','));
+      } else {
+        params.delete('tags');
+      }
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [router, pathname, searchParams]
+  );
+
+  return { tags, setTags };
+}
@@ -0,0 +1,587 @@
+#!/usr/bin/env node
+
+/**
+ * Compares two versions of the OpenAPI spec and reports what changed, before the new spec
+ * replaces the old one (`yarn sync-api` runs it between downloading and generating).
+ *
+ * Usage:
+ *   node packages/api-types/scripts/check-api-changes.js [previous.json] [next.json] [--accept-breaking]
+ *
+ * By default it compares `apps/laravel-api/storage/openapi.json` (the spec the frontend was
+ * generated from) with `apps/laravel-api/storage/openapi.next.json` (the one just downloaded).
+ *
+ * Each change is classified as breaking or non-breaking:
+ * - Breaking: a removed endpoint, a new required request field or parameter, an enum that
+ *   accepts fewer values, a removed (or no longer guaranteed) response field, a type change.
+ * - Non-breaking: a new endpoint, a new optional field, a new response field, ...
+ * A type change is reported once, on the field whose type changed; the fields and items below
+ * it (e.g., those of a list that became a paginated object) are not listed as well.
+ *
+ * The rule of thumb: the API must keep accepting every request it accepted before, and must
+ * not send anything the frontend's schemas don't expect. Requests and responses are therefore
+ * compared in opposite directions (a new enum value is fine in a request, but breaks the
+ * `z.enum` a response is parsed with).
+ *
+ * For every endpoint with a breaking change the report lists the methods in
+ * `packages/shared/src/apiClient.ts` that call it. The script exits with code 1 when there are
+ * breaking changes, unless they are acknowledged with `--accept-breaking` or
+ * `ACCEPT_BREAKING_API_CHANGES=1` (e.g., `ACCEPT_BREAKING_API_CHANGES=1 yarn sync-api`).
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Paths
+const STORAGE_DIR = path.resolve(
+  __dirname,
+  '../../../apps/laravel-api/storage'
+);
+const API_CLIENT_FILE = path.resolve(
+  __dirname,
+  '../../shared/src/apiClient.ts'
+);
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+];
+
+// Which way a schema may change without breaking the frontend (see the header)
+const REQUEST = 'request';
+const RESPONSE = 'response';
+
+// Function to read the command line arguments
+function parseArguments(argv) {
+  const files = argv.filter((argument) => !argument.startsWith('--'));
+  return {
+    previousPath: path.resolve(
+      files[0] || path.join(STORAGE_DIR, 'openapi.json')
+    ),
+    nextPath: path.resolve(
+      files[1] || path.join(STORAGE_DIR, 'openapi.next.json')
+    ),
+    acceptBreaking:
+      argv.includes('--accept-breaking') ||
+      process.env.ACCEPT_BREAKING_API_CHANGES === '1',
+  };
+}
+
+// Follows `$ref`s (e.g., `#/components/schemas/NoteResource`) within the spec
+function resolve(spec, schema) {
+  let resolved = schema;
+  const seen = new Set();
+  while (resolved && resolved.$ref && !seen.has(resolved.$ref)) {
+    seen.add(resolved.$ref);
+    resolved = resolved.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce((node, key) => (node ? node[key] : undefined), spec);
+  }
+  return resolved || {};
+}
+
+// The types a schema allows, e.g., ['string', 'null'] (OpenAPI 3.1 and 3.0 `nullable`)
+function typesOf(schema) {
+  const types = [].concat(schema.type || []);
+  if (schema.nullable) {
+    types.push('null');
+  }
+  return types;
+}
+
+const isSubset = (values, of) => values.every((value) => of.includes(value));
+const list = (values) =>
+  values.map((value) => JSON.stringify(value)).join(', ');
+
+/**
+ * Compares two schemas and calls `report(breaking, kind, where, detail)` for each change.
+ * `direction` is REQUEST for data the frontend sends and RESPONSE for data it receives.
+ */
+function compareSchemas(specs, previous, next, direction, where, report, refs) {
+  const before = resolve(specs.previous, previous);
+  const after = resolve(specs.next, next);
+
+  // Stop at recursive schemas (a `$ref` that is already being compared)
+  const refKey = `${previous.$ref || ''}|${next.$ref || ''}`;
+  if (refKey !== '|' && refs.has(refKey)) {
+    return;
+  }
+  const nestedRefs = new Set(refs).add(refKey);
+
+  // Compositions (`anyOf`, ...) are only compared as a whole
+  const composition = ['allOf', 'anyOf', 'oneOf'].find(
+    (key) => before[key] || after[key]
+  );
+  if (composition) {
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      report(true, 'type change', where, `\`${composition}\` schema changed`);
+    }
+    return;
+  }
+
+  // Type changes: a request may accept more types, a response may return fewer
+  const typesBefore = typesOf(before);
+  const typesAfter = typesOf(after);
+  if (typesBefore.length && typesAfter.length) {
+    const compatible =
+      direction === REQUEST
+        ? isSubset(typesBefore, typesAfter)
+        : isSubset(typesAfter, typesBefore);
+    if (
+      !isSubset(typesBefore, typesAfter) ||
+      !isSubset(typesAfter, typesBefore)
+    ) {
+      report(
+        !compatible,
+        'type change',
+        where,
+        `${typesBefore.join(' | ')} -> ${typesAfter.join(' | ')}`
+      );
+    }
+
+    // A different kind of value (e.g., an array that became an object) has nothing to compare
+    // with, so its fields or items would only show up as removed and added. Becoming nullable
+    // keeps the shape, so those children are still compared.
+    const nonNull = (types) => types.filter((type) => type !== 'null');
+    if (
+      !isSubset(nonNull(typesBefore), typesAfter) ||
+      !isSubset(nonNull(typesAfter), typesBefore)
+    ) {
+      return;
+    }
+  }
+
+  // Enums: a request enum may gain values, a response enum may lose them
+  if (before.enum || after.enum) {
+    const valuesBefore = before.enum || [];
+    const valuesAfter = after.enum || [];
+    const removed = valuesBefore.filter(
+      (value) => !valuesAfter.includes(value)
+    );
+    const added = valuesAfter.filter((value) => !valuesBefore.includes(value));
+    if (!after.enum) {
+      report(
+        direction === RESPONSE,
+        'widened enum',
+        where,
+        'no longer an enum'
+      );
+    } else if (!before.enum) {
+      report(
+        direction === REQUEST,
+        'narrowed enum',
+        where,
+        `now ${list(valuesAfter)}`
+      );
+    } else {
+      if (removed.length) {
+        report(
+          direction === REQUEST,
+          'narrowed enum',
+          where,
+          `removed ${list(removed)}`
+        );
+      }
+      if (added.length) {
+        report(
+          direction === RESPONSE,
+          'widened enum',
+          where,
+          `added ${list(added)}`
+        );
+      }
+    }
+  }
+
+  // Objects: compare each property
+  if (before.properties || after.properties) {
+    const propertiesBefore = before.properties || {};
+    const propertiesAfter = after.properties || {};
+    const requiredBefore = before.required || [];
+    const requiredAfter = after.required || [];
+    const names = [
+      ...new Set([
+        ...Object.keys(propertiesBefore),
+        ...Object.keys(propertiesAfter),
+      ]),
+    ];
+
+    names.forEach((name) => {
+      const field = where ? `${where}.${name}` : name;
+      const wasRequired = requiredBefore.includes(name);
+      const isRequired = requiredAfter.includes(name);
+
+      if (!propertiesAfter[name]) {
+        if (direction === RESPONSE) {
+          report(true, 'removed response field', field);
+        } else {
+          report(false, 'removed request field', field);
+        }
+        return;
+      }
+      if (!propertiesBefore[name]) {
+        if (direction === REQUEST) {
+          report(
+            isRequired,
+            isRequired
+              ? 'new required request field'
+              : 'new optional request field',
+            field
+          );
+        } else {
+          report(false, 'new response field', field);
+        }
+        return;
+      }
+      if (wasRequired !== isRequired) {
+        if (direction === REQUEST) {
+          report(
+            isRequired,
+            isRequired
+              ? 'new required request field'
+              : 'request field now optional',
+            field
+          );
+        } else {
+          report(
+            !isRequired,
+            isRequired
+              ? 'response field now required'
+              : 'response field now optional',
+            field
+          );
+        }
+      }
+      compareSchemas(
+        specs,
+        propertiesBefore[name],
+        propertiesAfter[name],
+        direction,
+        field,
+        report,
+        nestedRefs
+      );
+    });
+  }
+
+  // Arrays: compare the items
+  if (before.items && after.items) {
+    compareSchemas(
+      specs,
+      before.items,
+      after.items,
+      direction,
+      `${where}[]`,
+      report,
+      nestedRefs
+    );
+  }
+}
+
+// The path and query parameters of an operation, keyed by `in:name`
+function parametersOf(spec, pathItem, operation) {
+  const parameters = {};
+  [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach(
+    (parameter) => {
+      const resolved = resolve(spec, parameter);
+      parameters[`${resolved.in}:${resolved.name}`] = resolved;
+    }
+  );
+  return parameters;
+}
+
+// The JSON schema of an operation's request body, if it has one
+function requestBodyOf(spec, operation) {
+  const body = resolve(spec, operation.requestBody);
+  return body.content?.['application/json']?.schema;
+}
+
+// Whether clients must send a request body (OpenAPI's `requestBody.required` defaults to false)
+function isRequestBodyRequired(spec, operation) {
+  return resolve(spec, operation.requestBody).required === true;
+}
+
+// The JSON schema of an operation's first successful (2xx) response, if it has one
+function successResponseOf(spec, operation) {
+  const status = Object.keys(operation.responses || {})
+    .filter((code) => /^2\d\d$/.test(code))
+    .sort()[0];
+  if (!status) {
+    return undefined;
+  }
+  const response = resolve(spec, operation.responses[status]);
+  return response.content?.['application/json']?.schema;
+}
+
+// Function to collect every operation of a spec, keyed by `METHOD /path`
+function operationsOf(spec) {
+  const operations = {};
+  Object.entries(spec.paths || {}).forEach(([route, pathItem]) => {
+    Object.entries(pathItem).forEach(([method, operation]) => {
+      if (HTTP_METHODS.includes(method)) {
+        operations[`${method.toUpperCase()} ${route}`] = {
+          alias: operation.operationId,
+          pathItem,
+          operation,
+        };
+      }
+    });
+  });
+  return operations;
+}
+
+// Function to compare two specs, returning one entry per change
+function diffSpecs(previousSpec, nextSpec) {
+  const specs = { previous: previousSpec, next: nextSpec };
+  const previousOperations = operationsOf(previousSpec);
+  const nextOperations = operationsOf(nextSpec);
+  const changes = [];
+
+  const keys = [
+    ...new Set([
+      ...Object.keys(previousOperations),
+      ...Object.keys(nextOperations),
+    ]),
+  ];
+
+  keys.forEach((endpoint) => {
+    const before = previousOperations[endpoint];
+    const after = nextOperations[endpoint];
+    const alias = (before || after).alias;
+    const report = (breaking, kind, where, detail) =>
+      changes.push({ endpoint, alias, breaking, kind, where, detail });
+
+    if (!after) {
+      report(true, 'removed endpoint');
+      return;
+    }
+    if (!before) {
+      report(false, 'new endpoint');
+      return;
+    }
+
+    // Parameters (path and query)
+    const parametersBefore = parametersOf(
+      previousSpec,
+      before.pathItem,
+      before.operation
+    );
+    const parametersAfter = parametersOf(
+      nextSpec,
+      after.pathItem,
+      after.operation
+    );
+    Object.keys({ ...parametersBefore, ...parametersAfter }).forEach((key) => {
+      const parameterBefore = parametersBefore[key];
+      const parameterAfter = parametersAfter[key];
+      const where = `${key.replace(':', ' parameter ')}`;
+      if (!parameterAfter) {
+        report(false, 'removed parameter', where);
+      } else if (!parameterBefore) {
+        report(
+          Boolean(parameterAfter.required),
+          parameterAfter.required
+            ? 'new required parameter'
+            : 'new optional parameter',
+          where
+        );
+      } else {
+        if (!parameterBefore.required && parameterAfter.required) {
+          report(true, 'new required parameter', where, 'was optional');
+        }
+        compareSchemas(
+          specs,
+          parameterBefore.schema || {},
+          parameterAfter.schema || {},
+          REQUEST,
+          where,
+          report,
+          new Set()
+        );
+      }
+    });
+
+    // Request body
+    const bodyBefore = requestBodyOf(previousSpec, before.operation);
+    const bodyAfter = requestBodyOf(nextSpec, after.operation);
+    if (!bodyBefore && bodyAfter) {
+      const schema = resolve(nextSpec, bodyAfter);
+      if (
+        isRequestBodyRequired(nextSpec, after.operation) &&
+        (schema.required || []).length
+      ) {
+        report(
+          true,
+          'new required request field',
+          'body',
+          'request body added'
+        );
+      } else {
+        // Clients that send no body keep working, so every field of it counts as optional
+        compareSchemas(
+          specs,
+          {},
+          { ...schema, required: [] },
+          REQUEST,
+          'body',
+          report,
+          new Set()
+        );
+      }
+    } else if (bodyBefore && bodyAfter) {
+      compareSchemas(
+        specs,
+        bodyBefore,
+        bodyAfter,
+        REQUEST,
+        'body',
+        report,
+        new Set()
+      );
+    }
+
+    // Successful response
+    const responseBefore = successResponseOf(previousSpec, before.operation);
+    const responseAfter = successResponseOf(nextSpec, after.operation);
+    if (responseBefore && !responseAfter) {
+      report(
+        true,
+        'removed response field',
+        'response',
+        'response body removed'
+      );
+    } else if (responseBefore && responseAfter) {
+      compareSchemas(
+        specs,
+        responseBefore,
+        responseAfter,
+        RESPONSE,
+        'response',
+        report,
+        new Set()
+      );
+    }
+  });
+
+  return changes;
+}
+
+// Function to find the `apiClient` methods that call each endpoint alias
+function findCallSites() {
+  const callSites = {};
+  if (!fs.existsSync(API_CLIENT_FILE)) {
+    return callSites;
+  }
+  const relativeFile = path.relative(process.cwd(), API_CLIENT_FILE);
+  let group;
+  let method;
+  fs.readFileSync(API_CLIENT_FILE, 'utf8')
+    .split('\n')
+    .forEach((line, index) => {
+      // e.g., `  notes: {` and `    getNotes: async (`
+      const groupMatch = line.match(/^ {2}(\w+): \{/);
+      const methodMatch = line.match(/^ {4}(\w+): async/);
+      const callMatch = line.match(/baseClient\['([^']+)'\]/);
+      if (groupMatch) {
+        group = groupMatch[1];
+      }
+      if (methodMatch) {
+        method = methodMatch[1];
+      }
+      if (callMatch) {
+        const alias = callMatch[1];
+        (callSites[alias] = callSites[alias] || []).push(
+          `apiClient.${group}.${method} (${relativeFile}:${index + 1})`
+        );
+      }
+    });
+  return callSites;
+}
+
+// Function to print the changes, breaking ones first
+function printReport(changes, callSites) {
+  const breaking = changes.filter((change) => change.breaking);
+  const nonBreaking = changes.filter((change) => !change.breaking);
+  const describeChange = (change) =>
+    `    - ${change.kind}${change.where ? `: ${change.where}` : ''}${
+      change.detail ? ` (${change.detail})` : ''
+    }`;
+  const printGroup = (title, group, withCallSites) => {
+    console.log(`\n${title} (${group.length})`);
+    const endpoints = [...new Set(group.map((change) => change.endpoint))];
+    endpoints.forEach((endpoint) => {
+      const endpointChanges = group.filter(
+        (change) => change.endpoint === endpoint
+      );
+      const alias = endpointChanges[0].alias;
+      console.log(`  ${endpoint}${alias ? ` (${alias})` : ''}`);
+      endpointChanges.forEach((change) => console.log(describeChange(change)));
+      if (withCallSites) {
+        const sites = callSites[alias] || [];
+        console.log(
+          sites.length
+            ? `    Used by: ${sites.join(', ')}`
+            : '    Used by: no apiClient method'
+        );
+      }
+    });
+  };
+
+  if (!changes.length) {
+    console.log('No API changes.');
+    return;
+  }
+  if (breaking.length) {
+    printGroup('Breaking changes', breaking, true);
+  }
+  if (nonBreaking.length) {
+    printGroup('Non-breaking changes', nonBreaking, false);
+  }
+}
+
+const { previousPath, nextPath, acceptBreaking } = parseArguments(
+  process.argv.slice(2)
+);
+
+if (!fs.existsSync(nextPath)) {
+  console.error('New OpenAPI spec not found at:', nextPath);
+  process.exit(1);
+}
+if (!fs.existsSync(previousPath)) {
+  // First sync: there is nothing to compare with
+  console.log(
+    'No previous OpenAPI spec at',
+    previousPath,
+    '- nothing to compare.'
+  );
+  process.exit(0);
+}
+
+try {
+  console.log(`Comparing ${previousPath}\n     with ${nextPath}`);
+  const changes = diffSpecs(
+    JSON.parse(fs.readFileSync(previousPath, 'utf8')),
+    JSON.parse(fs.readFileSync(nextPath, 'utf8'))
+  );
+  printReport(changes, findCallSites());
+
+  const breakingCount = changes.filter((change) => change.breaking).length;
+  if (breakingCount && !acceptBreaking) {
+    console.error(
+      `\n${breakingCount} breaking change(s). Update the frontend, then run again with ` +
+        '--accept-breaking (or ACCEPT_BREAKING_API_CHANGES=1 yarn sync-api) to acknowledge them.'
+    );
+    process.exit(1);
+  }
+  if (breakingCount) {
+    console.log(`\n${breakingCount} breaking change(s) acknowledged.`);
+  }
+} catch (error) {
+  console.error('Error comparing OpenAPI specs:', error);
+  process.exit(1);
+}
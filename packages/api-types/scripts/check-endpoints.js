@@ -1,107 +1,412 @@
 #!/usr/bin/env node
 
 /**
- * This script demonstrates how to check all available endpoints in the generated API client.
- * Run it with: node packages/api-types/scripts/check-endpoints.js
+ * Checks which API endpoints the frontend actually uses.
+ * Run it with: node packages/api-types/scripts/check-endpoints.js [--json] [--update-baseline]
+ *
+ * 1. Reads the generated `endpoints` array in `src/generated/api-client.ts`.
+ * 2. Reads `packages/shared/src/apiClient.ts` to see which `apiClient` method calls which
+ *    endpoint (`baseClient['note.index']`), and `packages/shared/src/generated/apiHooks.ts`
+ *    to see which generated hook calls which endpoint.
+ * 3. Reads the feature packages and apps to see which `apiClient` methods and generated
+ *    hooks they call.
+ *
+ * The files are parsed with the TypeScript compiler API, so only real calls count (not
+ * comments or strings). Every endpoint ends up in one of these groups:
+ * - used: called by the app,
+ * - dead: `apiClient` has a method for it, but nothing calls that method,
+ * - unimplemented: neither `apiClient` nor a hook used by the app calls it,
+ * - allowed: listed in the allowlist of `endpoint-coverage.json` (with the reason).
+ *
+ * `endpoint-coverage.json` also keeps a baseline: the coverage and the dead/unimplemented
+ * endpoints accepted so far. The script exits with code 1 when coverage regresses, i.e. when
+ * an endpoint is dead or unimplemented that isn't in the baseline (e.g., a new Laravel route
+ * without a client method). Run it with `--update-baseline` to accept the current state.
+ * `--json` prints the report as JSON, for other tools.
  */
 
-// Import the generated API client
-// First, let's check if the file exists
 const fs = require('fs');
 const path = require('path');
+const ts = require('typescript');
 
-const apiClientPath = path.resolve(__dirname, '../src/generated/api-client.ts');
-const indexPath = path.resolve(__dirname, '../src/generated/index.ts');
+// Paths
+const ROOT_DIR = path.resolve(__dirname, '../../..');
+const API_CLIENT_FILE = path.resolve(
+  __dirname,
+  '../src/generated/api-client.ts'
+);
+const SHARED_CLIENT_FILE = path.resolve(
+  ROOT_DIR,
+  'packages/shared/src/apiClient.ts'
+);
+const GENERATED_HOOKS_FILE = path.resolve(
+  ROOT_DIR,
+  'packages/shared/src/generated/apiHooks.ts'
+);
+const COVERAGE_FILE = path.resolve(__dirname, 'endpoint-coverage.json');
+// Where the app's own code lives
+const SOURCE_DIRS = ['packages/features', 'apps/next-web', 'apps/expo-mobile'];
+const IGNORED_DIRS = ['node_modules', '.next', '.expo', 'dist', 'build'];
+
+const args = process.argv.slice(2);
+const outputJson = args.includes('--json');
+const updateBaseline = args.includes('--update-baseline');
 
-// Check if the files exist
-if (!fs.existsSync(apiClientPath)) {
-  console.error('Error: API client file not found at:', apiClientPath);
-  console.error(
-    'Please run "yarn generate-api-types" first to generate the API client.'
+// Console output is skipped with --json, so stdout stays valid JSON
+const log = (...messages) => {
+  if (!outputJson) {
+    console.log(...messages);
+  }
+};
+
+function parseFile(file) {
+  return ts.createSourceFile(
+    file,
+    fs.readFileSync(file, 'utf8'),
+    ts.ScriptTarget.Latest,
+    true
   );
-  process.exit(1);
 }
 
-console.log('API client file found at:', apiClientPath);
-console.log('Reading the file to extract endpoint information...');
+// Calls `visit` for every node of a file
+function walk(node, visit) {
+  visit(node);
+  ts.forEachChild(node, (child) => walk(child, visit));
+}
 
-// Read the file content
-const apiClientContent = fs.readFileSync(apiClientPath, 'utf8');
+function location(sourceFile, node) {
+  const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+  return `${path.relative(ROOT_DIR, sourceFile.fileName)}:${line + 1}`;
+}
 
-// Extract endpoint information using regex
-const endpointRegex =
-  /method:\s*['"](\w+)['"],\s*path:\s*['"]([^'"]+)['"],\s*alias:\s*['"]([^'"]+)['"]/g;
-const extractedEndpoints = [];
-let match;
+// `baseClient['note.index']` or `getBaseClient()['note.index']` -> 'note.index'
+function calledAlias(node) {
+  if (
+    ts.isElementAccessExpression(node) &&
+    ts.isStringLiteral(node.argumentExpression)
+  ) {
+    const target = node.expression;
+    const name = ts.isCallExpression(target)
+      ? target.expression.getText()
+      : target.getText();
+    if (name === 'baseClient' || name === 'getBaseClient') {
+      return node.argumentExpression.text;
+    }
+  }
+  return undefined;
+}
 
-while ((match = endpointRegex.exec(apiClientContent)) !== null) {
-  extractedEndpoints.push({
-    method: match[1],
-    path: match[2],
-    alias: match[3],
+// Function to read the generated endpoint definitions
+function getEndpoints() {
+  const sourceFile = parseFile(API_CLIENT_FILE);
+  const endpoints = [];
+  walk(sourceFile, (node) => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      node.name.getText() === 'endpoints' &&
+      node.initializer &&
+      ts.isCallExpression(node.initializer)
+    ) {
+      const [list] = node.initializer.arguments;
+      list.elements.forEach((element) => {
+        const read = (name) => {
+          const property = element.properties.find(
+            (candidate) => candidate.name && candidate.name.getText() === name
+          );
+          return property ? property.initializer.text : undefined;
+        };
+        endpoints.push({
+          method: read('method'),
+          path: read('path'),
+          alias: read('alias'),
+        });
+      });
+    }
   });
+  return endpoints;
+}
+
+// Function to find the endpoints each `apiClient` method calls, e.g., 'notes.getNotes'
+function getClientMethods() {
+  const sourceFile = parseFile(SHARED_CLIENT_FILE);
+  const methods = {};
+  walk(sourceFile, (node) => {
+    const alias = calledAlias(node);
+    if (!alias) {
+      return;
+    }
+    // Walk up to the `group: { method: ... }` properties the call is in
+    const names = [];
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (ts.isPropertyAssignment(parent)) {
+        names.unshift(parent.name.getText());
+      }
+    }
+    const method = names.join('.') || '(module)';
+    (methods[method] = methods[method] || []).push(alias);
+  });
+  return methods;
+}
+
+// Function to find the endpoint each generated hook calls, e.g., 'useNoteIndexQuery'
+function getGeneratedHooks() {
+  const hooks = {};
+  if (!fs.existsSync(GENERATED_HOOKS_FILE)) {
+    return hooks;
+  }
+  const sourceFile = parseFile(GENERATED_HOOKS_FILE);
+  sourceFile.statements.forEach((statement) => {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      walk(statement, (node) => {
+        const alias = calledAlias(node);
+        if (alias) {
+          hooks[statement.name.text] = alias;
+        }
+      });
+    }
+  });
+  return hooks;
+}
+
+// Function to list the TypeScript files of the app
+function getSourceFiles(dir) {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return IGNORED_DIRS.includes(entry.name) ? [] : getSourceFiles(fullPath);
+    }
+    return /\.tsx?$/.test(entry.name) && !entry.name.endsWith('.d.ts')
+      ? [fullPath]
+      : [];
+  });
+}
+
+// Function to find where the app calls `apiClient` methods and generated hooks
+function getUsages(hookNames) {
+  const usages = {};
+  const record = (key, sourceFile, node) =>
+    (usages[key] = usages[key] || []).push(location(sourceFile, node));
+
+  SOURCE_DIRS.flatMap((dir) => getSourceFiles(path.resolve(ROOT_DIR, dir)))
+    .map(parseFile)
+    .forEach((sourceFile) =>
+      walk(sourceFile, (node) => {
+        // apiClient.notes.getNotes(...)
+        if (
+          ts.isCallExpression(node) &&
+          ts.isPropertyAccessExpression(node.expression) &&
+          ts.isPropertyAccessExpression(node.expression.expression) &&
+          node.expression.expression.expression.getText() === 'apiClient'
+        ) {
+          record(
+            `${node.expression.expression.name.text}.${node.expression.name.text}`,
+            sourceFile,
+            node
+          );
+        }
+        // useNoteIndexQuery(...)
+        if (
+          ts.isCallExpression(node) &&
+          ts.isIdentifier(node.expression) &&
+          hookNames.includes(node.expression.text)
+        ) {
+          record(node.expression.text, sourceFile, node);
+        }
+      })
+    );
+  return usages;
+}
+
+function readCoverageFile() {
+  if (!fs.existsSync(COVERAGE_FILE)) {
+    return {
+      allowlist: {},
+      baseline: { coverage: 0, dead: [], unimplemented: [] },
+    };
+  }
+  return JSON.parse(fs.readFileSync(COVERAGE_FILE, 'utf8'));
+}
+
+// 'l5-swagger.*' matches every alias starting with 'l5-swagger.'
+function allowlistReason(allowlist, alias) {
+  const pattern = Object.keys(allowlist).find((candidate) =>
+    candidate.endsWith('*')
+      ? alias.startsWith(candidate.slice(0, -1))
+      : alias === candidate
+  );
+  return pattern ? allowlist[pattern] : undefined;
 }
 
-// Function to organize endpoints by prefix
-function organizeEndpoints(endpointList) {
-  // Group endpoints by prefix (e.g., 'auth', 'note')
-  const groupedEndpoints = endpointList.reduce((acc, endpoint) => {
-    const [prefix] = endpoint.alias.split('.');
-    if (!acc[prefix]) {
-      acc[prefix] = [];
+// Function to put every endpoint in a group and compare the result with the baseline
+function buildReport() {
+  const coverageFile = readCoverageFile();
+  const endpoints = getEndpoints();
+  const clientMethods = getClientMethods();
+  const hooks = getGeneratedHooks();
+  const usages = getUsages(Object.keys(hooks));
+  const knownAliases = endpoints.map((endpoint) => endpoint.alias);
+
+  const results = endpoints.map((endpoint) => {
+    const methods = Object.keys(clientMethods).filter((method) =>
+      clientMethods[method].includes(endpoint.alias)
+    );
+    const hookNames = Object.keys(hooks).filter(
+      (hook) => hooks[hook] === endpoint.alias
+    );
+    const usedBy = [
+      ...methods.flatMap((method) => usages[method] || []),
+      ...hookNames.flatMap((hook) => usages[hook] || []),
+    ];
+    const reason = allowlistReason(coverageFile.allowlist, endpoint.alias);
+    let status = 'used';
+    if (reason) {
+      status = 'allowed';
+    } else if (!usedBy.length) {
+      status = methods.length ? 'dead' : 'unimplemented';
     }
-    acc[prefix].push(endpoint);
-    return acc;
-  }, {});
+    return {
+      ...endpoint,
+      status,
+      clientMethods: methods.map((method) => `apiClient.${method}`),
+      usedBy,
+      ...(reason ? { reason } : {}),
+    };
+  });
+
+  const counted = results.filter((result) => result.status !== 'allowed');
+  const aliasesWith = (status) =>
+    results.filter((result) => result.status === status).map((r) => r.alias);
+  const coverage = counted.length
+    ? counted.filter((result) => result.status === 'used').length /
+      counted.length
+    : 1;
+  const dead = aliasesWith('dead');
+  const unimplemented = aliasesWith('unimplemented');
+  // Aliases `apiClient` calls that the API doesn't have (anymore)
+  const unknown = [...new Set(Object.values(clientMethods).flat())].filter(
+    (alias) => !knownAliases.includes(alias)
+  );
+
+  const { baseline } = coverageFile;
+  const regressions = [
+    ...dead
+      .filter((alias) => !baseline.dead.includes(alias))
+      .map((alias) => `${alias} is dead`),
+    ...unimplemented
+      .filter((alias) => !baseline.unimplemented.includes(alias))
+      .map((alias) => `${alias} is unimplemented`),
+    ...unknown.map((alias) => `apiClient calls unknown endpoint ${alias}`),
+  ];
+  if (coverage < baseline.coverage && !regressions.length) {
+    regressions.push(
+      `coverage dropped from ${formatPercent(baseline.coverage)} to ${formatPercent(coverage)}`
+    );
+  }
 
   return {
-    // All available endpoints
-    all: endpointList,
-    // Endpoints grouped by prefix
-    grouped: groupedEndpoints,
-    // Count of endpoints
-    count: endpointList.length,
+    coverage,
+    endpoints: results,
+    dead,
+    unimplemented,
+    unknown,
+    baseline,
+    regressions,
+    coverageFile,
   };
 }
 
-// Organize the extracted endpoints
-const endpointInfo = organizeEndpoints(extractedEndpoints);
+function formatPercent(value) {
+  return `${Math.round(value * 1000) / 10}%`;
+}
 
-// Print the results
-console.log('=== Available API Endpoints ===');
-console.log(`Total endpoints: ${endpointInfo.count}`);
-console.log('\n=== Grouped by prefix ===');
+function printReport(report) {
+  const groups = {
+    used: 'Used',
+    dead: 'Dead (client method never called)',
+    unimplemented: 'Unimplemented',
+    allowed: 'Allowed (not checked)',
+  };
+  log(`=== API endpoint coverage: ${formatPercent(report.coverage)} ===`);
+  Object.entries(groups).forEach(([status, title]) => {
+    const group = report.endpoints.filter((result) => result.status === status);
+    if (!group.length) {
+      return;
+    }
+    log(`\n${title} (${group.length}):`);
+    group.forEach((result) => {
+      log(
+        `  - ${result.method.toUpperCase()} ${result.path} (${result.alias})`
+      );
+      if (result.clientMethods.length) {
+        log(`      client: ${result.clientMethods.join(', ')}`);
+      }
+      if (result.usedBy.length) {
+        log(`      used by: ${result.usedBy.join(', ')}`);
+      }
+      if (result.reason) {
+        log(`      reason: ${result.reason}`);
+      }
+    });
+  });
+  if (report.unknown.length) {
+    log(
+      `\nUnknown endpoints called by apiClient: ${report.unknown.join(', ')}`
+    );
+  }
+}
 
-// Print endpoints grouped by prefix
-Object.entries(endpointInfo.grouped).forEach(([prefix, endpointList]) => {
-  console.log(`\n${prefix.toUpperCase()} (${endpointList.length}):`);
-  endpointList.forEach((endpoint) => {
-    console.log(
-      `  - ${endpoint.method.toUpperCase()} ${endpoint.path} (alias: ${endpoint.alias})`
+try {
+  if (!fs.existsSync(API_CLIENT_FILE)) {
+    console.error('Error: API client file not found at:', API_CLIENT_FILE);
+    console.error(
+      'Please run "yarn generate-api-types" first to generate the API client.'
     );
-  });
-});
+    process.exit(1);
+  }
 
-// Check if our example client implements all endpoints
-console.log('\n=== Checking implementation coverage ===');
-console.log('To ensure your apiClient.example.ts covers all endpoints:');
-console.log(
-  '1. Compare the endpoints listed above with those implemented in your client'
-);
-console.log('2. Add any missing endpoints to your client implementation');
-console.log(
-  '3. Run this script again after updating your API to check for new endpoints'
-);
+  const report = buildReport();
 
-// Example of how to check if a specific endpoint exists
-const endpointToCheck = 'auth.login';
-const endpointExists = endpointInfo.all.some(
-  (endpoint) => endpoint.alias === endpointToCheck
-);
-if (endpointExists) {
-  console.log(`\nEndpoint '${endpointToCheck}' exists in the API client.`);
-} else {
-  console.log(
-    `\nEndpoint '${endpointToCheck}' does NOT exist in the API client.`
-  );
+  if (updateBaseline) {
+    const coverageFile = {
+      ...report.coverageFile,
+      baseline: {
+        coverage: Math.round(report.coverage * 1000) / 1000,
+        dead: report.dead,
+        unimplemented: report.unimplemented,
+      },
+    };
+    fs.writeFileSync(
+      COVERAGE_FILE,
+      `${JSON.stringify(coverageFile, null, 2)}\n`
+    );
+    report.baseline = coverageFile.baseline;
+    report.regressions = [];
+    log(`Baseline updated in ${COVERAGE_FILE}`);
+  }
+
+  if (outputJson) {
+    const { coverageFile, ...json } = report;
+    console.log(JSON.stringify(json, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  if (report.regressions.length) {
+    console.error('\nEndpoint coverage regressed:');
+    report.regressions.forEach((regression) =>
+      console.error(`  - ${regression}`)
+    );
+    console.error(
+      'Call the endpoints from the app, add them to the allowlist in endpoint-coverage.json, ' +
+        'or accept the current state with --update-baseline.'
+    );
+    process.exit(1);
+  }
+  log('\nNo coverage regressions.');
+} catch (error) {
+  console.error('Error checking endpoint coverage:', error);
+  process.exit(1);
 }
@@ -0,0 +1,306 @@
+#!/usr/bin/env node
+
+/**
+ * Generates TanStack Query hooks for every API endpoint from the OpenAPI spec.
+ *
+ * For each operation in `openapi.json` (identified by its `operationId`, the alias used by the
+ * generated Zodios client) this writes to `packages/shared/src/generated/apiHooks.ts`:
+ * - a `useQuery` hook for GET endpoints (e.g., `useNoteIndexQuery`),
+ * - a `useMutation` hook for POST/PUT/PATCH/DELETE endpoints (e.g., `useNoteUpdateMutation`),
+ * - a query key factory per resource (`apiQueryKeys.notes.index(queries)`), where the resource
+ *   is the first path segment (`/notes/{note}` belongs to `notes`),
+ * - default invalidation rules: a successful write invalidates every query of its resource.
+ *
+ * This script is run by generate-api-types.js, after the Zodios client has been generated.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Paths
+const OPENAPI_JSON_PATH = path.resolve(
+  __dirname,
+  '../../../apps/laravel-api/storage/openapi.json'
+);
+const HOOKS_FILE = path.resolve(
+  __dirname,
+  '../../shared/src/generated/apiHooks.ts'
+);
+
+// Endpoints that only serve the API documentation; the app never calls them.
+const IGNORED_ALIAS_PREFIXES = ['l5-swagger.'];
+
+const WRITE_METHODS = ['post', 'put', 'patch', 'delete'];
+
+// 'note.index' -> 'NoteIndex'
+function pascalCase(alias) {
+  return alias
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+// 'note.index' -> 'index'
+function keyName(alias) {
+  const parts = alias.split('.');
+  return parts[parts.length - 1];
+}
+
+// Function to collect the endpoints the hooks are generated for
+function getEndpointsFromOpenAPI() {
+  const openApiSpec = JSON.parse(fs.readFileSync(OPENAPI_JSON_PATH, 'utf8'));
+  const endpoints = [];
+
+  Object.entries(openApiSpec.paths).forEach(([route, pathItem]) => {
+    Object.entries(pathItem).forEach(([method, operation]) => {
+      const alias = operation.operationId;
+      if (
+        !alias ||
+        IGNORED_ALIAS_PREFIXES.some((prefix) => alias.startsWith(prefix))
+      ) {
+        return;
+      }
+      const parameters = [
+        ...(pathItem.parameters || []),
+        ...(operation.parameters || []),
+      ];
+      endpoints.push({
+        alias,
+        method,
+        route,
+        summary: operation.summary || '',
+        resource: route.split('/').filter(Boolean)[0],
+        hasPathParams: parameters.some((parameter) => parameter.in === 'path'),
+        hasQueryParams: parameters.some(
+          (parameter) => parameter.in === 'query'
+        ),
+        hasBody: Boolean(operation.requestBody),
+      });
+    });
+  });
+
+  return endpoints;
+}
+
+// Doc comment shared by the hooks and keys of one endpoint
+function describe(endpoint) {
+  const summary = endpoint.summary ? `\n * ${endpoint.summary}.` : '';
+  return `/**\n * \`${endpoint.method.toUpperCase()} ${endpoint.route}\` (\`${endpoint.alias}\`).${summary}\n */`;
+}
+
+function renderQueryKeys(endpoints) {
+  const resources = [
+    ...new Set(endpoints.map((endpoint) => endpoint.resource)),
+  ];
+  const blocks = resources.map((resource) => {
+    const keys = endpoints
+      .filter(
+        (endpoint) =>
+          endpoint.resource === resource && endpoint.method === 'get'
+      )
+      .map((endpoint) => {
+        const args = [];
+        const parts = [`'${resource}'`, `'${keyName(endpoint.alias)}'`];
+        if (endpoint.hasPathParams) {
+          args.push(`params: ApiPathParams<'${endpoint.alias}'>`);
+          parts.push('params');
+        }
+        if (endpoint.hasQueryParams) {
+          args.push(`queries: ApiQueryParams<'${endpoint.alias}'> = {}`);
+          parts.push('queries');
+        }
+        return `    ${keyName(endpoint.alias)}: (${args.join(', ')}) =>\n      [${parts.join(', ')}] as const,`;
+      });
+    return `  ${resource}: {\n    all: ['${resource}'] as const,\n${keys.join('\n')}\n  },`;
+  });
+  return `export const apiQueryKeys = {\n${blocks.join('\n')}\n};`;
+}
+
+function renderInvalidationRules(endpoints) {
+  const rules = endpoints
+    .filter((endpoint) => WRITE_METHODS.includes(endpoint.method))
+    .map(
+      (endpoint) =>
+        `  '${endpoint.alias}': [apiQueryKeys.${endpoint.resource}.all],`
+    );
+  return `export const apiInvalidationRules: Record<
+  ApiMutationAlias,
+  readonly QueryKey[]
+> = {\n${rules.join('\n')}\n};`;
+}
+
+function renderQueryHook(endpoint) {
+  const { alias } = endpoint;
+  const args = [];
+  const keyArgs = [];
+  const requestConfig = [];
+  if (endpoint.hasPathParams) {
+    args.push(`params: ApiPathParams<'${alias}'>`);
+    keyArgs.push('params');
+    requestConfig.push('params');
+  }
+  if (endpoint.hasQueryParams) {
+    args.push(`queries: ApiQueryParams<'${alias}'> = {}`);
+    keyArgs.push('queries');
+    requestConfig.push('queries');
+  }
+  args.push(`options: ApiQueryOptions<'${alias}'> = {}`);
+  requestConfig.push('signal');
+
+  return `${describe(endpoint)}
+export function use${pascalCase(alias)}Query(${args.join(', ')}) {
+  return useQuery({
+    ...options,
+    queryKey: apiQueryKeys.${endpoint.resource}.${keyName(alias)}(${keyArgs.join(', ')}),
+    queryFn: ({ signal }) =>
+      getBaseClient()['${alias}']({ ${requestConfig.join(', ')} }),
+  });
+}`;
+}
+
+function renderMutationHook(endpoint) {
+  const { alias } = endpoint;
+  const name = pascalCase(alias);
+  const fields = [];
+  if (endpoint.hasPathParams) {
+    fields.push(`params: ApiPathParams<'${alias}'>`);
+  }
+  if (endpoint.hasBody) {
+    fields.push(`body: ApiRequestBody<'${alias}'>`);
+  }
+  const variablesType = fields.length ? `{ ${fields.join('; ')} }` : 'void';
+  const destructured = [
+    endpoint.hasPathParams && 'params',
+    endpoint.hasBody && 'body',
+  ].filter(Boolean);
+  const variables = destructured.length
+    ? `{ ${destructured.join(', ')} }: ${name}Variables`
+    : '';
+  const config = endpoint.hasPathParams ? ', { params }' : '';
+  const call = `getBaseClient()['${alias}'](${endpoint.hasBody ? 'body' : 'undefined'}${config})`;
+
+  return `/** Variables of \`use${name}Mutation\`. */
+export type ${name}Variables = ${variablesType};
+
+${describe(endpoint)}
+export function use${name}Mutation(
+  options: ApiMutationOptions<'${alias}', ${name}Variables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: (${variables}) => ${call},
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, '${alias}');
+      return options.onSuccess?.(...args);
+    },
+  });
+}`;
+}
+
+function renderHooksFile(endpoints) {
+  const queries = endpoints.filter((endpoint) => endpoint.method === 'get');
+  const mutations = endpoints.filter((endpoint) =>
+    WRITE_METHODS.includes(endpoint.method)
+  );
+  const mutationAliases = mutations
+    .map((endpoint) => `'${endpoint.alias}'`)
+    .join(' | ');
+  // Only import the parameter types some endpoint needs
+  const typeImports = [
+    'ApiAlias',
+    endpoints.some((endpoint) => endpoint.hasPathParams) && 'ApiPathParams',
+    queries.some((endpoint) => endpoint.hasQueryParams) && 'ApiQueryParams',
+    mutations.some((endpoint) => endpoint.hasBody) && 'ApiRequestBody',
+    'ApiResponse',
+  ].filter(Boolean);
+
+  return `/**
+ * @file packages/shared/src/generated/apiHooks.ts
+ * @description TanStack Query hooks for every API endpoint, generated from the OpenAPI spec.
+ *
+ * DO NOT EDIT: this file is written by \`packages/api-types/scripts/generate-api-hooks.js\`
+ * whenever \`yarn generate-api-types\` (or \`yarn sync-api\`) runs.
+ *
+ * - \`use<Alias>Query\` for each GET endpoint, e.g., \`useNoteIndexQuery(queries)\`.
+ * - \`use<Alias>Mutation\` for each POST/PUT/PATCH/DELETE endpoint, e.g.,
+ *   \`useNoteUpdateMutation()\`, called as \`mutate({ params: { note: 3 }, body })\`.
+ * - \`apiQueryKeys\`: the query keys of each resource (the first path segment, e.g., \`notes\`).
+ * - \`apiInvalidationRules\`: the queries each mutation invalidates when it succeeds. By default
+ *   a write invalidates every query of its resource (\`['notes']\` after \`note.update\`).
+ *
+ * For a learner:
+ * - The hooks call the same client as \`apiClient\` (\`getBaseClient()\`), so requests get the
+ *   auth token, retries, typed errors and response checks described in \`apiClient.ts\`.
+ * - Request and response types come from \`@hello-world/api-types\` (\`ApiResponse<'note.index'>\`
+ *   and friends), so they follow the spec without being written by hand.
+ * - Hand-written hooks (e.g., \`useNotes.ts\`) use the same resource keys (\`['notes']\`), so
+ *   invalidating a resource refreshes both.
+ */
+import {
+  QueryClient,
+  QueryKey,
+  useMutation,
+  UseMutationOptions,
+  useQuery,
+  useQueryClient,
+  UseQueryOptions,
+} from '@tanstack/react-query';
+import type { ${typeImports.join(', ')} } from '@hello-world/api-types';
+import { getBaseClient } from '../apiClient';
+
+/** Options of a generated query hook; the query key and function are filled in. */
+export type ApiQueryOptions<A extends ApiAlias> = Omit<
+  UseQueryOptions<ApiResponse<A>, Error>,
+  'queryKey' | 'queryFn'
+>;
+
+/** Options of a generated mutation hook; the mutation function is filled in. */
+export type ApiMutationOptions<A extends ApiAlias, Variables> = Omit<
+  UseMutationOptions<ApiResponse<A>, Error, Variables>,
+  'mutationFn'
+>;
+
+/** The alias of every endpoint that has a mutation hook. */
+export type ApiMutationAlias = ${mutationAliases || 'never'};
+
+// --- Query Keys ---
+
+/** Query keys per resource. \`all\` matches every query of the resource. */
+${renderQueryKeys(endpoints)}
+
+// --- Invalidation Rules ---
+
+/** The queries each mutation invalidates when it succeeds. */
+${renderInvalidationRules(endpoints)}
+
+// Invalidates the queries a successful mutation may have changed.
+function invalidateAfter(queryClient: QueryClient, alias: ApiMutationAlias) {
+  return Promise.all(
+    apiInvalidationRules[alias].map((queryKey) =>
+      queryClient.invalidateQueries({ queryKey })
+    )
+  );
+}
+
+// --- Queries ---
+
+${queries.map(renderQueryHook).join('\n\n')}
+
+// --- Mutations ---
+
+${mutations.map(renderMutationHook).join('\n\n')}
+`;
+}
+
+try {
+  console.log('Generating TanStack Query hooks from OpenAPI specification...');
+  const endpoints = getEndpointsFromOpenAPI();
+  fs.mkdirSync(path.dirname(HOOKS_FILE), { recursive: true });
+  fs.writeFileSync(HOOKS_FILE, renderHooksFile(endpoints));
+  console.log(`Hooks generated successfully at ${HOOKS_FILE}`);
+} catch (error) {
+  console.error('Error generating API hooks:', error);
+  process.exit(1);
+}
@@ -59,6 +59,11 @@ export * from './api-client';
   fs.writeFileSync(path.resolve(OUTPUT_DIR, 'index.ts'), indexContent);
   console.log(`Index file created at ${path.resolve(OUTPUT_DIR, 'index.ts')}`);
 
+  // Step 5: Generate TanStack Query hooks for every endpoint (packages/shared)
+  console.log('Generating TanStack Query hooks...');
+  execSync('node ' + path.resolve(__dirname, 'generate-api-hooks.js'));
+  console.log('Hooks generation completed successfully');
+
   console.log('API types and schemas generation completed successfully!');
 } catch (error) {
   console.error('Error generating API types and schemas:', error);
@@ -1,12 +1,27 @@
 #!/usr/bin/env node
 
 /**
- * Post-processes the auto-generated Zod schemas to add .min(1) validation for required fields.
- * This script should be run after generating the API types.
+ * Post-processes the auto-generated Zod schemas in `src/generated/api-client.ts` according to
+ * the rules in `schema-rules.js`, and exports the `endpoints` definition the shared API client
+ * is built from. This script should be run after generating the API types.
+ *
+ * The file is parsed with the TypeScript compiler API, so each schema and field is found in the
+ * syntax tree (however deeply nested) rather than matched with regular expressions. The changes
+ * are then applied as small text edits, which leaves the rest of the file untouched.
+ *
+ * What the rules do:
+ * - Request bodies: required string fields get a minimum length, and every string check gets a
+ *   user-facing message (from the spec's `x-messages` extension or from the rules file).
+ * - Every object schema: `.passthrough()`, `.strict()` or plain (strip) as configured.
+ * - Id fields: branded types (e.g., `NoteId`), exported from the generated file.
+ *
+ * Running the script twice gives the same result: checks that already have a message are left alone.
  */
 
 const fs = require('fs');
 const path = require('path');
+const ts = require('typescript');
+const rules = require('./schema-rules');
 
 // Paths
 const OPENAPI_JSON_PATH = path.resolve(
@@ -16,81 +31,380 @@ const OPENAPI_JSON_PATH = path.resolve(
 const OUTPUT_DIR = path.resolve(__dirname, '../src/generated');
 const ZOD_CLIENT_FILE = path.resolve(OUTPUT_DIR, 'api-client.ts');
 
-// Function to parse OpenAPI spec and extract required fields
-function getRequiredFieldsFromOpenAPI() {
-  const openApiSpec = JSON.parse(fs.readFileSync(OPENAPI_JSON_PATH, 'utf8'));
-  const requiredFieldsMap = {};
-
-  // Process each path and operation
-  Object.entries(openApiSpec.paths).forEach(([path, pathItem]) => {
-    Object.entries(pathItem).forEach(([method, operation]) => {
-      if (
-        operation.operationId &&
-        operation.requestBody?.content?.['application/json']?.schema
-      ) {
-        const schema = operation.requestBody.content['application/json'].schema;
-        const schemaName = operation.operationId.replace(/\./g, '_') + '_Body';
-
-        if (schema.required && schema.required.length > 0) {
-          requiredFieldsMap[schemaName] = schema.required;
-        }
+// Zod calls a brand must come before (they wrap the schema in another type)
+const WRAPPING_CALLS = ['optional', 'nullable', 'nullish', 'default'];
+
+// Follows a `$ref` (e.g., `#/components/schemas/NoteResource`) within the spec
+function resolveRef(spec, schema) {
+  if (!schema || !schema.$ref) {
+    return schema || {};
+  }
+  return resolveRef(
+    spec,
+    schema.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce((node, key) => (node ? node[key] : undefined), spec)
+  );
+}
+
+// 'password_confirmation' -> 'Password confirmation', 'userId' -> 'User id'
+function humanize(field) {
+  const words = field
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// A single-quoted string literal
+function quote(text) {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function fillTemplate(template, values) {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key) =>
+    key in values ? String(values[key]) : placeholder
+  );
+}
+
+/**
+ * Splits a Zod expression into its root and the method calls chained on it, e.g.,
+ * `z.string().min(1).optional()` -> root `z.string()` and calls `min`, `optional`.
+ * `rootName` is the Zod factory (`string`, `object`, ...), or undefined when the expression
+ * starts with a named schema (e.g., `NoteVisibility.optional()`).
+ */
+function parseChain(expression) {
+  const calls = [];
+  let node = expression;
+  while (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression)
+  ) {
+    const callee = node.expression;
+    if (ts.isIdentifier(callee.expression) && callee.expression.text === 'z') {
+      return { root: node, rootName: callee.name.text, calls: calls.reverse() };
+    }
+    calls.push({ name: callee.name.text, call: node, callee });
+    node = callee.expression;
+  }
+  return { root: node, rootName: undefined, calls: calls.reverse() };
+}
+
+// Collects text edits and applies them from the end of the file backwards
+function createEditor(content) {
+  const edits = [];
+  return {
+    insert(position, text) {
+      edits.push({ start: position, end: position, text });
+    },
+    replace(start, end, text) {
+      edits.push({ start, end, text });
+    },
+    apply() {
+      return edits
+        .map((edit, index) => ({ ...edit, index }))
+        .sort((a, b) => b.start - a.start || b.index - a.index)
+        .reduce(
+          (result, edit) =>
+            result.slice(0, edit.start) + edit.text + result.slice(edit.end),
+          content
+        );
+    },
+  };
+}
+
+/** Applies the rules to one generated schema (and the objects nested in it). */
+function createSchemaTransformer(spec, editor, brandTypes) {
+  // Messages for a field: spec extension first, then the rules file, then the defaults
+  function messagesFor(fieldKey, fieldSpec) {
+    return {
+      ...rules.messages.default,
+      ...(rules.messages.fields[fieldKey] || {}),
+      ...(fieldSpec['x-messages'] || {}),
+    };
+  }
+
+  function transformString(chain, field, fieldKey, fieldSpec, required) {
+    const messages = messagesFor(fieldKey, fieldSpec);
+    const values = { label: humanize(field) };
+    const message = (key, extra = {}) =>
+      `{ message: ${quote(fillTemplate(messages[key], { ...values, ...extra }))} }`;
+
+    // z.string() -> z.string({ required_error, invalid_type_error })
+    if (chain.root.arguments.length === 0) {
+      const options = [
+        required &&
+          `required_error: ${quote(fillTemplate(messages.required, values))}`,
+        `invalid_type_error: ${quote(fillTemplate(messages.type, values))}`,
+      ].filter(Boolean);
+      editor.insert(chain.root.arguments.pos, `{ ${options.join(', ')} }`);
+    }
+
+    const minCall = chain.calls.find(({ name }) => name === 'min');
+    const minLength =
+      rules.requiredStringMinLength.fields[fieldKey] ??
+      rules.requiredStringMinLength.default;
+    if (minCall) {
+      if (minCall.call.arguments.length === 1) {
+        const min = minCall.call.arguments[0].getText();
+        editor.insert(
+          minCall.call.arguments[0].end,
+          `, ${min === '1' ? message('required') : message('min', { min })}`
+        );
+      }
+    } else if (required && minLength > 0) {
+      editor.insert(
+        chain.root.end,
+        `.min(${minLength}, ${minLength === 1 ? message('required') : message('min', { min: minLength })})`
+      );
+    }
+
+    chain.calls.forEach(({ name, call }) => {
+      if (name === 'max' && call.arguments.length === 1) {
+        const max = call.arguments[0].getText();
+        editor.insert(call.arguments[0].end, `, ${message('max', { max })}`);
+      }
+      if (name === 'email' && call.arguments.length === 0) {
+        editor.insert(call.arguments.pos, message('email'));
       }
     });
-  });
+  }
 
-  return requiredFieldsMap;
+  function transformBrand(chain, expression, fieldKey, fieldSpec) {
+    const brand = rules.brands[fieldKey];
+    if (!brand || chain.calls.some(({ name }) => name === 'brand')) {
+      return;
+    }
+    const wrapper = chain.calls.find(({ name }) =>
+      WRAPPING_CALLS.includes(name)
+    );
+    editor.insert(
+      wrapper ? wrapper.callee.expression.end : expression.end,
+      `.brand<${quote(brand)}>()`
+    );
+    const type = [].concat(fieldSpec.type || [])[0];
+    brandTypes[brand] = type === 'string' ? 'string' : 'number';
+  }
+
+  function transformField(
+    expression,
+    field,
+    fieldKey,
+    fieldSpec,
+    required,
+    isRequest
+  ) {
+    const chain = parseChain(expression);
+    if (chain.rootName === 'object') {
+      transformObject(chain, fieldKey, fieldSpec, isRequest, undefined);
+    } else if (chain.rootName === 'array' && chain.root.arguments[0]) {
+      const items = parseChain(chain.root.arguments[0]);
+      if (items.rootName === 'object') {
+        transformObject(
+          items,
+          `${fieldKey}[]`,
+          resolveRef(spec, fieldSpec.items),
+          isRequest,
+          undefined
+        );
+      }
+    } else if (chain.rootName === 'string' && isRequest) {
+      transformString(chain, field, fieldKey, fieldSpec, required);
+    }
+    transformBrand(chain, expression, fieldKey, fieldSpec);
+  }
+
+  // `mode` is the object mode of a top-level schema; nested objects keep the generated one
+  function transformObject(chain, schemaKey, schemaSpec, isRequest, mode) {
+    const shape = chain.root.arguments[0];
+    if (!shape || !ts.isObjectLiteralExpression(shape)) {
+      return;
+    }
+    const properties = schemaSpec.properties || {};
+    const requiredFields = schemaSpec.required || [];
+
+    shape.properties.forEach((property) => {
+      if (!ts.isPropertyAssignment(property)) {
+        return;
+      }
+      const field = property.name.getText().replace(/^['"]|['"]$/g, '');
+      transformField(
+        property.initializer,
+        field,
+        `${schemaKey}.${field}`,
+        resolveRef(spec, properties[field]),
+        requiredFields.includes(field),
+        isRequest
+      );
+    });
+
+    if (mode) {
+      const current = chain.calls.find(({ name }) =>
+        ['passthrough', 'strict', 'strip'].includes(name)
+      );
+      if (current && current.name !== mode) {
+        // Drop `.passthrough()` (with the line break before it) for 'strip'
+        if (mode === 'strip') {
+          editor.replace(current.callee.expression.end, current.call.end, '');
+        } else {
+          editor.replace(
+            current.callee.name.getStart(),
+            current.callee.name.end,
+            mode
+          );
+        }
+      } else if (!current && mode !== 'strip') {
+        editor.insert(chain.root.end, `.${mode}()`);
+      }
+    }
+  }
+
+  return function transformSchema(
+    expression,
+    schemaName,
+    schemaSpec,
+    isRequest
+  ) {
+    const chain = parseChain(expression);
+    if (chain.rootName !== 'object') {
+      return;
+    }
+    const mode =
+      rules.objectModes.schemas[schemaName] || rules.objectModes.default;
+    transformObject(chain, schemaName, schemaSpec, isRequest, mode);
+  };
 }
 
-// Function to add min(1) validation to required string fields in generated Zod schemas
-function addRequiredValidationToZodSchemas(requiredFieldsMap) {
-  let content = fs.readFileSync(ZOD_CLIENT_FILE, 'utf8');
+// Function to read a property of an object literal in the endpoint list
+function getProperty(objectLiteral, name) {
+  const property = objectLiteral.properties.find(
+    (candidate) =>
+      ts.isPropertyAssignment(candidate) && candidate.name.getText() === name
+  );
+  return property && property.initializer;
+}
 
-  // For each schema with required fields
-  Object.entries(requiredFieldsMap).forEach(([schemaName, requiredFields]) => {
-    // Find the schema definition
-    const schemaRegex = new RegExp(
-      `const ${schemaName} = z\\s*\\.object\\(\\{([^}]+)\\}\\)\\s*\\.passthrough\\(\\);`,
-      's'
-    );
-    const match = content.match(schemaRegex);
+// Function to apply the rules to every schema in the generated client
+function processGeneratedClient(content, spec) {
+  const sourceFile = ts.createSourceFile(
+    ZOD_CLIENT_FILE,
+    content,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const editor = createEditor(content);
+  const brandTypes = {};
+  const transformSchema = createSchemaTransformer(spec, editor, brandTypes);
+  const transformed = new Set();
 
-    if (match) {
-      let schemaContent = match[1];
+  // The top-level `const X = ...` declarations, by name
+  const declarations = {};
+  let schemasStatement;
+  sourceFile.statements.forEach((statement) => {
+    if (!ts.isVariableStatement(statement)) {
+      return;
+    }
+    statement.declarationList.declarations.forEach((declaration) => {
+      const name = declaration.name.getText();
+      declarations[name] = { statement, initializer: declaration.initializer };
+      if (name === 'schemas') {
+        schemasStatement = statement;
+      }
+    });
+  });
 
-      // For each required field, add min(1) validation for string fields
-      requiredFields.forEach((field) => {
-        // Only add min(1) to string fields that don't already have validation
-        const fieldRegex = new RegExp(
-          `${field}:\\s*z\\.string\\(\\)([^,]*)`,
-          'g'
-        );
-        schemaContent = schemaContent.replace(fieldRegex, (match, p1) => {
-          // If it already has validation, don't modify it
-          if (p1.includes('.min(') || p1.includes('.email()')) {
-            return match;
-          }
-
-          // Add min(1) validation with field name in the message
-          return `${field}: z.string().min(1, { message: '${field} is required' })${p1}`;
-        });
-      });
-
-      // Replace the schema content
-      content = content.replace(match[1], schemaContent);
+  // Request bodies: named (`schema: auth_register_Body`) or inline in the endpoint list
+  const operations = {};
+  Object.values(spec.paths).forEach((pathItem) =>
+    Object.values(pathItem).forEach((operation) => {
+      if (operation && operation.operationId) {
+        operations[operation.operationId] = operation;
+      }
+    })
+  );
+  const endpointList = declarations.endpoints?.initializer?.arguments?.[0];
+  (endpointList && ts.isArrayLiteralExpression(endpointList)
+    ? endpointList.elements
+    : []
+  ).forEach((endpoint) => {
+    const alias = getProperty(endpoint, 'alias');
+    const parameters = getProperty(endpoint, 'parameters');
+    if (!alias || !parameters || !ts.isArrayLiteralExpression(parameters)) {
+      return;
+    }
+    const operation = operations[alias.text];
+    const body = parameters.elements.find(
+      (parameter) => getProperty(parameter, 'type')?.text === 'Body'
+    );
+    const bodySpec =
+      operation?.requestBody?.content?.['application/json']?.schema;
+    if (!body || !bodySpec) {
+      return;
+    }
+    let schema = getProperty(body, 'schema');
+    let schemaName = `${alias.text.replace(/\./g, '_')}_Body`;
+    if (ts.isIdentifier(schema)) {
+      schemaName = schema.text;
+      schema = declarations[schemaName]?.initializer;
+    }
+    if (schema && !transformed.has(schema)) {
+      transformed.add(schema);
+      transformSchema(schema, schemaName, resolveRef(spec, bodySpec), true);
     }
   });
 
-  return content;
+  // Responses and other components (e.g., `NoteResource`)
+  Object.entries(spec.components?.schemas || {}).forEach(
+    ([name, schemaSpec]) => {
+      const schema = declarations[name]?.initializer;
+      if (schema && !transformed.has(schema)) {
+        transformed.add(schema);
+        transformSchema(schema, name, resolveRef(spec, schemaSpec), false);
+      }
+    }
+  );
+
+  // Export the endpoint definitions. openapi-zod-client keeps `endpoints` private,
+  // but `packages/api-types/src/endpoints.ts` derives request/response types from it.
+  const endpointsStatement = declarations.endpoints?.statement;
+  if (
+    endpointsStatement &&
+    !endpointsStatement.modifiers?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    )
+  ) {
+    editor.insert(endpointsStatement.getStart(), 'export ');
+  }
+
+  // Export the brand types after the `schemas` object
+  const brands = Object.entries(brandTypes).filter(
+    ([brand]) => !declarations[brand] && !content.includes(`type ${brand} =`)
+  );
+  if (schemasStatement && brands.length) {
+    editor.insert(
+      schemasStatement.end,
+      `\n\n${brands
+        .map(
+          ([brand, type]) =>
+            `/** ${humanize(brand)}, branded by schema-rules.js. */\nexport type ${brand} = ${type} & z.BRAND<${quote(brand)}>;`
+        )
+        .join('\n')}`
+    );
+  }
+
+  return editor.apply();
 }
 
 try {
   console.log(
-    'Post-processing Zod schemas to add required field validation...'
+    'Post-processing Zod schemas with the rules in schema-rules.js...'
   );
-  const requiredFieldsMap = getRequiredFieldsFromOpenAPI();
-  const updatedContent = addRequiredValidationToZodSchemas(requiredFieldsMap);
-  fs.writeFileSync(ZOD_CLIENT_FILE, updatedContent);
-  console.log('Added required field validation to Zod schemas');
+  const spec = JSON.parse(fs.readFileSync(OPENAPI_JSON_PATH, 'utf8'));
+  const content = fs.readFileSync(ZOD_CLIENT_FILE, 'utf8');
+  fs.writeFileSync(ZOD_CLIENT_FILE, processGeneratedClient(content, spec));
+  console.log('Applied the schema rules to the generated Zod schemas');
+  console.log('Exported the endpoint definitions');
 } catch (error) {
   console.error('Error post-processing Zod schemas:', error);
   process.exit(1);
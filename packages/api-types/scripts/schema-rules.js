@@ -0,0 +1,67 @@
+/**
+ * Rules applied by post-process-schemas.js to the Zod schemas generated from the OpenAPI spec.
+ *
+ * Schemas are named as in `src/generated/api-client.ts`: request bodies after their endpoint
+ * alias (`auth.register` -> `auth_register_Body`, also for bodies declared inline in the
+ * endpoint list), responses after their OpenAPI component (`NoteResource`). Fields are
+ * `<schema>.<field>`, e.g., `auth_register_Body.password`.
+ *
+ * Change a rule, then run `yarn generate-api-types` to regenerate the schemas.
+ */
+module.exports = {
+  /**
+   * Required string fields of request bodies get `.min(length)`, so an empty string is
+   * rejected before the request is sent. `fields` overrides the default per field.
+   */
+  requiredStringMinLength: {
+    default: 1,
+    fields: {
+      // Laravel's `Password::defaults()` requires at least 8 characters
+      'auth_register_Body.password': 8,
+    },
+  },
+
+  /**
+   * Messages of the string checks in request bodies, with `{label}` (e.g., "Password
+   * confirmation"), `{min}` and `{max}` filled in. A field's messages are looked up in:
+   * 1. the `x-messages` extension of the field in the OpenAPI spec,
+   *    e.g., `"x-messages": { "required": "Please enter your name" }`,
+   * 2. `fields` below,
+   * 3. `default` below.
+   */
+  messages: {
+    default: {
+      required: '{label} is required',
+      type: '{label} must be a string',
+      min: '{label} must be at least {min} characters',
+      max: '{label} must be at most {max} characters',
+      email: 'Please enter a valid email address',
+    },
+    fields: {
+      'auth_register_Body.name': { required: 'Please enter your name' },
+    },
+  },
+
+  /**
+   * What an object schema does with keys it doesn't know: `passthrough` keeps them (so a new
+   * response field doesn't break older apps), `strict` rejects them and `strip` drops them.
+   */
+  objectModes: {
+    default: 'passthrough',
+    schemas: {
+      auth_login_Body: 'strict',
+      auth_register_Body: 'strict',
+    },
+  },
+
+  /**
+   * Id fields branded with a type of their own, so a note id can't be passed where a user id
+   * is expected. The brand types (`NoteId`, ...) are exported from the generated file.
+   */
+  brands: {
+    'UserResource.id': 'UserId',
+    'NoteResource.id': 'NoteId',
+    'NoteResource.userId': 'UserId',
+    'TagResource.id': 'TagId',
+  },
+};
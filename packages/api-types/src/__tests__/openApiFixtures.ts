@@ -0,0 +1,446 @@
+/**
+ * @file packages/api-types/src/__tests__/openApiFixtures.ts
+ * @description Test data derived from the OpenAPI spec, shared by the contract tests.
+ *
+ * - `listOperations()`: every endpoint of `apps/laravel-api/storage/openapi.json`.
+ * - `buildExample(schema)`: a value matching a spec schema. Laravel only documents examples
+ *   for single fields (e.g., `"message": "Login successful."`), so a full example is assembled
+ *   from those, with made-up values for the fields without one.
+ * - `findSpecViolations(schema, value)`: what the API would reject in a value, as a list.
+ * - `payloadArbitrary(schema)`: fast-check generators for valid and invalid request payloads.
+ *
+ * For a learner:
+ * - Property-based tests (fast-check) run a check against hundreds of generated inputs instead
+ *   of a few hand-picked ones, and report the smallest input that breaks it.
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import fc from 'fast-check';
+import type { z } from 'zod';
+import { endpoints } from '../generated/api-client';
+
+/** The subset of OpenAPI (JSON Schema) the Laravel spec uses. */
+export interface SpecSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  example?: unknown;
+  properties?: Record<string, SpecSchema>;
+  required?: string[];
+  items?: SpecSchema;
+  anyOf?: SpecSchema[];
+  oneOf?: SpecSchema[];
+  allOf?: SpecSchema[];
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  nullable?: boolean;
+}
+
+interface SpecResponse {
+  $ref?: string;
+  content?: Record<string, { schema?: SpecSchema }>;
+}
+
+interface SpecOperation {
+  operationId?: string;
+  requestBody?: { content?: Record<string, { schema?: SpecSchema }> };
+  responses?: Record<string, SpecResponse>;
+}
+
+/** One endpoint of the spec, with the JSON schemas of its request body and responses. */
+export interface Operation {
+  alias: string;
+  method: string;
+  path: string;
+  requestBody?: SpecSchema;
+  responses: { status: number; schema: SpecSchema }[];
+}
+
+const SPEC_PATH = resolve(
+  __dirname,
+  '../../../../apps/laravel-api/storage/openapi.json'
+);
+
+/** The OpenAPI spec the generated schemas were built from. */
+export const spec: {
+  paths: Record<string, Record<string, SpecOperation>>;
+  components?: {
+    schemas?: Record<string, SpecSchema>;
+    responses?: Record<string, SpecResponse>;
+  };
+} = JSON.parse(readFileSync(SPEC_PATH, 'utf8'));
+
+/** Follows `$ref`s such as `#/components/schemas/NoteResource`. */
+export function resolveSchema(schema: SpecSchema): SpecSchema {
+  if (!schema.$ref) {
+    return schema;
+  }
+  const name = schema.$ref.replace('#/components/schemas/', '');
+  const target = spec.components?.schemas?.[name];
+  if (!target) {
+    throw new Error(`Unknown schema reference: ${schema.$ref}`);
+  }
+  return resolveSchema(target);
+}
+
+// Error responses are shared, e.g., `#/components/responses/ValidationException`
+function resolveResponse(response: SpecResponse): SpecResponse {
+  if (!response.$ref) {
+    return response;
+  }
+  const name = response.$ref.replace('#/components/responses/', '');
+  const target = spec.components?.responses?.[name];
+  if (!target) {
+    throw new Error(`Unknown response reference: ${response.$ref}`);
+  }
+  return target;
+}
+
+/** Every endpoint of the spec, except the API documentation routes. */
+export function listOperations(): Operation[] {
+  return Object.entries(spec.paths).flatMap(([path, pathItem]) =>
+    Object.entries(pathItem)
+      .filter(
+        ([, operation]) =>
+          operation.operationId &&
+          !operation.operationId.startsWith('l5-swagger.')
+      )
+      .map(([method, operation]) => ({
+        alias: operation.operationId!,
+        method,
+        path,
+        requestBody:
+          operation.requestBody?.content?.['application/json']?.schema,
+        responses: Object.entries(operation.responses ?? {}).flatMap(
+          ([status, response]) => {
+            const schema =
+              resolveResponse(response).content?.['application/json']?.schema;
+            return schema ? [{ status: Number(status), schema }] : [];
+          }
+        ),
+      }))
+  );
+}
+
+/** A generated endpoint, seen through the fields the contract tests read. */
+export interface GeneratedEndpoint {
+  alias?: string;
+  parameters?: readonly { type: string; schema: z.ZodTypeAny }[];
+  response: z.ZodTypeAny;
+  errors?: readonly { status: number | 'default'; schema: z.ZodTypeAny }[];
+}
+
+/** The endpoint of `generated/api-client.ts` with this alias. */
+export function findGeneratedEndpoint(alias: string): GeneratedEndpoint {
+  const endpoint = (endpoints as readonly GeneratedEndpoint[]).find(
+    (candidate) => candidate.alias === alias
+  );
+  if (!endpoint) {
+    throw new Error(`No generated endpoint for ${alias}`);
+  }
+  return endpoint;
+}
+
+function typesOf(schema: SpecSchema): string[] {
+  const types = ([] as string[]).concat(schema.type ?? []);
+  return schema.nullable ? [...types, 'null'] : types;
+}
+
+/**
+ * Builds a value that matches a spec schema.
+ * `full` fills in optional fields too; `minimal` only the required ones, with `null` where
+ * allowed, to check the frontend schemas don't expect more than the API promises.
+ */
+export function buildExample(
+  schema: SpecSchema,
+  variant: 'full' | 'minimal' = 'full'
+): unknown {
+  const resolved = resolveSchema(schema);
+  const types = typesOf(resolved);
+
+  if (variant === 'minimal' && types.includes('null')) {
+    return null;
+  }
+  if (resolved.example !== undefined) {
+    return resolved.example;
+  }
+  if (resolved.enum) {
+    return resolved.enum[0];
+  }
+  const alternatives = resolved.anyOf ?? resolved.oneOf;
+  if (alternatives) {
+    return buildExample(alternatives[0]!, variant);
+  }
+  if (resolved.allOf) {
+    return Object.assign(
+      {},
+      ...resolved.allOf.map((part) => buildExample(part, variant))
+    );
+  }
+
+  const type = types.find((candidate) => candidate !== 'null') ?? 'object';
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(resolved.properties ?? {})
+          .filter(
+            ([name]) =>
+              variant === 'full' || (resolved.required ?? []).includes(name)
+          )
+          .map(([name, property]) => [name, buildExample(property, variant)])
+      );
+    case 'array':
+      return variant === 'full' && resolved.items
+        ? [buildExample(resolved.items, variant)]
+        : [];
+    case 'integer':
+      return resolved.minimum ?? 1;
+    case 'number':
+      return resolved.minimum ?? 1.5;
+    case 'boolean':
+      return true;
+    default:
+      if (resolved.format === 'date-time') {
+        return '2025-01-01T12:00:00.000000Z';
+      }
+      if (resolved.format === 'email') {
+        return 'learner@example.com';
+      }
+      // Long enough for the client-side minimum lengths (e.g., passwords)
+      return 'example text'.slice(0, resolved.maxLength ?? undefined);
+  }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+      );
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Lists what the API would reject in a value, e.g., `body.title: longer than 255`.
+ * A required string must not be empty, like Laravel's `required` rule.
+ */
+export function findSpecViolations(
+  schema: SpecSchema,
+  value: unknown,
+  path = 'body'
+): string[] {
+  const resolved = resolveSchema(schema);
+  const alternatives = resolved.anyOf ?? resolved.oneOf;
+  if (alternatives) {
+    return alternatives.some(
+      (alternative) => findSpecViolations(alternative, value, path).length === 0
+    )
+      ? []
+      : [`${path}: matches none of the alternatives`];
+  }
+  if (resolved.allOf) {
+    return resolved.allOf.flatMap((part) =>
+      findSpecViolations(part, value, path)
+    );
+  }
+
+  const types = typesOf(resolved);
+  if (types.length && !types.some((type) => matchesType(type, value))) {
+    return [`${path}: expected ${types.join(' | ')}`];
+  }
+  if (value === null) {
+    return [];
+  }
+  if (resolved.enum && !resolved.enum.includes(value)) {
+    return [`${path}: not one of ${resolved.enum.join(', ')}`];
+  }
+
+  const problems: string[] = [];
+  if (typeof value === 'string') {
+    if (resolved.maxLength !== undefined && value.length > resolved.maxLength) {
+      problems.push(`${path}: longer than ${resolved.maxLength}`);
+    }
+    if (resolved.minLength !== undefined && value.length < resolved.minLength) {
+      problems.push(`${path}: shorter than ${resolved.minLength}`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (resolved.maximum !== undefined && value > resolved.maximum) {
+      problems.push(`${path}: above ${resolved.maximum}`);
+    }
+    if (resolved.minimum !== undefined && value < resolved.minimum) {
+      problems.push(`${path}: below ${resolved.minimum}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (resolved.maxItems !== undefined && value.length > resolved.maxItems) {
+      problems.push(`${path}: more than ${resolved.maxItems} items`);
+    }
+    if (resolved.minItems !== undefined && value.length < resolved.minItems) {
+      problems.push(`${path}: fewer than ${resolved.minItems} items`);
+    }
+    if (resolved.items) {
+      value.forEach((item, index) =>
+        problems.push(
+          ...findSpecViolations(resolved.items!, item, `${path}[${index}]`)
+        )
+      );
+    }
+  }
+  if (matchesType('object', value) && resolved.properties) {
+    const record = value as Record<string, unknown>;
+    (resolved.required ?? []).forEach((name) => {
+      if (record[name] === undefined || record[name] === '') {
+        problems.push(`${path}.${name}: required`);
+      }
+    });
+    Object.entries(resolved.properties).forEach(([name, property]) => {
+      if (record[name] !== undefined) {
+        problems.push(
+          ...findSpecViolations(property, record[name], `${path}.${name}`)
+        );
+      }
+    });
+  }
+  return problems;
+}
+
+// A value of a spec schema, within its limits
+function validValue(
+  schema: SpecSchema,
+  required: boolean
+): fc.Arbitrary<unknown> {
+  const resolved = resolveSchema(schema);
+  if (resolved.enum) {
+    return fc.constantFrom(...resolved.enum);
+  }
+  const type = typesOf(resolved).find((candidate) => candidate !== 'null');
+  switch (type) {
+    case 'object':
+      return validObject(resolved);
+    case 'array':
+      return fc.array(validValue(resolved.items ?? {}, true), {
+        minLength: resolved.minItems ?? 0,
+        maxLength: Math.min(resolved.maxItems ?? 5, 5),
+      });
+    case 'integer':
+      return fc.integer({
+        min: resolved.minimum ?? 1,
+        max: resolved.maximum ?? 1_000_000,
+      });
+    case 'number':
+      return fc.double({
+        min: resolved.minimum ?? 0,
+        max: resolved.maximum ?? 1_000_000,
+        noNaN: true,
+      });
+    case 'boolean':
+      return fc.boolean();
+    default:
+      if (resolved.format === 'email') {
+        return fc.emailAddress();
+      }
+      return fc.string({
+        minLength: Math.max(resolved.minLength ?? 0, required ? 1 : 0),
+        maxLength: resolved.maxLength ?? 300,
+      });
+  }
+}
+
+function validObject(
+  schema: SpecSchema
+): fc.Arbitrary<Record<string, unknown>> {
+  const required = schema.required ?? [];
+  const properties = schema.properties ?? {};
+  return fc.record(
+    Object.fromEntries(
+      Object.entries(properties).map(([name, property]) => [
+        name,
+        validValue(property, required.includes(name)),
+      ])
+    ),
+    { requiredKeys: required }
+  );
+}
+
+// The same object with one field broken in a way the API always rejects
+function invalidObject(
+  schema: SpecSchema
+): fc.Arbitrary<Record<string, unknown>> {
+  const required = schema.required ?? [];
+  const fields = Object.entries(schema.properties ?? {}).map(
+    ([name, property]) => ({ name, property: resolveSchema(property) })
+  );
+  const breakages: fc.Arbitrary<[string, unknown]>[] = [];
+
+  required.forEach((name) =>
+    breakages.push(fc.constant<[string, unknown]>([name, undefined]))
+  );
+  fields.forEach(({ name, property }) => {
+    const types = typesOf(property);
+    // A value of the wrong type: a number for a string, a string for anything else
+    breakages.push(
+      fc.constant<[string, unknown]>([
+        name,
+        types.includes('string') ? 42 : 'not the right type',
+      ])
+    );
+    if (property.enum) {
+      breakages.push(fc.constant<[string, unknown]>([name, 'not-in-the-enum']));
+    }
+    if (property.maxLength !== undefined) {
+      // Letters only, so trimming can't bring it back within the limit
+      breakages.push(
+        fc
+          .integer({
+            min: property.maxLength + 1,
+            max: property.maxLength + 20,
+          })
+          .map((length): [string, unknown] => [name, 'x'.repeat(length)])
+      );
+    }
+    if (property.maxItems !== undefined) {
+      breakages.push(
+        fc.constant<[string, unknown]>([
+          name,
+          Array.from({ length: property.maxItems + 1 }, () =>
+            buildExample(property.items ?? {})
+          ),
+        ])
+      );
+    }
+  });
+
+  return fc
+    .tuple(validObject(schema), fc.oneof(...breakages))
+    .map(([payload, [name, value]]) => {
+      const broken = { ...payload };
+      if (value === undefined) {
+        delete broken[name];
+      } else {
+        broken[name] = value;
+      }
+      return broken;
+    });
+}
+
+/** Generators for request payloads: `valid` ones the API accepts, `invalid` ones it rejects. */
+export function payloadArbitrary(schema: SpecSchema) {
+  const resolved = resolveSchema(schema);
+  return { valid: validObject(resolved), invalid: invalidObject(resolved) };
+}
@@ -0,0 +1,122 @@
+/**
+ * @file packages/api-types/src/__tests__/requestContracts.test.ts
+ * @description Fuzzes the request schemas with payloads generated from the OpenAPI spec.
+ *
+ * For every endpoint with a request body, the generated schema and the hand-written ones the
+ * forms use (`LoginRequestSchema`, `ExtendedRegisterSchema`, ...) must:
+ * - accept the example request built from the spec,
+ * - never accept a payload the API would reject (the frontend may be stricter, not looser),
+ * - reject payloads that are broken on purpose (a missing field, a wrong type, ...).
+ *
+ * For a learner:
+ * - When a property fails, fast-check prints the smallest payload that breaks it, and a seed
+ *   to replay the same run.
+ */
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { z } from 'zod';
+import {
+  buildExample,
+  findGeneratedEndpoint,
+  findSpecViolations,
+  listOperations,
+  payloadArbitrary,
+} from './openApiFixtures';
+import {
+  LoginRequestSchema,
+  LogoutRequestSchema,
+  RefreshTokenRequestSchema,
+  RegisterRequestSchema,
+} from '../authSchemas';
+import {
+  CreateNoteRequestSchema,
+  UpdateNoteRequestSchema,
+} from '../noteSchemas';
+import { CreateTagRequestSchema, UpdateTagRequestSchema } from '../tagSchemas';
+import {
+  ExtendedLoginSchema,
+  ExtendedNoteSchema,
+  ExtendedRegisterSchema,
+} from '../extendedSchemas';
+
+/** The hand-written schemas of each endpoint's request body, by name. */
+const handWrittenRequestSchemas: Record<
+  string,
+  Record<string, z.ZodTypeAny>
+> = {
+  'auth.login': { LoginRequestSchema, ExtendedLoginSchema },
+  'auth.register': { RegisterRequestSchema, ExtendedRegisterSchema },
+  'auth.refresh': { RefreshTokenRequestSchema },
+  'auth.logout': { LogoutRequestSchema },
+  'note.store': { CreateNoteRequestSchema, ExtendedNoteSchema },
+  'note.update': { UpdateNoteRequestSchema },
+  'tag.store': { CreateTagRequestSchema },
+  'tag.update': { UpdateTagRequestSchema },
+};
+
+const cases = listOperations().flatMap(({ alias, requestBody }) => {
+  if (!requestBody) {
+    return [];
+  }
+  const bodyParameter = findGeneratedEndpoint(alias).parameters?.find(
+    (parameter) => parameter.type === 'Body'
+  );
+  if (!bodyParameter) {
+    throw new Error(`The generated ${alias} endpoint has no request body`);
+  }
+  return Object.entries({
+    generated: bodyParameter.schema,
+    ...handWrittenRequestSchemas[alias],
+  }).map(([schemaName, schema]) => ({
+    alias,
+    schemaName,
+    schema,
+    requestBody,
+  }));
+});
+
+describe('OpenAPI request bodies', () => {
+  it('has hand-written schemas for the documented request bodies only', () => {
+    const documented = listOperations()
+      .filter(({ requestBody }) => requestBody)
+      .map(({ alias }) => alias);
+    expect(Object.keys(handWrittenRequestSchemas).sort()).toEqual(
+      documented.sort()
+    );
+  });
+
+  it.each(cases)(
+    '$alias: $schemaName accepts the example request',
+    ({ schema, requestBody }) => {
+      const result = schema.safeParse(buildExample(requestBody));
+      expect(result.error?.issues ?? []).toEqual([]);
+    }
+  );
+
+  it.each(cases)(
+    '$alias: $schemaName only accepts what the API accepts',
+    ({ schema, requestBody }) => {
+      const { valid, invalid } = payloadArbitrary(requestBody);
+      fc.assert(
+        fc.property(fc.oneof(valid, invalid), (payload) => {
+          const result = schema.safeParse(payload);
+          if (result.success) {
+            expect(findSpecViolations(requestBody, result.data)).toEqual([]);
+          }
+        })
+      );
+    }
+  );
+
+  it.each(cases)(
+    '$alias: $schemaName rejects broken payloads',
+    ({ schema, requestBody }) => {
+      const { invalid } = payloadArbitrary(requestBody);
+      fc.assert(
+        fc.property(invalid, (payload) => {
+          expect(schema.safeParse(payload).success).toBe(false);
+        })
+      );
+    }
+  );
+});
@@ -0,0 +1,122 @@
+/**
+ * @file packages/api-types/src/__tests__/responseContracts.test.ts
+ * @description Checks that every response the OpenAPI spec documents parses with our schemas.
+ *
+ * For each endpoint and status, an example body is built from the spec (see `openApiFixtures.ts`)
+ * and parsed with:
+ * - the generated schema (the endpoint's `response`, or its `errors` entry for that status),
+ * - the hand-written schema the apps use (`LoginResponseSchema`, `GetNotesResponseSchema`, ...).
+ *
+ * For a learner:
+ * - If the Laravel API changes a response and the schemas aren't regenerated, these tests fail
+ *   before a user sees "Invalid response" in the app.
+ */
+import { describe, expect, it } from 'vitest';
+import type { z } from 'zod';
+import {
+  buildExample,
+  findGeneratedEndpoint,
+  listOperations,
+} from './openApiFixtures';
+import {
+  GetUserResponseSchema,
+  LoginResponseSchema,
+  LogoutResponseSchema,
+  RefreshTokenResponseSchema,
+  RegisterResponseSchema,
+} from '../authSchemas';
+import {
+  CreateNoteResponseSchema,
+  DeleteNoteResponseSchema,
+  GetNotesResponseSchema,
+  UpdateNoteResponseSchema,
+} from '../noteSchemas';
+import {
+  CreateTagResponseSchema,
+  GetTagsResponseSchema,
+  UpdateTagResponseSchema,
+} from '../tagSchemas';
+import {
+  ErrorMessageResponseSchema,
+  ValidationErrorResponseSchema,
+} from '../errorSchemas';
+
+/** The hand-written schema of each endpoint's successful response. */
+const handWrittenResponseSchemas: Record<string, z.ZodTypeAny> = {
+  'auth.login': LoginResponseSchema,
+  'auth.register': RegisterResponseSchema,
+  'auth.refresh': RefreshTokenResponseSchema,
+  'auth.logout': LogoutResponseSchema,
+  'auth.user': GetUserResponseSchema,
+  'note.index': GetNotesResponseSchema,
+  'note.mine': GetNotesResponseSchema,
+  'note.store': CreateNoteResponseSchema,
+  'note.update': UpdateNoteResponseSchema,
+  'note.destroy': DeleteNoteResponseSchema,
+  'tag.index': GetTagsResponseSchema,
+  'tag.store': CreateTagResponseSchema,
+  'tag.update': UpdateTagResponseSchema,
+};
+
+function generatedSchemaFor(alias: string, status: number): z.ZodTypeAny {
+  const endpoint = findGeneratedEndpoint(alias);
+  if (status < 300) {
+    return endpoint.response;
+  }
+  const error = endpoint.errors?.find(
+    (candidate) => candidate.status === status
+  );
+  if (!error) {
+    throw new Error(`No generated ${status} schema for ${alias}`);
+  }
+  return error.schema;
+}
+
+function handWrittenSchemaFor(alias: string, status: number) {
+  if (status === 422) {
+    return ValidationErrorResponseSchema;
+  }
+  return status < 300
+    ? handWrittenResponseSchemas[alias]
+    : ErrorMessageResponseSchema;
+}
+
+const cases = listOperations().flatMap((operation) =>
+  operation.responses.flatMap(({ status, schema }) =>
+    (['full', 'minimal'] as const).map((variant) => ({
+      alias: operation.alias,
+      status,
+      variant,
+      body: buildExample(schema, variant),
+    }))
+  )
+);
+
+describe('OpenAPI response examples', () => {
+  it('covers every documented endpoint', () => {
+    const documented = new Set(listOperations().map(({ alias }) => alias));
+    const covered = new Set(cases.map(({ alias }) => alias));
+    expect([...covered].sort()).toEqual([...documented].sort());
+  });
+
+  it.each(cases)(
+    '$alias $status ($variant) parses with the generated schema',
+    ({ alias, status, body }) => {
+      const result = generatedSchemaFor(alias, status).safeParse(body);
+      expect(result.error?.issues ?? []).toEqual([]);
+    }
+  );
+
+  it.each(cases)(
+    '$alias $status ($variant) parses with the hand-written schema',
+    ({ alias, status, body }) => {
+      const schema = handWrittenSchemaFor(alias, status);
+      if (!schema) {
+        // Endpoints without a hand-written schema are only called through the generated hooks
+        return;
+      }
+      const result = schema.safeParse(body);
+      expect(result.error?.issues ?? []).toEqual([]);
+    }
+  );
+});
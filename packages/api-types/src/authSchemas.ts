@@ -2,8 +2,10 @@
  * @file packages/api-types/src/authSchemas.ts
  * @description Defines Zod schemas and TypeScript types for authentication API endpoints.
  *
- * This file serves as the single source of truth for the data structures (contracts)
- * used in authentication-related API requests and responses. Zod (imported as `z`)
+ * The contract itself comes from the OpenAPI spec: responses are the generated schemas
+ * (see `endpoints.ts`), and request schemas are the generated request bodies, which already
+ * carry friendly messages (see `scripts/schema-rules.js`), plus client-only rules (e.g.,
+ * matching passwords). Zod (imported as `z`)
  * is used for schema definition, which provides:
  * 1. Runtime validation of data (e.g., ensuring an email is a valid email string).
  * 2. Static TypeScript type inference using `z.infer<typeof SchemaName>`, eliminating
@@ -22,91 +24,57 @@
  * - `z.string()`, `z.number()`, `z.email()` are examples of type-specific validators.
  * - Methods like `.min()`, `.max()` add further constraints.
  * - `z.infer<T>` is a key feature for deriving TypeScript types directly from schemas.
+ * - A field the backend adds to a response appears here after `yarn generate-api-types`,
+ *   without editing this file.
  */
 import { z } from 'zod';
+import { schemas } from './generated/api-client';
+import { getBodySchema, getResponseSchema } from './endpoints';
 
 /**
- * UserSchema defines the structure and validation rules for a user object.
+ * UserSchema defines a user object as the API returns it (`UserResource` in the spec).
  * This schema is reused across different API responses.
  * - `id`: A number, typically the user's unique identifier.
  * - `name`: A string for the user's name.
- * - `email`: A string that must also be a valid email format.
+ * - `email`: The user's email address.
  * - `created_at`, `updated_at`: Timestamps, represented as strings (e.g., ISO 8601 format).
  */
-export const UserSchema = z.object({
-  id: z.number(),
-  name: z.string(),
-  email: z.string().email({ message: 'Invalid email address' }), // Example of a Zod-level message
-  created_at: z.string(),
-  updated_at: z.string(),
-});
+export const UserSchema = schemas.UserResource;
 /** TypeScript type inferred from `UserSchema`. Represents a user object. */
 export type User = z.infer<typeof UserSchema>;
 
 /**
  * LoginRequestSchema defines the expected structure for a login request payload.
+ * It is the generated `auth_login_Body`, which already carries user-facing messages
+ * (see `scripts/schema-rules.js`).
  * - `email`: Must be a string in valid email format.
- * - `password`: Must be a string.
+ * - `password`: Must be a non-empty string.
  */
-export const LoginRequestSchema = z.object({
-  email: z.string().email({ message: 'Please enter a valid email address' }),
-  password: z.string().min(1, { message: 'Password is required' }), // Added min(1) for basic presence
-});
+export const LoginRequestSchema = schemas.auth_login_Body;
 /** TypeScript type inferred from `LoginRequestSchema`. */
 export type LoginRequest = z.infer<typeof LoginRequestSchema>;
 
 /**
  * LoginResponseSchema defines the expected structure of a successful login API response.
- * - `token`: A string representing the authentication token (e.g., Sanctum API token).
+ * - `message`: A confirmation such as "Login successful".
+ * - `token`: A string representing the short-lived access token (a Sanctum API token).
+ * - `refresh_token`: A long-lived, single-use token exchanged at `/auth/refresh` for a new pair.
+ * - `expires_at`: ISO 8601 timestamp after which `token` is no longer accepted.
  * - `user`: The authenticated user's details, conforming to `UserSchema`.
+ * The three token fields are left out when the API started a cookie session instead
+ * (Sanctum's SPA authentication, used by the web app's cookie auth mode).
  */
-export const LoginResponseSchema = z.object({
-  token: z.string(),
-  user: UserSchema, // Reuses the UserSchema
-});
+export const LoginResponseSchema = getResponseSchema('auth.login');
 /** TypeScript type inferred from `LoginResponseSchema`. */
 export type LoginResponse = z.infer<typeof LoginResponseSchema>;
 
 /**
  * RegisterRequestSchema defines the structure and validation for a new user registration payload.
- * It includes specific error messages that can be used for validation feedback.
- * Note: `extendedSchemas.ts` might provide more UI-friendly overrides for these messages.
+ * The generated `auth_register_Body` already carries the error messages used for validation
+ * feedback and the minimum password length (see `scripts/schema-rules.js`); this schema adds
+ * the check that both passwords match.
  */
-export const RegisterRequestSchema = z
-  .object({
-    name: z
-      .string({
-        // `required_error` is shown if the field is missing entirely.
-        required_error: 'Name is required',
-        // `invalid_type_error` is shown if the field is present but not a string.
-        invalid_type_error: 'Name must be a string',
-      })
-      .min(1, { message: 'Name is required' }), // Ensures name is not an empty string.
-
-    email: z
-      .string({
-        required_error: 'Email is required',
-        invalid_type_error: 'Email must be a string',
-      })
-      .min(1, { message: 'Email is required' })
-      .email({ message: 'Please enter a valid email address' }), // Validates email format.
-
-    password: z
-      .string({
-        required_error: 'Password is required',
-        invalid_type_error: 'Password must be a string',
-      })
-      // Example: Enforce a minimum password length at the schema level.
-      // Laravel's `Rules\Password::defaults()` might enforce stricter rules on the backend.
-      .min(8, { message: 'Password must be at least 8 characters' }),
-
-    password_confirmation: z
-      .string({
-        required_error: 'Password confirmation is required',
-        invalid_type_error: 'Password confirmation must be a string',
-      })
-      .min(1, { message: 'Password confirmation is required' }),
-  })
+export const RegisterRequestSchema = schemas.auth_register_Body
   // `.refine()` is used for validations that depend on multiple fields.
   // Here, it checks if `password` and `password_confirmation` match.
   .refine(
@@ -121,12 +89,10 @@ export type RegisterRequest = z.infer<typeof RegisterRequestSchema>;
 
 /**
  * RegisterResponseSchema defines the structure of a successful registration API response.
- * Similar to `LoginResponseSchema`, it includes the auth token and user details.
+ * Similar to `LoginResponseSchema`, it includes a message, the token pair, expiry and user details
+ * (without the token fields for a cookie session).
  */
-export const RegisterResponseSchema = z.object({
-  token: z.string(),
-  user: UserSchema, // Reuses UserSchema
-});
+export const RegisterResponseSchema = getResponseSchema('auth.register');
 /** TypeScript type inferred from `RegisterResponseSchema`. */
 export type RegisterResponse = z.infer<typeof RegisterResponseSchema>;
 
@@ -139,12 +105,34 @@ export const GetUserResponseSchema = UserSchema;
 /** TypeScript type inferred from `GetUserResponseSchema`. Represents the authenticated user's profile. */
 export type GetUserResponse = z.infer<typeof GetUserResponseSchema>;
 
+/**
+ * RefreshTokenRequestSchema defines the payload for exchanging a refresh token.
+ * - `refresh_token`: The refresh token received from login, registration or a previous refresh.
+ */
+export const RefreshTokenRequestSchema = getBodySchema('auth.refresh');
+/** TypeScript type inferred from `RefreshTokenRequestSchema`. */
+export type RefreshTokenRequest = z.infer<typeof RefreshTokenRequestSchema>;
+
+/**
+ * RefreshTokenResponseSchema defines the structure of a successful `/auth/refresh` response.
+ * The previous refresh token is revoked by the server, so both tokens must be replaced.
+ */
+export const RefreshTokenResponseSchema = getResponseSchema('auth.refresh');
+/** TypeScript type inferred from `RefreshTokenResponseSchema`. */
+export type RefreshTokenResponse = z.infer<typeof RefreshTokenResponseSchema>;
+
+/**
+ * LogoutRequestSchema defines the optional payload for logging out.
+ * Sending the refresh token lets the server revoke it together with the access token.
+ */
+export const LogoutRequestSchema = getBodySchema('auth.logout');
+/** TypeScript type inferred from `LogoutRequestSchema`. */
+export type LogoutRequest = z.infer<typeof LogoutRequestSchema>;
+
 /**
  * LogoutResponseSchema defines the structure for the API response after a successful logout.
  * Typically, this might just be a success message.
  */
-export const LogoutResponseSchema = z.object({
-  message: z.string(),
-});
+export const LogoutResponseSchema = getResponseSchema('auth.logout');
 /** TypeScript type inferred from `LogoutResponseSchema`. */
 export type LogoutResponse = z.infer<typeof LogoutResponseSchema>;
@@ -0,0 +1,126 @@
+/**
+ * @file packages/api-types/src/endpoints.ts
+ * @description Types and schemas for each API endpoint, looked up by its alias.
+ *
+ * `generated/api-client.ts` describes every endpoint of the Laravel API in one `endpoints`
+ * array: method, path, alias (e.g., `auth.login`, the route name in Laravel), request body,
+ * query parameters, response and error schemas. Everything in this file is derived from that
+ * array, so the shared `apiClient` and the hand-written schemas in `authSchemas.ts`,
+ * `noteSchemas.ts` and `tagSchemas.ts` can't drift away from the OpenAPI spec.
+ *
+ * For a learner:
+ * - `ApiResponse<'auth.login'>` is the TypeScript type of a successful login response. When
+ *   the backend adds a field and the types are regenerated, this type gains it automatically.
+ * - `getResponseSchema('auth.login')` returns the matching Zod schema at runtime, with its
+ *   exact type, so it can be extended (`.extend({...})`) like any other schema.
+ */
+import type { z } from 'zod';
+import { endpoints } from './generated/api-client';
+
+/** The generated endpoint definitions. */
+export type ApiEndpoints = typeof endpoints;
+
+/** The alias of every endpoint, e.g., `'note.index'`. */
+export type ApiAlias = NonNullable<ApiEndpoints[number]['alias']>;
+
+// NOTE: `@zodios/core` ships similar helpers (`ZodiosResponseByAlias`, ...), but they are
+// expensive for the type checker; these plain `Extract` lookups give the same results.
+
+/** The definition of the endpoint with the given alias. */
+export type ApiEndpoint<A extends ApiAlias> = Extract<
+  ApiEndpoints[number],
+  { alias: A }
+>;
+
+type ApiParameterShape = { type: string; schema: z.ZodTypeAny };
+
+type SchemaOf<T> = T extends { schema: infer S extends z.ZodTypeAny }
+  ? S
+  : never;
+
+type ApiParameter<
+  A extends ApiAlias,
+  Type extends 'Body' | 'Query' | 'Path',
+> = Extract<
+  ApiEndpoint<A> extends { parameters: readonly (infer P)[] } ? P : never,
+  { type: Type }
+>;
+
+/** The Zod schema of an endpoint's request body. */
+export type ApiRequestBodySchema<A extends ApiAlias> = SchemaOf<
+  ApiParameter<A, 'Body'>
+>;
+
+/** The request body an endpoint accepts. */
+export type ApiRequestBody<A extends ApiAlias> = z.input<
+  ApiRequestBodySchema<A>
+>;
+
+/** The query parameters an endpoint accepts (all of them are optional). */
+export type ApiQueryParams<A extends ApiAlias> = {
+  [P in ApiParameter<A, 'Query'> as P extends { name: infer N extends string }
+    ? N
+    : never]?: z.input<SchemaOf<P>>;
+};
+
+/** The path parameters an endpoint needs, e.g., `{ note: number }` for `/notes/:note`. */
+export type ApiPathParams<A extends ApiAlias> = {
+  [P in ApiParameter<A, 'Path'> as P extends { name: infer N extends string }
+    ? N
+    : never]: z.input<SchemaOf<P>>;
+};
+
+/** The Zod schema of an endpoint's successful response. */
+export type ApiResponseSchema<A extends ApiAlias> =
+  ApiEndpoint<A> extends { response: infer R extends z.ZodTypeAny } ? R : never;
+
+/** The body of an endpoint's successful response. */
+export type ApiResponse<A extends ApiAlias> = z.output<ApiResponseSchema<A>>;
+
+/** The body of an endpoint's error response with the given status, e.g., `422`. */
+export type ApiErrorBody<A extends ApiAlias, Status extends number> = z.output<
+  SchemaOf<
+    Extract<
+      ApiEndpoint<A> extends { errors: readonly (infer E)[] } ? E : never,
+      { status: Status }
+    >
+  >
+>;
+
+/**
+ * Looks up an endpoint definition by its alias.
+ * @throws Error if no endpoint has this alias (only possible when bypassing the types).
+ */
+export function getEndpoint<A extends ApiAlias>(alias: A): ApiEndpoint<A> {
+  const endpoint = endpoints.find((candidate) => candidate.alias === alias);
+  if (!endpoint) {
+    throw new Error(`Unknown API endpoint: ${alias}`);
+  }
+  return endpoint as ApiEndpoint<A>;
+}
+
+/** The Zod schema of an endpoint's successful response. */
+export function getResponseSchema<A extends ApiAlias>(
+  alias: A
+): ApiResponseSchema<A> {
+  const { response }: { response: z.ZodTypeAny } = getEndpoint(alias);
+  return response as ApiResponseSchema<A>;
+}
+
+/**
+ * The Zod schema of an endpoint's request body.
+ * @throws Error if the endpoint doesn't take a body.
+ */
+export function getBodySchema<A extends ApiAlias>(
+  alias: A
+): ApiRequestBodySchema<A> {
+  // Not every endpoint has parameters, so look at them through the common shape.
+  const { parameters = [] } = getEndpoint(alias) as {
+    parameters?: readonly ApiParameterShape[];
+  };
+  const parameter = parameters.find((candidate) => candidate.type === 'Body');
+  if (!parameter) {
+    throw new Error(`API endpoint ${alias} has no request body`);
+  }
+  return parameter.schema as ApiRequestBodySchema<A>;
+}
@@ -0,0 +1,49 @@
+/**
+ * @file packages/api-types/src/errorSchemas.ts
+ * @description Defines Zod schemas and TypeScript types for the API's error responses.
+ *
+ * Laravel answers failed requests with a small JSON body:
+ * - 422 (validation failed): `{ message, errors: { field: ["message", ...] } }`.
+ * - 401, 403 and 404: `{ message }`.
+ *
+ * The API clients check error bodies against these schemas before turning them into typed
+ * errors (see `packages/shared/src/services/apiErrors.ts`), so a form never receives
+ * "field errors" that are not actually in the expected shape.
+ *
+ * For a learner:
+ * - The `satisfies` checks tie each schema to the response types generated from the OpenAPI
+ *   spec (`components['responses']` in `generated/api-types.ts`). If the spec's error
+ *   responses change, the type-check fails here instead of the app misreading errors.
+ */
+import { z } from 'zod';
+import type { components } from './generated/api-types';
+
+type ErrorResponses = components['responses'];
+
+/**
+ * ValidationErrorResponseSchema defines the body of a 422 response.
+ * - `message`: Summary, usually the first field's message (e.g., "The email field is required.").
+ * - `errors`: Every field that failed validation, with all of its messages.
+ */
+export const ValidationErrorResponseSchema = z.object({
+  message: z.string(),
+  errors: z.record(z.array(z.string())),
+}) satisfies z.ZodType<
+  ErrorResponses['ValidationException']['content']['application/json']
+>;
+/** TypeScript type inferred from `ValidationErrorResponseSchema`. */
+export type ValidationErrorResponse = z.infer<
+  typeof ValidationErrorResponseSchema
+>;
+
+/**
+ * ErrorMessageResponseSchema defines the body of 401 (unauthenticated), 403 (forbidden) and
+ * 404 (not found) responses: a single human-readable `message`.
+ */
+export const ErrorMessageResponseSchema = z.object({
+  message: z.string(),
+}) satisfies z.ZodType<
+  ErrorResponses['AuthenticationException']['content']['application/json']
+>;
+/** TypeScript type inferred from `ErrorMessageResponseSchema`. */
+export type ErrorMessageResponse = z.infer<typeof ErrorMessageResponseSchema>;
@@ -4,8 +4,10 @@ import { z } from 'zod';
 /**
  * Extended schemas with custom error messages
  *
- * IMPORTANT: When updating validation rules or messages in Laravel controllers,
- * make sure to update the corresponding error messages here to keep them in sync.
+ * The messages themselves are added to the generated schemas by
+ * `scripts/post-process-schemas.js`, from the `x-messages` extension in the OpenAPI spec or
+ * from `scripts/schema-rules.js`. Change a message there, then run `yarn generate-api-types`.
+ * What is left here are the rules the spec can't express (e.g., matching passwords).
  *
  * See:
  * - apps/laravel-api/app/Http/Controllers/AuthController.php
@@ -13,77 +15,25 @@ import { z } from 'zod';
  */
 
 /**
- * Extended Register Request Schema with custom error messages
+ * Extended Register Request Schema: the generated body, plus matching passwords
  */
-export const ExtendedRegisterSchema = schemas.auth_register_Body
-  .extend({
-    name: z
-      .string({
-        invalid_type_error: 'Name must be a string',
-      })
-      .min(1, { message: 'Please enter your name' })
-      .max(255, { message: 'Name must be less than 255 characters' }),
-
-    email: z
-      .string({
-        invalid_type_error: 'Email must be a string',
-      })
-      .min(1, { message: 'Email is required' })
-      .max(255)
-      .email({ message: 'Please enter a valid email address' }),
-
-    password: z
-      .string({
-        invalid_type_error: 'Password must be a string',
-      })
-      .min(8, { message: 'Password must be at least 8 characters' }),
-
-    password_confirmation: z
-      .string({
-        invalid_type_error: 'Password confirmation must be a string',
-      })
-      .min(1, { message: 'Password confirmation is required' }),
-  })
-  .refine((data) => data.password === data.password_confirmation, {
+export const ExtendedRegisterSchema = schemas.auth_register_Body.refine(
+  (data) => data.password === data.password_confirmation,
+  {
     message: "Passwords don't match",
     path: ['password_confirmation'],
-  });
+  }
+);
 
 /**
- * Extended Login Request Schema with custom error messages
+ * Extended Login Request Schema (the generated body already carries the messages)
  */
-export const ExtendedLoginSchema = schemas.auth_login_Body.extend({
-  email: z
-    .string({
-      invalid_type_error: 'Email must be a string',
-    })
-    .min(1, { message: 'Email is required' })
-    .email({ message: 'Please enter a valid email address' }),
-
-  password: z
-    .string({
-      invalid_type_error: 'Password must be a string',
-    })
-    .min(1, { message: 'Password is required' }),
-});
+export const ExtendedLoginSchema = schemas.auth_login_Body;
 
 /**
- * Extended Note Request Schema with custom error messages
+ * Extended Note Request Schema (the generated body already carries the messages)
  */
-export const ExtendedNoteSchema = schemas.note_store_Body.extend({
-  title: z
-    .string({
-      invalid_type_error: 'Title must be a string',
-    })
-    .min(1, { message: 'Title is required' })
-    .max(255, { message: 'Title must be less than 255 characters' }),
-
-  content: z
-    .string({
-      invalid_type_error: 'Content must be a string',
-    })
-    .min(1, { message: 'Content is required' }),
-});
+export const ExtendedNoteSchema = schemas.note_store_Body;
 
 // Export types based on the extended schemas
 export type ExtendedRegisterRequest = z.infer<typeof ExtendedRegisterSchema>;
@@ -3,17 +3,38 @@ import { z } from 'zod';
 
 const auth_register_Body = z
   .object({
-    name: z.string().min(1, { message: 'name is required' }).max(255),
-    email: z.string().max(255).email(),
-    password: z.string().min(1, { message: 'password is required' }),
+    name: z
+      .string({
+        required_error: 'Please enter your name',
+        invalid_type_error: 'Name must be a string',
+      })
+      .min(1, { message: 'Please enter your name' })
+      .max(255, { message: 'Name must be at most 255 characters' }),
+    email: z
+      .string({
+        required_error: 'Email is required',
+        invalid_type_error: 'Email must be a string',
+      })
+      .min(1, { message: 'Email is required' })
+      .max(255, { message: 'Email must be at most 255 characters' })
+      .email({ message: 'Please enter a valid email address' }),
+    password: z
+      .string({
+        required_error: 'Password is required',
+        invalid_type_error: 'Password must be a string',
+      })
+      .min(8, { message: 'Password must be at least 8 characters' }),
     password_confirmation: z
-      .string()
-      .min(1, { message: 'password_confirmation is required' }),
+      .string({
+        required_error: 'Password confirmation is required',
+        invalid_type_error: 'Password confirmation must be a string',
+      })
+      .min(1, { message: 'Password confirmation is required' }),
   })
-  .passthrough();
+  .strict();
 const UserResource = z
   .object({
-    id: z.number().int(),
+    id: z.number().int().brand<'UserId'>(),
     name: z.string(),
     email: z.string(),
     created_at: z.string(),
@@ -22,25 +43,135 @@ const UserResource = z
   .passthrough();
 const auth_login_Body = z
   .object({
-    email: z.string().email(),
-    password: z.string().min(1, { message: 'password is required' }),
+    email: z
+      .string({
+        required_error: 'Email is required',
+        invalid_type_error: 'Email must be a string',
+      })
+      .min(1, { message: 'Email is required' })
+      .email({ message: 'Please enter a valid email address' }),
+    password: z
+      .string({
+        required_error: 'Password is required',
+        invalid_type_error: 'Password must be a string',
+      })
+      .min(1, { message: 'Password is required' }),
   })
-  .passthrough();
+  .strict();
+const q = z
+  .union([z.string(), z.null()])
+  .describe('Search term matched against note titles and content.')
+  .optional();
+const sort = z
+  .union([z.enum(['created_at', 'updated_at', 'title']), z.null()])
+  .describe(
+    'Column to sort by: created_at, updated_at or title. Defaults to created_at.'
+  )
+  .optional();
+const direction = z
+  .union([z.enum(['asc', 'desc']), z.null()])
+  .describe('Sort direction: asc or desc. Defaults to desc (newest first).')
+  .optional();
+const per_page = z
+  .union([z.number(), z.null()])
+  .describe('Number of notes per page (1-100). Defaults to 20.')
+  .optional();
+const tags = z
+  .union([z.array(z.string().max(30)), z.null()])
+  .describe('Only return notes carrying all of these tags.')
+  .optional();
+const cursor = z
+  .union([z.string(), z.null()])
+  .describe(
+    'Cursor returned in `meta.next_cursor` or `meta.prev_cursor` of a previous page.'
+  )
+  .optional();
+const NoteVisibility = z.enum(['private', 'public', 'shared']);
 const NoteResource = z
   .object({
-    id: z.number().int(),
+    id: z.number().int().brand<'NoteId'>(),
     title: z.string(),
     content: z.string(),
-    userId: z.number().int(),
+    userId: z.number().int().brand<'UserId'>(),
     authorName: z.string().optional(),
+    visibility: NoteVisibility,
+    sharedWith: z.array(z.number().int())
+      .describe(`IDs of the users a shared note is shared with. Only the author gets to see who else
+can read their note; everyone else receives an empty list.`),
+    tags: z
+      .array(z.string())
+      .describe('Tag names, alphabetically. Empty when the note has no tags.'),
     created_at: z.string(),
     updated_at: z.string(),
   })
   .passthrough();
 const note_store_Body = z
   .object({
-    title: z.string().min(1, { message: 'title is required' }).max(255),
-    content: z.string().min(1, { message: 'content is required' }),
+    title: z
+      .string({
+        required_error: 'Title is required',
+        invalid_type_error: 'Title must be a string',
+      })
+      .min(1, { message: 'Title is required' })
+      .max(255, { message: 'Title must be at most 255 characters' }),
+    content: z
+      .string({
+        required_error: 'Content is required',
+        invalid_type_error: 'Content must be a string',
+      })
+      .min(1, { message: 'Content is required' }),
+    visibility: NoteVisibility.optional(),
+    shared_with: z
+      .array(z.number().int())
+      .max(100)
+      .describe('IDs of the users a shared note is shared with.')
+      .optional(),
+    tags: z
+      .array(z.string().max(30))
+      .max(10)
+      .describe('Tag names; new names create tags for the author.')
+      .optional(),
+  })
+  .passthrough();
+const note_update_Body = z
+  .object({
+    title: z
+      .string({
+        required_error: 'Title is required',
+        invalid_type_error: 'Title must be a string',
+      })
+      .min(1, { message: 'Title is required' })
+      .max(255, { message: 'Title must be at most 255 characters' }),
+    content: z
+      .string({
+        required_error: 'Content is required',
+        invalid_type_error: 'Content must be a string',
+      })
+      .min(1, { message: 'Content is required' }),
+    visibility: NoteVisibility.optional(),
+    shared_with: z
+      .array(z.number().int())
+      .max(100)
+      .describe(
+        'Replaces the list of users the note is shared with. Unchanged when omitted.'
+      )
+      .optional(),
+    tags: z
+      .array(z.string().max(30))
+      .max(10)
+      .describe(
+        'Replaces the note tags; new names create tags for the author. Unchanged when omitted.'
+      )
+      .optional(),
+  })
+  .passthrough();
+const TagResource = z
+  .object({
+    id: z.number().int().brand<'TagId'>(),
+    name: z.string(),
+    notesCount: z.number().int().optional(),
+    created_at: z.string(),
+    updated_at: z.string(),
   })
   .passthrough();
 
@@ -48,11 +179,27 @@ export const schemas = {
   auth_register_Body,
   UserResource,
   auth_login_Body,
+  q,
+  sort,
+  direction,
+  per_page,
+  tags,
+  cursor,
+  NoteVisibility,
   NoteResource,
   note_store_Body,
+  note_update_Body,
+  TagResource,
 };
 
-const endpoints = makeApi([
+/** Note id, branded by schema-rules.js. */
+export type NoteId = number & z.BRAND<'NoteId'>;
+/** User id, branded by schema-rules.js. */
+export type UserId = number & z.BRAND<'UserId'>;
+/** Tag id, branded by schema-rules.js. */
+export type TagId = number & z.BRAND<'TagId'>;
+
+export const endpoints = makeApi([
   {
     method: 'post',
     path: '/auth/login',
@@ -68,7 +215,13 @@ at packages/api-types/src/extendedSchemas.ts.`,
       },
     ],
     response: z
-      .object({ message: z.string(), user: UserResource, token: z.string() })
+      .object({
+        message: z.string(),
+        user: UserResource,
+        token: z.string().optional(),
+        refresh_token: z.string().optional(),
+        expires_at: z.string().datetime({ offset: true }).optional(),
+      })
       .passthrough(),
     errors: [
       {
@@ -91,7 +244,23 @@ at packages/api-types/src/extendedSchemas.ts.`,
     method: 'post',
     path: '/auth/logout',
     alias: 'auth.logout',
+    description: `When the client also sends its refresh token, that token is revoked as well
+so it cannot be used to start a new session.`,
     requestFormat: 'json',
+    parameters: [
+      {
+        name: 'body',
+        type: 'Body',
+        schema: z
+          .object({
+            refresh_token: z.string({
+              invalid_type_error: 'Refresh token must be a string',
+            }),
+          })
+          .partial()
+          .passthrough(),
+      },
+    ],
     response: z.object({ message: z.string() }).passthrough(),
     errors: [
       {
@@ -103,6 +272,59 @@ at packages/api-types/src/extendedSchemas.ts.`,
       },
     ],
   },
+  {
+    method: 'post',
+    path: '/auth/refresh',
+    alias: 'auth.refresh',
+    description: `Clients call this when the access token has expired (or a request returned 401).
+The refresh token is single-use: it is revoked as soon as it is exchanged, and the
+response contains a brand new refresh token (refresh token rotation).`,
+    requestFormat: 'json',
+    parameters: [
+      {
+        name: 'body',
+        type: 'Body',
+        schema: z
+          .object({
+            refresh_token: z
+              .string({
+                required_error: 'Refresh token is required',
+                invalid_type_error: 'Refresh token must be a string',
+              })
+              .min(1, { message: 'Refresh token is required' }),
+          })
+          .passthrough(),
+      },
+    ],
+    response: z
+      .object({
+        message: z.string(),
+        token: z.string(),
+        refresh_token: z.string(),
+        expires_at: z.string().datetime({ offset: true }),
+      })
+      .passthrough(),
+    errors: [
+      {
+        status: 401,
+        schema: z.object({ message: z.string() }).passthrough(),
+      },
+      {
+        status: 422,
+        description: `Validation error`,
+        schema: z
+          .object({
+            message: z.string().describe('Errors overview.'),
+            errors: z
+              .record(z.array(z.string()))
+              .describe(
+                'A detailed description of each field that failed validation.'
+              ),
+          })
+          .passthrough(),
+      },
+    ],
+  },
   {
     method: 'post',
     path: '/auth/register',
@@ -118,7 +340,13 @@ at packages/api-types/src/extendedSchemas.ts.`,
       },
     ],
     response: z
-      .object({ message: z.string(), user: UserResource, token: z.string() })
+      .object({
+        message: z.string(),
+        user: UserResource,
+        token: z.string().optional(),
+        refresh_token: z.string().optional(),
+        expires_at: z.string().datetime({ offset: true }).optional(),
+      })
       .passthrough(),
     errors: [
       {
@@ -164,10 +392,91 @@ at packages/api-types/src/extendedSchemas.ts.`,
     method: 'get',
     path: '/notes',
     alias: 'note.index',
-    description: `Retrieves all notes from the database with their associated authors.
-This endpoint is public and does not require authentication.`,
+    description: `Notes are paginated with a cursor: each response includes meta.next_cursor and
+links.next, which the client sends back to load the following page. Cursor pagination
+stays fast on large tables and never skips or repeats notes when new ones are added.
+This endpoint is public and does not require authentication. Guests only see public notes;
+with a token, the list also includes notes written by the caller and notes shared with them.`,
     requestFormat: 'json',
-    response: z.array(NoteResource),
+    parameters: [
+      {
+        name: 'q',
+        type: 'Query',
+        schema: q,
+      },
+      {
+        name: 'sort',
+        type: 'Query',
+        schema: sort,
+      },
+      {
+        name: 'direction',
+        type: 'Query',
+        schema: direction,
+      },
+      {
+        name: 'per_page',
+        type: 'Query',
+        schema: per_page,
+      },
+      {
+        name: 'tags',
+        type: 'Query',
+        schema: tags,
+      },
+      {
+        name: 'cursor',
+        type: 'Query',
+        schema: cursor,
+      },
+    ],
+    response: z
+      .object({
+        data: z.array(NoteResource),
+        links: z
+          .object({
+            first: z.union([z.string(), z.null()]),
+            last: z.union([z.string(), z.null()]),
+            prev: z.union([z.string(), z.null()]),
+            next: z.union([z.string(), z.null()]),
+          })
+          .passthrough(),
+        meta: z
+          .object({
+            path: z
+              .union([z.string(), z.null()])
+              .describe('Base path for paginator generated URLs.'),
+            per_page: z
+              .number()
+              .int()
+              .gte(0)
+              .describe('Number of items shown per page.'),
+            next_cursor: z
+              .union([z.string(), z.null()])
+              .describe('The cursor that points to the next set of items.'),
+            prev_cursor: z
+              .union([z.string(), z.null()])
+              .describe('The cursor that points to the previous set of items.'),
+          })
+          .passthrough(),
+      })
+      .passthrough(),
+    errors: [
+      {
+        status: 422,
+        description: `Validation error`,
+        schema: z
+          .object({
+            message: z.string().describe('Errors overview.'),
+            errors: z
+              .record(z.array(z.string()))
+              .describe(
+                'A detailed description of each field that failed validation.'
+              ),
+          })
+          .passthrough(),
+      },
+    ],
   },
   {
     method: 'post',
@@ -208,6 +517,196 @@ at packages/api-types/src/extendedSchemas.ts.`,
       },
     ],
   },
+  {
+    method: 'put',
+    path: '/notes/:note',
+    alias: 'note.update',
+    description: `Custom validation error messages for this endpoint are defined in ExtendedNoteSchema
+at packages/api-types/src/extendedSchemas.ts.`,
+    requestFormat: 'json',
+    parameters: [
+      {
+        name: 'body',
+        type: 'Body',
+        schema: note_update_Body,
+      },
+      {
+        name: 'note',
+        type: 'Path',
+        schema: z.number().int().describe('The note ID'),
+      },
+    ],
+    response: NoteResource,
+    errors: [
+      {
+        status: 401,
+        description: `Unauthenticated`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 403,
+        description: `Authorization error`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 404,
+        description: `Not found`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 422,
+        description: `Validation error`,
+        schema: z
+          .object({
+            message: z.string().describe('Errors overview.'),
+            errors: z
+              .record(z.array(z.string()))
+              .describe(
+                'A detailed description of each field that failed validation.'
+              ),
+          })
+          .passthrough(),
+      },
+    ],
+  },
+  {
+    method: 'delete',
+    path: '/notes/:note',
+    alias: 'note.destroy',
+    requestFormat: 'json',
+    parameters: [
+      {
+        name: 'note',
+        type: 'Path',
+        schema: z.number().int().describe('The note ID'),
+      },
+    ],
+    response: z.object({ message: z.string() }).passthrough(),
+    errors: [
+      {
+        status: 401,
+        description: `Unauthenticated`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 403,
+        description: `Authorization error`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 404,
+        description: `Not found`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+    ],
+  },
+  {
+    method: 'get',
+    path: '/notes/mine',
+    alias: 'note.mine',
+    description: `Accepts the same search, sort and pagination parameters as the public notes list and
+returns the same paginated envelope, but only includes notes written by the caller,
+whatever their visibility.`,
+    requestFormat: 'json',
+    parameters: [
+      {
+        name: 'q',
+        type: 'Query',
+        schema: q,
+      },
+      {
+        name: 'sort',
+        type: 'Query',
+        schema: sort,
+      },
+      {
+        name: 'direction',
+        type: 'Query',
+        schema: direction,
+      },
+      {
+        name: 'per_page',
+        type: 'Query',
+        schema: per_page,
+      },
+      {
+        name: 'tags',
+        type: 'Query',
+        schema: tags,
+      },
+      {
+        name: 'cursor',
+        type: 'Query',
+        schema: cursor,
+      },
+    ],
+    response: z
+      .object({
+        data: z.array(NoteResource),
+        links: z
+          .object({
+            first: z.union([z.string(), z.null()]),
+            last: z.union([z.string(), z.null()]),
+            prev: z.union([z.string(), z.null()]),
+            next: z.union([z.string(), z.null()]),
+          })
+          .passthrough(),
+        meta: z
+          .object({
+            path: z
+              .union([z.string(), z.null()])
+              .describe('Base path for paginator generated URLs.'),
+            per_page: z
+              .number()
+              .int()
+              .gte(0)
+              .describe('Number of items shown per page.'),
+            next_cursor: z
+              .union([z.string(), z.null()])
+              .describe('The cursor that points to the next set of items.'),
+            prev_cursor: z
+              .union([z.string(), z.null()])
+              .describe('The cursor that points to the previous set of items.'),
+          })
+          .passthrough(),
+      })
+      .passthrough(),
+    errors: [
+      {
+        status: 401,
+        description: `Unauthenticated`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 422,
+        description: `Validation error`,
+        schema: z
+          .object({
+            message: z.string().describe('Errors overview.'),
+            errors: z
+              .record(z.array(z.string()))
+              .describe(
+                'A detailed description of each field that failed validation.'
+              ),
+          })
+          .passthrough(),
+      },
+    ],
+  },
   {
     method: 'get',
     path: '/oauth2-callback',
@@ -215,6 +714,176 @@ at packages/api-types/src/extendedSchemas.ts.`,
     requestFormat: 'json',
     response: z.string(),
   },
+  {
+    method: 'get',
+    path: '/tags',
+    alias: 'tag.index',
+    requestFormat: 'json',
+    response: z.array(TagResource),
+    errors: [
+      {
+        status: 401,
+        description: `Unauthenticated`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+    ],
+  },
+  {
+    method: 'post',
+    path: '/tags',
+    alias: 'tag.store',
+    requestFormat: 'json',
+    parameters: [
+      {
+        name: 'body',
+        type: 'Body',
+        schema: z
+          .object({
+            name: z
+              .string({
+                required_error: 'Name is required',
+                invalid_type_error: 'Name must be a string',
+              })
+              .min(1, { message: 'Name is required' })
+              .max(30, { message: 'Name must be at most 30 characters' })
+              .describe('The tag name; stored in lower case.'),
+          })
+          .passthrough(),
+      },
+    ],
+    response: TagResource,
+    errors: [
+      {
+        status: 401,
+        description: `Unauthenticated`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 422,
+        description: `Validation error`,
+        schema: z
+          .object({
+            message: z.string().describe('Errors overview.'),
+            errors: z
+              .record(z.array(z.string()))
+              .describe(
+                'A detailed description of each field that failed validation.'
+              ),
+          })
+          .passthrough(),
+      },
+    ],
+  },
+  {
+    method: 'put',
+    path: '/tags/:tag',
+    alias: 'tag.update',
+    requestFormat: 'json',
+    parameters: [
+      {
+        name: 'body',
+        type: 'Body',
+        schema: z
+          .object({
+            name: z
+              .string({
+                required_error: 'Name is required',
+                invalid_type_error: 'Name must be a string',
+              })
+              .min(1, { message: 'Name is required' })
+              .max(30, { message: 'Name must be at most 30 characters' })
+              .describe('The new tag name; stored in lower case.'),
+          })
+          .passthrough(),
+      },
+      {
+        name: 'tag',
+        type: 'Path',
+        schema: z.number().int().describe('The tag ID'),
+      },
+    ],
+    response: TagResource,
+    errors: [
+      {
+        status: 401,
+        description: `Unauthenticated`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 403,
+        description: `Authorization error`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 404,
+        description: `Not found`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 422,
+        description: `Validation error`,
+        schema: z
+          .object({
+            message: z.string().describe('Errors overview.'),
+            errors: z
+              .record(z.array(z.string()))
+              .describe(
+                'A detailed description of each field that failed validation.'
+              ),
+          })
+          .passthrough(),
+      },
+    ],
+  },
+  {
+    method: 'delete',
+    path: '/tags/:tag',
+    alias: 'tag.destroy',
+    description: `It is removed from every note that had it;
+the notes themselves are kept.`,
+    requestFormat: 'json',
+    parameters: [
+      {
+        name: 'tag',
+        type: 'Path',
+        schema: z.number().int().describe('The tag ID'),
+      },
+    ],
+    response: z.object({ message: z.string() }).passthrough(),
+    errors: [
+      {
+        status: 401,
+        description: `Unauthenticated`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 403,
+        description: `Authorization error`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+      {
+        status: 404,
+        description: `Not found`,
+        schema: z
+          .object({ message: z.string().describe('Error overview.') })
+          .passthrough(),
+      },
+    ],
+  },
 ]);
 
 export const apiClient = new Zodios(endpoints);
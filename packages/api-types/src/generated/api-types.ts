@@ -46,6 +46,28 @@ export interface paths {
     patch?: never;
     trace?: never;
   };
+  '/auth/refresh': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /**
+     * Exchange a refresh token for a new access/refresh token pair
+     * @description Clients call this when the access token has expired (or a request returned 401).
+     *     The refresh token is single-use: it is revoked as soon as it is exchanged, and the
+     *     response contains a brand new refresh token (refresh token rotation).
+     */
+    post: operations['auth.refresh'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
   '/auth/logout': {
     parameters: {
       query?: never;
@@ -55,7 +77,11 @@ export interface paths {
     };
     get?: never;
     put?: never;
-    /** Logout user (revoke token) */
+    /**
+     * Logout user (revoke token)
+     * @description When the client also sends its refresh token, that token is revoked as well
+     *     so it cannot be used to start a new session.
+     */
     post: operations['auth.logout'];
     delete?: never;
     options?: never;
@@ -88,9 +114,12 @@ export interface paths {
       cookie?: never;
     };
     /**
-     * List all notes with their authors
-     * @description Retrieves all notes from the database with their associated authors.
-     *     This endpoint is public and does not require authentication.
+     * List notes with their authors, one page at a time
+     * @description Notes are paginated with a cursor: each response includes meta.next_cursor and
+     *     links.next, which the client sends back to load the following page. Cursor pagination
+     *     stays fast on large tables and never skips or repeats notes when new ones are added.
+     *     This endpoint is public and does not require authentication. Guests only see public notes;
+     *     with a token, the list also includes notes written by the caller and notes shared with them.
      */
     get: operations['note.index'];
     put?: never;
@@ -106,6 +135,90 @@ export interface paths {
     patch?: never;
     trace?: never;
   };
+  '/notes/mine': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /**
+     * List the authenticated user's own notes, one page at a time
+     * @description Accepts the same search, sort and pagination parameters as the public notes list and
+     *     returns the same paginated envelope, but only includes notes written by the caller,
+     *     whatever their visibility.
+     */
+    get: operations['note.mine'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/notes/{note}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    /**
+     * Update an existing note owned by the authenticated user
+     * @description Custom validation error messages for this endpoint are defined in ExtendedNoteSchema
+     *     at packages/api-types/src/extendedSchemas.ts.
+     */
+    put: operations['note.update'];
+    post?: never;
+    /** Delete a note owned by the authenticated user */
+    delete: operations['note.destroy'];
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/tags': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the authenticated user's tags, alphabetically, with the number of notes using each */
+    get: operations['tag.index'];
+    put?: never;
+    /** Create a tag for the authenticated user */
+    post: operations['tag.store'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/tags/{tag}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    /** Rename a tag owned by the authenticated user. Notes keep the tag under its new name */
+    put: operations['tag.update'];
+    post?: never;
+    /**
+     * Delete a tag owned by the authenticated user
+     * @description It is removed from every note that had it;
+     *     the notes themselves are kept.
+     */
+    delete: operations['tag.destroy'];
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
   '/documentation': {
     parameters: {
       query?: never;
@@ -151,6 +264,13 @@ export interface components {
       content: string;
       userId: number;
       authorName?: string;
+      /** @description Who can read the note: private, public or shared. */
+      visibility: components['schemas']['NoteVisibility'];
+      /** @description IDs of the users a shared note is shared with. Only the author gets to see who else
+       *     can read their note; everyone else receives an empty list. */
+      sharedWith: number[];
+      /** @description Tag names, alphabetically. Empty when the note has no tags. */
+      tags: string[];
       created_at: string;
       updated_at: string;
     };
@@ -162,6 +282,19 @@ export interface components {
       created_at: string;
       updated_at: string;
     };
+    /**
+     * NoteVisibility
+     * @enum {string}
+     */
+    NoteVisibility: 'private' | 'public' | 'shared';
+    /** TagResource */
+    TagResource: {
+      id: number;
+      name: string;
+      notesCount?: number;
+      created_at: string;
+      updated_at: string;
+    };
   };
   responses: {
     /** @description Validation error */
@@ -192,6 +325,30 @@ export interface components {
         };
       };
     };
+    /** @description Authorization error */
+    AuthorizationException: {
+      headers: {
+        [name: string]: unknown;
+      };
+      content: {
+        'application/json': {
+          /** @description Error overview. */
+          message: string;
+        };
+      };
+    };
+    /** @description Not found */
+    ModelNotFoundException: {
+      headers: {
+        [name: string]: unknown;
+      };
+      content: {
+        'application/json': {
+          /** @description Error overview. */
+          message: string;
+        };
+      };
+    };
   };
   parameters: never;
   requestBodies: never;
@@ -228,7 +385,10 @@ export interface operations {
             /** @example User registered successfully. */
             message: string;
             user: components['schemas']['UserResource'];
-            token: string;
+            token?: string;
+            refresh_token?: string;
+            /** Format: date-time */
+            expires_at?: string;
           };
         };
       };
@@ -261,7 +421,54 @@ export interface operations {
             /** @example Login successful. */
             message: string;
             user: components['schemas']['UserResource'];
+            token?: string;
+            refresh_token?: string;
+            /** Format: date-time */
+            expires_at?: string;
+          };
+        };
+      };
+      422: components['responses']['ValidationException'];
+    };
+  };
+  'auth.refresh': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': {
+          refresh_token: string;
+        };
+      };
+    };
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': {
+            /** @example Token refreshed successfully. */
+            message: string;
             token: string;
+            refresh_token: string;
+            /** Format: date-time */
+            expires_at: string;
+          };
+        };
+      };
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': {
+            /** @example Invalid or expired refresh token. */
+            message: string;
           };
         };
       };
@@ -275,7 +482,13 @@ export interface operations {
       path?: never;
       cookie?: never;
     };
-    requestBody?: never;
+    requestBody?: {
+      content: {
+        'application/json': {
+          refresh_token?: string;
+        };
+      };
+    };
     responses: {
       200: {
         headers: {
@@ -318,26 +531,71 @@ export interface operations {
   };
   'note.index': {
     parameters: {
-      query?: never;
+      query?: {
+        /**
+         * @description Search term matched against note titles and content.
+         * @example groceries
+         */
+        q?: string | null;
+        /**
+         * @description Column to sort by: created_at, updated_at or title. Defaults to created_at.
+         * @example created_at
+         */
+        sort?: 'created_at' | 'updated_at' | 'title' | null;
+        /**
+         * @description Sort direction: asc or desc. Defaults to desc (newest first).
+         * @example desc
+         */
+        direction?: 'asc' | 'desc' | null;
+        /**
+         * @description Number of notes per page (1-100). Defaults to 20.
+         * @example 20
+         */
+        per_page?: number | null;
+        /**
+         * @description Only return notes carrying all of these tags.
+         * @example [
+         *       "laravel"
+         *     ]
+         */
+        tags?: string[] | null;
+        /** @description Cursor returned in `meta.next_cursor` or `meta.prev_cursor` of a previous page. */
+        cursor?: string | null;
+      };
       header?: never;
       path?: never;
       cookie?: never;
     };
     requestBody?: never;
     responses: {
-      /** @description Return JSON response containing array of notes using NoteResource
-       *
-       *
-       *
-       *     Array of `NoteResource` */
+      /** @description Paginated set of `NoteResource` */
       200: {
         headers: {
           [name: string]: unknown;
         };
         content: {
-          'application/json': components['schemas']['NoteResource'][];
+          'application/json': {
+            data: components['schemas']['NoteResource'][];
+            links: {
+              first: string | null;
+              last: string | null;
+              prev: string | null;
+              next: string | null;
+            };
+            meta: {
+              /** @description Base path for paginator generated URLs. */
+              path: string | null;
+              /** @description Number of items shown per page. */
+              per_page: number;
+              /** @description The cursor that points to the next set of items. */
+              next_cursor: string | null;
+              /** @description The cursor that points to the previous set of items. */
+              prev_cursor: string | null;
+            };
+          };
         };
       };
+      422: components['responses']['ValidationException'];
     };
   };
   'note.store': {
@@ -352,6 +610,12 @@ export interface operations {
         'application/json': {
           title: string;
           content: string;
+          /** @description Who can read the note: private, public or shared. Defaults to public. */
+          visibility?: components['schemas']['NoteVisibility'];
+          /** @description IDs of the users a shared note is shared with. */
+          shared_with?: number[];
+          /** @description Tag names; new names create tags for the author. */
+          tags?: string[];
         };
       };
     };
@@ -373,6 +637,256 @@ export interface operations {
       422: components['responses']['ValidationException'];
     };
   };
+  'note.mine': {
+    parameters: {
+      query?: {
+        /**
+         * @description Search term matched against note titles and content.
+         * @example groceries
+         */
+        q?: string | null;
+        /**
+         * @description Column to sort by: created_at, updated_at or title. Defaults to created_at.
+         * @example created_at
+         */
+        sort?: 'created_at' | 'updated_at' | 'title' | null;
+        /**
+         * @description Sort direction: asc or desc. Defaults to desc (newest first).
+         * @example desc
+         */
+        direction?: 'asc' | 'desc' | null;
+        /**
+         * @description Number of notes per page (1-100). Defaults to 20.
+         * @example 20
+         */
+        per_page?: number | null;
+        /**
+         * @description Only return notes carrying all of these tags.
+         * @example [
+         *       "laravel"
+         *     ]
+         */
+        tags?: string[] | null;
+        /** @description Cursor returned in `meta.next_cursor` or `meta.prev_cursor` of a previous page. */
+        cursor?: string | null;
+      };
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      /** @description Paginated set of `NoteResource` */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': {
+            data: components['schemas']['NoteResource'][];
+            links: {
+              first: string | null;
+              last: string | null;
+              prev: string | null;
+              next: string | null;
+            };
+            meta: {
+              /** @description Base path for paginator generated URLs. */
+              path: string | null;
+              /** @description Number of items shown per page. */
+              per_page: number;
+              /** @description The cursor that points to the next set of items. */
+              next_cursor: string | null;
+              /** @description The cursor that points to the previous set of items. */
+              prev_cursor: string | null;
+            };
+          };
+        };
+      };
+      401: components['responses']['AuthenticationException'];
+      422: components['responses']['ValidationException'];
+    };
+  };
+  'note.update': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        /** @description The note ID */
+        note: number;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': {
+          title: string;
+          content: string;
+          /** @description Who can read the note: private, public or shared. Unchanged when omitted. */
+          visibility?: components['schemas']['NoteVisibility'];
+          /** @description Replaces the list of users the note is shared with. Unchanged when omitted. */
+          shared_with?: number[];
+          /** @description Replaces the note tags; new names create tags for the author. Unchanged when omitted. */
+          tags?: string[];
+        };
+      };
+    };
+    responses: {
+      /** @description `NoteResource` */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['NoteResource'];
+        };
+      };
+      401: components['responses']['AuthenticationException'];
+      403: components['responses']['AuthorizationException'];
+      404: components['responses']['ModelNotFoundException'];
+      422: components['responses']['ValidationException'];
+    };
+  };
+  'note.destroy': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        /** @description The note ID */
+        note: number;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': {
+            /** @example Note deleted successfully. */
+            message: string;
+          };
+        };
+      };
+      401: components['responses']['AuthenticationException'];
+      403: components['responses']['AuthorizationException'];
+      404: components['responses']['ModelNotFoundException'];
+    };
+  };
+  'tag.index': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      /** @description Array of `TagResource` */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['TagResource'][];
+        };
+      };
+      401: components['responses']['AuthenticationException'];
+    };
+  };
+  'tag.store': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @description The tag name; stored in lower case. */
+          name: string;
+        };
+      };
+    };
+    responses: {
+      /** @description `TagResource` */
+      201: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['TagResource'];
+        };
+      };
+      401: components['responses']['AuthenticationException'];
+      422: components['responses']['ValidationException'];
+    };
+  };
+  'tag.update': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        /** @description The tag ID */
+        tag: number;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @description The new tag name; stored in lower case. */
+          name: string;
+        };
+      };
+    };
+    responses: {
+      /** @description `TagResource` */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['TagResource'];
+        };
+      };
+      401: components['responses']['AuthenticationException'];
+      403: components['responses']['AuthorizationException'];
+      404: components['responses']['ModelNotFoundException'];
+      422: components['responses']['ValidationException'];
+    };
+  };
+  'tag.destroy': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        /** @description The tag ID */
+        tag: number;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': {
+            /** @example Tag deleted successfully. */
+            message: string;
+          };
+        };
+      };
+      401: components['responses']['AuthenticationException'];
+      403: components['responses']['AuthorizationException'];
+      404: components['responses']['ModelNotFoundException'];
+    };
+  };
   'l5-swagger.default.api': {
     parameters: {
       query?: never;
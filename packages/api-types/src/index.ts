@@ -1,9 +1,14 @@
 // Export manual schemas
 export * from './authSchemas';
 export * from './noteSchemas';
+export * from './tagSchemas';
+export * from './errorSchemas';
 
 // Export generated schemas and API client
 export * from './generated';
 
+// Export per-endpoint types and schemas derived from the generated endpoints
+export * from './endpoints';
+
 // Export extended schemas with custom error messages
 export * from './extendedSchemas';
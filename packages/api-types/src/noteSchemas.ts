@@ -2,21 +2,36 @@
  * @file packages/api-types/src/noteSchemas.ts
  * @description Defines Zod schemas and TypeScript types for note-related API endpoints.
  *
- * This file establishes the data contracts for creating and retrieving notes.
+ * This file establishes the data contracts for creating, retrieving, updating and deleting notes.
  * Like `authSchemas.ts`, it uses Zod for schema definition, enabling runtime
- * data validation and static TypeScript type inference. These schemas ensure
- * consistency in data structures between the frontend and backend for note operations.
+ * data validation and static TypeScript type inference. Response schemas are the ones
+ * generated from the OpenAPI spec (see `endpoints.ts`); request schemas extend the generated
+ * request bodies with user-facing messages and the tag name rules from `tagSchemas.ts`.
  *
  * For a learner:
  * - Understand how Zod schemas define the expected shape and types of data for notes.
  * - `z.array(NoteSchema)` demonstrates how to define an array of a specific schema.
+ * - `.nullable()` (value may be `null`) differs from `.optional()` (key may be missing).
  * - `.optional()` marks a field as not required.
  * - Reusability of `NoteSchema` in different response types promotes consistency.
  */
 import { z } from 'zod'; // Imports Zod for schema definition and validation.
+import { schemas } from './generated/api-client';
+import { ApiQueryParams, getResponseSchema } from './endpoints';
+import { TagNamesSchema } from './tagSchemas';
 
 /**
- * NoteSchema defines the structure and validation rules for a single note object.
+ * NoteVisibilitySchema lists who can read a note:
+ * - `private`: Only the author.
+ * - `public`: Everyone, including visitors who are not logged in.
+ * - `shared`: The author plus the users in the note's share list (`sharedWith`).
+ */
+export const NoteVisibilitySchema = schemas.NoteVisibility;
+/** TypeScript type inferred from `NoteVisibilitySchema`. */
+export type NoteVisibility = z.infer<typeof NoteVisibilitySchema>;
+
+/**
+ * NoteSchema defines a single note as the API returns it (`NoteResource` in the spec).
  * This schema is used to represent a note in API responses and potentially in client-side state.
  * - `id`: Unique numeric identifier for the note.
  * - `title`: String, the title of the note.
@@ -25,62 +40,90 @@ import { z } from 'zod'; // Imports Zod for schema definition and validation.
  * - `authorName`: Optional string. This field is likely populated by the backend when notes
  *   are fetched (e.g., by joining with the users table) to display the author's name.
  *   Marking it as `.optional()` means it might not be present in all contexts or if the author lookup fails.
+ * - `visibility`: Who can read the note (see `NoteVisibilitySchema`).
+ * - `sharedWith`: IDs of the users a `shared` note is shared with. The API only fills this in
+ *   for the note's author; everyone else receives an empty array.
+ * - `tags`: Names of the note's tags, alphabetically (see `tagSchemas.ts`).
  * - `created_at`, `updated_at`: Timestamps (as strings) indicating when the note was created and last updated.
  */
-export const NoteSchema = z.object({
-  id: z.number({
-    required_error: 'Note ID is required',
-    invalid_type_error: 'Note ID must be a number',
-  }),
-  title: z
-    .string({
-      required_error: 'Title is required',
-      invalid_type_error: 'Title must be a string',
-    })
-    .min(1, { message: 'Title cannot be empty' }), // Basic validation for presence
-  content: z
-    .string({
-      required_error: 'Content is required',
-      invalid_type_error: 'Content must be a string',
-    })
-    .min(1, { message: 'Content cannot be empty' }), // Basic validation for presence
-  userId: z.number({
-    required_error: 'User ID is required',
-    invalid_type_error: 'User ID must be a number',
-  }),
-  authorName: z.string().optional(), // Author's name, may not always be present.
-  created_at: z.string(),
-  updated_at: z.string(),
-});
+export const NoteSchema = schemas.NoteResource;
 /** TypeScript type inferred from `NoteSchema`. Represents a single note. */
 export type Note = z.infer<typeof NoteSchema>;
 
+/**
+ * NotesSortSchema lists the columns the notes list can be sorted by (`sort` query parameter).
+ */
+export const NotesSortSchema = z.enum(['created_at', 'updated_at', 'title']);
+/** TypeScript type inferred from `NotesSortSchema`. */
+export type NotesSort = z.infer<typeof NotesSortSchema>;
+
+/**
+ * GetNotesParamsSchema defines the optional query parameters of `GET /notes`.
+ * - `q`: Search term matched against titles and content.
+ * - `sort`/`direction`: Ordering (defaults to `created_at`, `desc`: newest first).
+ * - `per_page`: Page size, between 1 and 100 (defaults to 20).
+ * - `tags`: Only notes carrying all of these tags.
+ * - `cursor`: Opaque cursor from `meta.next_cursor` of the previous page.
+ * The limits are checked before sending; the `satisfies` check keeps the parameters in line
+ * with the ones the spec declares.
+ */
+export const GetNotesParamsSchema = z.object({
+  q: z.string().max(255).optional(),
+  sort: NotesSortSchema.optional(),
+  direction: z.enum(['asc', 'desc']).optional(),
+  per_page: z.number().int().min(1).max(100).optional(),
+  tags: z.array(z.string().max(30)).max(10).optional(),
+  cursor: z.string().optional(),
+}) satisfies z.ZodType<ApiQueryParams<'note.index'>>;
+/** TypeScript type inferred from `GetNotesParamsSchema`. */
+export type GetNotesParams = z.infer<typeof GetNotesParamsSchema>;
+
+/**
+ * PaginationLinksSchema defines the `links` object of a paginated response.
+ * With cursor pagination only `prev`/`next` are set; `first`/`last` are always null.
+ */
+export const PaginationLinksSchema =
+  getResponseSchema('note.index').shape.links;
+/** TypeScript type inferred from `PaginationLinksSchema`. */
+export type PaginationLinks = z.infer<typeof PaginationLinksSchema>;
+
+/**
+ * CursorPaginationMetaSchema defines the `meta` object of a cursor-paginated response.
+ * `next_cursor` is null on the last page, which is how clients know to stop loading.
+ */
+export const CursorPaginationMetaSchema =
+  getResponseSchema('note.index').shape.meta;
+/** TypeScript type inferred from `CursorPaginationMetaSchema`. */
+export type CursorPaginationMeta = z.infer<typeof CursorPaginationMetaSchema>;
+
 /**
  * GetNotesResponseSchema defines the structure for the API response when fetching a list of notes.
- * It expects an array, where each element conforms to `NoteSchema`.
+ * It is a paginated envelope: `data` holds one page of notes (each conforming to `NoteSchema`),
+ * and `links`/`meta` describe how to fetch the neighbouring pages.
  */
-export const GetNotesResponseSchema = z.array(NoteSchema);
-/** TypeScript type inferred from `GetNotesResponseSchema`. Represents an array of notes. */
+export const GetNotesResponseSchema = getResponseSchema('note.index');
+/** TypeScript type inferred from `GetNotesResponseSchema`. Represents one page of notes. */
 export type GetNotesResponse = z.infer<typeof GetNotesResponseSchema>;
 
 /**
  * CreateNoteRequestSchema defines the payload structure for creating a new note.
+ * It extends the generated `note_store_Body` (whose title and content already carry user-facing
+ * messages) with the visibility, sharing and tag name rules.
  * - `title`: The title for the new note (string).
  * - `content`: The content for the new note (string).
+ * - `visibility`: Optional; the API defaults to `public`.
+ * - `shared_with`: Optional IDs of the users to share the note with (used when `visibility` is `shared`).
+ * - `tags`: Optional tag names. Names the user hasn't used before create new tags.
  */
-export const CreateNoteRequestSchema = z.object({
-  title: z
-    .string({
-      required_error: 'Title is required for creating a note',
-      invalid_type_error: 'Title must be a string',
-    })
-    .min(1, { message: 'Title is required' }),
-  content: z
-    .string({
-      required_error: 'Content is required for creating a note',
-      invalid_type_error: 'Content must be a string',
+export const CreateNoteRequestSchema = schemas.note_store_Body.extend({
+  visibility: NoteVisibilitySchema.optional(),
+  shared_with: z
+    .array(z.number().int(), {
+      invalid_type_error: 'Shared users must be a list of user IDs',
     })
-    .min(1, { message: 'Content is required' }),
+    .max(100, { message: 'A note can be shared with at most 100 users' })
+    .optional(),
+  tags: TagNamesSchema.optional(),
 });
 /** TypeScript type inferred from `CreateNoteRequestSchema`. */
 export type CreateNoteRequest = z.infer<typeof CreateNoteRequestSchema>;
@@ -92,3 +135,38 @@ export type CreateNoteRequest = z.infer<typeof CreateNoteRequestSchema>;
 export const CreateNoteResponseSchema = NoteSchema;
 /** TypeScript type inferred from `CreateNoteResponseSchema`. Represents the created note. */
 export type CreateNoteResponse = z.infer<typeof CreateNoteResponseSchema>;
+
+/**
+ * UpdateNoteRequestSchema defines the payload structure for editing an existing note.
+ * The backend applies the same validation rules as note creation, so the shape mirrors
+ * `CreateNoteRequestSchema`; it is kept as a separate schema so the two can diverge later.
+ * Omitting `visibility`, `shared_with` or `tags` leaves the current value unchanged.
+ */
+export const UpdateNoteRequestSchema = schemas.note_update_Body.extend({
+  visibility: NoteVisibilitySchema.optional(),
+  shared_with: z
+    .array(z.number().int(), {
+      invalid_type_error: 'Shared users must be a list of user IDs',
+    })
+    .max(100, { message: 'A note can be shared with at most 100 users' })
+    .optional(),
+  tags: TagNamesSchema.optional(),
+});
+/** TypeScript type inferred from `UpdateNoteRequestSchema`. */
+export type UpdateNoteRequest = z.infer<typeof UpdateNoteRequestSchema>;
+
+/**
+ * UpdateNoteResponseSchema defines the structure for the API response after successfully updating a note.
+ * Like creation, the response is the updated note object itself.
+ */
+export const UpdateNoteResponseSchema = NoteSchema;
+/** TypeScript type inferred from `UpdateNoteResponseSchema`. Represents the updated note. */
+export type UpdateNoteResponse = z.infer<typeof UpdateNoteResponseSchema>;
+
+/**
+ * DeleteNoteResponseSchema defines the structure for the API response after deleting a note.
+ * Similar to `LogoutResponseSchema`, this is a simple confirmation message.
+ */
+export const DeleteNoteResponseSchema = getResponseSchema('note.destroy');
+/** TypeScript type inferred from `DeleteNoteResponseSchema`. */
+export type DeleteNoteResponse = z.infer<typeof DeleteNoteResponseSchema>;
@@ -0,0 +1,99 @@
+/**
+ * @file packages/api-types/src/tagSchemas.ts
+ * @description Defines Zod schemas and TypeScript types for tag-related API endpoints.
+ *
+ * Tags categorise notes. Each user has their own tags, which are created automatically when
+ * a note is saved with a new tag name (see `CreateNoteRequestSchema.tags`), and can be listed,
+ * created, renamed and deleted through the `/tags` endpoints described here.
+ *
+ * For a learner:
+ * - `TagNameSchema` mirrors the backend's validation (length and allowed characters), so the
+ *   chip input can reject a bad tag before any request is made.
+ * - `.trim()` and `.toLowerCase()` are Zod *transforms*: parsing returns the cleaned-up value,
+ *   matching how the API stores tag names.
+ * - The tag responses and request bodies come from the OpenAPI spec (see `endpoints.ts`);
+ *   the request schemas only add the name rules above.
+ */
+import { z } from 'zod';
+import { schemas } from './generated/api-client';
+import { getBodySchema, getResponseSchema } from './endpoints';
+
+/** Maximum length of a tag name, as enforced by the API. */
+export const TAG_NAME_MAX_LENGTH = 30;
+
+/** Maximum number of tags on one note, as enforced by the API. */
+export const MAX_TAGS_PER_NOTE = 10;
+
+/**
+ * TagNameSchema validates and normalizes a single tag name:
+ * letters, digits, spaces, dots, dashes and underscores, up to 30 characters, lower case.
+ */
+export const TagNameSchema = z
+  .string({
+    required_error: 'Tag name is required',
+    invalid_type_error: 'Tag name must be a string',
+  })
+  .trim()
+  .toLowerCase()
+  .min(1, { message: 'Tag name cannot be empty' })
+  .max(TAG_NAME_MAX_LENGTH, {
+    message: `Tag names can be at most ${TAG_NAME_MAX_LENGTH} characters`,
+  })
+  .regex(/^[\p{L}\p{N} ._-]+$/u, {
+    message: 'Tag names may only contain letters, numbers, spaces, . - and _',
+  });
+
+/** TagNamesSchema validates the list of tag names sent with a note. */
+export const TagNamesSchema = z.array(TagNameSchema).max(MAX_TAGS_PER_NOTE, {
+  message: `A note can have at most ${MAX_TAGS_PER_NOTE} tags`,
+});
+
+/**
+ * TagSchema defines a tag as returned by the API.
+ * - `notesCount`: Number of notes using the tag; only included by `GET /tags`.
+ */
+export const TagSchema = schemas.TagResource;
+/** TypeScript type inferred from `TagSchema`. Represents a single tag. */
+export type Tag = z.infer<typeof TagSchema>;
+
+/**
+ * GetTagsResponseSchema defines the response of `GET /tags`: the user's tags, alphabetically.
+ */
+export const GetTagsResponseSchema = getResponseSchema('tag.index');
+/** TypeScript type inferred from `GetTagsResponseSchema`. */
+export type GetTagsResponse = z.infer<typeof GetTagsResponseSchema>;
+
+/**
+ * CreateTagRequestSchema defines the payload for creating a tag (`POST /tags`).
+ */
+export const CreateTagRequestSchema = getBodySchema('tag.store').extend({
+  name: TagNameSchema,
+});
+/** TypeScript type inferred from `CreateTagRequestSchema`. */
+export type CreateTagRequest = z.infer<typeof CreateTagRequestSchema>;
+
+/** The created tag is returned as-is. */
+export const CreateTagResponseSchema = getResponseSchema('tag.store');
+/** TypeScript type inferred from `CreateTagResponseSchema`. */
+export type CreateTagResponse = z.infer<typeof CreateTagResponseSchema>;
+
+/**
+ * UpdateTagRequestSchema defines the payload for renaming a tag (`PUT /tags/{tag}`).
+ */
+export const UpdateTagRequestSchema = getBodySchema('tag.update').extend({
+  name: TagNameSchema,
+});
+/** TypeScript type inferred from `UpdateTagRequestSchema`. */
+export type UpdateTagRequest = z.infer<typeof UpdateTagRequestSchema>;
+
+/** The renamed tag is returned as-is. */
+export const UpdateTagResponseSchema = getResponseSchema('tag.update');
+/** TypeScript type inferred from `UpdateTagResponseSchema`. */
+export type UpdateTagResponse = z.infer<typeof UpdateTagResponseSchema>;
+
+/**
+ * DeleteTagResponseSchema defines the confirmation returned by `DELETE /tags/{tag}`.
+ */
+export const DeleteTagResponseSchema = getResponseSchema('tag.destroy');
+/** TypeScript type inferred from `DeleteTagResponseSchema`. */
+export type DeleteTagResponse = z.infer<typeof DeleteTagResponseSchema>;
@@ -0,0 +1,52 @@
+/**
+ * @file packages/features/auth/src/components/SessionSwitcher.tsx
+ * @description The account switcher, connected to the stored sessions.
+ *
+ * Renders `AccountSwitcher` from `@hello-world/ui` with the sessions from `useSessions`.
+ * Signing out of the active account goes through `useAuth().logout()`, so its tokens are
+ * revoked on the server; other accounts are only forgotten on this device, because the API
+ * client can only make requests as the active account.
+ *
+ * Nothing is rendered until at least one account has signed in on this device. In cookie auth
+ * mode no sessions are stored (a browser has a single session cookie per API), so it stays hidden.
+ */
+import React from 'react';
+import { AccountSwitcher } from '@hello-world/ui';
+import type { AuthSession } from '@hello-world/shared';
+import { useAuth } from '../hooks/useAuth';
+import { useSessions } from '../hooks/useSessions';
+
+type SessionSwitcherProps = {
+  /** Called when the user wants to sign in to another account (e.g., navigate to `/login`). */
+  onAddAccount?: () => void;
+};
+
+// "name@example.com · staging.example.com" — the host tells apart accounts on different servers.
+const describeSession = (session: AuthSession) =>
+  [session.user?.email, session.apiHost.replace(/^https?:\/\//, '')]
+    .filter(Boolean)
+    .join(' · ');
+
+export function SessionSwitcher({ onAddAccount }: SessionSwitcherProps) {
+  const { sessions, activeSessionId, switchSession, forgetSession } =
+    useSessions();
+  const { logout } = useAuth();
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <AccountSwitcher
+      accounts={sessions.map((session) => ({
+        id: session.id,
+        name: session.user?.name ?? 'Signed-in account',
+        detail: describeSession(session),
+      }))}
+      activeAccountId={activeSessionId}
+      onSwitch={switchSession}
+      onAddAccount={onAddAccount}
+      onRemove={(sessionId) =>
+        sessionId === activeSessionId ? logout() : forgetSession(sessionId)
+      }
+    />
+  );
+}
@@ -16,20 +16,46 @@
  * - Understand how `useMutation` is used for actions that change server state (login, register, logout).
  * - Understand how `useQuery` is used for fetching server state (user profile).
  * - Note the interaction between React Query's cache (`queryClient`) and the `useTokenStore`.
+ * - Logging in adds a session to `useTokenStore` and makes it active; other signed-in accounts
+ *   stay stored and can be switched to with `useSessions` (see `useSessions.ts`).
  * - Observe how Zod-inferred types (`LoginRequest`, `RegisterRequest`) are used for type safety.
+ * - The hook works the same in both auth modes (see `authMode.ts` in `@hello-world/shared`). In
+ *   `token` mode a session in `useTokenStore` holds the tokens; in `cookie` mode (web only) the
+ *   API keeps the session in an HttpOnly cookie, nothing is stored on the client, and
+ *   `/auth/user` alone says who is signed in.
  * - The hook returns state and functions that UI components can use to trigger auth actions
  *   and display auth status.
+ * - Decide what to show (or where to redirect) with `status`, not `isAuthenticated`: right after
+ *   startup the stored session is still loading and `/auth/user` hasn't answered, and
+ *   `isAuthenticated` is false then even for a signed-in user. `status` says `'unknown'` until
+ *   the answer is known, so screens can show a spinner instead of redirecting to login.
  */
+import { useEffect } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiClient, schemas, useTokenStore } from '@hello-world/shared'; // Central API client, schemas, and token store
-import { z } from 'zod';
-
-// Infer TypeScript types from Zod schemas for request payloads.
+import {
+  apiClient,
+  AuthError,
+  getApiHost,
+  getAuthMode,
+  useTokenStore,
+  ValidationError,
+} from '@hello-world/shared'; // Central API client and token store
+// Types inferred from the Zod request schemas in `@hello-world/api-types`.
 // This ensures that the data passed to mutation functions matches the expected API contract.
-// `schemas.auth_login_Body` and `schemas.auth_register_Body` are Zod schemas likely generated
-// from an OpenAPI specification or defined in `@hello-world/api-types`.
-type LoginRequest = z.infer<typeof schemas.auth_login_Body>;
-type RegisterRequest = z.infer<typeof schemas.auth_register_Body>;
+import type {
+  LoginRequest,
+  LoginResponse,
+  RegisterRequest,
+  RegisterResponse,
+} from '@hello-world/api-types';
+
+/**
+ * Whether someone is signed in, as far as the app knows.
+ * - `unknown`: Still finding out (the stored session is loading, or `/auth/user` is in flight).
+ * - `authenticated`: Signed in; `user` holds the profile.
+ * - `anonymous`: Nobody is signed in (or the session is no longer valid).
+ */
+export type AuthStatus = 'unknown' | 'authenticated' | 'anonymous';
 
 /**
  * @typedef {object} User - Represents the structure of a user object.
@@ -47,7 +73,8 @@ type RegisterRequest = z.infer<typeof schemas.auth_register_Body>;
  * @property {(options?: { onSuccess?: () => void; onError?: (error: unknown) => void; }) => void} logout - Function to log the user out.
  * @property {boolean} isLoggingOut - True if the logout mutation is currently in progress.
  * @property {boolean} isLoadingUser - True if the user profile query is currently fetching.
- * @property {boolean} isAuthenticated - True if user data exists, the query was successful, and a token is present.
+ * @property {AuthStatus} status - `'unknown'` until the auth state is known, then `'authenticated'` or `'anonymous'`.
+ * @property {boolean} isAuthenticated - True if user data exists, the query was successful, and (in token mode) a token is present.
  * @property {Error | null} userError - Error object if the user profile query failed.
  * @property {any} LoginResponse - Response type for login, typically from `apiClient`.
  * @property {any} RegisterResponse - Response type for registration, typically from `apiClient`.
@@ -63,11 +90,58 @@ export function useAuth() {
   // invalidate queries, and manage query states.
   const queryClient = useQueryClient();
 
-  // Destructure methods from `useTokenStore` for managing the auth token in secure storage.
-  // `setToken`: Stores the token.
-  // `clearToken`: Removes the token.
+  // Destructure methods from `useTokenStore` for managing the auth tokens in secure storage.
+  // `addSession`: Stores a newly signed-in account (tokens, user, API host) and makes it active.
+  // `clearToken`: Signs out of the active session, removing its tokens.
+  // `setSessionUser`: Updates the profile snapshot shown in the account switcher.
   // `hasToken`: Synchronously checks if a token exists (useful for `enabled` flags in `useQuery`).
-  const { setToken, clearToken, hasToken } = useTokenStore();
+  // `hasHydrated`: False until the stored sessions have been loaded; `hasToken()` is meaningless before.
+  // `refreshToken`: Sent on logout so the server can revoke it as well.
+  const {
+    addSession,
+    clearToken,
+    setSessionUser,
+    hasToken,
+    hasHydrated,
+    refreshToken,
+  } = useTokenStore();
+
+  // In cookie mode the browser holds the session, so there is no token to check or store.
+  const cookieMode = getAuthMode() === 'cookie';
+  const hasSession = () => hasHydrated && (cookieMode || hasToken());
+
+  /**
+   * Starts the session a login or registration response describes.
+   * - Token mode: stores the received token pair, expiry and user as a new active session using
+   *   `addSession`. Accounts that were already signed in stay available in the switcher.
+   *   The API client uses the refresh token to renew the session automatically when the
+   *   access token expires.
+   * - Cookie mode: the response has already set the session cookie; only the user is cached.
+   * Either way the `['auth', 'user']` query is invalidated to trigger a refetch of user data.
+   *
+   * @returns False if a token was expected but the response had none.
+   */
+  const startSession = (data: LoginResponse | RegisterResponse) => {
+    if (cookieMode) {
+      queryClient.setQueryData(['auth', 'user'], data.user);
+    } else if (data.token) {
+      addSession({
+        tokens: {
+          token: data.token,
+          refreshToken: data.refresh_token ?? null,
+          expiresAt: data.expires_at ?? null,
+        },
+        user: data.user,
+        apiHost: getApiHost(),
+      });
+    } else {
+      return false;
+    }
+    // Invalidate the user query. React Query will automatically refetch data for this queryKey.
+    // This is crucial for updating the UI with the authenticated user's information.
+    queryClient.invalidateQueries({ queryKey: ['auth', 'user'] });
+    return true;
+  };
 
   /**
    * Login Mutation.
@@ -77,12 +151,12 @@ export function useAuth() {
    *   - Takes `credentials` (email, password) of type `LoginRequest`.
    *   - `apiClient.auth.login` already handles Zod parsing of request/response.
    * `onSuccess`: Callback executed when the mutation is successful.
-   *   - Sets the received token using `setToken`.
-   *   - Invalidates the `['auth', 'user']` query to trigger a refetch of user data.
-   *     This ensures the app reflects the newly logged-in user's state.
+   *   - Starts the new session (see `startSession`), which also refetches the user's data
+   *     so the app reflects the newly logged-in user's state.
    * `onError`: Callback executed if the mutation fails.
    *   - Logs the error for debugging (primary logging is in `apiClient`).
-   *   - Clears any existing token and resets the user query to ensure a clean state.
+   *   - Leaves the active session alone: a failed attempt to add another account must not
+   *     sign the current one out.
    */
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginRequest) => {
@@ -94,37 +168,23 @@ export function useAuth() {
     },
     onSuccess: (data) => {
       // `data` is the Zod-parsed response from `apiClient.auth.login`.
-      if (data.token) {
-        setToken(data.token);
-        // Invalidate the user query. React Query will automatically refetch data for this queryKey.
-        // This is crucial for updating the UI with the authenticated user's information.
-        queryClient.invalidateQueries({ queryKey: ['auth', 'user'] });
-      } else {
+      if (!startSession(data)) {
         // This case (login success by API, but no token) should ideally be handled by robust API design
         // or more specific error types from the backend.
         console.error(
           'Login successful according to API, but no token was received in the response.'
         );
-        clearToken(); // Ensure inconsistent state is cleared.
-        queryClient.resetQueries({ queryKey: ['auth', 'user'] }); // Reset user data.
+        // No session is added, so whichever account was active before stays active.
       }
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       // The `apiClient`'s response interceptor already logs errors comprehensively.
       // Additional console logging here can be for quick debugging during development.
-      console.error(
-        'Login mutation failed in useAuth:',
-        error.message || error
-      );
-      if (error.response?.data) {
-        console.error(
-          'Server response data during login failure:',
-          error.response.data
-        );
+      console.error('Login mutation failed in useAuth:', error.message);
+      if (error instanceof ValidationError) {
+        console.error('Invalid login fields:', error.fieldErrors);
       }
-      clearToken(); // Critical: ensure any stale token is cleared on login failure.
-      // Reset user query to ensure no stale user data is shown.
-      queryClient.resetQueries({ queryKey: ['auth', 'user'] });
+      // The active session (if any) is kept: the user may have been adding a second account.
     },
   });
 
@@ -143,26 +203,17 @@ export function useAuth() {
       return response; // `apiClient` ensures Zod parsing.
     },
     onSuccess: (data) => {
-      if (data.token) {
-        setToken(data.token);
-        queryClient.invalidateQueries({ queryKey: ['auth', 'user'] }); // Fetch user data for new user.
-      } else {
+      if (!startSession(data)) {
         console.error(
           'Registration successful according to API, but no token was received.'
         );
         // This scenario might require specific error handling or feedback to the user.
       }
     },
-    onError: (error: any) => {
-      console.error(
-        'Register mutation failed in useAuth:',
-        error.message || error
-      );
-      if (error.response?.data) {
-        console.error(
-          'Server response data during registration failure:',
-          error.response.data
-        );
+    onError: (error: Error) => {
+      console.error('Register mutation failed in useAuth:', error.message);
+      if (error instanceof ValidationError) {
+        console.error('Invalid registration fields:', error.fieldErrors);
       }
       // The mutation's state (isError, error) is automatically updated by React Query.
       // Components can use these properties to display feedback.
@@ -180,54 +231,73 @@ export function useAuth() {
    * `queryKey: ['auth', 'user']`: A unique key for this query. React Query uses this for
    *   caching, refetching, and invalidation. The key structure (e.g., array of strings/objects)
    *   helps organize and target queries.
-   * `queryFn`: The asynchronous function that fetches the data.
-   * `enabled: hasToken()`: Crucially, this query only runs if `hasToken()` returns true.
-   *   This prevents attempts to fetch user data when no auth token is present, saving resources
-   *   and avoiding unnecessary errors.
+   * `queryFn`: The asynchronous function that fetches the data. React Query passes it a
+   *   `signal`, which cancels the request if the query is no longer needed.
+   * `enabled: hasSession()`: Crucially, the query waits until the stored sessions have been
+   *   loaded, and in token mode it only runs if `hasToken()` returns true. This prevents attempts to fetch user data when no auth token is present,
+   *   saving resources and avoiding unnecessary errors. In cookie mode only the API knows
+   *   whether the session cookie is valid, so the query always runs.
    * `staleTime: 5 * 60 * 1000` (5 minutes): Data is considered fresh for 5 minutes.
    *   React Query will not refetch from the network during this period for new component mounts
    *   or query hook usages, unless the query is explicitly invalidated or refetched.
-   * `retry: 1`: If the query fails, it will be retried once before marking it as errored.
-   *   This can help with transient network issues.
+   * `retry`: If the query fails, it will be retried once before marking it as errored.
+   *   This can help with transient network issues. A 401 or 403 (`AuthError`) is final: an
+   *   anonymous visitor in cookie mode gets the same answer however often we ask.
    */
   const userQuery = useQuery({
     queryKey: ['auth', 'user'],
-    queryFn: () => apiClient.auth.getUser(),
-    enabled: hasToken(),
+    queryFn: ({ signal }) => apiClient.auth.getUser({ signal }),
+    enabled: hasSession(),
     staleTime: 5 * 60 * 1000,
-    retry: 1,
+    retry: (failureCount, error) =>
+      !(error instanceof AuthError) && failureCount < 1,
   });
 
+  // Keep the active session's profile snapshot (shown in the account switcher) up to date.
+  // In cookie mode there is no stored session, so this does nothing.
+  useEffect(() => {
+    if (userQuery.data) setSessionUser(userQuery.data);
+  }, [userQuery.data, setSessionUser]);
+
+  /**
+   * Forgets everything tied to the current session: the stored tokens and every cached query.
+   * Clearing the whole cache (not just `['auth', 'user']`) matters because queries such as the
+   * user's private notes would otherwise stay in memory and could be shown to the next user
+   * who logs in on the same device. Public data is simply refetched when next needed.
+   * Other signed-in accounts are not affected: each session has its own query cache
+   * (see `SessionQueryClientProvider`).
+   */
+  const clearSessionState = () => {
+    clearToken();
+    queryClient.clear();
+    // Immediately report "no user" instead of leaving the user query in a loading state.
+    queryClient.setQueryData(['auth', 'user'], null);
+  };
+
   /**
    * Logout Mutation.
    * Handles user logout by calling `apiClient.auth.logout`.
+   * The refresh token is sent along so the server revokes it together with the access token.
+   * In cookie mode there are no tokens: the server ends the session behind the cookie.
    *
-   * `onSuccess`: Clears the local token and resets/removes the user query data,
+   * `onSuccess`: Clears the local token and the whole query cache (see `clearSessionState`),
    *   ensuring the application state reflects that the user is logged out.
-   *   `queryClient.setQueryData(['auth', 'user'], null)` immediately updates the cached user data to null,
-   *   providing a fast UI update.
-   *   `queryClient.removeQueries({ queryKey: ['auth', 'user'] })` completely removes the query from the cache,
-   *   which is a more thorough cleanup.
    * `onError`: Even if the API logout call fails (e.g., network issue),
    *   the client-side state is still reset to ensure the user appears logged out locally.
    *   This prioritizes a consistent client-side logged-out state.
    */
   const logoutMutation = useMutation({
-    mutationFn: () => apiClient.auth.logout(),
+    mutationFn: () =>
+      apiClient.auth.logout(
+        refreshToken ? { refresh_token: refreshToken } : {}
+      ),
     onSuccess: () => {
-      clearToken();
-      queryClient.setQueryData(['auth', 'user'], null); // Optimistic update of user data to null.
-      // `removeQueries` is more thorough if we want to ensure no stale data or query state remains.
-      queryClient.removeQueries({ queryKey: ['auth', 'user'] });
-      // Consider invalidating/resetting other queries that depend on authentication.
-      // Example: queryClient.invalidateQueries({ predicate: query => query.queryKey.includes('protected-data') });
+      clearSessionState();
     },
     onError: (error: any) => {
       console.error('Logout mutation failed:', error.message || error);
       // Regardless of API error, force client-side logout for consistent UX.
-      clearToken();
-      queryClient.setQueryData(['auth', 'user'], null);
-      queryClient.removeQueries({ queryKey: ['auth', 'user'] });
+      clearSessionState();
     },
   });
 
@@ -258,6 +328,19 @@ export function useAuth() {
     });
   };
 
+  // `isAuthenticated` is a derived state: true if user data is present, successfully fetched,
+  // and (in token mode) a token exists.
+  const isAuthenticated =
+    !!userQuery.data && userQuery.isSuccess && hasSession();
+
+  // Unknown while the stored sessions load, and while the user of a session is being fetched.
+  // `isPending` alone isn't enough: a disabled query (no session) is pending forever.
+  const status: AuthStatus = isAuthenticated
+    ? 'authenticated'
+    : !hasHydrated || (hasSession() && userQuery.isPending)
+      ? 'unknown'
+      : 'anonymous';
+
   // The hook returns an object with state and functions for components to consume.
   // This pattern provides a clear API for interacting with authentication features.
   return {
@@ -266,11 +349,13 @@ export function useAuth() {
     loginMutation,
     registerMutation,
 
+    // Whether someone is signed in: wait for anything but `'unknown'` before redirecting.
+    status,
+
     // User-related state derived from `userQuery`.
     user: userQuery.data,
     isLoadingUser: userQuery.isLoading, // True while fetching user data for the first time or during refetch.
-    // `isAuthenticated` is a derived state: true if user data is present, successfully fetched, and a token exists.
-    isAuthenticated: !!userQuery.data && userQuery.isSuccess && hasToken(),
+    isAuthenticated,
     userError: userQuery.error, // Error object from the user query, if any.
 
     // Logout function and state.
@@ -0,0 +1,40 @@
+/**
+ * @file packages/features/auth/src/hooks/useSessions.ts
+ * @description Hook for listing and switching between the accounts signed in on this device.
+ *
+ * `useTokenStore` can hold several sessions (each with its own tokens, user snapshot and API
+ * host), one of which is active. Logging in with `useAuth` adds a session; this hook exposes
+ * the stored sessions so an account switcher can show them and change the active one.
+ *
+ * For a learner:
+ * - Switching accounts is purely local: no API call is made. The API client starts sending the
+ *   other session's token, and `SessionQueryClientProvider` swaps in that session's query cache.
+ * - `forgetSession` only removes the tokens from this device. To also revoke them on the
+ *   server, switch to the session and log out with `useAuth().logout()`.
+ */
+import { useMemo } from 'react';
+import { listSessions, useTokenStore } from '@hello-world/shared';
+
+/**
+ * Custom hook `useSessions` for multi-account support.
+ *
+ * @returns The stored sessions (oldest first), the active one, and actions to switch or forget one.
+ */
+export function useSessions() {
+  const sessionsById = useTokenStore((state) => state.sessions);
+  const activeSessionId = useTokenStore((state) => state.activeSessionId);
+  const switchSession = useTokenStore((state) => state.switchSession);
+  const clearToken = useTokenStore((state) => state.clearToken);
+
+  const sessions = useMemo(() => listSessions(sessionsById), [sessionsById]);
+
+  return {
+    sessions,
+    activeSessionId,
+    activeSession: activeSessionId ? sessionsById[activeSessionId] : undefined,
+    /** Makes another stored session active (or `null` to browse anonymously). */
+    switchSession,
+    /** Removes a session's tokens from this device without contacting the API. */
+    forgetSession: (sessionId: string) => clearToken(sessionId),
+  };
+}
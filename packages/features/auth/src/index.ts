@@ -1,5 +1,9 @@
 // packages/features/auth/src/index.ts
 export * from './hooks/useAuth';
+export * from './hooks/useSessions';
 
 export * from './screens/LoginScreen';
 export * from './screens/RegisterScreen';
+
+export * from './components/SessionSwitcher';
+export * from './providers/SessionQueryClientProvider';
@@ -0,0 +1,72 @@
+/**
+ * @file packages/features/auth/src/providers/SessionQueryClientProvider.tsx
+ * @description Gives every signed-in account its own TanStack Query cache.
+ *
+ * With several accounts signed in (see `useSessions`), a single `QueryClient` would let data
+ * cached for one account (e.g., its private notes) show up after switching to another. This
+ * provider keeps one `QueryClient` per session, plus one for anonymous browsing, and provides
+ * the one belonging to the active session. Switching back to an account shows its cached data
+ * instantly; signing out of an account (or its session expiring) discards its cache.
+ *
+ * Caches are also kept apart per API host. Anonymous browsing follows the environment picked
+ * in the developer menu, and the notes cached from one API must not show up for another.
+ *
+ * For a learner:
+ * - Query hooks bind to a `QueryClient` when they mount, so the subtree is re-mounted (via a
+ *   React `key`) whenever the active session or API host changes. This also resets local UI
+ *   state, such as half-typed forms, which shouldn't carry over to another account either.
+ * - The map of clients lives in a ref: it is bookkeeping, and changing it must not re-render.
+ */
+import React, { PropsWithChildren, useEffect, useRef } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import {
+  resolveActiveApiHost,
+  resolveEnvironmentHost,
+  useApiEnvironmentStore,
+  useTokenStore,
+} from '@hello-world/shared';
+
+// Stands in for the session ID in cache keys while no session is active.
+const ANONYMOUS_SESSION = 'anonymous';
+
+type SessionQueryClientProviderProps = PropsWithChildren<{
+  /** Creates the client for a session. Defaults to `new QueryClient()`. */
+  createQueryClient?: () => QueryClient;
+}>;
+
+export function SessionQueryClientProvider({
+  children,
+  createQueryClient = () => new QueryClient(),
+}: SessionQueryClientProviderProps) {
+  const activeSessionId = useTokenStore((state) => state.activeSessionId);
+  const sessions = useTokenStore((state) => state.sessions);
+  // Subscribed so that picking another environment re-renders (and re-keys) the subtree.
+  useApiEnvironmentStore(resolveEnvironmentHost);
+  const clients = useRef(
+    new Map<string, { sessionId: string; client: QueryClient }>()
+  );
+
+  const sessionId = activeSessionId ?? ANONYMOUS_SESSION;
+  const cacheKey = `${sessionId} ${resolveActiveApiHost()}`;
+  let queryClient = clients.current.get(cacheKey)?.client;
+  if (!queryClient) {
+    queryClient = createQueryClient();
+    clients.current.set(cacheKey, { sessionId, client: queryClient });
+  }
+
+  // Discard the caches of sessions that no longer exist (logged out, expired or forgotten).
+  useEffect(() => {
+    clients.current.forEach((entry, key) => {
+      if (entry.sessionId !== ANONYMOUS_SESSION && !sessions[entry.sessionId]) {
+        entry.client.clear();
+        clients.current.delete(key);
+      }
+    });
+  }, [sessions]);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <React.Fragment key={cacheKey}>{children}</React.Fragment>
+    </QueryClientProvider>
+  );
+}
@@ -0,0 +1,469 @@
+/**
+ * @file packages/features/notes/src/hooks/useNoteSyncQueue.ts
+ * @description Offline support for notes: queueing writes, replaying them, and showing them.
+ *
+ * When a note is created or edited without a connection, `useCreateNote`/`useUpdateNote`
+ * don't fail. Instead they put the change into the persisted mutation queue
+ * (`useMutationQueueStore` from `@hello-world/shared`) and return an optimistic note.
+ * This file contains everything the notes feature needs around that queue:
+ * - `queueNoteCreate` / `queueNoteUpdate`: Add (or merge) a change into the queue.
+ * - `replayNoteQueue`: Sends queued changes to the API, oldest first, one at a time.
+ * - `mergeQueuedNotes`: Overlays queued changes on the server's notes for display.
+ * - `useNoteSyncQueue`: The hook screens use to show "pending sync" badges, trigger replays
+ *   when connectivity returns, and let users resolve conflicts.
+ *
+ * Replay rules:
+ * - Order is preserved. If a request fails for a temporary reason (offline, 5xx, 429, 401),
+ *   replay stops and the remaining entries wait for the next attempt.
+ * - If the server rejects a change (e.g., 403, 404, 422), the entry is marked as a conflict
+ *   and kept, so the user's text is never silently lost. Later changes to the same note wait
+ *   behind it; changes to other notes continue. The user can retry or discard the conflict.
+ * - A create that times out or fails with a 5xx is a conflict too: the server may have saved
+ *   the note before failing, and POST is not safe to repeat (see `requestPolicy.ts`). The user
+ *   checks the list before retrying, rather than risking a duplicate note.
+ *
+ * For a learner:
+ * - Notes created offline don't have a server ID yet, so they get a temporary negative ID.
+ *   Negative IDs can never collide with the database's auto-increment IDs.
+ * - Editing a note that is still waiting to be created just updates the queued create,
+ *   so the server only ever sees one request for it.
+ */
+import { useCallback, useEffect, useMemo } from 'react';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import {
+  apiClient,
+  getUserFriendlyMessage,
+  isApiError,
+  isNetworkError,
+  onConnectivityRestored,
+  TimeoutError,
+  useMutationQueueStore,
+  QueuedMutation,
+} from '@hello-world/shared';
+import type {
+  CreateNoteRequest,
+  Note,
+  NoteId,
+  UpdateNoteRequest,
+  User,
+  UserId,
+} from '@hello-world/api-types';
+import type { NoteSyncStatus } from '@hello-world/ui';
+
+/** Queue entry type for a note created while offline. */
+export const NOTE_CREATE_MUTATION = 'notes.create';
+/** Queue entry type for an edit made to an existing note while offline. */
+export const NOTE_UPDATE_MUTATION = 'notes.update';
+
+/** Payload of a queued note creation. `tempId` is the negative ID shown until it syncs. */
+export interface QueuedNoteCreate {
+  tempId: NoteId;
+  data: CreateNoteRequest;
+  authorName?: string;
+}
+
+/** Payload of a queued note edit. */
+export interface QueuedNoteUpdate {
+  noteId: number;
+  data: UpdateNoteRequest;
+}
+
+/** How often to retry while changes are waiting, in addition to connectivity events. */
+const REPLAY_INTERVAL_MS = 30 * 1000;
+
+/** True for the temporary IDs given to notes that haven't been created on the server yet. */
+export const isPendingNoteId = (noteId: number) => noteId < 0;
+
+const isCreateEntry = (
+  entry: QueuedMutation
+): entry is QueuedMutation<QueuedNoteCreate> =>
+  entry.type === NOTE_CREATE_MUTATION;
+
+const isUpdateEntry = (
+  entry: QueuedMutation
+): entry is QueuedMutation<QueuedNoteUpdate> =>
+  entry.type === NOTE_UPDATE_MUTATION;
+
+/** The note a queue entry applies to (temporary ID for creates). */
+const entryNoteId = (entry: QueuedMutation): number | undefined => {
+  if (isCreateEntry(entry)) return entry.payload.tempId;
+  if (isUpdateEntry(entry)) return entry.payload.noteId;
+  return undefined;
+};
+
+/** Note entries in the queue that belong to `userId`, oldest first. */
+const getNoteEntries = (userId: number | undefined) =>
+  useMutationQueueStore
+    .getState()
+    .queue.filter(
+      (entry) => entry.userId === userId && entryNoteId(entry) !== undefined
+    );
+
+/**
+ * Queues a note creation and returns the optimistic note to show until it syncs.
+ *
+ * @param data - Title and content of the new note.
+ * @param user - The author; entries are only replayed while this user is logged in.
+ */
+export function queueNoteCreate(data: CreateNoteRequest, user: User): Note {
+  // `Date.now()` keeps temporary IDs unique per device and sorted by creation time.
+  const tempId = -Date.now() as NoteId;
+  const now = new Date().toISOString();
+  useMutationQueueStore.getState().enqueue<QueuedNoteCreate>({
+    type: NOTE_CREATE_MUTATION,
+    payload: { tempId, data, authorName: user.name },
+    userId: user.id,
+  });
+  return {
+    id: tempId,
+    title: data.title,
+    content: data.content,
+    userId: user.id,
+    authorName: user.name,
+    // Same defaults as the API applies when these fields are omitted.
+    visibility: data.visibility ?? 'public',
+    sharedWith: data.shared_with ?? [],
+    tags: data.tags ?? [],
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Returns `note` with the fields of an edit applied, as the API would save them.
+ * Request fields use the API's request names (`shared_with`), so they are mapped to the
+ * note's response names (`sharedWith`) here.
+ *
+ * @param note - The note before the edit.
+ * @param data - The edit, as sent to `PUT /notes/{note}`.
+ */
+export function applyNoteEdit(note: Note, data: UpdateNoteRequest): Note {
+  const { shared_with, ...fields } = data;
+  return {
+    ...note,
+    ...fields,
+    visibility: data.visibility ?? note.visibility,
+    sharedWith: shared_with ?? note.sharedWith,
+  };
+}
+
+/**
+ * Queues an edit. Edits to a note that is still waiting to be created are merged into the
+ * queued create, and a newer edit replaces an older queued edit of the same note (also
+ * clearing any conflict, since the user has now decided what the note should say).
+ *
+ * @param noteId - The note being edited (may be a temporary ID).
+ * @param data - The new title and content.
+ * @param userId - The author of the change.
+ */
+export function queueNoteUpdate(
+  noteId: number,
+  data: UpdateNoteRequest,
+  userId: number
+): void {
+  const { enqueue, updateMutation } = useMutationQueueStore.getState();
+  const existing = getNoteEntries(userId).find(
+    (entry) => entryNoteId(entry) === noteId
+  );
+
+  if (existing && isCreateEntry(existing)) {
+    updateMutation(existing.id, {
+      payload: { ...existing.payload, data },
+      status: 'pending',
+      lastError: undefined,
+    });
+    return;
+  }
+  if (existing && isUpdateEntry(existing)) {
+    updateMutation(existing.id, {
+      payload: { noteId, data },
+      status: 'pending',
+      lastError: undefined,
+    });
+    return;
+  }
+  enqueue<QueuedNoteUpdate>({
+    type: NOTE_UPDATE_MUTATION,
+    payload: { noteId, data },
+    userId,
+  });
+}
+
+/**
+ * Removes every queued change for a note, e.g., when the user discards a conflict or
+ * deletes a note that was never synced.
+ */
+export function discardQueuedNote(noteId: number, userId: number): void {
+  const { removeMutation } = useMutationQueueStore.getState();
+  getNoteEntries(userId)
+    .filter((entry) => entryNoteId(entry) === noteId)
+    .forEach((entry) => removeMutation(entry.id));
+}
+
+/**
+ * Overlays queued changes on the server's notes: queued edits replace title/content,
+ * and notes waiting to be created are shown first (the API lists newest first by default).
+ *
+ * @param serverNotes - Notes as returned by the API.
+ * @param entries - The current user's queued note entries.
+ */
+export function mergeQueuedNotes(
+  serverNotes: Note[],
+  entries: QueuedMutation[]
+): Note[] {
+  const edits = new Map<number, UpdateNoteRequest>();
+  const created: Note[] = [];
+
+  entries.forEach((entry) => {
+    if (isUpdateEntry(entry)) {
+      edits.set(entry.payload.noteId, entry.payload.data);
+    } else if (isCreateEntry(entry)) {
+      created.push({
+        id: entry.payload.tempId,
+        title: entry.payload.data.title,
+        content: entry.payload.data.content,
+        userId: (entry.userId ?? 0) as UserId,
+        authorName: entry.payload.authorName,
+        visibility: entry.payload.data.visibility ?? 'public',
+        sharedWith: entry.payload.data.shared_with ?? [],
+        tags: entry.payload.data.tags ?? [],
+        created_at: entry.createdAt,
+        updated_at: entry.createdAt,
+      });
+    }
+  });
+
+  return [
+    // Newest queued note first, matching the default sort order.
+    ...created.reverse(),
+    ...serverNotes.map((note) => {
+      const edit = edits.get(note.id);
+      return edit ? applyNoteEdit(note, edit) : note;
+    }),
+  ];
+}
+
+/**
+ * True if a create failed in a way that doesn't tell whether the note was saved: the request
+ * timed out, or the server (or a gateway in front of it) failed with a 5xx.
+ */
+function mayHaveCreated(entry: QueuedMutation, error: unknown): boolean {
+  if (!isCreateEntry(entry)) return false;
+  if (error instanceof TimeoutError) return true;
+  return (
+    isApiError(error) && error.kind === 'server' && (error.status ?? 0) >= 500
+  );
+}
+
+/**
+ * Decides what a failed replay means.
+ * `retry`: temporary problem, try again later. `conflict`: the server rejected the change,
+ * or it may have applied a create that must not be sent twice (see `mayHaveCreated`).
+ */
+function classifyReplayError(
+  entry: QueuedMutation,
+  error: unknown
+): 'retry' | 'conflict' {
+  if (mayHaveCreated(entry, error)) return 'conflict';
+  if (isNetworkError(error)) return 'retry';
+  if (!isApiError(error)) return 'conflict';
+  switch (error.kind) {
+    // 401: the API client already tried to refresh the session; wait for the user to log in again.
+    case 'auth':
+      return error.status === 401 ? 'retry' : 'conflict';
+    case 'rate_limit':
+      return 'retry';
+    // 408 (request timeout) and 5xx are temporary; other unexpected statuses are not.
+    case 'server':
+      return error.status === 408 || (error.status ?? 0) >= 500
+        ? 'retry'
+        : 'conflict';
+    default:
+      return 'conflict';
+  }
+}
+
+/** A short, user-facing explanation of why the server rejected a queued change. */
+function describeConflict(entry: QueuedMutation, error: unknown): string {
+  if (mayHaveCreated(entry, error)) {
+    return 'This note may already have been saved. Check your notes before retrying.';
+  }
+  if (isApiError(error) && error.kind === 'not_found') {
+    return 'This note no longer exists on the server.';
+  }
+  if (isApiError(error) && error.kind === 'auth' && error.status === 403) {
+    return 'You are no longer allowed to edit this note.';
+  }
+  return getUserFriendlyMessage(error);
+}
+
+// The replay currently running, shared by every screen that asks for one.
+let replayInFlight: Promise<void> | null = null;
+
+/**
+ * Replays the user's queued note changes in order. Concurrent calls share one run.
+ *
+ * @param queryClient - Used to refetch the notes list once something has synced.
+ * @param userId - Only this user's entries are replayed.
+ */
+export function replayNoteQueue(
+  queryClient: QueryClient,
+  userId: number
+): Promise<void> {
+  if (!replayInFlight) {
+    replayInFlight = runReplay(queryClient, userId).finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+}
+
+async function runReplay(queryClient: QueryClient, userId: number) {
+  const store = useMutationQueueStore.getState;
+  // Notes with an unresolved conflict: later changes to them must not overtake it.
+  const blockedNoteIds = new Set<number>();
+  let hasSynced = false;
+
+  for (const { id } of getNoteEntries(userId)) {
+    // Re-read the entry: the user may have edited it while earlier entries were replaying.
+    const entry = store().queue.find((queued) => queued.id === id);
+    const noteId = entry && entryNoteId(entry);
+    if (!entry || noteId === undefined) continue;
+    if (entry.status === 'conflict' || blockedNoteIds.has(noteId)) {
+      blockedNoteIds.add(noteId);
+      continue;
+    }
+
+    try {
+      if (isCreateEntry(entry)) {
+        const created = await apiClient.notes.createNote(entry.payload.data);
+        const latest = store().queue.find((queued) => queued.id === id);
+        if (
+          latest &&
+          isCreateEntry(latest) &&
+          latest.payload.data !== entry.payload.data
+        ) {
+          // Edited while the create was in flight: keep the edit as an update of the new note.
+          store().updateMutation(id, {
+            type: NOTE_UPDATE_MUTATION,
+            payload: { noteId: created.id, data: latest.payload.data },
+          });
+        } else {
+          store().removeMutation(id);
+        }
+      } else if (isUpdateEntry(entry)) {
+        await apiClient.notes.updateNote(noteId, entry.payload.data);
+        store().removeMutation(id);
+      }
+      hasSynced = true;
+    } catch (error) {
+      if (classifyReplayError(entry, error) === 'retry') {
+        store().updateMutation(id, { attempts: entry.attempts + 1 });
+        break; // Keep the order: everything after this entry waits for the next replay.
+      }
+      store().updateMutation(id, {
+        status: 'conflict',
+        attempts: entry.attempts + 1,
+        lastError: describeConflict(entry, error),
+      });
+      // Refetch, so a note the server did save shows up next to the conflict.
+      if (mayHaveCreated(entry, error)) hasSynced = true;
+      blockedNoteIds.add(noteId);
+    }
+  }
+
+  if (hasSynced) {
+    queryClient.invalidateQueries({ queryKey: ['notes'] });
+  }
+}
+
+/**
+ * Hook for screens that show notes: exposes the current user's queued changes and keeps
+ * replaying them while any are pending (on mount, when connectivity returns, and every
+ * 30 seconds).
+ *
+ * @param userId - The logged-in user's ID; nothing is shown or replayed without it.
+ * @returns Helpers to merge queued changes into a list, per-note sync status, and actions
+ *   to sync now, retry a conflict, or discard a queued change.
+ */
+export function useNoteSyncQueue(userId: number | undefined) {
+  const queryClient = useQueryClient();
+  const queue = useMutationQueueStore((state) => state.queue);
+
+  const entries = useMemo(
+    () =>
+      queue.filter(
+        (entry) =>
+          userId !== undefined &&
+          entry.userId === userId &&
+          entryNoteId(entry) !== undefined
+      ),
+    [queue, userId]
+  );
+  const pendingCount = entries.filter((e) => e.status === 'pending').length;
+  const conflictCount = entries.length - pendingCount;
+
+  const syncNow = useCallback(() => {
+    if (userId === undefined) return Promise.resolve();
+    return replayNoteQueue(queryClient, userId);
+  }, [queryClient, userId]);
+
+  useEffect(() => {
+    if (userId === undefined || pendingCount === 0) return;
+    void syncNow();
+    const unsubscribe = onConnectivityRestored(() => void syncNow());
+    const interval = setInterval(() => void syncNow(), REPLAY_INTERVAL_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [userId, pendingCount, syncNow]);
+
+  const syncStatusByNoteId = useMemo(() => {
+    const statuses: Record<number, NoteSyncStatus> = {};
+    entries.forEach((entry) => {
+      const noteId = entryNoteId(entry)!;
+      // A conflict wins over "pending" when a note has both.
+      if (statuses[noteId]?.status !== 'conflict') {
+        statuses[noteId] = { status: entry.status, error: entry.lastError };
+      }
+    });
+    return statuses;
+  }, [entries]);
+
+  const applyToNotes = useCallback(
+    (serverNotes: Note[]) => mergeQueuedNotes(serverNotes, entries),
+    [entries]
+  );
+
+  const retry = useCallback(
+    (noteId: number) => {
+      const { updateMutation } = useMutationQueueStore.getState();
+      entries
+        .filter((entry) => entryNoteId(entry) === noteId)
+        .forEach((entry) =>
+          updateMutation(entry.id, { status: 'pending', lastError: undefined })
+        );
+      void syncNow();
+    },
+    [entries, syncNow]
+  );
+
+  const discard = useCallback(
+    (noteId: number) => {
+      if (userId !== undefined) discardQueuedNote(noteId, userId);
+    },
+    [userId]
+  );
+
+  return {
+    entries,
+    pendingCount,
+    conflictCount,
+    syncStatusByNoteId,
+    applyToNotes,
+    syncNow,
+    retry,
+    discard,
+  };
+}
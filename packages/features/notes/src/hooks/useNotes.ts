@@ -3,53 +3,205 @@
  * @description Custom React Query hooks for managing note-related data operations.
  *
  * This file provides hooks to interact with the notes API:
- * - `useGetNotes`: Fetches the list of all notes.
+ * - `useGetNotes`: Fetches a single page of notes.
+ * - `useInfiniteNotes`: Fetches notes page by page for infinite scrolling.
+ * - `useGetMyNotes`: Fetches only the logged-in user's notes, page by page.
  * - `useCreateNote`: Creates a new note.
+ * - `useUpdateNote`: Edits an existing note owned by the current user.
+ * - `useDeleteNote`: Deletes a note owned by the current user.
+ *
+ * Tag hooks live in `useTags.ts`.
  *
  * These hooks encapsulate the logic for API calls (via `apiClient`) and server state
  * management (caching, refetching, mutations) using `@tanstack/react-query`.
  * This approach simplifies UI components by abstracting data fetching and mutation logic.
  *
+ * Creating and editing notes also works offline: when there is no connection, the change
+ * is stored in the persisted mutation queue and an optimistic note is returned instead of
+ * an error. See `useNoteSyncQueue.ts` for how queued changes are shown and replayed.
+ *
  * For a learner:
  * - `useQuery` is used for fetching (GET-like) data.
+ * - `useInfiniteQuery` is `useQuery` for paginated lists: it keeps every loaded page and
+ *   knows how to request the next one (`getNextPageParam`).
  * - `useMutation` is used for creating, updating, or deleting (POST, PUT, DELETE-like) data.
  * - `queryKey` is essential for React Query to manage caching and automatic refetching.
  * - `queryClient.invalidateQueries()` is a common pattern to refresh data after a mutation.
  */
-import { apiClient } from '@hello-world/shared';
+import {
+  apiClient,
+  isNetworkError,
+  isOnline,
+  NetworkError,
+} from '@hello-world/shared';
 import {
   CreateNoteRequest,
+  GetNotesParams,
   GetNotesResponse,
   CreateNoteResponse, // Import the specific response type for createNote
+  UpdateNoteRequest,
+  UpdateNoteResponse,
+  DeleteNoteResponse,
+  Note,
+  NoteId,
+  User,
 } from '@hello-world/api-types';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  InfiniteData,
+  keepPreviousData,
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { useMemo } from 'react';
+import {
+  applyNoteEdit,
+  discardQueuedNote,
+  isPendingNoteId,
+  queueNoteCreate,
+  queueNoteUpdate,
+} from './useNoteSyncQueue';
+import { tagsQueryKeys } from './useTags';
+
+/**
+ * Query keys for notes. Every key starts with `'notes'`, so
+ * `invalidateQueries({ queryKey: ['notes'] })` refreshes single pages and infinite lists alike.
+ */
+export const notesQueryKeys = {
+  all: ['notes'] as const,
+  page: (params: GetNotesParams) => ['notes', 'page', params] as const,
+  infinite: (params: Omit<GetNotesParams, 'cursor'>) =>
+    ['notes', 'infinite', params] as const,
+  // Private lists include the user ID, so one user's notes are never served from the cache to another.
+  mine: (userId: number | undefined, params: Omit<GetNotesParams, 'cursor'>) =>
+    ['notes', 'mine', userId, params] as const,
+};
 
 /**
- * Custom hook to fetch the list of notes.
+ * Custom hook to fetch one page of notes.
  * It uses React Query's `useQuery` to handle data fetching, caching, and state management.
  *
+ * @param params - Optional search term, sort order, page size and cursor. Each combination
+ *   is cached separately because the params are part of the query key.
  * @returns {import('@tanstack/react-query').UseQueryResult<GetNotesResponse, Error>}
  *   The result object from `useQuery`, containing:
- *   - `data`: The fetched notes (type `GetNotesResponse`) or undefined.
+ *   - `data`: The fetched page (type `GetNotesResponse`: `data`, `links`, `meta`) or undefined.
  *   - `isLoading`: Boolean indicating if the query is currently fetching.
  *   - `isError`: Boolean indicating if an error occurred.
  *   - `error`: The error object if `isError` is true.
  *   - And other helpful states and functions like `refetch`, `isSuccess`, etc.
  */
-export function useGetNotes() {
+export function useGetNotes(params: GetNotesParams = {}) {
   return useQuery<GetNotesResponse, Error>({
     // `queryKey`: A unique key for this query. React Query uses this for caching.
     // If other parts of the app need to interact with this cached data (e.g., invalidate it),
-    // they will use this same key.
-    queryKey: ['notes'],
+    // they will use this same key (or its `['notes']` prefix).
+    queryKey: notesQueryKeys.page(params),
     // `queryFn`: The asynchronous function that fetches the data.
-    // It calls the `getNotes` method from our `apiClient`.
-    queryFn: () => apiClient.notes.getNotes(),
+    // It calls the `getNotes` method from our `apiClient`, passing on React Query's `signal`
+    // so the request is cancelled if the query is no longer needed (e.g., the user left the page).
+    queryFn: ({ signal }) => apiClient.notes.getNotes(params, { signal }),
     // Default staleTime and cacheTime from QueryClient will be used.
     // Options like `staleTime`, `cacheTime`, `enabled`, `retry` can be configured here.
   });
 }
 
+/**
+ * Custom hook to fetch notes page by page, for infinite scrolling.
+ * Built on `useInfiniteQuery`: each page's `meta.next_cursor` becomes the `cursor` of the next
+ * request, and `hasNextPage` turns false once the API reports no further cursor.
+ *
+ * @param params - Optional search term (`q`), sort order and page size. Changing them starts
+ *   a new list from the first page.
+ * @returns The `useInfiniteQuery` result (`fetchNextPage`, `hasNextPage`,
+ *   `isFetchingNextPage`, ...) plus `notes`: all loaded pages flattened into one array.
+ */
+export function useInfiniteNotes(params: Omit<GetNotesParams, 'cursor'> = {}) {
+  const query = useInfiniteQuery({
+    queryKey: notesQueryKeys.infinite(params),
+    queryFn: ({ pageParam, signal }) =>
+      apiClient.notes.getNotes({ ...params, cursor: pageParam }, { signal }),
+    initialPageParam: undefined as string | undefined,
+    // Returning `undefined` tells React Query there are no more pages.
+    getNextPageParam: (lastPage) => lastPage.meta.next_cursor ?? undefined,
+    // Keep showing the current list while a new search or sort order loads,
+    // instead of flashing back to a loading state on every keystroke.
+    placeholderData: keepPreviousData,
+  });
+
+  const notes = useMemo(
+    () => (query.data?.pages.flatMap((page) => page.data) ?? []) as Note[],
+    [query.data]
+  );
+
+  return { ...query, notes };
+}
+
+/**
+ * Custom hook to fetch the logged-in user's own notes page by page (`GET /notes/mine`).
+ * Works like `useInfiniteNotes`, but the query key includes `userId` and the query only runs
+ * once a user is known, so switching accounts never shows the previous user's private list.
+ *
+ * @param userId - ID of the logged-in user (e.g., `useAuth().user?.id`), or `undefined` when logged out.
+ * @param params - Optional search term (`q`), sort order and page size.
+ * @returns The `useInfiniteQuery` result plus `notes`: all loaded pages flattened into one array.
+ */
+export function useGetMyNotes(
+  userId: number | undefined,
+  params: Omit<GetNotesParams, 'cursor'> = {}
+) {
+  const query = useInfiniteQuery({
+    queryKey: notesQueryKeys.mine(userId, params),
+    queryFn: ({ pageParam, signal }) =>
+      apiClient.notes.getMyNotes({ ...params, cursor: pageParam }, { signal }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.meta.next_cursor ?? undefined,
+    // Keep the current list on screen while a new search loads, but never carry a list
+    // over from a different user.
+    placeholderData: (previousData, previousQuery) =>
+      previousQuery?.queryKey[2] === userId ? previousData : undefined,
+    // The endpoint requires authentication; don't call it before the user is loaded.
+    enabled: userId !== undefined,
+  });
+
+  const notes = useMemo(
+    () => (query.data?.pages.flatMap((page) => page.data) ?? []) as Note[],
+    [query.data]
+  );
+
+  return { ...query, notes };
+}
+
+/**
+ * Looks up a note in any cached notes list (single pages or infinite lists).
+ * Used to build the optimistic result of an offline edit.
+ */
+function findCachedNote(
+  queryClient: QueryClient,
+  noteId: number
+): Note | undefined {
+  const cached = queryClient.getQueriesData<
+    GetNotesResponse | InfiniteData<GetNotesResponse>
+  >({ queryKey: notesQueryKeys.all });
+
+  for (const [, data] of cached) {
+    // Infinite lists keep their pages in `pages`. The cast is needed because API responses
+    // allow extra keys, so `'pages' in data` alone doesn't tell the two shapes apart.
+    const pages = !data
+      ? []
+      : 'pages' in data
+        ? (data as InfiniteData<GetNotesResponse>).pages
+        : [data];
+    for (const page of pages) {
+      const note = page.data.find((candidate) => candidate.id === noteId);
+      if (note) return note;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Custom hook to create a new note.
  * It uses React Query's `useMutation` to handle the creation process and update related data.
@@ -72,8 +224,24 @@ export function useCreateNote() {
   return useMutation<CreateNoteResponse, Error, CreateNoteRequest>({
     // `mutationFn`: The asynchronous function that performs the mutation.
     // It takes the new note data (`CreateNoteRequest`) and calls `apiClient.notes.createNote`.
-    mutationFn: (newNoteData: CreateNoteRequest) =>
-      apiClient.notes.createNote(newNoteData),
+    // If the device is offline (or the request never reaches the server), the note is queued
+    // for later and the optimistic note (with a temporary negative ID) is returned instead.
+    mutationFn: async (newNoteData: CreateNoteRequest) => {
+      const user = queryClient.getQueryData<User>(['auth', 'user']);
+      if (user && !isOnline()) {
+        return queueNoteCreate(newNoteData, user);
+      }
+      try {
+        return await apiClient.notes.createNote(newNoteData);
+      } catch (error) {
+        // Only a request that never reached the server is queued. After a timeout or a 5xx
+        // the note may already exist, and sending the POST again would create it twice.
+        if (user && error instanceof NetworkError) {
+          return queueNoteCreate(newNoteData, user);
+        }
+        throw error;
+      }
+    },
 
     // `onSuccess`: A callback function executed if the mutation is successful.
     onSuccess: (data, variables, context) => {
@@ -84,6 +252,8 @@ export function useCreateNote() {
       // refetch this data if it's currently being observed (e.g., by a component using `useGetNotes`).
       // This ensures the UI reflects the newly created note.
       queryClient.invalidateQueries({ queryKey: ['notes'] });
+      // New tag names on the note create tags, and tag note counts change.
+      queryClient.invalidateQueries({ queryKey: tagsQueryKeys.all });
 
       // `data` here is the `CreateNoteResponse` (the newly created note).
       // `variables` is the `CreateNoteRequest` that was passed to `mutateFn`.
@@ -98,3 +268,96 @@ export function useCreateNote() {
     // },
   });
 }
+
+/**
+ * Variables accepted by the `useUpdateNote` mutation: the ID of the note to edit
+ * plus the new field values.
+ */
+export type UpdateNoteVariables = {
+  noteId: number;
+  data: UpdateNoteRequest;
+};
+
+/**
+ * Custom hook to update an existing note.
+ * Only the note's author may update it; the API responds with 403 otherwise.
+ * Edits made offline, or to a note that hasn't synced yet, are queued and the
+ * optimistically edited note is returned.
+ *
+ * @returns {import('@tanstack/react-query').UseMutationResult<UpdateNoteResponse, Error, UpdateNoteVariables>}
+ *   The result object from `useMutation`. Call `mutate({ noteId, data })` to trigger the update.
+ */
+export function useUpdateNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation<UpdateNoteResponse, Error, UpdateNoteVariables>({
+    mutationFn: async ({ noteId, data }: UpdateNoteVariables) => {
+      const user = queryClient.getQueryData<User>(['auth', 'user']);
+      const queueEdit = (): Note => {
+        queueNoteUpdate(noteId, data, user!.id);
+        const cached = findCachedNote(queryClient, noteId);
+        const now = new Date().toISOString();
+        const base: Note = cached ?? {
+          id: noteId as NoteId,
+          userId: user!.id,
+          title: data.title,
+          content: data.content,
+          visibility: 'public',
+          sharedWith: [],
+          tags: [],
+          created_at: now,
+          updated_at: now,
+        };
+        return { ...applyNoteEdit(base, data), updated_at: now };
+      };
+
+      // A note that only exists in the queue can only be edited in the queue.
+      if (user && (isPendingNoteId(noteId) || !isOnline())) {
+        return queueEdit();
+      }
+      try {
+        return await apiClient.notes.updateNote(noteId, data);
+      } catch (error) {
+        if (user && isNetworkError(error)) {
+          return queueEdit();
+        }
+        throw error;
+      }
+    },
+
+    onSuccess: () => {
+      // Refetch the notes list so the edited title/content is shown everywhere it is cached.
+      queryClient.invalidateQueries({ queryKey: ['notes'] });
+      queryClient.invalidateQueries({ queryKey: tagsQueryKeys.all });
+    },
+  });
+}
+
+/**
+ * Custom hook to delete a note.
+ * Only the note's author may delete it; the API responds with 403 otherwise.
+ * Deleting a note that hasn't synced yet just removes it from the offline queue.
+ *
+ * @returns {import('@tanstack/react-query').UseMutationResult<DeleteNoteResponse, Error, number>}
+ *   The result object from `useMutation`. Call `mutate(noteId)` to trigger the deletion.
+ */
+export function useDeleteNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation<DeleteNoteResponse, Error, number>({
+    mutationFn: async (noteId: number) => {
+      const user = queryClient.getQueryData<User>(['auth', 'user']);
+      if (user && isPendingNoteId(noteId)) {
+        discardQueuedNote(noteId, user.id);
+        return { message: 'Unsynced note discarded.' };
+      }
+      return apiClient.notes.deleteNote(noteId);
+    },
+
+    onSuccess: () => {
+      // Refetch the notes list so the deleted note disappears from the UI.
+      queryClient.invalidateQueries({ queryKey: ['notes'] });
+      queryClient.invalidateQueries({ queryKey: tagsQueryKeys.all });
+    },
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * @file packages/features/notes/src/hooks/useTags.ts
+ * @description React Query hooks for the logged-in user's note tags.
+ *
+ * - `useGetTags`: Fetches the user's tags (with note counts), e.g., for tag suggestions.
+ * - `useCreateTag`: Creates a tag ahead of using it on a note.
+ * - `useUpdateTag`: Renames a tag.
+ * - `useDeleteTag`: Deletes a tag, removing it from every note.
+ *
+ * Tags are also created implicitly when a note is saved with a new tag name, which is why
+ * the note mutations in `useNotes.ts` invalidate the tag queries too.
+ *
+ * For a learner:
+ * - Renaming or deleting a tag changes notes as well, so those mutations invalidate both the
+ *   `['tags']` and `['notes']` queries.
+ */
+import { apiClient } from '@hello-world/shared';
+import {
+  CreateTagRequest,
+  CreateTagResponse,
+  DeleteTagResponse,
+  GetTagsResponse,
+  UpdateTagRequest,
+  UpdateTagResponse,
+} from '@hello-world/api-types';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+/**
+ * Query keys for tags. Tags are private to each user, so the list is keyed by user ID.
+ */
+export const tagsQueryKeys = {
+  all: ['tags'] as const,
+  list: (userId: number | undefined) => ['tags', userId] as const,
+};
+
+/** Variables accepted by `useUpdateTag`'s `mutate` function. */
+export interface UpdateTagVariables {
+  tagId: number;
+  data: UpdateTagRequest;
+}
+
+/**
+ * Custom hook to fetch the logged-in user's tags, alphabetically.
+ *
+ * @param userId - ID of the logged-in user, or `undefined` when logged out (the query then
+ *   doesn't run, since `GET /tags` requires authentication).
+ */
+export function useGetTags(userId: number | undefined) {
+  return useQuery<GetTagsResponse, Error>({
+    queryKey: tagsQueryKeys.list(userId),
+    queryFn: ({ signal }) => apiClient.tags.getTags({ signal }),
+    enabled: userId !== undefined,
+  });
+}
+
+/**
+ * Custom hook to create a tag. Call `mutate({ name })`.
+ */
+export function useCreateTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation<CreateTagResponse, Error, CreateTagRequest>({
+    mutationFn: (data) => apiClient.tags.createTag(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagsQueryKeys.all });
+    },
+  });
+}
+
+/**
+ * Custom hook to rename a tag. Call `mutate({ tagId, data: { name } })`.
+ */
+export function useUpdateTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation<UpdateTagResponse, Error, UpdateTagVariables>({
+    mutationFn: ({ tagId, data }) => apiClient.tags.updateTag(tagId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagsQueryKeys.all });
+      // Notes show tag names, so they need to be refetched as well.
+      queryClient.invalidateQueries({ queryKey: ['notes'] });
+    },
+  });
+}
+
+/**
+ * Custom hook to delete a tag. Call `mutate(tagId)`.
+ */
+export function useDeleteTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation<DeleteTagResponse, Error, number>({
+    mutationFn: (tagId) => apiClient.tags.deleteTag(tagId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagsQueryKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['notes'] });
+    },
+  });
+}
@@ -1,3 +1,26 @@
 export { NotesScreen } from './screens/NotesScreen';
 export { ProtectedNotesScreen } from './screens/ProtectedNotesScreen';
-export { useGetNotes, useCreateNote } from './hooks/useNotes';
+export {
+  useGetNotes,
+  useInfiniteNotes,
+  useGetMyNotes,
+  notesQueryKeys,
+  useCreateNote,
+  useUpdateNote,
+  useDeleteNote,
+} from './hooks/useNotes';
+export type { UpdateNoteVariables } from './hooks/useNotes';
+export {
+  useGetTags,
+  useCreateTag,
+  useUpdateTag,
+  useDeleteTag,
+  tagsQueryKeys,
+} from './hooks/useTags';
+export type { UpdateTagVariables } from './hooks/useTags';
+export {
+  useNoteSyncQueue,
+  replayNoteQueue,
+  mergeQueuedNotes,
+  isPendingNoteId,
+} from './hooks/useNoteSyncQueue';
@@ -1,28 +1,80 @@
 // packages/features/notes/src/screens/ProtectedNotesScreen.tsx
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { YStack, Text, Spinner } from 'tamagui';
-import { useGetNotes, useCreateNote } from '../hooks/useNotes';
+import {
+  useGetMyNotes,
+  useCreateNote,
+  useUpdateNote,
+  useDeleteNote,
+} from '../hooks/useNotes';
+import { useNoteSyncQueue } from '../hooks/useNoteSyncQueue';
+import { useGetTags } from '../hooks/useTags';
 import { useAuth } from '@hello-world/auth';
-import { NotesList, AddNoteForm } from '@hello-world/ui';
-import type { CreateNoteRequest, Note } from '@hello-world/api-types';
+import {
+  NotesList,
+  NotesFilterBar,
+  NotesSortDirection,
+  AddNoteForm,
+} from '@hello-world/ui';
+import type {
+  CreateNoteRequest,
+  NotesSort,
+  UpdateNoteRequest,
+} from '@hello-world/api-types';
 
 type ProtectedNotesScreenProps = {
   onUnauthorized?: () => void;
+  /** Selected tag filter. When given, the parent owns the filter (e.g., it lives in the URL). */
+  tags?: string[];
+  /** Called when the user changes the tag filter. Required for `tags` to change. */
+  onTagsChange?: (tags: string[]) => void;
 };
 
 // Screen component for Protected Notes: ensures user is authenticated
 export function ProtectedNotesScreen({
   onUnauthorized,
+  tags: controlledTags,
+  onTagsChange,
 }: ProtectedNotesScreenProps) {
   // Get authentication state
-  const { isAuthenticated, isLoadingUser } = useAuth();
+  const { status, user } = useAuth();
 
-  // Fetch notes data
+  // Search term and sort order chosen in the filter bar
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<NotesSort>('created_at');
+  const [direction, setDirection] = useState<NotesSortDirection>('desc');
+  // Tag filter: controlled by the parent when it passes `tags` (e.g., from the URL on web)
+  const [internalTags, setInternalTags] = useState<string[]>([]);
+  const tags = controlledTags ?? internalTags;
+  const setTags = onTagsChange ?? setInternalTags;
+
+  // Fetch only this user's notes, page by page; the next page loads as the user scrolls down
   const {
-    data: notesData,
+    notes,
     isLoading: isLoadingNotes,
     error: notesError,
-  } = useGetNotes();
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useGetMyNotes(user?.id, {
+    q: search || undefined,
+    sort,
+    direction,
+    tags: tags.length > 0 ? tags : undefined,
+  });
+
+  // Tags offered in the filter bar: the user's own tags plus any tag on a loaded note
+  const { data: userTags } = useGetTags(user?.id);
+  const availableTags = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...(userTags ?? []).map((tag) => tag.name),
+          ...notes.flatMap((note) => note.tags),
+        ])
+      ),
+    [userTags, notes]
+  );
 
   // Create note mutation
   const {
@@ -31,15 +83,40 @@ export function ProtectedNotesScreen({
     error: createNoteError,
   } = useCreateNote();
 
-  // Handle unauthorized access
+  // Update and delete mutations (only offered on notes the user authored)
+  const {
+    mutate: updateNote,
+    isPending: isUpdatingNote,
+    variables: updateVariables,
+    error: updateNoteError,
+  } = useUpdateNote();
+  const {
+    mutate: deleteNote,
+    isPending: isDeletingNote,
+    variables: deletingNoteId,
+    error: deleteNoteError,
+  } = useDeleteNote();
+
+  // Notes created or edited offline, waiting to be synced (or rejected by the server)
+  const {
+    applyToNotes,
+    syncStatusByNoteId,
+    pendingCount,
+    conflictCount,
+    retry: retrySync,
+    discard: discardSync,
+  } = useNoteSyncQueue(user?.id);
+
+  // Handle unauthorized access, once it is certain nobody is signed in (the stored session may
+  // still be loading right after startup)
   useEffect(() => {
-    if (!isLoadingUser && !isAuthenticated && onUnauthorized) {
+    if (status === 'anonymous' && onUnauthorized) {
       onUnauthorized();
     }
-  }, [isAuthenticated, isLoadingUser, onUnauthorized]);
+  }, [status, onUnauthorized]);
 
   // While notes or auth data is loading, display a loading spinner
-  if (isLoadingNotes || isLoadingUser) {
+  if (isLoadingNotes || status === 'unknown') {
     return (
       <YStack flex={1} justifyContent="center" alignItems="center">
         <Spinner />
@@ -49,7 +126,7 @@ export function ProtectedNotesScreen({
   }
 
   // If not authenticated, show a message
-  if (!isAuthenticated) {
+  if (status !== 'authenticated') {
     return (
       <YStack flex={1} justifyContent="center" alignItems="center" padding="$4">
         <Text fontSize="$5" textAlign="center">
@@ -59,8 +136,9 @@ export function ProtectedNotesScreen({
     );
   }
 
-  // Display error message if fetching notes fails
-  if (notesError) {
+  // Display error message if fetching notes fails and there is nothing cached to show
+  // (e.g., a refetch failing while offline keeps the previously loaded notes on screen)
+  if (notesError && notes.length === 0) {
     return (
       <YStack padding="$4">
         <Text color="red">Error fetching notes: {notesError.message}</Text>
@@ -69,10 +147,25 @@ export function ProtectedNotesScreen({
   }
 
   // Handle form submission: call createNote mutation with form data
-  const handleAddNoteSubmit = (data: { title: string; content: string }) => {
-    createNote(data as CreateNoteRequest);
+  const handleAddNoteSubmit = (data: CreateNoteRequest) => {
+    createNote(data);
   };
 
+  // Note card actions: forward the edited fields or the note ID to the mutations
+  const handleUpdateNote = (noteId: number, data: UpdateNoteRequest) => {
+    updateNote({ noteId, data });
+  };
+  const handleDeleteNote = (noteId: number) => {
+    deleteNote(noteId);
+  };
+
+  // The note whose card should show a loading state, if a mutation is in flight
+  const mutatingNoteId = isUpdatingNote
+    ? updateVariables?.noteId
+    : isDeletingNote
+      ? deletingNoteId
+      : undefined;
+
   return (
     <YStack flex={1} padding="$2" space>
       <Text fontSize="$6" fontWeight="bold">
@@ -80,8 +173,52 @@ export function ProtectedNotesScreen({
       </Text>
       <Text>These notes are only visible to you when logged in.</Text>
 
+      <NotesFilterBar
+        search={search}
+        onSearchChange={setSearch}
+        sort={sort}
+        direction={direction}
+        onSortChange={(newSort, newDirection) => {
+          setSort(newSort);
+          setDirection(newDirection);
+        }}
+        availableTags={availableTags}
+        selectedTags={tags}
+        onTagsChange={setTags}
+      />
+
       {/* Render the list of notes */}
-      <NotesList notes={(notesData ?? []) as Note[]} />
+      <NotesList
+        notes={applyToNotes(notes)}
+        currentUserId={user?.id}
+        onUpdate={handleUpdateNote}
+        onDelete={handleDeleteNote}
+        mutatingNoteId={mutatingNoteId}
+        syncStatusByNoteId={syncStatusByNoteId}
+        onRetrySync={retrySync}
+        onDiscardSync={discardSync}
+        onLoadMore={() => fetchNextPage()}
+        hasMore={hasNextPage}
+        isLoadingMore={isFetchingNextPage}
+      />
+      {pendingCount > 0 && (
+        <Text opacity={0.7}>
+          {pendingCount} offline change{pendingCount === 1 ? '' : 's'} waiting
+          to sync.
+        </Text>
+      )}
+      {conflictCount > 0 && (
+        <Text color="red">
+          Some offline changes could not be synced. Retry or discard them on the
+          affected notes.
+        </Text>
+      )}
+      {updateNoteError && (
+        <Text color="red">Error updating note: {updateNoteError.message}</Text>
+      )}
+      {deleteNoteError && (
+        <Text color="red">Error deleting note: {deleteNoteError.message}</Text>
+      )}
 
       {/* Add note form */}
       <YStack marginTop="$4">
@@ -0,0 +1,47 @@
+/**
+ * @file packages/mock-api/src/cli.ts
+ * @description Command line entry of the standalone mock server (`yarn mock-api`).
+ *
+ * Options:
+ * - `--port 8000`, `--host localhost`: where to listen.
+ * - `--seed path/to/seed.json`: start from this seed instead of `fixtures/default.json`. A
+ *   relative path is resolved from where `yarn` was run (`INIT_CWD`).
+ * - `--access-token-minutes 1`: make access tokens expire quickly, to try out token refresh.
+ */
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { loadSeedFile, startMockServer } from './server';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '8000' },
+      host: { type: 'string', default: 'localhost' },
+      seed: { type: 'string' },
+      'access-token-minutes': { type: 'string' },
+    },
+  });
+  const accessTokenMinutes = Number(values['access-token-minutes']);
+
+  const { api, url } = await startMockServer({
+    port: Number(values.port),
+    host: values.host,
+    seed: values.seed
+      ? loadSeedFile(
+          resolve(process.env['INIT_CWD'] ?? process.cwd(), values.seed)
+        )
+      : undefined,
+    tokenLifetimes: accessTokenMinutes > 0 ? { accessTokenMinutes } : undefined,
+  });
+
+  console.log(`Mock API listening on ${url}`);
+  console.log('Seeded users:');
+  api.db.users.forEach((user) => {
+    console.log(`  ${user.email} / ${user.password}`);
+  });
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,309 @@
+/**
+ * @file packages/mock-api/src/db.ts
+ * @description The in-memory data of a mock API: users, tokens, notes and tags.
+ *
+ * The records mirror the Laravel tables (`users`, `personal_access_tokens`, `notes`, `tags`)
+ * and the helpers below mirror the Laravel code that reads them, so the mock answers the way
+ * the real API would:
+ * - `toNoteResource`, `toUserResource`, `toTagResource`: `App\Http\Resources\*`.
+ * - `isNoteVisibleTo`: `Note::scopeVisibleTo`.
+ * - `issueTokens`, `findToken`: Sanctum's personal access tokens (`AuthController::issueTokens`).
+ * - `normalizeTagName`, `syncNoteTags`: `Tag::normalizeName` and `NoteController::syncTags`.
+ *
+ * For a learner:
+ * - Timestamps are kept as milliseconds and formatted only when a response is built, like
+ *   Eloquent keeps dates as Carbon objects until a resource formats them.
+ */
+import type { NoteVisibility } from '@hello-world/api-types';
+import { MockSeedSchema, type MockSeed } from './fixtures';
+
+/** A registered user. `password` is stored as typed, this is a mock. */
+export interface MockUser {
+  id: number;
+  name: string;
+  email: string;
+  password: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** An access or refresh token, stored under its plain-text value (`<id>|<secret>`). */
+export interface MockToken {
+  id: number;
+  userId: number;
+  name: 'api-token' | 'refresh-token';
+  expiresAt: number;
+}
+
+/** A note, with the ids of the users it is shared with and of its tags. */
+export interface MockNote {
+  id: number;
+  userId: number;
+  title: string;
+  content: string;
+  visibility: NoteVisibility;
+  sharedWith: number[];
+  tagIds: number[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A tag, owned by one user. `name` is normalized (see `normalizeTagName`). */
+export interface MockTag {
+  id: number;
+  userId: number;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Everything a mock API stores. Ids are handed out per table, like auto-increment columns. */
+export interface MockDatabase {
+  users: Map<number, MockUser>;
+  tokens: Map<string, MockToken>;
+  notes: Map<number, MockNote>;
+  tags: Map<number, MockTag>;
+  lastIds: { users: number; tokens: number; notes: number; tags: number };
+}
+
+/** How long issued tokens stay valid, in minutes (Laravel's `config/sanctum.php`). */
+export interface MockTokenLifetimes {
+  accessTokenMinutes: number;
+  refreshTokenMinutes: number;
+}
+
+/** The token lifetimes of the Laravel API's default configuration. */
+export const DEFAULT_TOKEN_LIFETIMES: MockTokenLifetimes = {
+  accessTokenMinutes: 60,
+  refreshTokenMinutes: 60 * 24 * 30,
+};
+
+/** Hands out the next id of a table. */
+export function nextId(db: MockDatabase, table: keyof MockDatabase['lastIds']) {
+  db.lastIds[table] += 1;
+  return db.lastIds[table];
+}
+
+/**
+ * Creates a database filled with a seed (see `fixtures.ts`).
+ * @throws ZodError if the seed is invalid.
+ */
+export function createMockDatabase(seed: MockSeed): MockDatabase {
+  const { users, notes } = MockSeedSchema.parse(seed);
+  const db: MockDatabase = {
+    users: new Map(),
+    tokens: new Map(),
+    notes: new Map(),
+    tags: new Map(),
+    lastIds: { users: 0, tokens: 0, notes: 0, tags: 0 },
+  };
+  const now = Date.now();
+
+  users.forEach((user) => {
+    const id = user.id ?? db.lastIds.users + 1;
+    db.lastIds.users = Math.max(db.lastIds.users, id);
+    db.users.set(id, {
+      id,
+      name: user.name,
+      email: user.email,
+      password: user.password,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  notes.forEach((note, index) => {
+    if (!db.users.has(note.userId)) {
+      throw new Error(`Seed note "${note.title}" has an unknown userId`);
+    }
+    const id = note.id ?? db.lastIds.notes + 1;
+    db.lastIds.notes = Math.max(db.lastIds.notes, id);
+    // Without a date, the first note is the newest
+    const createdAt = note.created_at
+      ? new Date(note.created_at).getTime()
+      : now - index * 60_000;
+    const record: MockNote = {
+      id,
+      userId: note.userId,
+      title: note.title,
+      content: note.content,
+      visibility: note.visibility ?? 'public',
+      sharedWith: (note.sharedWith ?? []).filter(
+        (userId) => userId !== note.userId && db.users.has(userId)
+      ),
+      tagIds: [],
+      createdAt,
+      updatedAt: createdAt,
+    };
+    db.notes.set(id, record);
+    syncNoteTags(db, record, note.tags ?? []);
+  });
+
+  return db;
+}
+
+/** Formats a timestamp like Carbon's `toDateTimeString()`, e.g., `2025-01-31 14:05:00`. */
+export function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/** Trims a tag name, collapses inner whitespace and lower-cases it (`Tag::normalizeName`). */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/gu, ' ').toLowerCase();
+}
+
+/** Finds the tag a user already has with this name, or creates it. */
+function findOrCreateTag(db: MockDatabase, userId: number, name: string) {
+  const existing = [...db.tags.values()].find(
+    (tag) => tag.userId === userId && tag.name === name
+  );
+  if (existing) {
+    return existing;
+  }
+  const now = Date.now();
+  const tag: MockTag = {
+    id: nextId(db, 'tags'),
+    userId,
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.tags.set(tag.id, tag);
+  return tag;
+}
+
+/** Replaces a note's tags, creating the author's tags that don't exist yet. */
+export function syncNoteTags(
+  db: MockDatabase,
+  note: MockNote,
+  names: string[]
+) {
+  const normalized = [...new Set(names.map(normalizeTagName))].filter(Boolean);
+  note.tagIds = normalized.map(
+    (name) => findOrCreateTag(db, note.userId, name).id
+  );
+}
+
+/** Whether a user (or a guest, when `null`) may read a note. */
+export function isNoteVisibleTo(note: MockNote, userId: number | null) {
+  return (
+    note.visibility === 'public' ||
+    (userId !== null &&
+      (note.userId === userId ||
+        (note.visibility === 'shared' && note.sharedWith.includes(userId))))
+  );
+}
+
+// A Sanctum-style token: `<id>|<40 random characters>`
+function createToken(
+  db: MockDatabase,
+  userId: number,
+  name: MockToken['name'],
+  minutes: number
+) {
+  const id = nextId(db, 'tokens');
+  const alphabet =
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  const secret = Array.from(
+    { length: 40 },
+    () => alphabet[Math.floor(Math.random() * alphabet.length)]
+  ).join('');
+  const expiresAt = Date.now() + minutes * 60_000;
+  const plainText = `${id}|${secret}`;
+  db.tokens.set(plainText, { id, userId, name, expiresAt });
+  return { plainText, expiresAt };
+}
+
+/** Issues an access and a refresh token, in the shape of the auth responses. */
+export function issueTokens(
+  db: MockDatabase,
+  user: MockUser,
+  lifetimes: MockTokenLifetimes
+) {
+  const access = createToken(
+    db,
+    user.id,
+    'api-token',
+    lifetimes.accessTokenMinutes
+  );
+  const refresh = createToken(
+    db,
+    user.id,
+    'refresh-token',
+    lifetimes.refreshTokenMinutes
+  );
+  return {
+    token: access.plainText,
+    refresh_token: refresh.plainText,
+    expires_at: new Date(access.expiresAt).toISOString(),
+  };
+}
+
+/** Looks up an unexpired token of the given kind by its plain-text value. */
+export function findToken(
+  db: MockDatabase,
+  plainText: string,
+  name: MockToken['name']
+): MockToken | null {
+  const token = db.tokens.get(plainText);
+  if (!token || token.name !== name || token.expiresAt <= Date.now()) {
+    return null;
+  }
+  return token;
+}
+
+/** A user as `UserResource` returns it. */
+export function toUserResource(user: MockUser) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    created_at: formatTimestamp(user.createdAt),
+    updated_at: formatTimestamp(user.updatedAt),
+  };
+}
+
+/**
+ * A note as `NoteResource` returns it, to the given reader.
+ * Only the author sees who the note is shared with.
+ */
+export function toNoteResource(
+  db: MockDatabase,
+  note: MockNote,
+  readerId: number | null
+) {
+  return {
+    id: note.id,
+    title: note.title,
+    content: note.content,
+    userId: note.userId,
+    authorName: db.users.get(note.userId)?.name,
+    visibility: note.visibility,
+    sharedWith: readerId === note.userId ? [...note.sharedWith] : [],
+    tags: note.tagIds
+      .map((tagId) => db.tags.get(tagId)?.name)
+      .filter((name): name is string => name !== undefined)
+      .sort(),
+    created_at: formatTimestamp(note.createdAt),
+    updated_at: formatTimestamp(note.updatedAt),
+  };
+}
+
+/** A tag as `TagResource` returns it; `withNotesCount` mirrors `withCount('notes')`. */
+export function toTagResource(
+  db: MockDatabase,
+  tag: MockTag,
+  withNotesCount = false
+) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    ...(withNotesCount && {
+      notesCount: [...db.notes.values()].filter((note) =>
+        note.tagIds.includes(tag.id)
+      ).length,
+    }),
+    created_at: formatTimestamp(tag.createdAt),
+    updated_at: formatTimestamp(tag.updatedAt),
+  };
+}
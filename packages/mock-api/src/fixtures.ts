@@ -0,0 +1,56 @@
+/**
+ * @file packages/mock-api/src/fixtures.ts
+ * @description The data a mock API starts with.
+ *
+ * A seed lists users (with their plain-text passwords, this is a mock) and notes. Tags are
+ * created from the notes' tag names, like `POST /notes` does on the real API. Ids and
+ * timestamps are optional: without them, items are numbered in order and the first note is
+ * the newest.
+ *
+ * `fixtures/default.json` is used when no seed is given. Copy it to start your own and pass
+ * it to the standalone server with `--seed path/to/seed.json` (see `loadSeedFile` in
+ * `server.ts`).
+ *
+ * For a learner:
+ * - The seed is checked with a Zod schema when it is loaded, so a typo in a fixture file is
+ *   reported with the path of the bad field instead of surfacing later as a strange response.
+ */
+import { z } from 'zod';
+import { NoteVisibilitySchema } from '@hello-world/api-types';
+import defaultSeedJson from '../fixtures/default.json';
+
+/** MockSeedUserSchema defines a user of the seed. */
+export const MockSeedUserSchema = z.object({
+  id: z.number().int().positive().optional(),
+  name: z.string().min(1),
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+/**
+ * MockSeedNoteSchema defines a note of the seed.
+ * - `userId`: Id of the author, one of the seed's users.
+ * - `created_at`: Any date `Date` can parse; defaults to a minute before the previous note.
+ */
+export const MockSeedNoteSchema = z.object({
+  id: z.number().int().positive().optional(),
+  userId: z.number().int().positive(),
+  title: z.string().min(1).max(255),
+  content: z.string().min(1),
+  visibility: NoteVisibilitySchema.optional(),
+  sharedWith: z.array(z.number().int()).optional(),
+  tags: z.array(z.string()).optional(),
+  created_at: z.string().optional(),
+});
+
+/** MockSeedSchema defines a whole seed, e.g., the contents of `fixtures/default.json`. */
+export const MockSeedSchema = z.object({
+  users: z.array(MockSeedUserSchema).default([]),
+  notes: z.array(MockSeedNoteSchema).default([]),
+});
+
+/** TypeScript type of a seed before defaults are applied, as written in a fixture file. */
+export type MockSeed = z.input<typeof MockSeedSchema>;
+
+/** The seed used when none is given. */
+export const defaultSeed: MockSeed = MockSeedSchema.parse(defaultSeedJson);
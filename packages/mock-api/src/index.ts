@@ -0,0 +1,7 @@
+// Everything here runs in the browser and in Node. The standalone server (Node only) is
+// imported from `@hello-world/mock-api/src/server`.
+export * from './mockApi'; // createMockApi: the stateful mock, routed by the generated endpoints
+export * from './msw'; // createMockHandlers: MSW handlers for tests and the browser
+export * from './fixtures'; // Seeds: the data a mock starts with
+export * from './db'; // The in-memory records and their API resources
+export * from './validation'; // Laravel-style error responses
@@ -0,0 +1,332 @@
+/**
+ * @file packages/mock-api/src/mockApi.ts
+ * @description A stateful, in-memory stand-in for the Laravel API.
+ *
+ * `createMockApi()` routes requests with the generated Zodios `endpoints` (method, path and
+ * parameter schemas) and answers them with the resolvers in `resolvers.ts`. It takes Fetch API
+ * `Request`s and returns `Response`s, so the same mock runs inside MSW (`msw.ts`) and behind
+ * the standalone HTTP server (`server.ts`).
+ *
+ * Every response is checked against the endpoint's response (or error) schema before it is
+ * sent. A resolver that drifts from the OpenAPI spec answers 500 instead of quietly teaching
+ * the frontend a shape the real API never returns.
+ *
+ * Test and development headers (send them from the browser devtools, or set them on the API
+ * client while working on loading and error states):
+ * - `X-Mock-Delay: 1500`: waits 1.5 seconds before answering.
+ * - `X-Mock-Status: 500`: answers with this status (and Laravel's error body for it) instead of
+ *   calling the resolver. A `429` also sends `Retry-After`.
+ *
+ * For a learner:
+ * - Like Laravel, the resolvers check things in order: signed in (401), the note exists (404),
+ *   it is yours (403), the data is valid (422). The mock answers with the first failure.
+ */
+import { z } from 'zod';
+import {
+  endpoints,
+  type ApiAlias,
+  type ApiPathParams,
+  type ApiQueryParams,
+  type ApiRequestBodySchema,
+} from '@hello-world/api-types';
+import {
+  createMockDatabase,
+  findToken,
+  DEFAULT_TOKEN_LIFETIMES,
+  type MockDatabase,
+  type MockTokenLifetimes,
+  type MockUser,
+} from './db';
+import { defaultSeed, type MockSeed } from './fixtures';
+import { mockResolvers } from './resolvers';
+import { MockHttpError, validate } from './validation';
+
+/** What a resolver gets to answer a request to endpoint `A`. */
+export interface MockContext<A extends ApiAlias> {
+  db: MockDatabase;
+  tokenLifetimes: MockTokenLifetimes;
+  /** The user of a valid `Authorization: Bearer` access token, or `null`. */
+  user: MockUser | null;
+  /** The access token itself, as sent. */
+  accessToken: string | null;
+  /** Path parameters, e.g., `{ note: 3 }`. Not a number when the URL has something else. */
+  params: ApiPathParams<A>;
+  /** The request URL, for the links of paginated responses. */
+  url: URL;
+  /** Validates the query string with the endpoint's schemas. @throws MockHttpError (422). */
+  query: () => ApiQueryParams<A>;
+  /** The JSON body as sent, before validation. */
+  json: unknown;
+  /** Validates the JSON body with the endpoint's schema. @throws MockHttpError (422). */
+  body: () => z.output<ApiRequestBodySchema<A>>;
+}
+
+/** A resolver's answer. `status` defaults to 200. */
+export interface MockResult {
+  status?: number;
+  body: unknown;
+}
+
+/** Answers requests to the endpoint `A`, like its Laravel controller method. */
+export type MockResolver<A extends ApiAlias> = (
+  context: MockContext<A>
+) => MockResult;
+
+/**
+ * Options of `createMockApi`.
+ * - `seed`: The data to start with (`fixtures/default.json` by default).
+ * - `tokenLifetimes`: Access and refresh token lifetimes; shorten them to test token refresh.
+ */
+export interface MockApiOptions {
+  seed?: MockSeed;
+  tokenLifetimes?: Partial<MockTokenLifetimes>;
+}
+
+/** A running mock API. */
+export interface MockApi {
+  /** The in-memory data, e.g., to check what a test created. */
+  readonly db: MockDatabase;
+  /**
+   * Answers a request whose path (after the `/api` prefix) matches an endpoint,
+   * or resolves to `null` if none does.
+   */
+  handle: (request: Request) => Promise<Response | null>;
+  /** Answers a request to a known endpoint, with the path parameters already extracted. */
+  handleEndpoint: (
+    alias: ApiAlias,
+    request: Request,
+    params: Record<string, string>
+  ) => Promise<Response>;
+  /** Throws away every change and starts over from a seed (the original one by default). */
+  reset: (seed?: MockSeed) => void;
+}
+
+/** A generated endpoint, seen through the fields the mock reads. */
+export interface MockEndpoint {
+  method: string;
+  path: string;
+  alias: ApiAlias;
+  parameters?: readonly {
+    name: string;
+    type: 'Body' | 'Query' | 'Path' | 'Header';
+    schema: z.ZodTypeAny;
+  }[];
+  response: z.ZodTypeAny;
+  errors?: readonly { status: number | 'default'; schema: z.ZodTypeAny }[];
+}
+
+/** Every endpoint the mock serves: the generated ones, without the API documentation routes. */
+export const mockEndpoints = (endpoints as readonly MockEndpoint[]).filter(
+  (endpoint) => !endpoint.alias.startsWith('l5-swagger.')
+);
+
+/** Laravel's body for an error status that has no more specific message. */
+const ERROR_MESSAGES: Record<number, string> = {
+  401: 'Unauthenticated.',
+  403: 'This action is unauthorized.',
+  404: 'Not Found',
+  422: 'The given data was invalid.',
+  429: 'Too Many Attempts.',
+  500: 'Server Error',
+  503: 'Service Unavailable',
+};
+
+// Longest delay `X-Mock-Delay` may ask for, so a typo can't hang a test run
+const MAX_DELAY_MS = 30_000;
+
+function json(status: number, body: unknown, headers: HeadersInit = {}) {
+  return new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+// Query strings only carry strings: turns "20" into 20 and a single value into a list
+// when that is what the parameter's schema accepts.
+function coerce(schema: z.ZodTypeAny, values: string[]): unknown {
+  const candidates: unknown[] =
+    values.length === 1
+      ? [values[0], Number(values[0]), values]
+      : [values, values.map(Number)];
+  return (
+    candidates.find((candidate) => schema.safeParse(candidate).success) ??
+    candidates[0]
+  );
+}
+
+// The values of a query parameter, also in PHP's list syntax (`tags[]=a&tags[]=b`)
+function queryValues(url: URL, name: string): string[] {
+  return [...url.searchParams.entries()]
+    .filter(([key]) => key === name || key.startsWith(`${name}[`))
+    .map(([, value]) => value);
+}
+
+function buildQuery(endpoint: MockEndpoint, url: URL) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  const values: Record<string, unknown> = {};
+  (endpoint.parameters ?? [])
+    .filter((parameter) => parameter.type === 'Query')
+    .forEach(({ name, schema }) => {
+      shape[name] = schema;
+      const raw = queryValues(url, name);
+      if (raw.length > 0) {
+        values[name] = coerce(schema, raw);
+      }
+    });
+  return { shape, values };
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  const text = await request.text();
+  if (!text) {
+    return {};
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Laravel treats a body it can't decode as empty, so the usual 422s follow
+    return {};
+  }
+}
+
+/** Creates a mock API with its own in-memory data. */
+export function createMockApi(options: MockApiOptions = {}): MockApi {
+  const tokenLifetimes: MockTokenLifetimes = {
+    ...DEFAULT_TOKEN_LIFETIMES,
+    ...options.tokenLifetimes,
+  };
+  const initialSeed = options.seed ?? defaultSeed;
+  let db = createMockDatabase(initialSeed);
+
+  const routes = mockEndpoints.map((endpoint) => ({
+    endpoint,
+    pattern: new RegExp(
+      `^${endpoint.path.replace(/:(\w+)/g, '(?<$1>[^/]+)')}/?$`
+    ),
+  }));
+
+  // Makes sure the answer is one the OpenAPI spec allows
+  function checkResponse(
+    endpoint: MockEndpoint,
+    status: number,
+    body: unknown
+  ) {
+    const schema =
+      status < 300
+        ? endpoint.response
+        : endpoint.errors?.find((error) => error.status === status)?.schema;
+    const result = schema?.safeParse(body);
+    if (result && !result.success) {
+      const problems = result.error.issues
+        .map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        .join('; ');
+      return json(500, {
+        message: `The mock answer to ${endpoint.alias} does not match the API schema (${problems}).`,
+      });
+    }
+    return json(status, body);
+  }
+
+  async function handleEndpoint(
+    alias: ApiAlias,
+    request: Request,
+    rawParams: Record<string, string>
+  ): Promise<Response> {
+    const endpoint = mockEndpoints.find(
+      (candidate) => candidate.alias === alias
+    );
+    if (!endpoint) {
+      return json(404, { message: ERROR_MESSAGES[404] });
+    }
+
+    const delay = Number(request.headers.get('X-Mock-Delay'));
+    if (delay > 0) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(delay, MAX_DELAY_MS))
+      );
+    }
+
+    const forcedStatus = Number(request.headers.get('X-Mock-Status'));
+    if (forcedStatus >= 400 && forcedStatus < 600) {
+      const message = ERROR_MESSAGES[forcedStatus] ?? 'Mock error';
+      return json(
+        forcedStatus,
+        forcedStatus === 422 ? { message, errors: {} } : { message },
+        forcedStatus === 429 ? { 'Retry-After': '30' } : {}
+      );
+    }
+
+    const resolver = mockResolvers[alias] as MockResolver<ApiAlias> | undefined;
+    if (!resolver) {
+      return json(501, {
+        message: `The mock API does not implement ${alias} yet.`,
+      });
+    }
+
+    const url = new URL(request.url);
+    const accessToken =
+      request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1] ??
+      null;
+    const token = accessToken ? findToken(db, accessToken, 'api-token') : null;
+    const params: Record<string, unknown> = {};
+    (endpoint.parameters ?? [])
+      .filter((parameter) => parameter.type === 'Path')
+      .forEach(({ name, schema }) => {
+        params[name] = coerce(schema, [rawParams[name] ?? '']);
+      });
+    const requestJson = ['get', 'delete'].includes(endpoint.method)
+      ? {}
+      : await readJson(request);
+    const bodySchema = endpoint.parameters?.find(
+      (parameter) => parameter.type === 'Body'
+    )?.schema;
+
+    // The context of whichever endpoint this is; the resolver table keeps each one typed
+    const context = {
+      db,
+      tokenLifetimes,
+      user: token ? (db.users.get(token.userId) ?? null) : null,
+      accessToken: token ? accessToken : null,
+      params,
+      url,
+      query: () => {
+        const { shape, values } = buildQuery(endpoint, url);
+        return validate(z.object(shape), values);
+      },
+      json: requestJson,
+      body: () => validate(bodySchema ?? z.object({}), requestJson),
+    } as MockContext<ApiAlias>;
+
+    try {
+      const { status = 200, body } = resolver(context);
+      return checkResponse(endpoint, status, body);
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return checkResponse(endpoint, error.status, error.body);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    get db() {
+      return db;
+    },
+    handleEndpoint,
+    async handle(request) {
+      const { pathname } = new URL(request.url);
+      const path = pathname.replace(/^\/api(?=\/)/, '');
+      const method = request.method.toLowerCase();
+      for (const { endpoint, pattern } of routes) {
+        const match = endpoint.method === method ? pattern.exec(path) : null;
+        if (match) {
+          return handleEndpoint(endpoint.alias, request, match.groups ?? {});
+        }
+      }
+      return null;
+    },
+    reset(seed = initialSeed) {
+      db = createMockDatabase(seed);
+    },
+  };
+}
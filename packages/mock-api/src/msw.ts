@@ -0,0 +1,45 @@
+/**
+ * @file packages/mock-api/src/msw.ts
+ * @description MSW request handlers backed by a mock API.
+ *
+ * One handler per generated endpoint, so MSW's unhandled-request warnings point at routes the
+ * spec doesn't have. In tests (Node):
+ *
+ *   const api = createMockApi();
+ *   const server = setupServer(...createMockHandlers(api));
+ *   beforeAll(() => server.listen());
+ *   afterEach(() => api.reset());
+ *
+ * In the browser, pass the handlers to `setupWorker` from `msw/browser` instead.
+ *
+ * For a learner:
+ * - MSW intercepts requests inside the app itself (axios still "sends" them), so nothing has to
+ *   listen on a port and the apps need no configuration change.
+ */
+import { http, type HttpHandler } from 'msw';
+import { createMockApi, mockEndpoints, type MockApi } from './mockApi';
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Creates the MSW handlers of every endpoint.
+ * @param api The mock API answering the requests; a fresh one with the default seed if omitted.
+ * @param apiUrl Base URL of the API, with `/api`. The default matches any host.
+ */
+export function createMockHandlers(
+  api: MockApi = createMockApi(),
+  apiUrl = '*/api'
+): HttpHandler[] {
+  const baseUrl = apiUrl.replace(/\/+$/, '');
+  return mockEndpoints.map((endpoint) =>
+    http[endpoint.method as HttpMethod](
+      `${baseUrl}${endpoint.path}`,
+      ({ request, params }) =>
+        api.handleEndpoint(
+          endpoint.alias,
+          request,
+          params as Record<string, string>
+        )
+    )
+  );
+}
@@ -0,0 +1,505 @@
+/**
+ * @file packages/mock-api/src/resolvers.ts
+ * @description What the mock API answers for each endpoint, keyed by alias.
+ *
+ * Each resolver follows its Laravel controller method (`AuthController`, `NoteController`,
+ * `TagController`), including the rules that only exist on the server: unique emails and tag
+ * names, password confirmation, tag name characters, ownership checks and cursor pagination.
+ * An endpoint without a resolver answers 501, so a new route in the spec shows up here as
+ * soon as the types are regenerated.
+ *
+ * For a learner:
+ * - `requireUser()` plays the part of the `auth:sanctum` middleware, and `findOwnNote()` the
+ *   part of route model binding plus the policy check.
+ */
+import {
+  getBodySchema,
+  NotesSortSchema,
+  type ApiAlias,
+} from '@hello-world/api-types';
+import {
+  isNoteVisibleTo,
+  issueTokens,
+  findToken,
+  nextId,
+  normalizeTagName,
+  syncNoteTags,
+  toNoteResource,
+  toTagResource,
+  toUserResource,
+  type MockDatabase,
+  type MockNote,
+  type MockTag,
+  type MockUser,
+} from './db';
+import type { MockContext, MockResolver, MockResult } from './mockApi';
+import {
+  laravelMessages,
+  MockHttpError,
+  validate,
+  validationError,
+} from './validation';
+
+// Allowed characters of a tag name (`regex:/^[\pL\pN ._-]+$/u` in Laravel)
+const TAG_NAME_PATTERN = /^[\p{L}\p{N} ._-]+$/u;
+
+/** The signed-in user. @throws MockHttpError (401) for guests and invalid tokens. */
+function requireUser(context: { user: MockUser | null }): MockUser {
+  if (!context.user) {
+    throw new MockHttpError(401, { message: 'Unauthenticated.' });
+  }
+  return context.user;
+}
+
+// Laravel's 404 for a route model binding that finds nothing
+function notFound(model: string, id: unknown): MockHttpError {
+  return new MockHttpError(404, {
+    message: `No query results for model [App\\Models\\${model}] ${String(id)}`,
+  });
+}
+
+function forbidden(): MockHttpError {
+  return new MockHttpError(403, { message: 'This action is unauthorized.' });
+}
+
+function findOwnNote(db: MockDatabase, user: MockUser, id: number): MockNote {
+  const note = db.notes.get(id);
+  if (!note) {
+    throw notFound('Note', id);
+  }
+  if (note.userId !== user.id) {
+    throw forbidden();
+  }
+  return note;
+}
+
+function findOwnTag(db: MockDatabase, user: MockUser, id: number): MockTag {
+  const tag = db.tags.get(id);
+  if (!tag) {
+    throw notFound('Tag', id);
+  }
+  if (tag.userId !== user.id) {
+    throw forbidden();
+  }
+  return tag;
+}
+
+// The note rules the generated schemas don't carry: tag characters and known, distinct users
+function checkNoteRules(
+  db: MockDatabase,
+  body: { tags?: string[]; shared_with?: number[] }
+) {
+  const errors: Record<string, string[]> = {};
+  body.tags?.forEach((name, index) => {
+    if (!TAG_NAME_PATTERN.test(name)) {
+      errors[`tags.${index}`] = [laravelMessages.format(`tags.${index}`)];
+    }
+  });
+  body.shared_with?.forEach((userId, index) => {
+    if (!db.users.has(userId) || body.shared_with!.indexOf(userId) !== index) {
+      errors[`shared_with.${index}`] = [
+        laravelMessages.invalid(`shared with.${index}`),
+      ];
+    }
+  });
+  if (Object.keys(errors).length > 0) {
+    throw validationError(errors);
+  }
+}
+
+function applyNoteChanges(
+  db: MockDatabase,
+  note: MockNote,
+  body: { shared_with?: number[]; tags?: string[] }
+) {
+  if (body.shared_with) {
+    note.sharedWith = body.shared_with.filter(
+      (userId) => userId !== note.userId
+    );
+  }
+  if (body.tags) {
+    syncNoteTags(db, note, body.tags);
+  }
+}
+
+/**
+ * `TagController::validateName`: the name is normalized first, then checked, including the
+ * rules the generated schema doesn't carry (allowed characters, unique per user).
+ */
+function validateTagName(
+  context: MockContext<'tag.store'> | MockContext<'tag.update'>,
+  user: MockUser,
+  ignoreId?: number
+): string {
+  const { db, json } = context;
+  const name =
+    typeof json === 'object' && json !== null && 'name' in json
+      ? json.name
+      : undefined;
+  const { name: normalized } = validate(getBodySchema('tag.store'), {
+    name: typeof name === 'string' ? normalizeTagName(name) : name,
+  });
+  if (!TAG_NAME_PATTERN.test(normalized)) {
+    throw validationError({ name: [laravelMessages.format('name')] });
+  }
+  const taken = [...db.tags.values()].some(
+    (tag) =>
+      tag.userId === user.id && tag.name === normalized && tag.id !== ignoreId
+  );
+  if (taken) {
+    throw validationError({ name: [laravelMessages.unique('name')] });
+  }
+  return normalized;
+}
+
+// The cursor points at the last note of a page: `{ value, id, next }`, base64-encoded
+interface NotesCursor {
+  value: string | number;
+  id: number;
+  next: boolean;
+}
+
+// base64url of the UTF-8 JSON, so titles in any script fit in a URL
+function encodeCursor(cursor: NotesCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): NotesCursor | null {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const parsed = JSON.parse(new TextDecoder().decode(bytes));
+    return typeof parsed?.id === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** `NoteController::paginatedNotes`: search, tags, sorting and cursor pagination. */
+function paginateNotes(
+  context: MockContext<'note.index'> | MockContext<'note.mine'>,
+  notes: MockNote[]
+): MockResult {
+  const { db, url, user } = context;
+  const query = context.query();
+  if (
+    query.per_page !== undefined &&
+    query.per_page !== null &&
+    (!Number.isInteger(query.per_page) ||
+      query.per_page < 1 ||
+      query.per_page > 100)
+  ) {
+    throw validationError({
+      per_page: [
+        Number.isInteger(query.per_page)
+          ? query.per_page < 1
+            ? laravelMessages.minNumber('per page', 1)
+            : laravelMessages.maxNumber('per page', 100)
+          : laravelMessages.integer('per page'),
+      ],
+    });
+  }
+
+  const sort = NotesSortSchema.parse(query.sort ?? 'created_at');
+  const direction = query.direction ?? 'desc';
+  const perPage = query.per_page ?? 20;
+  const sortValue = (note: MockNote) =>
+    sort === 'title'
+      ? note.title
+      : sort === 'created_at'
+        ? note.createdAt
+        : note.updatedAt;
+  const compare = (a: NotesCursor, b: NotesCursor) => {
+    const order = a.value < b.value ? -1 : a.value > b.value ? 1 : a.id - b.id;
+    return direction === 'asc' ? order : -order;
+  };
+  const keyOf = (note: MockNote): NotesCursor => ({
+    value: sortValue(note),
+    id: note.id,
+    next: true,
+  });
+
+  const search = query.q?.toLowerCase();
+  const tags = (query.tags ?? []).map(normalizeTagName);
+  const matching = notes
+    .filter(
+      (note) =>
+        !search ||
+        note.title.toLowerCase().includes(search) ||
+        note.content.toLowerCase().includes(search)
+    )
+    .filter((note) =>
+      tags.every((name) =>
+        note.tagIds.some((tagId) => db.tags.get(tagId)?.name === name)
+      )
+    )
+    .sort((a, b) => compare(keyOf(a), keyOf(b)));
+
+  // Like Laravel, a cursor that can't be decoded starts from the first page
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  let page: MockNote[];
+  let hasPrevious: boolean;
+  let hasNext: boolean;
+  if (cursor?.next === false) {
+    const before = matching.filter((note) => compare(keyOf(note), cursor) < 0);
+    page = before.slice(-perPage);
+    hasPrevious = before.length > perPage;
+    hasNext = true;
+  } else {
+    const after = cursor
+      ? matching.filter((note) => compare(keyOf(note), cursor) > 0)
+      : matching;
+    page = after.slice(0, perPage);
+    hasPrevious = cursor !== null;
+    hasNext = after.length > perPage;
+  }
+
+  const first = page[0];
+  const last = page[page.length - 1];
+  const nextCursor =
+    hasNext && last ? encodeCursor({ ...keyOf(last), next: true }) : null;
+  const prevCursor =
+    hasPrevious && first
+      ? encodeCursor({ ...keyOf(first), next: false })
+      : null;
+  const path = `${url.origin}${url.pathname}`;
+  const pageUrl = (pageCursor: string | null) => {
+    if (!pageCursor) {
+      return null;
+    }
+    const params = new URLSearchParams(url.search);
+    params.set('cursor', pageCursor);
+    return `${path}?${params.toString()}`;
+  };
+
+  return {
+    body: {
+      data: page.map((note) => toNoteResource(db, note, user?.id ?? null)),
+      links: {
+        first: null,
+        last: null,
+        prev: pageUrl(prevCursor),
+        next: pageUrl(nextCursor),
+      },
+      meta: {
+        path,
+        per_page: perPage,
+        next_cursor: nextCursor,
+        prev_cursor: prevCursor,
+      },
+    },
+  };
+}
+
+/** The resolver of every endpoint the mock implements. */
+export const mockResolvers: { [A in ApiAlias]?: MockResolver<A> } = {
+  'auth.register': (context) => {
+    const { db } = context;
+    const body = context.body();
+    const errors: Record<string, string[]> = {};
+    if ([...db.users.values()].some((user) => user.email === body.email)) {
+      errors['email'] = [laravelMessages.unique('email')];
+    }
+    if (body.password !== body.password_confirmation) {
+      errors['password'] = [laravelMessages.confirmed('password')];
+    }
+    if (Object.keys(errors).length > 0) {
+      throw validationError(errors);
+    }
+
+    const now = Date.now();
+    const user: MockUser = {
+      id: nextId(db, 'users'),
+      name: body.name,
+      email: body.email,
+      password: body.password,
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.users.set(user.id, user);
+    return {
+      status: 201,
+      body: {
+        message: 'User registered successfully.',
+        user: toUserResource(user),
+        ...issueTokens(db, user, context.tokenLifetimes),
+      },
+    };
+  },
+
+  'auth.login': (context) => {
+    const { db } = context;
+    const body = context.body();
+    const user = [...db.users.values()].find(
+      (candidate) =>
+        candidate.email === body.email && candidate.password === body.password
+    );
+    if (!user) {
+      throw validationError({ email: [laravelMessages.credentials()] });
+    }
+    return {
+      body: {
+        message: 'Login successful.',
+        user: toUserResource(user),
+        ...issueTokens(db, user, context.tokenLifetimes),
+      },
+    };
+  },
+
+  'auth.refresh': (context) => {
+    const { db } = context;
+    const body = context.body();
+    const refreshToken = findToken(db, body.refresh_token, 'refresh-token');
+    const user = refreshToken ? db.users.get(refreshToken.userId) : undefined;
+    if (!refreshToken || !user) {
+      throw new MockHttpError(401, {
+        message: 'Invalid or expired refresh token.',
+      });
+    }
+    // Refresh tokens are single-use
+    db.tokens.delete(body.refresh_token);
+    return {
+      body: {
+        message: 'Token refreshed successfully.',
+        ...issueTokens(db, user, context.tokenLifetimes),
+      },
+    };
+  },
+
+  'auth.logout': (context) => {
+    const { db } = context;
+    const user = requireUser(context);
+    if (context.accessToken) {
+      db.tokens.delete(context.accessToken);
+    }
+    const body = context.body();
+    if (body.refresh_token) {
+      const refreshToken = findToken(db, body.refresh_token, 'refresh-token');
+      if (refreshToken?.userId === user.id) {
+        db.tokens.delete(body.refresh_token);
+      }
+    }
+    return { body: { message: 'Logged out successfully.' } };
+  },
+
+  'auth.user': (context) => ({
+    body: toUserResource(requireUser(context)),
+  }),
+
+  'note.index': (context) => {
+    const readerId = context.user?.id ?? null;
+    return paginateNotes(
+      context,
+      [...context.db.notes.values()].filter((note) =>
+        isNoteVisibleTo(note, readerId)
+      )
+    );
+  },
+
+  'note.mine': (context) => {
+    const user = requireUser(context);
+    return paginateNotes(
+      context,
+      [...context.db.notes.values()].filter((note) => note.userId === user.id)
+    );
+  },
+
+  'note.store': (context) => {
+    const { db } = context;
+    const user = requireUser(context);
+    const body = context.body();
+    checkNoteRules(db, body);
+
+    const now = Date.now();
+    const note: MockNote = {
+      id: nextId(db, 'notes'),
+      userId: user.id,
+      title: body.title,
+      content: body.content,
+      visibility: body.visibility ?? 'public',
+      sharedWith: [],
+      tagIds: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.notes.set(note.id, note);
+    applyNoteChanges(db, note, body);
+    return { status: 201, body: toNoteResource(db, note, user.id) };
+  },
+
+  'note.update': (context) => {
+    const { db } = context;
+    const user = requireUser(context);
+    const note = findOwnNote(db, user, context.params.note);
+    const body = context.body();
+    checkNoteRules(db, body);
+
+    note.title = body.title;
+    note.content = body.content;
+    note.visibility = body.visibility ?? note.visibility;
+    note.updatedAt = Date.now();
+    applyNoteChanges(db, note, body);
+    return { body: toNoteResource(db, note, user.id) };
+  },
+
+  'note.destroy': (context) => {
+    const { db } = context;
+    const note = findOwnNote(db, requireUser(context), context.params.note);
+    db.notes.delete(note.id);
+    return { body: { message: 'Note deleted successfully.' } };
+  },
+
+  'tag.index': (context) => {
+    const { db } = context;
+    const user = requireUser(context);
+    // Resources aren't wrapped in `data` (`JsonResource::withoutWrapping()`)
+    return {
+      body: [...db.tags.values()]
+        .filter((tag) => tag.userId === user.id)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((tag) => toTagResource(db, tag, true)),
+    };
+  },
+
+  'tag.store': (context) => {
+    const { db } = context;
+    const user = requireUser(context);
+    const name = validateTagName(context, user);
+
+    const now = Date.now();
+    const tag: MockTag = {
+      id: nextId(db, 'tags'),
+      userId: user.id,
+      name,
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.tags.set(tag.id, tag);
+    return { status: 201, body: toTagResource(db, tag) };
+  },
+
+  'tag.update': (context) => {
+    const { db } = context;
+    const user = requireUser(context);
+    const tag = findOwnTag(db, user, context.params.tag);
+    const name = validateTagName(context, user, tag.id);
+
+    tag.name = name;
+    tag.updatedAt = Date.now();
+    return { body: toTagResource(db, tag) };
+  },
+
+  'tag.destroy': (context) => {
+    const { db } = context;
+    const tag = findOwnTag(db, requireUser(context), context.params.tag);
+    db.tags.delete(tag.id);
+    db.notes.forEach((note) => {
+      note.tagIds = note.tagIds.filter((tagId) => tagId !== tag.id);
+    });
+    return { body: { message: 'Tag deleted successfully.' } };
+  },
+};
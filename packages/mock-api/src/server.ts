@@ -0,0 +1,159 @@
+/**
+ * @file packages/mock-api/src/server.ts
+ * @description The mock API as a standalone HTTP server, for running the apps without Laravel.
+ *
+ * `startMockServer()` listens on `localhost:8000` by default and serves the API under `/api`,
+ * exactly where the apps expect the Laravel API, so the Next and Expo apps work unchanged. For
+ * a phone on the LAN, start it with `--host 0.0.0.0` and pick the `custom` API environment in
+ * the developer menu.
+ *
+ * For a learner:
+ * - Node's `http` module speaks in `IncomingMessage`/`ServerResponse`; the mock speaks in Fetch
+ *   `Request`/`Response` (like MSW). The two small conversions below connect them.
+ * - The CORS headers let the Next app (on port 3000) call the server on port 8000.
+ */
+import { readFileSync } from 'fs';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'http';
+import { MockSeedSchema, type MockSeed } from './fixtures';
+import { createMockApi, type MockApi, type MockApiOptions } from './mockApi';
+
+/**
+ * Options of `startMockServer`, on top of those of `createMockApi`.
+ * - `port`: 8000 by default, like `php artisan serve`.
+ * - `host`: `localhost` by default; `0.0.0.0` makes the server reachable from other devices.
+ */
+export interface MockServerOptions extends MockApiOptions {
+  port?: number;
+  host?: string;
+}
+
+/** A running mock server. */
+export interface MockServer {
+  api: MockApi;
+  server: Server;
+  /** Base URL of the API, e.g., `http://localhost:8000/api`. */
+  url: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Reads and validates a seed from a JSON file (see `fixtures/default.json`).
+ * @throws Error naming the file and the invalid fields if the file isn't a valid seed.
+ */
+export function loadSeedFile(path: string): MockSeed {
+  const result = MockSeedSchema.safeParse(
+    JSON.parse(readFileSync(path, 'utf8'))
+  );
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join('\n  ');
+    throw new Error(`Invalid mock API seed in ${path}:\n  ${problems}`);
+  }
+  return result.data;
+}
+
+function corsHeaders(request: IncomingMessage): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': request.headers.origin ?? '*',
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers':
+      request.headers['access-control-request-headers'] ??
+      'Authorization, Content-Type, Accept, X-Mock-Delay, X-Mock-Status',
+    'Access-Control-Expose-Headers': 'Retry-After',
+    Vary: 'Origin',
+  };
+}
+
+async function toFetchRequest(request: IncomingMessage): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const headers = new Headers();
+  Object.entries(request.headers).forEach(([name, value]) => {
+    if (value !== undefined) {
+      headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+  });
+  const method = request.method ?? 'GET';
+  return new Request(
+    `http://${request.headers.host ?? 'localhost'}${request.url ?? '/'}`,
+    {
+      method,
+      headers,
+      body: ['GET', 'HEAD'].includes(method)
+        ? undefined
+        : Buffer.concat(chunks),
+    }
+  );
+}
+
+async function sendResponse(
+  response: Response,
+  target: ServerResponse,
+  headers: Record<string, string>
+) {
+  response.headers.forEach((value: string, name: string) => {
+    headers[name] = value;
+  });
+  target.writeHead(response.status, headers);
+  target.end(Buffer.from(await response.arrayBuffer()));
+}
+
+/** Starts the standalone mock server. Resolves once it is listening. */
+export function startMockServer(
+  options: MockServerOptions = {}
+): Promise<MockServer> {
+  const { port = 8000, host = 'localhost', ...apiOptions } = options;
+  const api = createMockApi(apiOptions);
+
+  const server = createServer(async (request, response) => {
+    const headers = corsHeaders(request);
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, headers);
+      response.end();
+      return;
+    }
+    try {
+      const fetchRequest = await toFetchRequest(request);
+      const answer =
+        (await api.handle(fetchRequest)) ??
+        Response.json(
+          {
+            message: `The route ${new URL(fetchRequest.url).pathname.slice(1)} could not be found.`,
+          },
+          { status: 404 }
+        );
+      await sendResponse(answer, response, headers);
+    } catch (error) {
+      console.error('Mock API error:', error);
+      await sendResponse(
+        Response.json({ message: 'Server Error' }, { status: 500 }),
+        response,
+        headers
+      );
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      resolve({
+        api,
+        server,
+        url: `http://${host}:${port}/api`,
+        close: () =>
+          new Promise<void>((done, fail) =>
+            server.close((error) => (error ? fail(error) : done()))
+          ),
+      });
+    });
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * @file packages/mock-api/src/validation.ts
+ * @description Error responses of the mock API, in the shape Laravel sends them.
+ *
+ * - `MockHttpError`: thrown by a resolver to answer with an error status, e.g., a 404.
+ * - `validate`: checks a request with a generated Zod schema and answers 422 like Laravel's
+ *   `$request->validate()`, with Laravel's English messages ("The title field is required.")
+ *   rather than the client-side ones the schemas carry.
+ * - `validationError`: a 422 for the rules the schemas don't know, e.g., a taken email.
+ *
+ * For a learner:
+ * - Answering with the server's wording, not the client's, shows what a form displays when a
+ *   check only exists on the server.
+ */
+import { z } from 'zod';
+
+/** An error response: the mock API answers with `status` and `body`. */
+export class MockHttpError extends Error {
+  override readonly name = 'MockHttpError';
+
+  constructor(
+    readonly status: number,
+    readonly body: { message: string; errors?: Record<string, string[]> }
+  ) {
+    super(body.message);
+  }
+}
+
+/** Laravel's validation messages (`lang/en/validation.php`) used by the mock. */
+export const laravelMessages = {
+  required: (attribute: string) => `The ${attribute} field is required.`,
+  string: (attribute: string) => `The ${attribute} field must be a string.`,
+  integer: (attribute: string) => `The ${attribute} field must be an integer.`,
+  number: (attribute: string) => `The ${attribute} field must be a number.`,
+  array: (attribute: string) => `The ${attribute} field must be an array.`,
+  email: (attribute: string) =>
+    `The ${attribute} field must be a valid email address.`,
+  minString: (attribute: string, min: number) =>
+    `The ${attribute} field must be at least ${min} characters.`,
+  maxString: (attribute: string, max: number) =>
+    `The ${attribute} field must not be greater than ${max} characters.`,
+  minNumber: (attribute: string, min: number) =>
+    `The ${attribute} field must be at least ${min}.`,
+  maxNumber: (attribute: string, max: number) =>
+    `The ${attribute} field must not be greater than ${max}.`,
+  maxArray: (attribute: string, max: number) =>
+    `The ${attribute} field must not have more than ${max} items.`,
+  invalid: (attribute: string) => `The selected ${attribute} is invalid.`,
+  format: (attribute: string) => `The ${attribute} field format is invalid.`,
+  confirmed: (attribute: string) =>
+    `The ${attribute} field confirmation does not match.`,
+  unique: (attribute: string) => `The ${attribute} has already been taken.`,
+  credentials: () => 'These credentials do not match our records.',
+};
+
+/** How Laravel names a field in messages: `password_confirmation` -> `password confirmation`. */
+export function attributeName(field: string): string {
+  return field.replace(/_/g, ' ');
+}
+
+// Laravel's message for the rule a Zod issue stands for
+function messageFor(issue: z.ZodIssue, attribute: string): string {
+  switch (issue.code) {
+    case 'invalid_type':
+      if (issue.received === 'undefined' || issue.received === 'null') {
+        return laravelMessages.required(attribute);
+      }
+      if (issue.expected === 'string') return laravelMessages.string(attribute);
+      if (issue.expected === 'integer') {
+        return laravelMessages.integer(attribute);
+      }
+      if (issue.expected === 'number') return laravelMessages.number(attribute);
+      if (issue.expected === 'array') return laravelMessages.array(attribute);
+      return laravelMessages.invalid(attribute);
+    case 'too_small':
+      if (issue.type === 'string') {
+        // Laravel's `required` rule rejects empty strings
+        return Number(issue.minimum) <= 1
+          ? laravelMessages.required(attribute)
+          : laravelMessages.minString(attribute, Number(issue.minimum));
+      }
+      return laravelMessages.minNumber(attribute, Number(issue.minimum));
+    case 'too_big':
+      if (issue.type === 'string') {
+        return laravelMessages.maxString(attribute, Number(issue.maximum));
+      }
+      if (issue.type === 'array') {
+        return laravelMessages.maxArray(attribute, Number(issue.maximum));
+      }
+      return laravelMessages.maxNumber(attribute, Number(issue.maximum));
+    case 'invalid_string':
+      return issue.validation === 'email'
+        ? laravelMessages.email(attribute)
+        : laravelMessages.format(attribute);
+    case 'not_multiple_of':
+      return laravelMessages.integer(attribute);
+    default:
+      return laravelMessages.invalid(attribute);
+  }
+}
+
+/**
+ * A 422 response with the given field errors. The summary message is the first error, plus
+ * the number of other errors, like Laravel's `ValidationException`.
+ */
+export function validationError(
+  errors: Record<string, string[]>
+): MockHttpError {
+  const messages = Object.values(errors).flat();
+  const others = messages.length - 1;
+  const summary =
+    others > 0
+      ? `${messages[0]} (and ${others} more error${others > 1 ? 's' : ''})`
+      : (messages[0] ?? 'The given data was invalid.');
+  return new MockHttpError(422, { message: summary, errors });
+}
+
+/**
+ * Parses a value with a schema, as Laravel validates a request.
+ * @throws MockHttpError (422) listing every invalid field.
+ */
+export function validate<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown
+): z.output<T> {
+  // Laravel ignores fields it doesn't validate, so a strict schema must not reject them
+  const lenient = schema instanceof z.ZodObject ? schema.passthrough() : schema;
+  const result = lenient.safeParse(value);
+  if (result.success) {
+    return result.data;
+  }
+  const errors: Record<string, string[]> = {};
+  result.error.issues.forEach((issue) => {
+    const field = issue.path.join('.');
+    const message = messageFor(issue, attributeName(field));
+    errors[field] = [...(errors[field] ?? []), message].filter(
+      (item, index, all) => all.indexOf(item) === index
+    );
+  });
+  throw validationError(errors);
+}
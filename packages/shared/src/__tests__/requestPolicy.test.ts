@@ -0,0 +1,82 @@
+/**
+ * @file packages/shared/src/__tests__/requestPolicy.test.ts
+ * @description Checks how `installRequestPolicy` retries failed requests.
+ *
+ * Each test builds an axios instance whose adapter answers from a scripted list of statuses,
+ * so no server is needed and the number of attempts can be counted.
+ *
+ * For a learner:
+ * - An axios "adapter" is the function that actually sends a request. Replacing it is the
+ *   simplest way to fake the network for everything above it (interceptors included).
+ */
+import { describe, expect, it } from 'vitest';
+import axios, { AxiosError, type AxiosResponse } from 'axios';
+import {
+  DEFAULT_REQUEST_POLICY,
+  installRequestPolicy,
+} from '../services/requestPolicy';
+
+/** A status to answer with, and the `Retry-After` header (in seconds) to send along. */
+type ScriptedResponse = { status: number; retryAfter?: string };
+
+function createScriptedClient(responses: ScriptedResponse[]) {
+  let attempts = 0;
+  const instance = axios.create({
+    adapter: async (config) => {
+      const { status, retryAfter } =
+        responses[Math.min(attempts++, responses.length - 1)]!;
+      const response: AxiosResponse = {
+        data: {},
+        status,
+        statusText: '',
+        headers: retryAfter === undefined ? {} : { 'retry-after': retryAfter },
+        config,
+      };
+      if (status >= 400) {
+        throw new AxiosError(
+          `Request failed with status code ${status}`,
+          AxiosError.ERR_BAD_RESPONSE,
+          config,
+          null,
+          response
+        );
+      }
+      return response;
+    },
+  });
+  installRequestPolicy(instance);
+  return { instance, attempts: () => attempts };
+}
+
+describe('Retry-After', () => {
+  it('waits as long as the server asks and then retries', async () => {
+    const client = createScriptedClient([
+      { status: 503, retryAfter: '0' },
+      { status: 200 },
+    ]);
+
+    const response = await client.instance.get('/notes');
+
+    expect(response.status).toBe(200);
+    expect(client.attempts()).toBe(2);
+  });
+
+  it('gives up at once when the server asks for more than maxDelayMs', async () => {
+    const retryAfterSeconds = DEFAULT_REQUEST_POLICY.maxDelayMs / 1000 + 55;
+    const client = createScriptedClient([
+      { status: 429, retryAfter: String(retryAfterSeconds) },
+      { status: 200 },
+    ]);
+
+    const started = Date.now();
+    const error = await client.instance.get('/notes').catch((e) => e);
+
+    expect(error).toBeInstanceOf(AxiosError);
+    expect(error.response.status).toBe(429);
+    expect(client.attempts()).toBe(1);
+    // Failing fast, not after a shortened wait.
+    expect(Date.now() - started).toBeLessThan(
+      DEFAULT_REQUEST_POLICY.maxDelayMs
+    );
+  });
+});
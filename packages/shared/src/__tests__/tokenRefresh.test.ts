@@ -0,0 +1,62 @@
+/**
+ * @file packages/shared/src/__tests__/tokenRefresh.test.ts
+ * @description Checks the request `refreshAccessToken` sends to `POST /auth/refresh`.
+ *
+ * The refresh call bypasses the API client's interceptors, so it does not get a timeout from
+ * `installRequestPolicy`; it must take its own from `REQUEST_POLICIES`.
+ *
+ * For a learner:
+ * - `vi.mock` replaces a whole module before it is imported. The token store and the error
+ *   logger are swapped for small fakes, so the test needs neither device storage nor
+ *   React Native.
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { refreshAccessToken } from '../services/tokenRefresh';
+import { getRequestPolicy } from '../services/requestPolicy';
+
+const tokenState = {
+  activeSessionId: 'session-1',
+  refreshToken: 'refresh-token',
+  setTokens: vi.fn(),
+  clearToken: vi.fn(),
+};
+
+vi.mock('../stores/tokenStore', () => ({
+  useTokenStore: { getState: () => tokenState },
+}));
+
+vi.mock('../services/errorLogger', () => ({
+  logError: vi.fn(),
+  ErrorSeverity: { WARNING: 'warning' },
+}));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('refreshAccessToken', () => {
+  it('sends the refresh with the timeout from the request policy', async () => {
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({
+      data: {
+        message: 'Token refreshed.',
+        token: 'new-token',
+        refresh_token: 'new-refresh-token',
+        expires_at: '2030-01-01T00:00:00Z',
+      },
+    });
+
+    await expect(refreshAccessToken('http://api.test/api')).resolves.toBe(
+      'new-token'
+    );
+
+    expect(post).toHaveBeenCalledWith(
+      'http://api.test/api/auth/refresh',
+      { refresh_token: 'refresh-token' },
+      expect.objectContaining({
+        timeout: getRequestPolicy('post', '/auth/refresh').timeoutMs,
+      })
+    );
+    expect(getRequestPolicy('post', '/auth/refresh').timeoutMs).toBe(10_000);
+  });
+});
@@ -2,301 +2,415 @@
  * @file apiClient.ts
  * @description
  * This file serves as the central hub for all frontend API interactions with the Laravel backend.
- * It configures a global Axios instance with interceptors for request and response handling,
- * such as automatically attaching authentication tokens and managing global API errors.
+ * It is built on the Zodios client generated from the OpenAPI spec
+ * (`@hello-world/api-types`, `generated/api-client.ts`): every method below calls one of the
+ * generated endpoints by its alias (e.g., `auth.login`), and its request and response types
+ * are derived from that endpoint's definition, so they change when the spec does.
  *
- * The `apiClient` object exported from this file provides type-safe functions for each API
- * endpoint, leveraging Zod schemas for runtime request validation and response parsing.
- * This ensures data integrity and provides excellent developer experience with autocompletion
- * and type checking.
+ * Around the generated client this file adds:
+ * - Our axios interceptors (auth token, refresh on 401, logging, retries, typed errors);
+ *   see `services/apiInterceptors.ts`.
+ * - Response checks that follow the strict/warn/off validation mode; see `services/schemaDrift.ts`.
+ * - Client-side validation with the hand-written schemas in `@hello-world/api-types`
+ *   (`authSchemas.ts`, `noteSchemas.ts`, `tagSchemas.ts`). These *extend* the generated
+ *   request schemas with friendlier messages and rules the spec can't express.
+ * - A base URL that follows the API environment chosen at runtime.
  *
  * For a learner:
- * - Understand how Axios is configured for a project (baseURL, default headers).
+ * - Understand how the generated client and the hand-written schemas split the work: the
+ *   spec says what the API accepts and returns, the extensions say how to explain mistakes.
  * - See how interceptors can automate common tasks (auth headers, error logging).
  * - Observe the pattern of defining typed API functions that abstract direct HTTP calls.
  * - Note the crucial role of Zod in maintaining a strong contract between frontend and backend.
  */
-import axios from 'axios';
-import { logError, ErrorSeverity } from './services/errorLogger'; // Centralized error logging service
-import { useTokenStore } from './stores/tokenStore'; // Direct import of token store
-
-// Import Zod schemas from @hello-world/api-types.
-// These schemas are essential for:
-// 1. Runtime validation of request payloads before sending them to the API.
-// 2. Runtime parsing and validation of API responses.
-// 3. Providing static TypeScript types inferred from the schemas, ensuring type safety.
-// This robust approach helps catch data-related errors early and maintains a clear
-// contract between the frontend and the backend API.
 import {
+  createApiClient,
+  ApiResponse,
   LoginRequestSchema,
   LoginRequest,
-  LoginResponseSchema,
-  LoginResponse,
   RegisterRequestSchema,
   RegisterRequest,
-  RegisterResponseSchema,
-  RegisterResponse,
-  GetUserResponseSchema,
-  GetUserResponse,
-  LogoutResponseSchema,
-  LogoutResponse,
-} from '@hello-world/api-types/src/authSchemas';
-import {
-  NoteSchema,
-  Note,
-  GetNotesResponseSchema,
-  GetNotesResponse,
+  LogoutRequest,
+  RefreshTokenRequestSchema,
+  RefreshTokenRequest,
+  GetNotesParamsSchema,
+  GetNotesParams,
   CreateNoteRequestSchema,
   CreateNoteRequest,
-  CreateNoteResponseSchema,
-  CreateNoteResponse,
-} from '@hello-world/api-types/src/noteSchemas';
+  UpdateNoteRequestSchema,
+  UpdateNoteRequest,
+  CreateTagRequestSchema,
+  CreateTagRequest,
+  UpdateTagRequestSchema,
+  UpdateTagRequest,
+} from '@hello-world/api-types';
+import { installApiInterceptors } from './services/apiInterceptors'; // Auth, logging, retries, typed errors
+import { RequestOptions } from './services/requestPolicy'; // Cancellation
+import { validateApiResponse } from './services/schemaDrift'; // Response checks (strict/warn/off)
+import { useTokenStore } from './stores/tokenStore'; // Active session, for multi-account support
+import {
+  resolveActiveApiHost,
+  useApiEnvironmentStore,
+} from './stores/apiEnvironmentStore'; // API host chosen at runtime
 
 // --- API Configuration ---
 
-// Define the base URL for the Laravel API.
-// `process.env['NEXT_PUBLIC_API_HOST']` is used to access environment variables in Next.js.
-// The `NEXT_PUBLIC_` prefix makes the variable accessible on the client-side.
+// The host of the Laravel API is chosen at runtime, not baked into the build:
+// - Each device picks an environment (local, staging, production or a custom URL) in the
+//   developer menu; see `services/apiEnvironments.ts` and `stores/apiEnvironmentStore.ts`.
+// - A signed-in account always uses the host it signed in to.
+// `resolveActiveApiHost()` combines the two, and `configureApiClient()` applies a new host.
 // Ensure the Laravel backend application is running and accessible at this address.
 // For local development, this typically defaults to 'http://localhost:8000'.
-const API_HOST = process.env['NEXT_PUBLIC_API_HOST'] || 'http://localhost:8000';
-const API_BASE_URL = `${API_HOST}/api`; // Standard practice to namespace API routes under '/api'
+let apiHost = resolveActiveApiHost();
+
+/**
+ * Returns the API host requests are sent to (e.g., `http://localhost:8000`).
+ * Stored with each signed-in session so accounts on different servers can be told apart.
+ */
+export const getApiHost = (): string => apiHost;
 
-// --- Axios Instance Setup ---
+// --- Client Setup ---
 
-// Note on CSRF: For stateless API authentication (like Sanctum token-based auth),
-// traditional CSRF protection via tokens in requests is often not necessary because
-// the Bearer token itself serves as a credential. If using Sanctum's cookie-based SPA
-// authentication, CSRF mechanisms would be relevant. This setup assumes token-based auth.
+// Note on CSRF: In token auth mode, CSRF protection isn't needed: a Bearer token is only sent
+// by code that can read it, which another site's page can't. In cookie auth mode (Sanctum's
+// SPA authentication, see `services/authMode.ts`) the browser sends the session cookie with
+// every request, so state-changing requests also carry the CSRF token (`services/csrf.ts`).
 
 /**
- * Global Axios instance.
- * Configuring a single instance allows for centralized setup of:
+ * Creates the generated Zodios client for the given API base URL, with our plugins and
+ * interceptors. Configuring a single instance allows for centralized setup of:
  * - Base URL for all API requests.
  * - Default headers (e.g., 'Accept', 'Content-Type').
  * - Interceptors for global request/response transformations and error handling.
- * - `withCredentials: true` is included for scenarios where cookies might be involved
- *   (e.g., if parts of the API used Sanctum's cookie-based SPA auth, or other cookie needs).
- *   It doesn't interfere with token-based authentication.
+ * - `withCredentials: true` makes the browser send (and accept) the API's cookies on
+ *   cross-origin requests, which cookie auth mode relies on. It doesn't interfere with
+ *   token-based authentication.
  */
-const axiosInstance = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    Accept: 'application/json',
-    'Content-Type': 'application/json',
-    'X-Requested-With': 'XMLHttpRequest', // Often needed for Laravel Sanctum CSRF protection if using web routes, but good practice for API consistency
-  },
-  withCredentials: true, // Important for Sanctum cookie-based auth if used, also helps with CSRF if applicable
-});
+function createBaseClient(apiBaseUrl: string) {
+  // Zodios only validates requests; responses are checked by the `schemaDrift` plugin below,
+  // which follows the strict/warn/off validation mode instead of always throwing.
+  const baseClient = createApiClient(apiBaseUrl, {
+    validate: 'request',
+    axiosConfig: {
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        'X-Requested-With': 'XMLHttpRequest', // Makes Laravel answer auth failures with JSON instead of redirects
+      },
+      withCredentials: true, // Sends the session cookie in cookie auth mode
+    },
+  });
 
-// --- Axios Interceptors ---
-// Interceptors allow you to run code or modify requests/responses globally.
+  baseClient.use({
+    name: 'schemaDrift',
+    response: async (api, config, response) => {
+      const endpoint = api.find(
+        (candidate) =>
+          candidate.method === config.method && candidate.path === config.url
+      );
+      if (!endpoint) return response;
+      return {
+        ...response,
+        data: validateApiResponse(endpoint.response, response.data, {
+          request: `${config.method.toUpperCase()} ${config.url}`,
+          status: response.status,
+        }),
+      };
+    },
+  });
+
+  installApiInterceptors(baseClient.axios, apiBaseUrl);
+
+  return baseClient;
+}
 
 /**
- * Axios Request Interceptor.
- * This function is executed before any request is sent.
- * Its primary purpose here is to:
- * 1. Retrieve the authentication token from the `useTokenStore`.
- *    `useTokenStore.getState()` provides synchronous access to the store's current state,
- *    which is suitable for use within interceptors.
- * 2. If a token exists, attach it to the `Authorization` header as a Bearer token.
- * This is a common and clean pattern for handling authentication tokens, ensuring
- * that all necessary requests are authenticated without repetitive logic in each API call function.
+ * The generated client every `apiClient` method sends its requests with.
+ * `configureApiClient()` replaces it when the API host changes.
  */
-axiosInstance.interceptors.request.use(
-  (config) => {
-    // Get token directly from the token store
-    const token = useTokenStore.getState().token;
-    if (token) {
-      // Attach the token for API routes that require authentication.
-      // Most authenticated routes will expect a 'Bearer' token.
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config; // The modified config must be returned.
-  },
-  (error) => {
-    // Handle request errors (e.g., network issue before sending)
-    logError(error, ErrorSeverity.ERROR, { action: 'API_Request_Interceptor' });
-    return Promise.reject(error);
-  }
-);
+let baseClient = createBaseClient(`${apiHost}/api`); // Standard practice to namespace API routes under '/api'
 
 /**
- * Axios Response Interceptor.
- * This function is executed when a response is received or an error occurs.
- * It's used for global response handling:
- * 1. Successful responses (2xx status codes) are passed through.
- * 2. API errors are caught and processed:
- *    - Unauthorized (401) errors trigger token clearance from `useTokenStore`
- *      and log the event. This is a standard security and UX measure.
- *      Further actions like redirecting to a login page can be added here or handled by UI components.
- *    - Other errors (4xx, 5xx) are logged with appropriate severity using the
- *      centralized `logError` service, providing context like URL, method, and status code.
- *    - In development, errors are also logged to the console for immediate visibility.
- * 3. The error is re-rejected (`Promise.reject(error)`), allowing individual API call sites
- *    or UI components to implement specific error handling logic if needed (e.g., displaying
- *    a user-friendly message for a particular failed request).
+ * Returns the generated client with our plugins and interceptors, for code that calls
+ * endpoints by alias (e.g., the generated hooks in `generated/apiHooks.ts`).
+ * Call it for every request rather than keeping the result: the client is replaced when the
+ * API host changes.
  */
-axiosInstance.interceptors.response.use(
-  (response) => response, // Pass through successful responses
-  (error) => {
-    const requestUrl = error.config?.url || 'unknown_url';
-    const requestMethod =
-      error.config?.method?.toUpperCase() || 'UNKNOWN_METHOD';
-    const statusCode = error.response?.status;
-
-    if (statusCode === 401) {
-      logError(error, ErrorSeverity.WARNING, {
-        action: 'API_Unauthorized_Response',
-        additionalData: { url: requestUrl, method: requestMethod, statusCode },
-      });
-      // Critical step: Clear the potentially invalid token.
-      // This prevents the app from continuing to use an invalid session.
-      useTokenStore.getState().clearToken();
-      // Consider global navigation to login page here or let UI components react to token absence.
-      // Example: window.location.href = '/login'; (if not in a pure library context)
-    } else {
-      let severity = ErrorSeverity.ERROR;
-      if (statusCode >= 500) {
-        severity = ErrorSeverity.CRITICAL; // Server-side errors
-      } else if (statusCode >= 400 && statusCode < 500) {
-        severity = ErrorSeverity.WARNING; // Client-side request errors (e.g., bad request, not found)
-      }
+export const getBaseClient = () => baseClient;
 
-      logError(error, severity, {
-        action: 'API_Error_Response',
-        additionalData: {
-          url: requestUrl,
-          method: requestMethod,
-          statusCode,
-          responseData: error.response?.data, // Include response data for debugging
-        },
-      });
-    }
-
-    // For easier debugging during development, log concise error to console.
-    if (process.env['NODE_ENV'] !== 'production') {
-      console.error(
-        `[API Client Error] ${requestMethod} ${requestUrl} - Status: ${statusCode}`,
-        error.response?.data || error.message
-      );
-    }
+/**
+ * Points the API client at another host by rebuilding the generated client and its axios
+ * instance. Requests already in flight finish against the previous host.
+ *
+ * You rarely need to call this yourself: the client follows the environment chosen in the
+ * developer menu and the active account automatically (see below).
+ *
+ * @param options.host - The API host without the `/api` suffix, e.g., `https://staging.example.com`.
+ */
+export function configureApiClient({ host }: { host: string }): void {
+  apiHost = host;
+  baseClient = createBaseClient(`${host}/api`);
+}
 
-    // Important: Re-reject the error so that the original caller can also handle it.
-    return Promise.reject(error);
-  }
-);
+// Re-point the client whenever the chosen environment or the active account changes
+// (including when the persisted choice is loaded from storage at startup).
+const syncApiHost = () => {
+  const host = resolveActiveApiHost();
+  if (host !== apiHost) configureApiClient({ host });
+};
+useApiEnvironmentStore.subscribe(syncApiHost);
+useTokenStore.subscribe(syncApiHost);
 
 // --- Typed API Client ---
 
 /**
  * `apiClient` provides a collection of strongly-typed functions for interacting with the backend API.
- * Each function encapsulates an API endpoint, handling request/response logic and leveraging Zod
- * for validation and type safety. This abstraction simplifies API calls from UI components and hooks.
+ * Each function calls one generated endpoint; its return type is that endpoint's response
+ * (`ApiResponse<'auth.login'>` and so on). This abstraction simplifies API calls from UI
+ * components and hooks.
  *
  * For a learner:
  * - This demonstrates the "Service Layer" or "Repository" pattern for data fetching.
  * - Each function clearly defines its purpose, request parameters, and response type.
- * - Zod schemas (`*.parse()`) are used for:
- *   1. Validating the structure and types of request data before sending.
- *   2. Validating the structure and types of response data upon receipt.
+ * - Zod schemas are used for:
+ *   1. Validating request data before sending: first against the hand-written extension
+ *      (friendly messages), then by Zodios against the generated schema.
+ *   2. Validating response data upon receipt. Depending on the validation mode, a response
+ *      that breaks the contract throws a `SchemaMismatchError` or is reported as drift
+ *      (see `services/schemaDrift.ts`).
  *   This catches errors early and ensures data consistency.
+ * - Failed requests reject with a typed `ApiError` (see `services/apiErrors.ts`).
+ * - Every function accepts an optional last `options` argument (`RequestOptions`). Its `signal`
+ *   cancels the request; TanStack Query passes one to each `queryFn`, so requests for a query
+ *   nobody needs anymore are aborted (e.g., when the user leaves the page).
+ * - The Swagger documentation endpoints (`l5-swagger.*`) are left out on purpose; they only
+ *   serve the API docs.
  */
 export const apiClient = {
   // --- Authentication Endpoints ---
   auth: {
     /**
      * Logs a user in.
-     * Validates credentials against `LoginRequestSchema`, sends a POST request to `/auth/login`,
-     * and parses the response with `LoginResponseSchema`.
+     * Validates credentials against `LoginRequestSchema` and sends a POST request to `/auth/login`.
      * @param credentials - User's email and password.
-     * @returns A promise that resolves to the login response, typically including a token and user data.
+     * @returns A promise that resolves to the login response: a message, user data and (in token
+     *   auth mode) the token pair. In cookie auth mode the API starts a session cookie instead.
      */
-    login: async (credentials: LoginRequest): Promise<LoginResponse> => {
+    login: async (
+      credentials: LoginRequest,
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'auth.login'>> => {
       // Runtime validation of the request payload.
       // If validation fails, Zod throws an error, preventing the API call.
       LoginRequestSchema.parse(credentials);
-      const response = await axiosInstance.post('/auth/login', credentials);
-      // Runtime validation and parsing of the response data.
-      // Ensures the frontend receives data in the expected format.
-      return LoginResponseSchema.parse(response.data);
+      return baseClient['auth.login'](credentials, options);
     },
 
     /**
      * Registers a new user.
-     * Validates registration data against `RegisterRequestSchema`, sends a POST request to `/auth/register`,
-     * and parses the response with `RegisterResponseSchema`.
+     * Validates registration data against `RegisterRequestSchema` (e.g., matching passwords)
+     * and sends a POST request to `/auth/register`.
      * @param data - User registration details (name, email, password).
      * @returns A promise that resolves to the registration response.
      */
-    register: async (data: RegisterRequest): Promise<RegisterResponse> => {
+    register: async (
+      data: RegisterRequest,
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'auth.register'>> => {
       RegisterRequestSchema.parse(data);
-      const response = await axiosInstance.post('/auth/register', data);
-      return RegisterResponseSchema.parse(response.data);
+      return baseClient['auth.register'](data, options);
     },
 
     /**
      * Logs the current user out.
      * Sends a POST request to `/auth/logout` (typically invalidating the token on the server).
-     * Parses the response, usually a success message, with `LogoutResponseSchema`.
+     * Passing the refresh token lets the server revoke it as well.
+     * @param data - Optional refresh token to revoke together with the access token.
      * @returns A promise that resolves to the logout response.
      */
-    logout: async (): Promise<LogoutResponse> => {
-      const response = await axiosInstance.post('/auth/logout');
-      return LogoutResponseSchema.parse(response.data);
+    logout: async (
+      data: LogoutRequest = {},
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'auth.logout'>> => {
+      return baseClient['auth.logout'](data, options);
+    },
+
+    /**
+     * Exchanges a refresh token for a new access/refresh token pair.
+     * Validates the payload against `RefreshTokenRequestSchema` and sends a POST request to
+     * `/auth/refresh`.
+     * Note: the interceptors refresh tokens automatically (see `services/tokenRefresh.ts`);
+     * this method is only needed for manual flows.
+     * @param data - The refresh token to exchange.
+     * @returns A promise that resolves to the new token pair and access token expiry.
+     */
+    refresh: async (
+      data: RefreshTokenRequest,
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'auth.refresh'>> => {
+      RefreshTokenRequestSchema.parse(data);
+      return baseClient['auth.refresh'](data, options);
     },
 
     /**
      * Fetches the currently authenticated user's profile.
      * Sends a GET request to `/auth/user` (requires a valid auth token).
-     * Parses the response with `GetUserResponseSchema`.
      * @returns A promise that resolves to the user's profile data.
      */
-    getUser: async (): Promise<GetUserResponse> => {
-      const response = await axiosInstance.get('/auth/user');
-      return GetUserResponseSchema.parse(response.data);
+    getUser: async (
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'auth.user'>> => {
+      return baseClient['auth.user'](options);
     },
   },
 
   // --- Notes Endpoints ---
   notes: {
     /**
-     * Fetches a list of notes for the authenticated user.
-     * Sends a GET request to `/notes`.
-     * Parses the response (an array of notes) with `GetNotesResponseSchema`.
-     * @returns A promise that resolves to an array of notes.
+     * Fetches one page of notes.
+     * Validates the query parameters against `GetNotesParamsSchema` and sends a GET request to
+     * `/notes`. The response is a paginated envelope (`data`, `links`, `meta`); pass
+     * `meta.next_cursor` as `cursor` to get the next page.
+     * @param params - Optional search term (`q`), sort order, tag filter, page size and cursor.
+     * @returns A promise that resolves to a page of notes plus pagination info.
+     */
+    getNotes: async (
+      params: GetNotesParams = {},
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'note.index'>> => {
+      GetNotesParamsSchema.parse(params);
+      return baseClient['note.index']({ ...options, queries: params });
+    },
+
+    /**
+     * Fetches one page of the authenticated user's own notes.
+     * Takes the same parameters as `getNotes` and returns the same paginated envelope, but sends
+     * the request to `/notes/mine`, which requires authentication and only returns notes the
+     * user wrote.
+     * @param params - Optional search term (`q`), sort order, tag filter, page size and cursor.
+     * @returns A promise that resolves to a page of the user's notes plus pagination info.
      */
-    getNotes: async (): Promise<GetNotesResponse> => {
-      const response = await axiosInstance.get('/notes');
-      return GetNotesResponseSchema.parse(response.data);
+    getMyNotes: async (
+      params: GetNotesParams = {},
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'note.mine'>> => {
+      GetNotesParamsSchema.parse(params);
+      return baseClient['note.mine']({ ...options, queries: params });
     },
 
     /**
      * Creates a new note for the authenticated user.
-     * Validates the note data against `CreateNoteRequestSchema`, sends a POST request to `/notes`,
-     * and parses the created note data with `CreateNoteResponseSchema`.
+     * Validates the note data against `CreateNoteRequestSchema` and sends a POST request to `/notes`.
      * @param data - The title and content of the note to create.
      * @returns A promise that resolves to the newly created note.
      */
     createNote: async (
-      data: CreateNoteRequest
-    ): Promise<CreateNoteResponse> => {
+      data: CreateNoteRequest,
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'note.store'>> => {
       CreateNoteRequestSchema.parse(data);
-      const response = await axiosInstance.post('/notes', data);
-      return CreateNoteResponseSchema.parse(response.data);
+      return baseClient['note.store'](data, options);
+    },
+
+    /**
+     * Updates an existing note owned by the authenticated user.
+     * Validates the note data against `UpdateNoteRequestSchema` and sends a PUT request to `/notes/{id}`.
+     * The backend responds with 403 if the note belongs to another user.
+     * @param noteId - The ID of the note to update.
+     * @param data - The new title and content of the note.
+     * @returns A promise that resolves to the updated note.
+     */
+    updateNote: async (
+      noteId: number,
+      data: UpdateNoteRequest,
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'note.update'>> => {
+      UpdateNoteRequestSchema.parse(data);
+      return baseClient['note.update'](data, {
+        ...options,
+        params: { note: noteId },
+      });
+    },
+
+    /**
+     * Deletes a note owned by the authenticated user.
+     * Sends a DELETE request to `/notes/{id}`.
+     * @param noteId - The ID of the note to delete.
+     * @returns A promise that resolves to the deletion confirmation.
+     */
+    deleteNote: async (
+      noteId: number,
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'note.destroy'>> => {
+      return baseClient['note.destroy'](undefined, {
+        ...options,
+        params: { note: noteId },
+      });
     },
   },
 
-  // --- Example Endpoint ---
-  /**
-   * Example of a simple GET request to a hypothetical `/hello` endpoint.
-   * This demonstrates the basic structure for adding new API calls.
-   * @returns A promise that resolves to an object with a message string.
-   */
-  hello: async (): Promise<{ message: string }> => {
-    // For endpoints without Zod schemas (e.g., simple ones or those not yet typed),
-    // response.data is used directly. However, defining Zod schemas is highly recommended.
-    const response = await axiosInstance.get('/hello');
-    return response.data;
+  // --- Tags Endpoints ---
+  tags: {
+    /**
+     * Fetches the authenticated user's tags, alphabetically, each with its `notesCount`.
+     * Sends a GET request to `/tags`.
+     * @returns A promise that resolves to the user's tags.
+     */
+    getTags: async (
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'tag.index'>> => {
+      return baseClient['tag.index'](options);
+    },
+
+    /**
+     * Creates a tag for the authenticated user.
+     * The name is validated and normalized (trimmed, lower case) by `CreateTagRequestSchema`
+     * before the POST request to `/tags`.
+     * @param data - The name of the new tag.
+     * @returns A promise that resolves to the created tag.
+     */
+    createTag: async (
+      data: CreateTagRequest,
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'tag.store'>> => {
+      const payload = CreateTagRequestSchema.parse(data);
+      return baseClient['tag.store'](payload, options);
+    },
+
+    /**
+     * Renames a tag owned by the authenticated user.
+     * Sends a PUT request to `/tags/{tagId}`; notes with the tag show the new name afterwards.
+     * @param tagId - The ID of the tag to rename.
+     * @param data - The new name.
+     * @returns A promise that resolves to the renamed tag.
+     */
+    updateTag: async (
+      tagId: number,
+      data: UpdateTagRequest,
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'tag.update'>> => {
+      const payload = UpdateTagRequestSchema.parse(data);
+      return baseClient['tag.update'](payload, {
+        ...options,
+        params: { tag: tagId },
+      });
+    },
+
+    /**
+     * Deletes a tag owned by the authenticated user. It is removed from all notes; the
+     * notes themselves are kept.
+     * @param tagId - The ID of the tag to delete.
+     * @returns A promise that resolves to the API's confirmation message.
+     */
+    deleteTag: async (
+      tagId: number,
+      options: RequestOptions = {}
+    ): Promise<ApiResponse<'tag.destroy'>> => {
+      return baseClient['tag.destroy'](undefined, {
+        ...options,
+        params: { tag: tagId },
+      });
+    },
   },
 };
@@ -0,0 +1,149 @@
+/**
+ * @file packages/shared/src/components/DeveloperMenu.tsx
+ * @description Hidden menu for pointing the app at another API environment.
+ *
+ * Lists the environments from `API_ENVIRONMENTS` plus a custom URL field. The choice is saved
+ * on this device (`useApiEnvironmentStore`) and applied to the API client immediately, so QA
+ * can switch a single build between local, staging and production without rebuilding it.
+ *
+ * The apps open the menu with a secret gesture (see `useSecretTaps`): tapping the app title
+ * five times in a row.
+ *
+ * For a learner:
+ * - A signed-in account keeps talking to the host it signed in to, because its tokens are only
+ *   valid there. Picking another environment therefore switches to browsing anonymously; the
+ *   account stays stored and can be switched back to from the account switcher.
+ */
+import React, { useState } from 'react';
+import { Button, Input, Text, XStack, YStack } from 'tamagui';
+import {
+  API_ENVIRONMENTS,
+  ApiEnvironmentId,
+  normalizeApiHost,
+  resolveEnvironmentHost,
+} from '../services/apiEnvironments';
+import {
+  resolveActiveApiHost,
+  useApiEnvironmentStore,
+} from '../stores/apiEnvironmentStore';
+import { useTokenStore } from '../stores/tokenStore';
+
+interface DeveloperMenuProps {
+  /** Called when the user closes the menu. */
+  onClose?: () => void;
+}
+
+export function DeveloperMenu({ onClose }: DeveloperMenuProps) {
+  const { environmentId, customHost, setEnvironment } =
+    useApiEnvironmentStore();
+  const activeSession = useTokenStore((state) =>
+    state.activeSessionId ? state.sessions[state.activeSessionId] : undefined
+  );
+  const switchSession = useTokenStore((state) => state.switchSession);
+  const [customText, setCustomText] = useState(customHost);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-evaluated on every render; both stores above trigger a render when they change.
+  const currentHost = resolveActiveApiHost();
+
+  const selectEnvironment = (id: ApiEnvironmentId, host = customHost) => {
+    setError(null);
+    setEnvironment(id, host);
+    // Leave an account signed in to another host, or the choice would have no effect. An
+    // account with no recorded host (stored before hosts were, or by `setTokens`) follows the
+    // chosen environment, so its token would be sent to the new host: leave it as well.
+    const environmentHost = resolveEnvironmentHost({
+      environmentId: id,
+      customHost: host,
+    });
+    if (activeSession && activeSession.apiHost !== environmentHost) {
+      switchSession(null);
+    }
+  };
+
+  const applyCustomHost = () => {
+    const host = normalizeApiHost(customText);
+    if (!host) {
+      setError('Enter a full URL, e.g. http://192.168.1.20:8000');
+      return;
+    }
+    setCustomText(host);
+    selectEnvironment('custom', host);
+  };
+
+  return (
+    <YStack
+      gap="$3"
+      padding="$4"
+      borderWidth={1}
+      borderColor="$borderColor"
+      borderRadius="$4"
+      backgroundColor="$background"
+    >
+      <XStack justifyContent="space-between" alignItems="center">
+        <Text fontSize="$6" fontWeight="bold">
+          Developer menu
+        </Text>
+        {onClose && (
+          <Button size="$2" chromeless onPress={onClose}>
+            Close
+          </Button>
+        )}
+      </XStack>
+      <Text fontSize="$2" opacity={0.7}>
+        API: {currentHost}
+      </Text>
+
+      <YStack gap="$2">
+        {API_ENVIRONMENTS.map((environment) => (
+          <Button
+            key={environment.id}
+            size="$3"
+            themeInverse={environment.id === environmentId}
+            disabled={!environment.host}
+            opacity={environment.host ? 1 : 0.5}
+            onPress={() => selectEnvironment(environment.id)}
+          >
+            {`${environment.label} — ${environment.host ?? 'not configured'}`}
+          </Button>
+        ))}
+      </YStack>
+
+      <YStack gap="$2">
+        <Text fontSize="$2">Custom URL</Text>
+        <XStack gap="$2">
+          <Input
+            flex={1}
+            size="$3"
+            value={customText}
+            onChangeText={setCustomText}
+            placeholder="http://192.168.1.20:8000"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <Button
+            size="$3"
+            themeInverse={environmentId === 'custom'}
+            onPress={applyCustomHost}
+          >
+            Use
+          </Button>
+        </XStack>
+        {error && (
+          <Text fontSize="$2" color="red">
+            {error}
+          </Text>
+        )}
+      </YStack>
+
+      {activeSession?.apiHost && (
+        <Text fontSize="$1" opacity={0.7}>
+          Signed-in accounts keep using the API they signed in to. Choosing
+          another environment switches to browsing without an account; the
+          account stays available in the account switcher.
+        </Text>
+      )}
+    </YStack>
+  );
+}
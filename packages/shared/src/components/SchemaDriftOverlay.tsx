@@ -0,0 +1,119 @@
+/**
+ * @file packages/shared/src/components/SchemaDriftOverlay.tsx
+ * @description Development-only overlay listing API responses that didn't match their schema.
+ *
+ * In `warn` mode a mismatch no longer breaks the screen (see `services/schemaDrift.ts`), which
+ * also makes it easy to miss. This overlay shows a small badge in the corner as soon as a
+ * drift event is recorded; pressing it lists every event with its diff (path, expected,
+ * received) and lets you switch the validation mode or clear the list.
+ *
+ * Render it once near the root of the app. It renders nothing in production builds or while
+ * there is nothing to report.
+ *
+ * For a learner:
+ * - The events come from `useSchemaDriftStore`, so the overlay updates as soon as the API
+ *   client records a mismatch, without any props being passed around.
+ */
+import React, { useState } from 'react';
+import { Button, ScrollView, Text, XStack, YStack } from 'tamagui';
+import {
+  SchemaValidationMode,
+  useSchemaDriftStore,
+} from '../stores/schemaDriftStore';
+
+const MODES: SchemaValidationMode[] = ['strict', 'warn', 'off'];
+
+export function SchemaDriftOverlay() {
+  const { mode, events, setMode, clearDrift } = useSchemaDriftStore();
+  const [expanded, setExpanded] = useState(false);
+
+  if (process.env['NODE_ENV'] === 'production' || events.length === 0) {
+    return null;
+  }
+
+  if (!expanded) {
+    return (
+      <YStack position="absolute" bottom="$4" right="$4" zIndex={1000}>
+        {/* Palette tokens rather than a theme: the app config only defines light and dark. */}
+        <Button
+          size="$2"
+          backgroundColor="$red10Light"
+          color="$red1Light"
+          hoverStyle={{ backgroundColor: '$red11Light' }}
+          onPress={() => setExpanded(true)}
+        >
+          {`API drift: ${events.length}`}
+        </Button>
+      </YStack>
+    );
+  }
+
+  return (
+    <YStack
+      position="absolute"
+      bottom="$4"
+      right="$4"
+      zIndex={1000}
+      width={420}
+      maxWidth="90%"
+      maxHeight={480}
+      gap="$3"
+      padding="$3"
+      borderWidth={1}
+      borderColor="$borderColor"
+      borderRadius="$4"
+      backgroundColor="$background"
+    >
+      <XStack justifyContent="space-between" alignItems="center">
+        <Text fontSize="$5" fontWeight="bold">
+          API schema drift
+        </Text>
+        <XStack gap="$2">
+          <Button size="$2" chromeless onPress={clearDrift}>
+            Clear
+          </Button>
+          <Button size="$2" chromeless onPress={() => setExpanded(false)}>
+            Close
+          </Button>
+        </XStack>
+      </XStack>
+
+      <XStack gap="$2" alignItems="center">
+        <Text fontSize="$2">Mode:</Text>
+        {MODES.map((option) => (
+          <Button
+            key={option}
+            size="$2"
+            themeInverse={option === mode}
+            onPress={() => setMode(option)}
+          >
+            {option}
+          </Button>
+        ))}
+      </XStack>
+
+      <ScrollView>
+        <YStack gap="$3">
+          {events.map((event) => (
+            <YStack key={event.id} gap="$1">
+              <Text fontSize="$3" fontWeight="bold">
+                {event.request}
+                {event.status !== undefined ? ` (${event.status})` : ''}
+              </Text>
+              <Text fontSize="$1" opacity={0.7}>
+                {`${new Date(event.at).toLocaleTimeString()} · ${
+                  event.mode === 'strict' ? 'request failed' : 'data returned'
+                }`}
+              </Text>
+              {event.entries.map((entry, index) => (
+                <Text key={index} fontSize="$2">
+                  {`${entry.path}: expected ${entry.expected}, received ${entry.received}`}
+                </Text>
+              ))}
+            </YStack>
+          ))}
+        </YStack>
+      </ScrollView>
+    </YStack>
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * @file packages/shared/src/env.ts
+ * @description Declares the public build-time environment variables the shared code reads.
+ *
+ * Next.js and Expo copy `NEXT_PUBLIC_*` / `EXPO_PUBLIC_*` variables into the app bundle when
+ * building, by replacing each `process.env.NAME` with its value. Expo only recognizes that dot
+ * form: `process.env['EXPO_PUBLIC_API_HOST']` is left untouched and is `undefined` on a device.
+ * Declaring the names on `NodeJS.ProcessEnv` lets the dot form pass the
+ * `noPropertyAccessFromIndexSignature` check of `tsconfig.base.json`.
+ *
+ * For a learner:
+ * - Modules that read one of these variables import this file (`import '../env';`), so the
+ *   declarations are also seen when an app compiles the shared package from source.
+ * - Always spell the full name out after `process.env.`; a name built at runtime (or a
+ *   destructured `process.env`) cannot be replaced and is `undefined` in the bundle.
+ */
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace NodeJS {
+    interface ProcessEnv {
+      /** Host of the `local` API environment (see `apiEnvironments.ts`). */
+      NEXT_PUBLIC_API_HOST?: string;
+      EXPO_PUBLIC_API_HOST?: string;
+      /** Host of the `staging` API environment. */
+      NEXT_PUBLIC_STAGING_API_HOST?: string;
+      EXPO_PUBLIC_STAGING_API_HOST?: string;
+      /** Host of the `production` API environment. */
+      NEXT_PUBLIC_PRODUCTION_API_HOST?: string;
+      EXPO_PUBLIC_PRODUCTION_API_HOST?: string;
+      /** API environment used until the user picks one. */
+      NEXT_PUBLIC_API_ENV?: string;
+      EXPO_PUBLIC_API_ENV?: string;
+      /** Token storage backend (see `tokenStorage.ts`). */
+      NEXT_PUBLIC_TOKEN_STORAGE?: string;
+      EXPO_PUBLIC_TOKEN_STORAGE?: string;
+      /** Auth mode, `token` or `cookie` (see `authMode.ts`). */
+      NEXT_PUBLIC_AUTH_MODE?: string;
+      EXPO_PUBLIC_AUTH_MODE?: string;
+      /** Schema validation mode, `strict`, `warn` or `off` (see `schemaDrift.ts`). */
+      NEXT_PUBLIC_SCHEMA_VALIDATION?: string;
+      EXPO_PUBLIC_SCHEMA_VALIDATION?: string;
+    }
+  }
+}
+
+export {};
@@ -8,12 +8,17 @@
  *
  * For a learner:
  * - This file shows how to specifically parse and format errors from the Zod library.
- * - It demonstrates handling different error types (`ZodError`, generic `Error`, Axios-like errors).
- * - Note the potential overlap and areas for simplification when comparing this file with
- *   `useFormErrors.ts` and `errorLogger.ts` regarding API error handling (especially Laravel validation).
- *   A real-world refactor might consolidate this logic.
+ * - It demonstrates handling different error types (`ZodError` from client-side validation and
+ *   the typed API errors from `services/apiErrors.ts`).
+ * - API errors are read in exactly one place: `mapErrorToFields` turns a `ValidationError` into
+ *   field errors, and `getUserFriendlyMessage` describes everything else (both in `errorLogger.ts`).
  */
 import { z } from 'zod'; // Zod is used for type checking (`instanceof`) and accessing error details.
+import { AuthError } from './services/apiErrors';
+import {
+  getUserFriendlyMessage,
+  mapErrorToFields,
+} from './services/errorLogger';
 
 /**
  * Formats a Zod validation error (`z.ZodError`) into a user-friendly
@@ -116,20 +121,13 @@ export function getFieldError(
  * Processes an unknown error, attempting to format it into the `FormErrors` structure
  * ({ fieldErrors?: ..., generalError?: ... }).
  *
- * This function acts as a general error handler, checking for specific error types
- * like ZodError or Axios/Laravel validation errors, and providing fallbacks.
+ * This function acts as a general error handler: client-side `ZodError`s and API
+ * `ValidationError`s become field errors, and every other error becomes a general message.
  *
  * @param error - The error object to handle (can be `unknown`).
  * @param isAuthError - Optional flag to indicate if the context is authentication-related,
  *                      which might influence generic error messages. Defaults to `false`.
  * @returns An object conforming to `FormErrors`.
- *
- * @learningNote There is significant overlap between this function, `mapErrorToFields` (in `errorLogger.ts`),
- *               and the main `handleError` function within the `useFormErrors` hook. All three handle
- *               Zod errors and/or Laravel validation errors. This suggests the error handling strategy
- *               could potentially be simplified or consolidated in a future refactor. For example,
- *               `useFormErrors` might primarily use `mapErrorToFields` for API errors and this function
- *               might be simplified or deprecated.
  */
 export function handleFormError(
   error: unknown,
@@ -156,48 +154,18 @@ export function handleFormError(
     // For general validation errors, format them into field-specific messages.
     return { fieldErrors: formatZodErrors(error) };
   }
-  // 2. Handle Generic Errors (Potentially API errors)
-  else if (error instanceof Error) {
-    // Attempt to parse as an Axios error containing Laravel validation errors.
-    // NOTE: This duplicates logic found in `mapErrorToFields` in `errorLogger.ts`.
-    const axiosError = error as any; // Use type assertion cautiously
-    if (
-      axiosError.response?.data?.errors &&
-      typeof axiosError.response.data.errors === 'object'
-    ) {
-      const responseData = axiosError.response.data;
-      const fieldErrors: Record<string, string> = {};
-      let hasFieldErrors = false;
-      // Convert Laravel validation errors { field: ["message"] } to { field: "message" }
-      Object.entries(responseData.errors).forEach(([field, messages]) => {
-        if (
-          Array.isArray(messages) &&
-          messages.length > 0 &&
-          typeof messages[0] === 'string'
-        ) {
-          fieldErrors[field] = messages[0];
-          hasFieldErrors = true;
-        }
-      });
-      if (hasFieldErrors) {
-        return { fieldErrors };
-      }
-      // If responseData.errors exists but is empty or malformed, fall through.
-    }
 
-    // If not a recognized Laravel validation structure, return a general error.
-    // Use a specific message for auth contexts if `isAuthError` is true.
-    if (isAuthError) {
-      // Consider using `getUserFriendlyMessage(error)` here too for consistency?
-      return { generalError: 'Authentication failed. Please try again.' };
-    }
-    // Otherwise, use the generic Error message (might be technical).
-    // `getUserFriendlyMessage(error)` could provide a better fallback here.
-    return { generalError: error.message || 'An error occurred.' };
+  // 2. Handle API validation errors (422): one message per field.
+  const fieldErrors = mapErrorToFields(error);
+  if (fieldErrors) {
+    return { fieldErrors };
   }
-  // 3. Handle Unknown Errors (Fallback)
-  else {
-    // If the error is not an instance of Error (e.g., a string was thrown).
-    return { generalError: 'An unexpected error occurred. Please try again.' };
+
+  // 3. On login/registration forms, a rejected session gets a message about signing in.
+  if (isAuthError && error instanceof AuthError) {
+    return { generalError: 'Authentication failed. Please try again.' };
   }
+
+  // 4. Everything else (network problems, server errors, ...) becomes a general message.
+  return { generalError: getUserFriendlyMessage(error) };
 }
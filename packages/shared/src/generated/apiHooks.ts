@@ -0,0 +1,397 @@
+/**
+ * @file packages/shared/src/generated/apiHooks.ts
+ * @description TanStack Query hooks for every API endpoint, generated from the OpenAPI spec.
+ *
+ * DO NOT EDIT: this file is written by `packages/api-types/scripts/generate-api-hooks.js`
+ * whenever `yarn generate-api-types` (or `yarn sync-api`) runs.
+ *
+ * - `use<Alias>Query` for each GET endpoint, e.g., `useNoteIndexQuery(queries)`.
+ * - `use<Alias>Mutation` for each POST/PUT/PATCH/DELETE endpoint, e.g.,
+ *   `useNoteUpdateMutation()`, called as `mutate({ params: { note: 3 }, body })`.
+ * - `apiQueryKeys`: the query keys of each resource (the first path segment, e.g., `notes`).
+ * - `apiInvalidationRules`: the queries each mutation invalidates when it succeeds. By default
+ *   a write invalidates every query of its resource (`['notes']` after `note.update`).
+ *
+ * For a learner:
+ * - The hooks call the same client as `apiClient` (`getBaseClient()`), so requests get the
+ *   auth token, retries, typed errors and response checks described in `apiClient.ts`.
+ * - Request and response types come from `@hello-world/api-types` (`ApiResponse<'note.index'>`
+ *   and friends), so they follow the spec without being written by hand.
+ * - Hand-written hooks (e.g., `useNotes.ts`) use the same resource keys (`['notes']`), so
+ *   invalidating a resource refreshes both.
+ */
+import {
+  QueryClient,
+  QueryKey,
+  useMutation,
+  UseMutationOptions,
+  useQuery,
+  useQueryClient,
+  UseQueryOptions,
+} from '@tanstack/react-query';
+import type {
+  ApiAlias,
+  ApiPathParams,
+  ApiQueryParams,
+  ApiRequestBody,
+  ApiResponse,
+} from '@hello-world/api-types';
+import { getBaseClient } from '../apiClient';
+
+/** Options of a generated query hook; the query key and function are filled in. */
+export type ApiQueryOptions<A extends ApiAlias> = Omit<
+  UseQueryOptions<ApiResponse<A>, Error>,
+  'queryKey' | 'queryFn'
+>;
+
+/** Options of a generated mutation hook; the mutation function is filled in. */
+export type ApiMutationOptions<A extends ApiAlias, Variables> = Omit<
+  UseMutationOptions<ApiResponse<A>, Error, Variables>,
+  'mutationFn'
+>;
+
+/** The alias of every endpoint that has a mutation hook. */
+export type ApiMutationAlias =
+  | 'auth.register'
+  | 'auth.login'
+  | 'auth.refresh'
+  | 'auth.logout'
+  | 'note.store'
+  | 'note.update'
+  | 'note.destroy'
+  | 'tag.store'
+  | 'tag.update'
+  | 'tag.destroy';
+
+// --- Query Keys ---
+
+/** Query keys per resource. `all` matches every query of the resource. */
+export const apiQueryKeys = {
+  auth: {
+    all: ['auth'] as const,
+    user: () => ['auth', 'user'] as const,
+  },
+  notes: {
+    all: ['notes'] as const,
+    index: (queries: ApiQueryParams<'note.index'> = {}) =>
+      ['notes', 'index', queries] as const,
+    mine: (queries: ApiQueryParams<'note.mine'> = {}) =>
+      ['notes', 'mine', queries] as const,
+  },
+  tags: {
+    all: ['tags'] as const,
+    index: () => ['tags', 'index'] as const,
+  },
+};
+
+// --- Invalidation Rules ---
+
+/** The queries each mutation invalidates when it succeeds. */
+export const apiInvalidationRules: Record<
+  ApiMutationAlias,
+  readonly QueryKey[]
+> = {
+  'auth.register': [apiQueryKeys.auth.all],
+  'auth.login': [apiQueryKeys.auth.all],
+  'auth.refresh': [apiQueryKeys.auth.all],
+  'auth.logout': [apiQueryKeys.auth.all],
+  'note.store': [apiQueryKeys.notes.all],
+  'note.update': [apiQueryKeys.notes.all],
+  'note.destroy': [apiQueryKeys.notes.all],
+  'tag.store': [apiQueryKeys.tags.all],
+  'tag.update': [apiQueryKeys.tags.all],
+  'tag.destroy': [apiQueryKeys.tags.all],
+};
+
+// Invalidates the queries a successful mutation may have changed.
+function invalidateAfter(queryClient: QueryClient, alias: ApiMutationAlias) {
+  return Promise.all(
+    apiInvalidationRules[alias].map((queryKey) =>
+      queryClient.invalidateQueries({ queryKey })
+    )
+  );
+}
+
+// --- Queries ---
+
+/**
+ * `GET /auth/user` (`auth.user`).
+ * Get authenticated user details.
+ */
+export function useAuthUserQuery(options: ApiQueryOptions<'auth.user'> = {}) {
+  return useQuery({
+    ...options,
+    queryKey: apiQueryKeys.auth.user(),
+    queryFn: ({ signal }) => getBaseClient()['auth.user']({ signal }),
+  });
+}
+
+/**
+ * `GET /notes` (`note.index`).
+ * List notes with their authors, one page at a time.
+ */
+export function useNoteIndexQuery(
+  queries: ApiQueryParams<'note.index'> = {},
+  options: ApiQueryOptions<'note.index'> = {}
+) {
+  return useQuery({
+    ...options,
+    queryKey: apiQueryKeys.notes.index(queries),
+    queryFn: ({ signal }) => getBaseClient()['note.index']({ queries, signal }),
+  });
+}
+
+/**
+ * `GET /notes/mine` (`note.mine`).
+ * List the authenticated user's own notes, one page at a time.
+ */
+export function useNoteMineQuery(
+  queries: ApiQueryParams<'note.mine'> = {},
+  options: ApiQueryOptions<'note.mine'> = {}
+) {
+  return useQuery({
+    ...options,
+    queryKey: apiQueryKeys.notes.mine(queries),
+    queryFn: ({ signal }) => getBaseClient()['note.mine']({ queries, signal }),
+  });
+}
+
+/**
+ * `GET /tags` (`tag.index`).
+ * List the authenticated user's tags, alphabetically, with the number of notes using each.
+ */
+export function useTagIndexQuery(options: ApiQueryOptions<'tag.index'> = {}) {
+  return useQuery({
+    ...options,
+    queryKey: apiQueryKeys.tags.index(),
+    queryFn: ({ signal }) => getBaseClient()['tag.index']({ signal }),
+  });
+}
+
+// --- Mutations ---
+
+/** Variables of `useAuthRegisterMutation`. */
+export type AuthRegisterVariables = { body: ApiRequestBody<'auth.register'> };
+
+/**
+ * `POST /auth/register` (`auth.register`).
+ * Register a new user.
+ */
+export function useAuthRegisterMutation(
+  options: ApiMutationOptions<'auth.register', AuthRegisterVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ body }: AuthRegisterVariables) =>
+      getBaseClient()['auth.register'](body),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'auth.register');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
+
+/** Variables of `useAuthLoginMutation`. */
+export type AuthLoginVariables = { body: ApiRequestBody<'auth.login'> };
+
+/**
+ * `POST /auth/login` (`auth.login`).
+ * Login user and create authentication token.
+ */
+export function useAuthLoginMutation(
+  options: ApiMutationOptions<'auth.login', AuthLoginVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ body }: AuthLoginVariables) =>
+      getBaseClient()['auth.login'](body),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'auth.login');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
+
+/** Variables of `useAuthRefreshMutation`. */
+export type AuthRefreshVariables = { body: ApiRequestBody<'auth.refresh'> };
+
+/**
+ * `POST /auth/refresh` (`auth.refresh`).
+ * Exchange a refresh token for a new access/refresh token pair.
+ */
+export function useAuthRefreshMutation(
+  options: ApiMutationOptions<'auth.refresh', AuthRefreshVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ body }: AuthRefreshVariables) =>
+      getBaseClient()['auth.refresh'](body),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'auth.refresh');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
+
+/** Variables of `useAuthLogoutMutation`. */
+export type AuthLogoutVariables = { body: ApiRequestBody<'auth.logout'> };
+
+/**
+ * `POST /auth/logout` (`auth.logout`).
+ * Logout user (revoke token).
+ */
+export function useAuthLogoutMutation(
+  options: ApiMutationOptions<'auth.logout', AuthLogoutVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ body }: AuthLogoutVariables) =>
+      getBaseClient()['auth.logout'](body),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'auth.logout');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
+
+/** Variables of `useNoteStoreMutation`. */
+export type NoteStoreVariables = { body: ApiRequestBody<'note.store'> };
+
+/**
+ * `POST /notes` (`note.store`).
+ * Create a new note for the authenticated user.
+ */
+export function useNoteStoreMutation(
+  options: ApiMutationOptions<'note.store', NoteStoreVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ body }: NoteStoreVariables) =>
+      getBaseClient()['note.store'](body),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'note.store');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
+
+/** Variables of `useNoteUpdateMutation`. */
+export type NoteUpdateVariables = {
+  params: ApiPathParams<'note.update'>;
+  body: ApiRequestBody<'note.update'>;
+};
+
+/**
+ * `PUT /notes/{note}` (`note.update`).
+ * Update an existing note owned by the authenticated user.
+ */
+export function useNoteUpdateMutation(
+  options: ApiMutationOptions<'note.update', NoteUpdateVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ params, body }: NoteUpdateVariables) =>
+      getBaseClient()['note.update'](body, { params }),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'note.update');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
+
+/** Variables of `useNoteDestroyMutation`. */
+export type NoteDestroyVariables = { params: ApiPathParams<'note.destroy'> };
+
+/**
+ * `DELETE /notes/{note}` (`note.destroy`).
+ * Delete a note owned by the authenticated user.
+ */
+export function useNoteDestroyMutation(
+  options: ApiMutationOptions<'note.destroy', NoteDestroyVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ params }: NoteDestroyVariables) =>
+      getBaseClient()['note.destroy'](undefined, { params }),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'note.destroy');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
+
+/** Variables of `useTagStoreMutation`. */
+export type TagStoreVariables = { body: ApiRequestBody<'tag.store'> };
+
+/**
+ * `POST /tags` (`tag.store`).
+ * Create a tag for the authenticated user.
+ */
+export function useTagStoreMutation(
+  options: ApiMutationOptions<'tag.store', TagStoreVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ body }: TagStoreVariables) =>
+      getBaseClient()['tag.store'](body),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'tag.store');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
+
+/** Variables of `useTagUpdateMutation`. */
+export type TagUpdateVariables = {
+  params: ApiPathParams<'tag.update'>;
+  body: ApiRequestBody<'tag.update'>;
+};
+
+/**
+ * `PUT /tags/{tag}` (`tag.update`).
+ * Rename a tag owned by the authenticated user. Notes keep the tag under its new name.
+ */
+export function useTagUpdateMutation(
+  options: ApiMutationOptions<'tag.update', TagUpdateVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ params, body }: TagUpdateVariables) =>
+      getBaseClient()['tag.update'](body, { params }),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'tag.update');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
+
+/** Variables of `useTagDestroyMutation`. */
+export type TagDestroyVariables = { params: ApiPathParams<'tag.destroy'> };
+
+/**
+ * `DELETE /tags/{tag}` (`tag.destroy`).
+ * Delete a tag owned by the authenticated user.
+ */
+export function useTagDestroyMutation(
+  options: ApiMutationOptions<'tag.destroy', TagDestroyVariables> = {}
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...options,
+    mutationFn: ({ params }: TagDestroyVariables) =>
+      getBaseClient()['tag.destroy'](undefined, { params }),
+    onSuccess: async (...args) => {
+      await invalidateAfter(queryClient, 'tag.destroy');
+      return options.onSuccess?.(...args);
+    },
+  });
+}
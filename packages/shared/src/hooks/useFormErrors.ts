@@ -10,7 +10,8 @@
  * Key features:
  * - Manages `fieldErrors` (errors specific to individual form inputs) and `generalError` (form-wide messages).
  * - Provides a `handleError` function that intelligently processes different error types.
- * - Integrates with logging services (`logError`) and error parsing utilities (`mapErrorToFields`, `handleFormError`).
+ * - Integrates with logging services (`logError`) and the shared error formatter (`handleFormError`),
+ *   which reads the typed API errors from `services/apiErrors.ts`.
  * - Offers utility functions to set, clear, and retrieve errors.
  *
  * For a learner:
@@ -21,12 +22,11 @@
  */
 import { useState } from 'react';
 import { z } from 'zod'; // Used for checking if an error is a ZodError instance.
-import { handleFormError } from '../errorUtils'; // Utility for more generic API error formatting.
+import { handleFormError } from '../errorUtils'; // Turns API errors into field errors or a general message.
+import { isApiError } from '../services/apiErrors'; // Typed API errors, for logging context.
 import {
   logError, // Centralized error logging service.
   ErrorSeverity,
-  mapErrorToFields, // Utility to map structured API errors (e.g., Laravel validation) to field errors.
-  getUserFriendlyMessage, // Utility to get a generic user-friendly message.
 } from '../services/errorLogger';
 
 /**
@@ -103,9 +103,9 @@ export function useFormErrors() {
    * The function follows a priority:
    * 1. Logs the raw error for debugging/monitoring.
    * 2. If it's a `z.ZodError` (client-side validation), extracts field-specific errors.
-   * 3. If not Zod, tries `mapErrorToFields` for structured API validation errors (e.g., Laravel).
-   * 4. If still no field errors, uses `handleFormError` for more generic API error formatting.
-   * 5. As an absolute fallback, uses `getUserFriendlyMessage` for a generic message.
+   * 3. Otherwise hands the error to `handleFormError`, which maps an API `ValidationError` to
+   *    field errors and describes any other error with `getUserFriendlyMessage`. Every form
+   *    therefore shows the same feedback for the same API error.
    *
    * @param error - The error object to handle (can be `unknown`).
    * @param isAuthError - Optional boolean indicating if the error is related to authentication.
@@ -125,8 +125,9 @@ export function useFormErrors() {
           context.action || (isAuthError ? 'Authentication' : 'FormSubmission'), // Default action context.
         additionalData: {
           isAuthError,
-          // Attempt to include response data if available (common for Axios errors).
-          responseData: (error as any).response?.data,
+          // The typed API error's kind and status (e.g., `validation`, 422), if it is one.
+          apiErrorKind: isApiError(error) ? error.kind : undefined,
+          statusCode: isApiError(error) ? error.status : undefined,
           errorObject: error, // The raw error object.
         },
       });
@@ -155,39 +156,8 @@ export function useFormErrors() {
         return; // Error handled.
       }
 
-      // 2. If not a ZodError, try to map structured API errors (e.g., Laravel validation)
-      // using `mapErrorToFields`. This utility is expected to understand specific backend error formats.
-      const fieldErrorsFromMapper = mapErrorToFields(error);
-      if (
-        fieldErrorsFromMapper && // Ensure it's not null/undefined.
-        typeof fieldErrorsFromMapper === 'object' && // Ensure it's an object.
-        Object.keys(fieldErrorsFromMapper).length > 0 // Ensure it has at least one error.
-      ) {
-        setErrors({
-          fieldErrors: fieldErrorsFromMapper,
-          generalError: undefined,
-        });
-        return; // Error handled.
-      }
-
-      // 3. If `mapErrorToFields` didn't produce field errors, try a more generic
-      // API error formatter `handleFormError` (from `errorUtils.ts`).
-      // This might extract a general message or attempt to find field errors from less structured responses.
-      const formattedGenericErrors = handleFormError(error, isAuthError);
-      if (
-        formattedGenericErrors.fieldErrors ||
-        formattedGenericErrors.generalError
-      ) {
-        setErrors(formattedGenericErrors);
-        return; // Error handled.
-      }
-
-      // 4. As an absolute fallback, if no specific errors could be parsed,
-      // set a general error message using `getUserFriendlyMessage`.
-      setErrors({
-        fieldErrors: undefined, // Clear any previous field errors.
-        generalError: getUserFriendlyMessage(error),
-      });
+      // 2. API and other errors: field errors for a `ValidationError`, a general message otherwise.
+      setErrors(handleFormError(error, isAuthError));
     } catch (e) {
       // Safeguard: If the `handleError` logic itself throws an error,
       // log it and set a very generic error message to prevent crashing the app.
@@ -0,0 +1,38 @@
+/**
+ * @file packages/shared/src/hooks/useSecretTaps.ts
+ * @description Detects a quick series of taps, used to open hidden developer tools.
+ *
+ * Tapping the element `taps` times within `withinMs` calls `onTrigger`. Regular users never
+ * tap a title five times in a row, so this keeps the developer menu out of their way without
+ * needing a separate build.
+ *
+ * For a learner:
+ * - The tap times are kept in a ref rather than state: they don't affect what is rendered,
+ *   so updating them shouldn't cause a re-render.
+ */
+import { useCallback, useRef } from 'react';
+
+/**
+ * @param onTrigger - Called once the tap sequence is complete.
+ * @param options.taps - Number of taps required (default 5).
+ * @param options.withinMs - Time window for all taps, in milliseconds (default 3000).
+ * @returns A press handler to pass to the element's `onPress`.
+ */
+export function useSecretTaps(
+  onTrigger: () => void,
+  { taps = 5, withinMs = 3000 }: { taps?: number; withinMs?: number } = {}
+) {
+  const tapTimes = useRef<number[]>([]);
+
+  return useCallback(() => {
+    const now = Date.now();
+    tapTimes.current = [
+      ...tapTimes.current.filter((time) => now - time < withinMs),
+      now,
+    ];
+    if (tapTimes.current.length >= taps) {
+      tapTimes.current = [];
+      onTrigger();
+    }
+  }, [onTrigger, taps, withinMs]);
+}
@@ -1,7 +1,26 @@
-export * from './apiClient.example'; // Add this line
+export * from './apiClient'; // The API client built on the generated endpoints
+export * from './generated/apiHooks'; // Query and mutation hooks generated from the OpenAPI spec
 export * from './errorUtils';
 export * from './hooks/useFormErrors';
+export * from './hooks/useSecretTaps';
 export * from './services/errorLogger';
+export * from './services/errorTransports';
+export * from './services/connectivity';
+export * from './services/sessionEvents';
+export * from './services/tokenRefresh';
+export * from './services/authMode'; // Bearer tokens or a cookie session
+export * from './services/csrf'; // CSRF token for cookie auth
+export * from './services/requestPolicy';
+export * from './services/apiInterceptors';
+export * from './services/apiErrors';
+export * from './services/schemaDrift';
+export * from './services/apiEnvironments';
 export * from './components/PageTransition';
+export * from './components/DeveloperMenu';
+export * from './components/SchemaDriftOverlay';
 export * from './stores/tokenStore'; // Export the token store
+export * from './stores/tokenStorage'; // Storage backends for the token store
+export * from './stores/apiEnvironmentStore'; // API environment chosen in the developer menu
+export * from './stores/mutationQueueStore'; // Offline mutation queue
+export * from './stores/schemaDriftStore'; // Response schema drift events
 // export * from './types'; // Example for later
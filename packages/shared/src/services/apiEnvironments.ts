@@ -0,0 +1,113 @@
+/**
+ * @file packages/shared/src/services/apiEnvironments.ts
+ * @description The API environments the apps can talk to, resolved at runtime.
+ *
+ * Instead of baking a single API host into each build, the apps pick one of these
+ * environments while running:
+ * - `local`: A Laravel API on the developer's machine (`http://localhost:8000` by default).
+ * - `staging` / `production`: Hosts supplied through environment variables at build time.
+ *   An environment whose variable is not set is listed as unavailable.
+ * - `custom`: Any URL typed into the developer menu, e.g., a teammate's machine on the LAN.
+ *
+ * The choice is stored per device in `useApiEnvironmentStore` and applied to the API client
+ * with `configureApiClient()`. A signed-in account always talks to the host it signed in to
+ * (see `AuthSession.apiHost`), so `resolveActiveApiHost()` in `apiEnvironmentStore.ts` prefers
+ * the active session's host.
+ *
+ * Environment variables (Next.js reads `NEXT_PUBLIC_*`, Expo reads `EXPO_PUBLIC_*`):
+ * - `*_API_HOST`: Host of the `local` environment.
+ * - `*_STAGING_API_HOST`, `*_PRODUCTION_API_HOST`: Hosts of the remote environments.
+ * - `*_API_ENV`: Environment used until the user picks one (`local` if unset).
+ *
+ * For a learner:
+ * - Next.js and Expo replace `process.env.NEXT_PUBLIC_...` with its value when building. They
+ *   only recognize the dot form with the full name spelled out (see `env.ts`): the bracket form
+ *   or a name built at runtime would be `undefined` in the bundle.
+ */
+import '../env';
+
+/** Identifier of an API environment. */
+export type ApiEnvironmentId = 'local' | 'staging' | 'production' | 'custom';
+
+/**
+ * One predefined API environment.
+ * - `host`: Base host without the `/api` suffix, or `null` if it isn't configured in this build.
+ */
+export interface ApiEnvironment {
+  id: Exclude<ApiEnvironmentId, 'custom'>;
+  label: string;
+  host: string | null;
+}
+
+// Host of the local environment. `NEXT_PUBLIC_API_HOST` keeps working as before.
+const LOCAL_API_HOST =
+  process.env.NEXT_PUBLIC_API_HOST ||
+  process.env.EXPO_PUBLIC_API_HOST ||
+  'http://localhost:8000';
+
+/** Every predefined environment, in the order shown in the developer menu. */
+export const API_ENVIRONMENTS: readonly ApiEnvironment[] = [
+  { id: 'local', label: 'Local', host: LOCAL_API_HOST },
+  {
+    id: 'staging',
+    label: 'Staging',
+    host:
+      process.env.NEXT_PUBLIC_STAGING_API_HOST ||
+      process.env.EXPO_PUBLIC_STAGING_API_HOST ||
+      null,
+  },
+  {
+    id: 'production',
+    label: 'Production',
+    host:
+      process.env.NEXT_PUBLIC_PRODUCTION_API_HOST ||
+      process.env.EXPO_PUBLIC_PRODUCTION_API_HOST ||
+      null,
+  },
+];
+
+const isApiEnvironmentId = (value: unknown): value is ApiEnvironmentId =>
+  value === 'custom' ||
+  API_ENVIRONMENTS.some((environment) => environment.id === value);
+
+/** The environment used on a device where none has been picked yet. */
+export const DEFAULT_API_ENVIRONMENT_ID: ApiEnvironmentId = (() => {
+  const configured =
+    process.env.NEXT_PUBLIC_API_ENV || process.env.EXPO_PUBLIC_API_ENV;
+  return isApiEnvironmentId(configured) ? configured : 'local';
+})();
+
+/**
+ * Cleans up a user-entered API host: trims it, removes trailing slashes and a trailing `/api`
+ * (the client adds that itself).
+ *
+ * @param url - The URL typed by the user, e.g., `https://staging.example.com/api/`.
+ * @returns The normalized host, or `null` if it isn't an absolute `http(s)` URL.
+ */
+export function normalizeApiHost(url: string): string | null {
+  const trimmed = url
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\/api$/i, '');
+  // A regex rather than `new URL()`, whose support is incomplete on React Native.
+  return /^https?:\/\/[^\s/?#]+(\/[^\s?#]*)?$/i.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Returns the host of an environment choice, falling back to the local environment when the
+ * chosen one is not configured in this build (or the custom URL is invalid).
+ *
+ * @param selection - The environment ID and, for `custom`, the URL entered by the user.
+ */
+export function resolveEnvironmentHost(selection: {
+  environmentId: ApiEnvironmentId;
+  customHost: string;
+}): string {
+  if (selection.environmentId === 'custom') {
+    return normalizeApiHost(selection.customHost) ?? LOCAL_API_HOST;
+  }
+  const environment = API_ENVIRONMENTS.find(
+    ({ id }) => id === selection.environmentId
+  );
+  return environment?.host ?? LOCAL_API_HOST;
+}
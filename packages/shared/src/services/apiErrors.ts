@@ -0,0 +1,280 @@
+/**
+ * @file packages/shared/src/services/apiErrors.ts
+ * @description Typed errors for failed API requests.
+ *
+ * The API client passes every failure through `normalizeApiError` in its axios response
+ * interceptor (see `apiInterceptors.ts`), so callers never have to dig through
+ * `error.response.data` themselves. They receive one of the classes below instead, told
+ * apart by `kind`:
+ *
+ * | kind              | class                 | when                                         |
+ * | ----------------- | --------------------- | -------------------------------------------- |
+ * | `validation`      | `ValidationError`     | 422, with every field's messages             |
+ * | `auth`            | `AuthError`           | 401 (not signed in) or 403 (not allowed)     |
+ * | `not_found`       | `NotFoundError`       | 404                                          |
+ * | `rate_limit`      | `RateLimitError`      | 429, with the server's `Retry-After`         |
+ * | `server`          | `ServerError`         | 5xx, or any other unexpected status          |
+ * | `network`         | `NetworkError`        | no response at all (offline, DNS, CORS)      |
+ * | `schema_mismatch` | `SchemaMismatchError` | a response body that isn't in the shape the |
+ * |                   |                       | API contract (`@hello-world/api-types`) says |
+ *
+ * Timeouts and cancelled requests keep their own classes, `TimeoutError` and `AbortedError`
+ * (see `requestPolicy.ts`). Client-side validation (`ZodError` from a request schema) is not
+ * an API error and is passed through unchanged.
+ *
+ * For a learner:
+ * - `ApiError` is a *discriminated union*: checking `error.kind === 'validation'` narrows the
+ *   type, so TypeScript knows `error.fieldErrors` exists. A `switch (error.kind)` that forgets
+ *   a case can be caught at compile time.
+ * - Error bodies are validated against `ValidationErrorResponseSchema` and
+ *   `ErrorMessageResponseSchema`. A 422 without a proper `errors` object becomes a
+ *   `SchemaMismatchError` rather than an empty list of field errors.
+ */
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { z } from 'zod';
+import {
+  ValidationErrorResponseSchema,
+  ErrorMessageResponseSchema,
+} from '@hello-world/api-types/src/errorSchemas';
+import { parseRetryAfter } from './requestPolicy';
+
+/** What every typed API error has in common. */
+abstract class BaseApiError extends Error {
+  abstract readonly kind: string;
+
+  constructor(
+    message: string,
+    /** The request that failed, e.g., `PUT /notes/3`. */
+    readonly request: string,
+    /** HTTP status of the response, if one was received. */
+    readonly status: number | undefined,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+  }
+}
+
+/** The API rejected the submitted data (422). */
+export class ValidationError extends BaseApiError {
+  readonly kind = 'validation';
+  override readonly name = 'ValidationError';
+
+  constructor(
+    message: string,
+    request: string,
+    /** Every invalid field with all of its messages, e.g., `{ email: ['...'] }`. */
+    readonly fieldErrors: Record<string, string[]>,
+    options?: { cause?: unknown }
+  ) {
+    super(message, request, 422, options);
+  }
+}
+
+/** The user is not signed in (401) or not allowed to do this (403). */
+export class AuthError extends BaseApiError {
+  readonly kind = 'auth';
+  override readonly name = 'AuthError';
+
+  constructor(
+    message: string,
+    request: string,
+    override readonly status: 401 | 403,
+    options?: { cause?: unknown }
+  ) {
+    super(message, request, status, options);
+  }
+}
+
+/** The requested resource doesn't exist, or is not visible to the user (404). */
+export class NotFoundError extends BaseApiError {
+  readonly kind = 'not_found';
+  override readonly name = 'NotFoundError';
+
+  constructor(message: string, request: string, options?: { cause?: unknown }) {
+    super(message, request, 404, options);
+  }
+}
+
+/** Too many requests (429). Retrying is fine after `retryAfterMs`, if the server said. */
+export class RateLimitError extends BaseApiError {
+  readonly kind = 'rate_limit';
+  override readonly name = 'RateLimitError';
+
+  constructor(
+    message: string,
+    request: string,
+    readonly retryAfterMs: number | undefined,
+    options?: { cause?: unknown }
+  ) {
+    super(message, request, 429, options);
+  }
+}
+
+/** The server failed (5xx) or answered with a status the app doesn't expect. */
+export class ServerError extends BaseApiError {
+  readonly kind = 'server';
+  override readonly name = 'ServerError';
+}
+
+/** The request was sent, but no response arrived (offline, DNS failure, CORS, server down). */
+export class NetworkError extends BaseApiError {
+  readonly kind = 'network';
+  override readonly name = 'NetworkError';
+
+  constructor(message: string, request: string, options?: { cause?: unknown }) {
+    super(message, request, undefined, options);
+  }
+}
+
+/** The API answered with a body that doesn't match the contract in `@hello-world/api-types`. */
+export class SchemaMismatchError extends BaseApiError {
+  readonly kind = 'schema_mismatch';
+  override readonly name = 'SchemaMismatchError';
+
+  constructor(
+    request: string,
+    status: number | undefined,
+    /** Where the body differs from the schema. */
+    readonly issues: z.ZodIssue[],
+    /** The body as received. */
+    readonly data: unknown,
+    options?: { cause?: unknown }
+  ) {
+    super(
+      `Unexpected response from ${request}: ${issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')}`,
+      request,
+      status,
+      options
+    );
+  }
+}
+
+/** Any typed API error. Switch on `kind` to handle each case. */
+export type ApiError =
+  | ValidationError
+  | AuthError
+  | NotFoundError
+  | RateLimitError
+  | ServerError
+  | NetworkError
+  | SchemaMismatchError;
+
+/** The `kind` of each `ApiError`, e.g., `'validation'`. */
+export type ApiErrorKind = ApiError['kind'];
+
+/** True if `error` is one of the typed API errors above. */
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof BaseApiError;
+}
+
+const describeRequest = (
+  config: { method?: string; url?: string } | undefined
+) => `${(config?.method ?? 'GET').toUpperCase()} ${config?.url ?? 'unknown'}`;
+
+// Turns an axios error that has a response into the matching typed error.
+function fromResponse(error: AxiosError, response: AxiosResponse): ApiError {
+  const request = describeRequest(error.config);
+  const { status, data } = response;
+  const options = { cause: error };
+
+  if (status === 422) {
+    const body = ValidationErrorResponseSchema.safeParse(data);
+    return body.success
+      ? new ValidationError(
+          body.data.message,
+          request,
+          body.data.errors,
+          options
+        )
+      : new SchemaMismatchError(
+          request,
+          status,
+          body.error.issues,
+          data,
+          options
+        );
+  }
+
+  // Most other errors carry a `message`; fall back to a generic one if it's missing.
+  const message = ErrorMessageResponseSchema.safeParse(data);
+  const serverMessage = message.success ? message.data.message : undefined;
+
+  switch (status) {
+    case 401:
+    case 403:
+      // The 401 schema is part of the contract: a body without a message is a mismatch.
+      if (!message.success) {
+        return new SchemaMismatchError(
+          request,
+          status,
+          message.error.issues,
+          data,
+          options
+        );
+      }
+      return new AuthError(message.data.message, request, status, options);
+    case 404:
+      return new NotFoundError(serverMessage ?? 'Not found.', request, options);
+    case 429:
+      return new RateLimitError(
+        serverMessage ?? 'Too many requests.',
+        request,
+        parseRetryAfter(response.headers['retry-after']),
+        options
+      );
+    default:
+      return new ServerError(
+        serverMessage ?? `Request failed with status ${status}.`,
+        request,
+        status,
+        options
+      );
+  }
+}
+
+/**
+ * Converts a failed request into a typed `ApiError`.
+ * Anything that is not an API failure (already typed errors, `TimeoutError`, `AbortedError`,
+ * `ZodError` from request validation, programming errors) is returned unchanged, so it is safe
+ * to call more than once.
+ *
+ * @param error - The rejection from axios or a Zodios client.
+ */
+export function normalizeApiError(error: unknown): unknown {
+  if (isApiError(error)) return error;
+
+  if (axios.isAxiosError(error)) {
+    // Cancellations are handled by `requestPolicy.ts`; leave them alone.
+    if (error.code === AxiosError.ERR_CANCELED) return error;
+    if (error.response) return fromResponse(error, error.response);
+    return new NetworkError(
+      error.message || 'Network error',
+      describeRequest(error.config),
+      { cause: error }
+    );
+  }
+
+  // A Zodios client that validates responses itself throws a `ZodiosError` whose cause is the
+  // `ZodError`. `@zodios/core` doesn't export a type guard, so check its shape.
+  if (
+    error instanceof Error &&
+    error.message.startsWith('Zodios: Invalid response') &&
+    error.cause instanceof z.ZodError
+  ) {
+    const zodiosError = error as Error & {
+      config?: { method?: string; url?: string };
+      data?: unknown;
+    };
+    return new SchemaMismatchError(
+      describeRequest(zodiosError.config),
+      undefined,
+      error.cause.issues,
+      zodiosError.data,
+      { cause: error }
+    );
+  }
+
+  return error;
+}
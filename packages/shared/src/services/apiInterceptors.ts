@@ -0,0 +1,183 @@
+/**
+ * @file packages/shared/src/services/apiInterceptors.ts
+ * @description The axios interceptors every request of the API client runs through.
+ *
+ * `installApiInterceptors` adds, in this order:
+ * 1. Authentication: attaches the active account's access token (refreshing it first if it
+ *    is about to expire) and remembers which account sent the request. In cookie auth mode
+ *    (`authMode.ts`) the browser sends the session cookie instead, and state-changing
+ *    requests get the CSRF token (`csrf.ts`).
+ * 2. Error handling: a 401 is handed to the refresh-token flow (`tokenRefresh.ts`) and
+ *    replayed; a 419 (stale CSRF token) is replayed with a fresh one; every other failure is
+ *    logged with a severity that matches its status.
+ * 3. Timeouts, retries and cancellation (`requestPolicy.ts`).
+ * 4. Typed errors: whatever failed is turned into an `ApiError` (`apiErrors.ts`).
+ *
+ * For a learner:
+ * - Interceptors let you run code for *every* request or response in one place, instead of
+ *   repeating the same auth and error handling in each API function.
+ * - Response interceptors run in the order they were added, so the later ones see what the
+ *   earlier ones did (e.g., a 401 is refreshed before the retry logic looks at it).
+ */
+import { AxiosInstance } from 'axios';
+import { logError, ErrorSeverity } from './errorLogger'; // Centralized error logging service
+import {
+  getValidAccessToken,
+  retryWithRefreshedToken,
+  RetriableRequestConfig,
+} from './tokenRefresh'; // Refresh-token flow
+import { getAuthMode } from './authMode'; // Bearer tokens or a cookie session
+import {
+  attachXsrfToken,
+  CSRF_TOKEN_MISMATCH_STATUS,
+  retryWithFreshCsrfToken,
+} from './csrf'; // CSRF token for cookie auth
+import { installRequestPolicy } from './requestPolicy'; // Timeouts, retries and cancellation
+import { normalizeApiError } from './apiErrors'; // Typed API errors
+import { useTokenStore } from '../stores/tokenStore'; // Active session, for multi-account support
+
+/**
+ * Adds the authentication, logging, retry and error interceptors to an axios instance.
+ *
+ * @param instance - The axios instance the API client sends its requests with.
+ * @param baseURL - The API base URL (e.g., `http://localhost:8000/api`), used to refresh tokens.
+ */
+export function installApiInterceptors(
+  instance: AxiosInstance,
+  baseURL: string
+): void {
+  /**
+   * Axios Request Interceptor.
+   * This function is executed before any request is sent.
+   * Its primary purpose here is to:
+   * 1. Wait until the persisted sessions have been loaded (`awaitHydration`).
+   * 2. Retrieve the authentication token from the `useTokenStore` via `getValidAccessToken`.
+   *    If the stored `expiresAt` shows the access token has (nearly) expired, it is refreshed
+   *    first, so we don't send a request that is certain to fail with 401.
+   * 3. If a token exists, attach it to the `Authorization` header as a Bearer token.
+   * In cookie mode there is no token: the browser attaches the session cookie by itself, and
+   * only the CSRF token has to be added (`attachXsrfToken`).
+   * This is a common and clean pattern for handling authentication tokens, ensuring
+   * that all necessary requests are authenticated without repetitive logic in each API call function.
+   */
+  instance.interceptors.request.use(
+    async (config) => {
+      if (getAuthMode() === 'cookie') {
+        return attachXsrfToken(config, baseURL);
+      }
+      // On a cold start the sessions are still being loaded from storage; without waiting, the
+      // first requests would go out anonymously even though the user is signed in.
+      await useTokenStore.getState().awaitHydration();
+      // Remember which account sent the request, so a 401 is never replayed under another one
+      (config as RetriableRequestConfig)._sessionId =
+        useTokenStore.getState().activeSessionId;
+      // Get a usable token from the token store (refreshing it ahead of expiry if needed)
+      const token = await getValidAccessToken(baseURL);
+      if (token) {
+        // Attach the token for API routes that require authentication.
+        // Most authenticated routes will expect a 'Bearer' token.
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config; // The modified config must be returned.
+    },
+    (error) => {
+      // Handle request errors (e.g., network issue before sending)
+      logError(error, ErrorSeverity.ERROR, {
+        action: 'API_Request_Interceptor',
+      });
+      return Promise.reject(error);
+    }
+  );
+
+  /**
+   * Axios Response Interceptor.
+   * This function is executed when a response is received or an error occurs.
+   * It's used for global response handling:
+   * 1. Successful responses (2xx status codes) are passed through.
+   * 2. API errors are caught and processed:
+   *    - Unauthorized (401) errors are handed to `retryWithRefreshedToken`, which exchanges the
+   *      refresh token for a new access token (one refresh shared by all concurrent 401s) and
+   *      transparently replays the original request. Only when the refresh fails are the tokens
+   *      cleared and a `session_expired` event emitted (see `sessionEvents.ts`), so
+   *      UI components can redirect to the login page or show a message.
+   *      In cookie mode there is nothing to refresh: the 401 means the session cookie is gone.
+   *    - A 419 in cookie mode means the CSRF token went stale; `retryWithFreshCsrfToken`
+   *      fetches a new one and replays the request once.
+   *    - Other errors (4xx, 5xx) are logged with appropriate severity using the
+   *      centralized `logError` service, providing context like URL, method, and status code.
+   *    - In development, errors are also logged to the console for immediate visibility.
+   * 3. The error is re-rejected (`Promise.reject(error)`), allowing individual API call sites
+   *    or UI components to implement specific error handling logic if needed (e.g., displaying
+   *    a user-friendly message for a particular failed request).
+   */
+  instance.interceptors.response.use(
+    (response) => response, // Pass through successful responses
+    (error) => {
+      const requestUrl = error.config?.url || 'unknown_url';
+      const requestMethod =
+        error.config?.method?.toUpperCase() || 'UNKNOWN_METHOD';
+      const statusCode = error.response?.status;
+
+      if (statusCode === 401) {
+        logError(error, ErrorSeverity.WARNING, {
+          action: 'API_Unauthorized_Response',
+          additionalData: {
+            url: requestUrl,
+            method: requestMethod,
+            statusCode,
+          },
+        });
+        if (getAuthMode() === 'cookie') {
+          return Promise.reject(error);
+        }
+        // Try to renew the session and replay the request. If this resolves, the caller
+        // receives the replayed response as if nothing happened. If it rejects, the session
+        // has been cleared and `session_expired` emitted; the 401 is passed on to the caller.
+        return retryWithRefreshedToken(instance, error, baseURL);
+      } else if (
+        statusCode === CSRF_TOKEN_MISMATCH_STATUS &&
+        getAuthMode() === 'cookie'
+      ) {
+        return retryWithFreshCsrfToken(instance, error, baseURL);
+      } else {
+        let severity = ErrorSeverity.ERROR;
+        if (statusCode >= 500) {
+          severity = ErrorSeverity.CRITICAL; // Server-side errors
+        } else if (statusCode >= 400 && statusCode < 500) {
+          severity = ErrorSeverity.WARNING; // Client-side request errors (e.g., bad request, not found)
+        }
+
+        logError(error, severity, {
+          action: 'API_Error_Response',
+          additionalData: {
+            url: requestUrl,
+            method: requestMethod,
+            statusCode,
+            responseData: error.response?.data, // Include response data for debugging
+          },
+        });
+      }
+
+      // For easier debugging during development, log concise error to console.
+      if (process.env['NODE_ENV'] !== 'production') {
+        console.error(
+          `[API Client Error] ${requestMethod} ${requestUrl} - Status: ${statusCode}`,
+          error.response?.data || error.message
+        );
+      }
+
+      // Important: Re-reject the error so that the original caller can also handle it.
+      return Promise.reject(error);
+    }
+  );
+
+  // Timeouts and retries come last, so the interceptors above see each failed attempt
+  // (e.g., a 401 is refreshed before the retry logic looks at it). See `requestPolicy.ts`.
+  installRequestPolicy(instance);
+
+  // Finally, turn whatever failed into a typed error (`ValidationError`, `AuthError`, ...),
+  // so callers never inspect `error.response.data` themselves. See `apiErrors.ts`.
+  instance.interceptors.response.use(undefined, (error) =>
+    Promise.reject(normalizeApiError(error))
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * @file packages/shared/src/services/authMode.ts
+ * @description How the app proves to the API who is signed in: bearer tokens or a cookie session.
+ *
+ * - `token`: Login returns an access/refresh token pair. The pair is kept in `useTokenStore`
+ *   and every request carries `Authorization: Bearer ...` (see `tokenRefresh.ts`). This is the
+ *   only mode the native apps support, and the default everywhere.
+ * - `cookie`: Laravel Sanctum's SPA authentication. Login starts a session on the API, which
+ *   the browser keeps in an HttpOnly cookie; scripts never see a token, so there is nothing for
+ *   an XSS attack to steal. State-changing requests carry the CSRF token from the
+ *   `XSRF-TOKEN` cookie (see `csrf.ts`). Web only.
+ *
+ * The mode is picked with the `NEXT_PUBLIC_AUTH_MODE` / `EXPO_PUBLIC_AUTH_MODE` environment
+ * variable. `useAuth` exposes the same API in both modes.
+ *
+ * For a learner:
+ * - Cookie mode needs the API to treat the web app as a "stateful" frontend: its host must be
+ *   listed in `SANCTUM_STATEFUL_DOMAINS`, and the app and the API must share a site (e.g.,
+ *   `localhost:3000` and `localhost:8000`, or `app.example.com` and `api.example.com` with
+ *   `SESSION_DOMAIN=.example.com`) so the browser sends the session cookie along.
+ */
+import { Platform } from 'react-native';
+import { logError, ErrorSeverity } from './errorLogger';
+import '../env';
+
+/** Every supported auth mode. */
+export const AUTH_MODES = ['token', 'cookie'] as const;
+
+/** One of `AUTH_MODES`. */
+export type AuthMode = (typeof AUTH_MODES)[number];
+
+const isAuthMode = (value: unknown): value is AuthMode =>
+  AUTH_MODES.includes(value as AuthMode);
+
+const warnAboutConfiguration = (message: string) =>
+  logError(new Error(message), ErrorSeverity.WARNING, {
+    component: 'authMode',
+    action: 'resolveAuthMode',
+  });
+
+/**
+ * The mode chosen by `*_AUTH_MODE`, or `token` when the variable is unset, has an unknown
+ * value, or asks for cookies on a native device (which has no browser cookie jar to rely on).
+ */
+export function resolveAuthMode(): AuthMode {
+  const configured =
+    process.env.NEXT_PUBLIC_AUTH_MODE || process.env.EXPO_PUBLIC_AUTH_MODE;
+  if (!configured) return 'token';
+  if (!isAuthMode(configured)) {
+    warnAboutConfiguration(
+      `Unknown auth mode "${configured}" (expected one of ${AUTH_MODES.join(', ')}); using token.`
+    );
+    return 'token';
+  }
+  if (configured === 'cookie' && Platform.OS !== 'web') {
+    warnAboutConfiguration(
+      'Cookie auth is only supported on the web; using token.'
+    );
+    return 'token';
+  }
+  return configured;
+}
+
+let authMode = resolveAuthMode();
+
+/** The auth mode in use. It is fixed at startup; `configureAuthMode()` changes it (in tests). */
+export const getAuthMode = (): AuthMode => authMode;
+
+/**
+ * Switches the auth mode. The app doesn't do this at runtime: sessions made in one mode mean
+ * nothing in the other, so sign out first.
+ *
+ * @param mode - The new mode.
+ */
+export function configureAuthMode(mode: AuthMode): void {
+  authMode = mode;
+}
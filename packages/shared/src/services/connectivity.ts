@@ -0,0 +1,68 @@
+/**
+ * @file packages/shared/src/services/connectivity.ts
+ * @description Minimal, dependency-free helpers for reasoning about network connectivity.
+ *
+ * Offline-first features (e.g., the notes mutation queue) need to answer two questions:
+ * 1. "Did this request fail because we're offline?" -> `isNetworkError(error)`.
+ * 2. "When is a good moment to try again?" -> `onConnectivityRestored(listener)`.
+ *
+ * Platform behaviour:
+ * - Web: uses `navigator.onLine` and the browser's `online` event.
+ * - Native: React Native has no built-in connectivity API (that would require an extra
+ *   package such as NetInfo), so the app returning to the foreground is used as the signal
+ *   to retry. Failed requests tell us when we are actually offline.
+ *
+ * For a learner:
+ * - `navigator.onLine === true` only means "connected to some network", not "the API is
+ *   reachable". That is why request failures are treated as the source of truth and the
+ *   events here are only hints for when to retry.
+ */
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import { NetworkError } from './apiErrors';
+import { TimeoutError } from './requestPolicy';
+
+/**
+ * Returns `false` when the platform is certain there is no network connection.
+ * On native (and during server-side rendering) this is unknown, so it optimistically returns `true`.
+ */
+export function isOnline(): boolean {
+  if (Platform.OS === 'web' && typeof navigator !== 'undefined') {
+    return navigator.onLine !== false;
+  }
+  return true;
+}
+
+/**
+ * True if the request was sent but no response arrived (no network, DNS failure, server
+ * unreachable, CORS preflight blocked, request timed out): a `NetworkError` or `TimeoutError`.
+ * Errors with an HTTP status (4xx/5xx) are not network errors: the server did answer.
+ * A request cancelled by the app (`AbortedError`) is not a connectivity problem either.
+ *
+ * @param error - Any thrown value, typically from an `apiClient` call.
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+/**
+ * Calls `listener` whenever connectivity may have been restored:
+ * the browser's `online` event on the web, or the app becoming active on native.
+ *
+ * @param listener - Callback to run, e.g., to replay queued mutations.
+ * @returns A function that unsubscribes the listener.
+ */
+export function onConnectivityRestored(listener: () => void): () => void {
+  if (Platform.OS === 'web') {
+    if (typeof window === 'undefined') return () => {};
+    window.addEventListener('online', listener);
+    return () => window.removeEventListener('online', listener);
+  }
+
+  const subscription = AppState.addEventListener(
+    'change',
+    (state: AppStateStatus) => {
+      if (state === 'active') listener();
+    }
+  );
+  return () => subscription.remove();
+}
@@ -0,0 +1,134 @@
+/**
+ * @file packages/shared/src/services/csrf.ts
+ * @description CSRF protection for cookie auth (see `authMode.ts`), as Laravel Sanctum expects it.
+ *
+ * With a session cookie, the browser authenticates *any* request to the API, including ones a
+ * malicious page makes. Laravel therefore only accepts a state-changing request (POST, PUT,
+ * PATCH, DELETE) if it also carries the CSRF token, which only our own pages can read:
+ * 1. `GET /sanctum/csrf-cookie` makes the API set an `XSRF-TOKEN` cookie (readable by scripts).
+ * 2. The API client's request interceptor copies that cookie into the `X-XSRF-TOKEN` header.
+ * 3. A token that went stale (the session was renewed, e.g., by logging in) is answered with
+ *    419; `retryWithFreshCsrfToken` fetches a new cookie and replays the request once.
+ *
+ * For a learner:
+ * - Axios can copy the cookie by itself, but only for requests to the page's own origin. The
+ *   web app and the API run on different ports (different origins), so it's done here.
+ * - Reading requests (GET, HEAD, OPTIONS) change nothing, so they need no CSRF token.
+ */
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+
+/** The cookie Laravel stores the CSRF token in. */
+export const XSRF_COOKIE_NAME = 'XSRF-TOKEN';
+
+/** The header Laravel reads the CSRF token from. */
+export const XSRF_HEADER_NAME = 'X-XSRF-TOKEN';
+
+/** Status Laravel answers with when the CSRF token is missing or stale ("Page Expired"). */
+export const CSRF_TOKEN_MISMATCH_STATUS = 419;
+
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+/** Axios request config with the flag marking a request replayed after a 419. */
+type CsrfRetriableRequestConfig = InternalAxiosRequestConfig & {
+  _csrfRetry?: boolean;
+};
+
+// The `/sanctum/csrf-cookie` request in progress, shared by every request that needs it.
+let csrfCookiePromise: Promise<void> | null = null;
+
+/** True for methods that change state on the server and so must carry the CSRF token. */
+export const requiresCsrfToken = (method: string | undefined): boolean =>
+  !SAFE_METHODS.includes((method ?? 'get').toLowerCase());
+
+/**
+ * Reads the CSRF token from the `XSRF-TOKEN` cookie.
+ * @returns The token, or `null` outside a browser or before the cookie was set.
+ */
+export function readXsrfToken(): string | null {
+  if (typeof document === 'undefined') return null;
+  const cookie = document.cookie
+    .split('; ')
+    .find((entry) => entry.startsWith(`${XSRF_COOKIE_NAME}=`));
+  // Laravel URL-encodes the (encrypted) token, e.g., `%3D` for `=`.
+  return cookie
+    ? decodeURIComponent(cookie.slice(XSRF_COOKIE_NAME.length + 1))
+    : null;
+}
+
+/**
+ * Makes the API set the `XSRF-TOKEN` cookie. Concurrent callers share a single request.
+ *
+ * @param apiBaseUrl - Base URL of the API (e.g., `http://localhost:8000/api`). The cookie
+ *   route lives next to it, at `/sanctum/csrf-cookie`.
+ */
+export function fetchCsrfCookie(apiBaseUrl: string): Promise<void> {
+  if (!csrfCookiePromise) {
+    const url = `${apiBaseUrl.replace(/\/api\/?$/, '')}/sanctum/csrf-cookie`;
+    // A bare `axios.get`, so the API client's interceptors don't ask for a cookie again.
+    csrfCookiePromise = axios
+      .get(url, {
+        withCredentials: true,
+        headers: {
+          Accept: 'application/json',
+          'X-Requested-With': 'XMLHttpRequest',
+        },
+      })
+      .then(() => undefined)
+      .finally(() => {
+        csrfCookiePromise = null;
+      });
+  }
+  return csrfCookiePromise;
+}
+
+/**
+ * Adds the `X-XSRF-TOKEN` header to a state-changing request, fetching the cookie first when
+ * there is none yet (e.g., on the first login of a visit).
+ *
+ * @param config - The outgoing request.
+ * @param apiBaseUrl - Base URL of the API, used to fetch the cookie.
+ */
+export async function attachXsrfToken(
+  config: InternalAxiosRequestConfig,
+  apiBaseUrl: string
+): Promise<InternalAxiosRequestConfig> {
+  if (!requiresCsrfToken(config.method)) return config;
+  if (!readXsrfToken()) await fetchCsrfCookie(apiBaseUrl);
+  const token = readXsrfToken();
+  if (token) config.headers[XSRF_HEADER_NAME] = token;
+  return config;
+}
+
+/**
+ * Handles a 419 response: fetches a fresh CSRF cookie and replays the request with it.
+ * A request is replayed at most once; a second 419 is passed on to the caller.
+ *
+ * @param instance - The axios instance that sent the original request, used for the replay.
+ * @param error - The 419 error received by the response interceptor.
+ * @param apiBaseUrl - Base URL of the API, used to fetch the cookie.
+ */
+export async function retryWithFreshCsrfToken(
+  instance: AxiosInstance,
+  error: AxiosError,
+  apiBaseUrl: string
+): Promise<AxiosResponse> {
+  const originalRequest = error.config as
+    | CsrfRetriableRequestConfig
+    | undefined;
+  if (!originalRequest || originalRequest._csrfRetry) throw error;
+  originalRequest._csrfRetry = true;
+
+  try {
+    await fetchCsrfCookie(apiBaseUrl);
+  } catch {
+    throw error;
+  }
+  const token = readXsrfToken();
+  if (token) originalRequest.headers[XSRF_HEADER_NAME] = token;
+  return instance(originalRequest);
+}
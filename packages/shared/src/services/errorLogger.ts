@@ -4,8 +4,9 @@
  *
  * This module provides a consistent way to:
  * 1. Log errors throughout the application, with severity levels and contextual information.
- *    In a production environment, this would typically integrate with an external monitoring
- *    service like Sentry, Datadog, or LogRocket.
+ *    Entries are delivered to pluggable transports (console, in-memory ring buffer, batched
+ *    HTTP beacon, test recorder; see `errorTransports.ts`), with per-transport severity
+ *    thresholds and sampling, after sensitive data has been scrubbed from them.
  * 2. Generate user-friendly error messages from various error types, abstracting
  *    technical details from the end-user.
  * 3. Map structured API errors (especially validation errors from Laravel) to a
@@ -23,6 +24,15 @@
  *   to extract meaningful information.
  * - `ErrorSeverity` and `ErrorContext` help in categorizing and understanding errors.
  */
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import {
+  createConsoleTransport,
+  createHttpBeaconTransport,
+  ErrorLogEntry,
+  ErrorTransport,
+} from './errorTransports';
+import { AbortedError, TimeoutError } from './requestPolicy';
+import { isApiError, ValidationError } from './apiErrors';
 
 // `process.env['NODE_ENV'] === 'production'` is a standard way in Node.js and bundler
 // (like Webpack, Vite) environments to check if the application is running in production mode.
@@ -57,8 +67,195 @@ export interface ErrorContext {
   additionalData?: Record<string, any>;
 }
 
+// --- Transports ---
+
+/**
+ * Numeric rank of each severity, used to compare an entry against a transport's `minSeverity`.
+ */
+const SEVERITY_RANK: Record<ErrorSeverity, number> = {
+  [ErrorSeverity.INFO]: 0,
+  [ErrorSeverity.WARNING]: 1,
+  [ErrorSeverity.ERROR]: 2,
+  [ErrorSeverity.CRITICAL]: 3,
+};
+
+/**
+ * The registered transports. By default only the console transport is active, matching the
+ * previous behaviour. If `NEXT_PUBLIC_ERROR_REPORTING_URL` is set, production builds also
+ * batch `ERROR` and `CRITICAL` entries to that endpoint.
+ */
+let transports: ErrorTransport[] = createDefaultTransports();
+
+function createDefaultTransports(): ErrorTransport[] {
+  const defaults: ErrorTransport[] = [createConsoleTransport()];
+  const reportingUrl = process.env['NEXT_PUBLIC_ERROR_REPORTING_URL'];
+  if (isProd && reportingUrl) {
+    defaults.push(
+      createHttpBeaconTransport({
+        endpoint: reportingUrl,
+        minSeverity: ErrorSeverity.ERROR,
+      })
+    );
+  }
+  return defaults;
+}
+
+/**
+ * Registers a transport. A transport with the same `name` is replaced.
+ *
+ * @param transport - The transport to add (see `errorTransports.ts` for the built-in ones).
+ * @returns A function that removes the transport again.
+ */
+export function addErrorTransport(transport: ErrorTransport): () => void {
+  transports = [
+    ...transports.filter((t) => t.name !== transport.name),
+    transport,
+  ];
+  return () => removeErrorTransport(transport.name);
+}
+
+/**
+ * Removes the transport with the given name, if registered.
+ *
+ * @param name - The `name` of the transport to remove.
+ */
+export function removeErrorTransport(name: string): void {
+  transports = transports.filter((t) => t.name !== name);
+}
+
+/**
+ * Replaces all registered transports, e.g., `setErrorTransports([createTestTransport()])` in tests.
+ * Pass an empty array to silence logging entirely.
+ *
+ * @param nextTransports - The complete list of transports to use from now on.
+ */
+export function setErrorTransports(nextTransports: ErrorTransport[]): void {
+  transports = [...nextTransports];
+}
+
+/** Returns the currently registered transports. */
+export function getErrorTransports(): ErrorTransport[] {
+  return [...transports];
+}
+
+/** Restores the default transports (console, plus the HTTP beacon when configured). */
+export function resetErrorTransports(): void {
+  setErrorTransports(createDefaultTransports());
+}
+
+/**
+ * Asks every transport to deliver anything it has buffered.
+ *
+ * @param options - `unloading: true` when the page/app is going away (used by the unload handlers).
+ */
+export async function flushErrorLogs(
+  options: { unloading?: boolean } = {}
+): Promise<void> {
+  await Promise.all(
+    transports.map(async (transport) => {
+      try {
+        await transport.flush?.(options);
+      } catch (flushError) {
+        console.error(
+          `Error transport "${transport.name}" failed to flush:`,
+          flushError
+        );
+      }
+    })
+  );
+}
+
+let unloadFlushInstalled = false;
+
+/**
+ * Flushes buffered errors when the user leaves: `pagehide`/hidden tab on the web, and the app
+ * moving to the background on native (native apps are often killed without further notice).
+ * Installed once, the first time an error is logged.
+ */
+function ensureUnloadFlush(): void {
+  if (unloadFlushInstalled) return;
+  unloadFlushInstalled = true;
+
+  const flushOnUnload = () => {
+    void flushErrorLogs({ unloading: true });
+  };
+
+  if (Platform.OS === 'web') {
+    if (typeof window === 'undefined' || typeof document === 'undefined') {
+      unloadFlushInstalled = false; // Server-side rendering: try again in the browser.
+      return;
+    }
+    window.addEventListener('pagehide', flushOnUnload);
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flushOnUnload();
+    });
+  } else {
+    AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'background') flushOnUnload();
+    });
+  }
+}
+
+// --- PII scrubbing ---
+
+/**
+ * Keys whose values are always replaced before an entry reaches any transport.
+ * Matching is case-insensitive and ignores `-`/`_`, so `refresh_token`, `X-Api-Key`
+ * and `Authorization` are all caught.
+ */
+const SENSITIVE_KEY_PATTERN =
+  /passw(or)?d|pwd|token|secret|authorization|cookie|api-?key|credential/i;
+
+/** Placeholder written in place of scrubbed values. */
+export const REDACTED = '[REDACTED]';
+
 /**
- * Logs an error, potentially sending it to an external logging service in production.
+ * Returns a deep copy of `value` with sensitive data removed:
+ * - Values of keys matching `SENSITIVE_KEY_PATTERN` become `[REDACTED]`.
+ * - `Bearer ...` credentials inside strings are masked.
+ * - Circular references and very deep nesting are cut off instead of crashing the logger.
+ *
+ * @param value - Any value, typically `ErrorContext.additionalData`.
+ * @returns A scrubbed copy that is safe to send to remote services.
+ */
+export function scrubSensitiveData<T>(value: T): T {
+  const seen = new WeakSet<object>();
+
+  const scrub = (current: unknown, depth: number): unknown => {
+    if (typeof current === 'string') {
+      return current.replace(/Bearer\s+[^\s"',]+/gi, `Bearer ${REDACTED}`);
+    }
+    if (current === null || typeof current !== 'object') {
+      return current;
+    }
+    if (seen.has(current)) return '[Circular]';
+    if (depth > 8) return '[Truncated]';
+    seen.add(current);
+
+    if (Array.isArray(current)) {
+      return current.map((item) => scrub(item, depth + 1));
+    }
+
+    const result: Record<string, unknown> = {};
+    Object.entries(current).forEach(([key, nested]) => {
+      result[key] = SENSITIVE_KEY_PATTERN.test(key.replace(/_/g, '-'))
+        ? REDACTED
+        : scrub(nested, depth + 1);
+    });
+    return result;
+  };
+
+  return scrub(value, 0) as T;
+}
+
+/**
+ * Logs an error by passing it to every registered transport (console by default).
+ *
+ * Before delivery, `context.additionalData` is scrubbed of passwords, tokens and auth headers.
+ * Each transport then decides whether it wants the entry:
+ * - `minSeverity`: e.g., a remote transport may only want `ERROR` and above.
+ * - `sampleRate`: e.g., `0.1` forwards roughly 10% of entries to reduce noise and cost.
+ *   `CRITICAL` entries are never sampled out.
  *
  * @param error - The error object or value to log. Using `unknown` for type safety as errors can be varied.
  * @param severity - The severity level of the error (defaults to `ErrorSeverity.ERROR`).
@@ -69,150 +266,130 @@ export function logError(
   severity: ErrorSeverity = ErrorSeverity.ERROR,
   context: ErrorContext = {}
 ): void {
-  // In a real production environment, this section would integrate with a service like Sentry.
-  // Example:
-  // if (isProd) {
-  //   Sentry.captureException(error, {
-  //     level: severity,
-  //     extra: context,
-  //   });
-  //   return;
-  // }
-
-  // For this project, we log to the console for both environments,
-  // but a production setup would differ.
-  if (isProd) {
-    // In a real app, production logging might be less verbose or formatted differently.
-    // The key is that it *would* go to a persistent, searchable logging system.
-    console.error(
-      `[PROD LOG - ${severity.toUpperCase()}] Error:`,
-      error, // The raw error object/message.
-      'Context:',
-      context // Additional structured data.
-    );
-  } else {
-    // Development logging can be more verbose and is typically directed to the console.
-    console.error(
-      `[DEV LOG - ${severity.toUpperCase()}] Error:`,
-      error,
-      'Context:',
-      context
-    );
-  }
+  ensureUnloadFlush();
+
+  const entry: ErrorLogEntry = {
+    timestamp: new Date().toISOString(),
+    severity,
+    message: error instanceof Error ? error.message : String(error),
+    name: error instanceof Error ? error.name : undefined,
+    stack: error instanceof Error ? error.stack : undefined,
+    context: context.additionalData
+      ? {
+          ...context,
+          additionalData: scrubSensitiveData(context.additionalData),
+        }
+      : context,
+    error,
+  };
+
+  transports.forEach((transport) => {
+    if (
+      SEVERITY_RANK[severity] <
+      SEVERITY_RANK[transport.minSeverity ?? ErrorSeverity.INFO]
+    ) {
+      return;
+    }
+    const sampleRate = transport.sampleRate ?? 1;
+    if (severity !== ErrorSeverity.CRITICAL && Math.random() >= sampleRate) {
+      return;
+    }
+    try {
+      transport.log(entry);
+    } catch (transportError) {
+      // A broken transport must not break the app or the other transports.
+      console.error(
+        `Error transport "${transport.name}" failed:`,
+        transportError
+      );
+    }
+  });
 }
 
 /**
  * Attempts to extract or generate a user-friendly error message from an error object.
- * This function tries to parse common error structures (like Axios errors from API responses)
- * and falls back to a generic message.
+ * API failures arrive as typed errors (see `services/apiErrors.ts`), so each `kind` gets a
+ * message suited to it; anything else falls back to a generic message.
  *
  * @param error - The error object (of unknown type).
  * @returns A string containing a user-friendly error message.
  */
 export function getUserFriendlyMessage(error: unknown): string {
   // Default message for truly unexpected or unparseable errors.
-  let message = 'An unexpected error occurred. Please try again later.';
-
-  // Attempt to handle errors that might come from Axios (common for API calls).
-  // `error as any` is a type assertion. Used cautiously here to inspect potential properties.
-  // A more type-safe approach might involve custom error classes or type guards if error structures are well-defined.
-  const axiosError = error as any;
-  if (axiosError?.response?.data) {
-    const responseData = axiosError.response.data;
-
-    // Specifically check for Laravel's validation error structure.
-    // Laravel typically returns a 422 response with an `errors` object,
-    // where keys are field names and values are arrays of error messages.
-    if (
-      responseData.errors &&
-      typeof responseData.errors === 'object' &&
-      Object.keys(responseData.errors).length > 0
-    ) {
-      // For simplicity, return the first message of the first field with an error.
-      // A more sophisticated UI might display all field errors.
-      const firstErrorField = Object.keys(responseData.errors)[0];
-      if (
-        firstErrorField &&
-        Array.isArray(responseData.errors[firstErrorField]) &&
-        responseData.errors[firstErrorField].length > 0
-      ) {
-        return responseData.errors[firstErrorField][0] as string;
-      }
-    }
+  const fallback = 'An unexpected error occurred. Please try again later.';
 
-    // If there's a general `message` property in the API response data, use that.
-    // This is a common pattern for APIs to send back a human-readable error summary.
-    if (typeof responseData.message === 'string' && responseData.message) {
-      return responseData.message;
+  // Requests that never got a response (see `services/requestPolicy.ts`).
+  if (error instanceof TimeoutError) {
+    return 'The server is taking too long to respond. Please check your connection and try again.';
+  }
+  if (error instanceof AbortedError) {
+    return 'The request was cancelled.';
+  }
+
+  if (isApiError(error)) {
+    // `switch` on the discriminant: TypeScript narrows `error` to the matching class in each case.
+    switch (error.kind) {
+      case 'validation': {
+        // Show the first field's first message; forms show every field via `mapErrorToFields`.
+        const [firstField] = Object.values(error.fieldErrors);
+        return firstField?.[0] ?? error.message;
+      }
+      case 'auth':
+        return error.status === 403
+          ? 'You are not allowed to do that.'
+          : error.message || 'Please log in to continue.';
+      case 'not_found':
+        return 'The item you were looking for could not be found. It may have been deleted.';
+      case 'rate_limit':
+        return 'Too many requests. Please wait a moment and try again.';
+      case 'network':
+        return 'Unable to reach the server. Please check your connection and try again.';
+      case 'server':
+      case 'schema_mismatch':
+        // Server-side details are for developers; keep them out of production UIs.
+        return isProd ? fallback : error.message;
     }
   }
 
   // If the error is a standard JavaScript `Error` instance, use its message.
   // In development, this can provide more direct feedback. In production,
-  // we might still prefer the generic message to avoid exposing technical details.
-  if (error instanceof Error) {
-    if (!isProd) {
-      message = error.message;
-    }
-    // In production, we might choose to not use `error.message` directly if it could be too technical.
-    // The default generic message would be used unless overridden by API response parsing above.
+  // we prefer the generic message to avoid exposing technical details.
+  if (error instanceof Error && !isProd) {
+    return error.message;
   }
 
-  return message;
+  return fallback;
 }
 
+// Friendlier wording for a few of the API's validation messages, by field.
+const FRIENDLY_FIELD_MESSAGES: Record<string, Record<string, string>> = {
+  email: {
+    'The email has already been taken.':
+      'This email is already registered. Please use a different email or try logging in.',
+  },
+};
+
 /**
- * Maps an error object (especially from an API) to a record of field-specific errors.
+ * Maps an API validation error to a record of field-specific errors.
  * This is particularly useful for populating form field errors based on backend validation.
  *
  * @param error - The error object (of unknown type).
- * @returns A record where keys are field names and values are error messages, or `null` if no field-specific errors could be mapped.
+ * @returns A record where keys are field names and values are error messages (the first message
+ *   per field), or `null` if `error` is not a `ValidationError`.
  */
 export function mapErrorToFields(
   error: unknown
 ): Record<string, string> | null {
-  const axiosError = error as any; // Type assertion for inspecting error structure.
-  if (axiosError?.response?.data) {
-    const responseData = axiosError.response.data;
-
-    // Handle Laravel's standard validation error structure (`errors` object).
-    // The backend (Laravel) is the source of truth for these validation messages.
-    if (responseData.errors && typeof responseData.errors === 'object') {
-      const fieldErrors: Record<string, string> = {};
-      let hasFieldErrors = false;
-      // Iterate over the `errors` object from the API response.
-      Object.entries(responseData.errors).forEach(([field, messages]) => {
-        // Laravel typically sends messages as an array of strings for each field.
-        if (
-          Array.isArray(messages) &&
-          messages.length > 0 &&
-          typeof messages[0] === 'string'
-        ) {
-          fieldErrors[field] = messages[0]; // Take the first message for the field.
-          hasFieldErrors = true;
-        }
-      });
+  if (!(error instanceof ValidationError)) return null;
 
-      if (hasFieldErrors) {
-        return fieldErrors;
-      }
+  const fieldErrors: Record<string, string> = {};
+  // The backend (Laravel) is the source of truth for these validation messages.
+  Object.entries(error.fieldErrors).forEach(([field, messages]) => {
+    const [first] = messages;
+    if (first) {
+      fieldErrors[field] = FRIENDLY_FIELD_MESSAGES[field]?.[first] ?? first;
     }
+  });
 
-    // Handle specific, known API error messages that imply a field error.
-    // This is a way to provide more targeted UX for certain backend responses.
-    // Example: If the API returns a general message "The email has already been taken."
-    if (typeof responseData.message === 'string') {
-      if (responseData.message === 'The email has already been taken.') {
-        return {
-          // Map this specific message to the 'email' field.
-          email:
-            'This email is already registered. Please use a different email or try logging in.',
-        };
-      }
-      // Other specific message-to-field mappings could be added here.
-    }
-  }
-
-  // If no specific field errors could be mapped, return null.
-  return null;
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : null;
 }
@@ -0,0 +1,251 @@
+/**
+ * @file packages/shared/src/services/errorTransports.ts
+ * @description Built-in destinations ("transports") for errors reported through `logError`.
+ *
+ * `logError` (see `errorLogger.ts`) normalizes every error into an `ErrorLogEntry`, scrubs
+ * sensitive data from it, and hands it to each registered transport whose severity threshold
+ * and sample rate allow it. This file provides the transports that ship with the project:
+ * - `createConsoleTransport`: Writes to `console.error` (the original behaviour).
+ * - `createRingBufferTransport`: Keeps the most recent entries in memory, e.g., for a debug screen
+ *   or to attach "what happened just before" to a bug report.
+ * - `createHttpBeaconTransport`: Batches entries and POSTs them to a collector endpoint, so
+ *   production errors reach the team instead of staying in users' browser consoles.
+ * - `createTestTransport`: Records entries so tests can assert on what was logged.
+ *
+ * For a learner:
+ * - Each transport is a plain object created by a factory function, not a class. Anything
+ *   with a `name` and a `log(entry)` method can be registered, so adding Sentry or Datadog
+ *   later means writing one more small factory.
+ * - Transports must never call `logError` themselves; a failing transport would otherwise
+ *   log its own failure forever.
+ */
+import type { ErrorContext, ErrorSeverity } from './errorLogger';
+
+/**
+ * A normalized, already-scrubbed error report as delivered to transports.
+ * - `timestamp`: ISO 8601 time at which `logError` was called.
+ * - `message`/`name`/`stack`: Extracted from the original error when available.
+ * - `error`: The original error value, for transports that run locally (console, tests).
+ *   Remote transports should send the extracted fields instead.
+ */
+export interface ErrorLogEntry {
+  timestamp: string;
+  severity: ErrorSeverity;
+  message: string;
+  name?: string;
+  stack?: string;
+  context: ErrorContext;
+  error: unknown;
+}
+
+/**
+ * Options shared by every transport.
+ * - `name`: Unique name, used to replace or remove the transport later.
+ * - `minSeverity`: Entries below this severity are skipped (defaults to `INFO`, i.e., everything).
+ * - `sampleRate`: Fraction of entries (0 to 1) this transport receives (defaults to 1).
+ */
+export interface ErrorTransportOptions {
+  name?: string;
+  minSeverity?: ErrorSeverity;
+  sampleRate?: number;
+}
+
+/**
+ * A destination for error log entries.
+ * `flush` is optional and is called on page unload / app backgrounding and by `flushErrorLogs()`.
+ * `unloading` is true when the page is going away, so only fire-and-forget delivery is possible.
+ */
+export interface ErrorTransport {
+  name: string;
+  minSeverity?: ErrorSeverity;
+  sampleRate?: number;
+  log: (entry: ErrorLogEntry) => void;
+  flush?: (options?: { unloading?: boolean }) => void | Promise<void>;
+}
+
+// --- Console ---
+
+/**
+ * Logs entries to the console, prefixed with the environment and severity.
+ * This is registered by default, so a fresh app behaves exactly as before transports existed.
+ */
+export function createConsoleTransport(
+  options: ErrorTransportOptions = {}
+): ErrorTransport {
+  const isProd = process.env['NODE_ENV'] === 'production';
+  return {
+    name: options.name ?? 'console',
+    minSeverity: options.minSeverity,
+    sampleRate: options.sampleRate,
+    log: (entry) => {
+      console.error(
+        `[${isProd ? 'PROD' : 'DEV'} LOG - ${entry.severity.toUpperCase()}] Error:`,
+        entry.error, // The raw error object/message.
+        'Context:',
+        entry.context // Scrubbed structured data.
+      );
+    },
+  };
+}
+
+// --- In-memory ring buffer ---
+
+/** A ring buffer transport exposes the entries it currently holds. */
+export interface RingBufferTransport extends ErrorTransport {
+  /** Returns the stored entries, oldest first. */
+  getEntries: () => ErrorLogEntry[];
+  /** Removes all stored entries. */
+  clear: () => void;
+}
+
+/**
+ * Keeps the last `capacity` entries in memory. Older entries are dropped as new ones arrive,
+ * so memory use stays bounded no matter how many errors occur.
+ */
+export function createRingBufferTransport(
+  options: ErrorTransportOptions & { capacity?: number } = {}
+): RingBufferTransport {
+  const capacity = Math.max(1, options.capacity ?? 50);
+  let entries: ErrorLogEntry[] = [];
+  return {
+    name: options.name ?? 'ring-buffer',
+    minSeverity: options.minSeverity,
+    sampleRate: options.sampleRate,
+    log: (entry) => {
+      entries.push(entry);
+      if (entries.length > capacity) {
+        entries = entries.slice(entries.length - capacity);
+      }
+    },
+    getEntries: () => [...entries],
+    clear: () => {
+      entries = [];
+    },
+  };
+}
+
+// --- Batched HTTP beacon ---
+
+/**
+ * Options for `createHttpBeaconTransport`.
+ * - `endpoint`: URL that accepts `POST` requests with a JSON body `{ entries: [...] }`.
+ * - `batchSize`: Send as soon as this many entries are queued (defaults to 10).
+ * - `flushIntervalMs`: Send queued entries at least this often (defaults to 5 seconds).
+ * - `maxQueueSize`: Oldest entries are dropped beyond this size, e.g., while offline (defaults to 100).
+ * - `headers`: Extra request headers, e.g., an API key for the collector.
+ */
+export interface HttpBeaconTransportOptions extends ErrorTransportOptions {
+  endpoint: string;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxQueueSize?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Batches entries and sends them to a collector endpoint.
+ *
+ * - Entries are serialized without the raw `error` value (which may not be JSON-safe).
+ * - Normal flushes use `fetch` with `keepalive`, so a request started just before navigation
+ *   still completes.
+ * - Flushes during unload prefer `navigator.sendBeacon`, which browsers guarantee to deliver
+ *   after the page is gone. Custom `headers` can't be sent with a beacon.
+ * - Delivery failures are reported to the console only and the batch is dropped.
+ */
+export function createHttpBeaconTransport(
+  options: HttpBeaconTransportOptions
+): ErrorTransport {
+  const batchSize = options.batchSize ?? 10;
+  const flushIntervalMs = options.flushIntervalMs ?? 5000;
+  const maxQueueSize = options.maxQueueSize ?? 100;
+  let queue: Omit<ErrorLogEntry, 'error'>[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = async (unloading: boolean) => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (queue.length === 0) return;
+    const batch = queue;
+    queue = [];
+    const body = JSON.stringify({ entries: batch });
+
+    if (
+      unloading &&
+      typeof navigator !== 'undefined' &&
+      typeof navigator.sendBeacon === 'function'
+    ) {
+      const blob = new Blob([body], { type: 'application/json' });
+      if (navigator.sendBeacon(options.endpoint, blob)) return;
+      // The browser refused the beacon (e.g., payload too large); fall back to fetch below.
+    }
+
+    try {
+      await fetch(options.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body,
+        keepalive: true,
+      });
+    } catch (sendError) {
+      // Never call `logError` from a transport: it could loop back into this one.
+      console.error('Error beacon delivery failed:', sendError);
+    }
+  };
+
+  return {
+    name: options.name ?? 'http-beacon',
+    minSeverity: options.minSeverity,
+    sampleRate: options.sampleRate,
+    log: (entry) => {
+      // The raw `error` stays local; `message`, `name` and `stack` carry what the collector needs.
+      const { error: _rawError, ...serializable } = entry;
+      queue.push(serializable);
+      if (queue.length > maxQueueSize) {
+        queue = queue.slice(queue.length - maxQueueSize);
+      }
+      if (queue.length >= batchSize) {
+        void send(false);
+      } else if (!timer) {
+        timer = setTimeout(() => void send(false), flushIntervalMs);
+      }
+    },
+    flush: (flushOptions) => send(flushOptions?.unloading ?? false),
+  };
+}
+
+// --- Test transport ---
+
+/** A transport that records everything it receives, for use in tests. */
+export interface TestTransport extends ErrorTransport {
+  /** Every entry received so far, oldest first. */
+  entries: ErrorLogEntry[];
+  /** The most recent entry, or `undefined` if nothing was logged. */
+  lastEntry: () => ErrorLogEntry | undefined;
+  /** Forgets all recorded entries. */
+  clear: () => void;
+}
+
+/**
+ * Records entries in `entries` so tests can assert on severity, message and (scrubbed) context.
+ * Typically registered with `setErrorTransports([createTestTransport()])` in test setup.
+ */
+export function createTestTransport(
+  options: ErrorTransportOptions = {}
+): TestTransport {
+  const transport: TestTransport = {
+    name: options.name ?? 'test',
+    minSeverity: options.minSeverity,
+    sampleRate: options.sampleRate,
+    entries: [],
+    log: (entry) => {
+      transport.entries.push(entry);
+    },
+    lastEntry: () => transport.entries[transport.entries.length - 1],
+    clear: () => {
+      transport.entries.length = 0;
+    },
+  };
+  return transport;
+}
@@ -0,0 +1,258 @@
+/**
+ * @file packages/shared/src/services/requestPolicy.ts
+ * @description Timeouts, retries and cancellation for the API client's axios instance.
+ *
+ * Every request gets a policy, looked up by HTTP method and path in `REQUEST_POLICIES`:
+ * - `timeoutMs`: How long to wait for a response before failing with a `TimeoutError`.
+ * - `retries`: How many times a failed request may be sent again. Only idempotent methods
+ *   (GET, HEAD, OPTIONS, PUT, DELETE) are ever retried; sending a POST twice could create
+ *   two notes.
+ * - `baseDelayMs`/`maxDelayMs`: Bounds of the exponential backoff between attempts.
+ *   `maxDelayMs` is also the longest `Retry-After` the client waits for.
+ *
+ * A request is retried when the network failed, it timed out, or the server answered 429,
+ * 502, 503 or 504. If a 429/503 response carries a `Retry-After` header, that delay is used
+ * instead of the backoff. When the server asks for a longer wait than `maxDelayMs`, the request
+ * is not retried at all and fails straight away (as a `RateLimitError`, whose `retryAfterMs`
+ * says when to come back, or a `ServerError` for a 503). Validation errors, 401s (handled by
+ * `tokenRefresh.ts`) and other 4xx responses are never retried.
+ *
+ * Cancellation: pass an `AbortSignal` in the `signal` option of any `apiClient` method
+ * (TanStack Query provides one in the `queryFn` context). An aborted request, including one
+ * waiting between retries, rejects with an `AbortedError`.
+ *
+ * For a learner:
+ * - Backoff with "full jitter" waits a random time between 0 and `baseDelayMs * 2^attempt`.
+ *   The randomness stops many clients that failed together from all retrying at once.
+ * - `TimeoutError` and `AbortedError` are real classes, so callers can use `instanceof`
+ *   instead of inspecting axios error codes.
+ */
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  InternalAxiosRequestConfig,
+} from 'axios';
+
+/** Retry and timeout settings applied to a request. */
+export interface RequestPolicy {
+  timeoutMs: number;
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Options accepted by every `apiClient` method.
+ * - `signal`: Aborts the request (and any pending retry) when signalled.
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+/** The policy used for any request without a more specific entry in `REQUEST_POLICIES`. */
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 15_000,
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5_000,
+};
+
+/**
+ * Per-endpoint overrides, matched in order against the request's method and path
+ * (relative to the API base URL). The first match wins.
+ */
+export const REQUEST_POLICIES: {
+  method: string;
+  path: RegExp;
+  policy: Partial<RequestPolicy>;
+}[] = [
+  // Lists are cheap to repeat and the most common thing to load on a flaky connection.
+  { method: 'GET', path: /^\/notes(\/mine)?$/, policy: { retries: 3 } },
+  // Credentials are checked with a deliberately slow hash; give the server time.
+  {
+    method: 'POST',
+    path: /^\/auth\/(login|register)$/,
+    policy: { timeoutMs: 20_000 },
+  },
+  // The refresh token is single-use, so a timed-out refresh must not be sent again.
+  // `tokenRefresh.ts` sends it past the interceptors and reads this timeout itself.
+  { method: 'POST', path: /^\/auth\/refresh$/, policy: { timeoutMs: 10_000 } },
+];
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRIABLE_STATUSES = [429, 502, 503, 504];
+
+/** Thrown when the API didn't respond within the request's `timeoutMs`. */
+export class TimeoutError extends Error {
+  override readonly name = 'TimeoutError';
+
+  constructor(
+    /** The request that timed out, e.g., `GET /notes`. */
+    readonly request: string,
+    readonly timeoutMs: number,
+    options?: { cause?: unknown }
+  ) {
+    super(`${request} timed out after ${timeoutMs} ms`, options);
+  }
+}
+
+/** Thrown when a request was cancelled through its `AbortSignal`. */
+export class AbortedError extends Error {
+  override readonly name = 'AbortedError';
+
+  constructor(
+    /** The request that was cancelled, e.g., `GET /notes`. */
+    readonly request: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`${request} was cancelled`, options);
+  }
+}
+
+/**
+ * Returns the policy for a request.
+ *
+ * @param method - HTTP method, in any case.
+ * @param url - Path relative to the API base URL, e.g., `/notes`. Query strings are ignored.
+ */
+export function getRequestPolicy(
+  method: string | undefined,
+  url: string | undefined
+): RequestPolicy {
+  const upperMethod = (method ?? 'GET').toUpperCase();
+  const path = (url ?? '').split('?')[0];
+  const match = REQUEST_POLICIES.find(
+    (entry) => entry.method === upperMethod && entry.path.test(path)
+  );
+  return { ...DEFAULT_REQUEST_POLICY, ...match?.policy };
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), using exponential backoff with full jitter.
+ */
+export function getBackoffDelay(
+  attempt: number,
+  policy: Pick<RequestPolicy, 'baseDelayMs' | 'maxDelayMs'>
+): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** attempt
+  );
+  return Math.random() * ceiling;
+}
+
+/**
+ * Reads a `Retry-After` header, given either in seconds or as an HTTP date.
+ *
+ * @returns The delay in milliseconds, or `undefined` if the header is missing or invalid.
+ */
+export function parseRetryAfter(
+  header: string | null | undefined
+): number | undefined {
+  if (!header) return undefined;
+  if (/^\d+$/.test(header.trim())) return Number(header.trim()) * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Waits `ms`, rejecting early if `signal` is aborted.
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Request config with the number of retries already made. */
+type PolicyRequestConfig = InternalAxiosRequestConfig & {
+  _retryCount?: number;
+};
+
+const describeRequest = (config: InternalAxiosRequestConfig | undefined) =>
+  `${(config?.method ?? 'GET').toUpperCase()} ${config?.url ?? 'unknown'}`;
+
+/**
+ * Adds timeouts, retries and typed cancellation errors to an axios instance.
+ * Install it after the instance's other response interceptors, so token refresh and error
+ * logging see the original axios error first.
+ *
+ * @param instance - The axios instance used by an API client.
+ */
+export function installRequestPolicy(instance: AxiosInstance): void {
+  instance.interceptors.request.use((config) => {
+    // An explicit `timeout` on the request wins over the policy.
+    if (!config.timeout) {
+      config.timeout = getRequestPolicy(config.method, config.url).timeoutMs;
+    }
+    return config;
+  });
+
+  instance.interceptors.response.use(undefined, async (error: unknown) => {
+    // Errors converted by an earlier interceptor, or not from axios at all.
+    if (!axios.isAxiosError(error)) throw error;
+    const config = error.config as PolicyRequestConfig | undefined;
+    const request = describeRequest(config);
+
+    if (error.code === AxiosError.ERR_CANCELED) {
+      throw new AbortedError(request, { cause: error });
+    }
+
+    const isTimeout =
+      error.code === AxiosError.ECONNABORTED ||
+      error.code === AxiosError.ETIMEDOUT;
+    const status = error.response?.status;
+    const isRetriable =
+      isTimeout ||
+      !error.response || // Network failure: no response at all.
+      (status !== undefined && RETRIABLE_STATUSES.includes(status));
+
+    const policy = getRequestPolicy(config?.method, config?.url);
+    const attempt = config?._retryCount ?? 0;
+    const canRetry =
+      config !== undefined &&
+      isRetriable &&
+      IDEMPOTENT_METHODS.includes((config.method ?? 'GET').toUpperCase()) &&
+      attempt < policy.retries;
+
+    if (!canRetry) {
+      if (isTimeout) {
+        throw new TimeoutError(request, config?.timeout ?? policy.timeoutMs, {
+          cause: error,
+        });
+      }
+      throw error;
+    }
+
+    const retryAfter =
+      status === 429 || status === 503
+        ? parseRetryAfter(error.response?.headers['retry-after'])
+        : undefined;
+    // Retrying sooner than the server asked would only add load to a server that is already
+    // struggling, and waiting minutes inside one request would leave the UI hanging.
+    if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+      throw error;
+    }
+    // The backoff is already capped at `maxDelayMs` (see `getBackoffDelay`).
+    const delay = retryAfter ?? getBackoffDelay(attempt, policy);
+
+    try {
+      await sleep(delay, config.signal as AbortSignal | undefined);
+    } catch {
+      throw new AbortedError(request, { cause: error });
+    }
+
+    config._retryCount = attempt + 1;
+    return instance(config);
+  });
+}
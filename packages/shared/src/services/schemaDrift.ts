@@ -0,0 +1,204 @@
+/**
+ * @file packages/shared/src/services/schemaDrift.ts
+ * @description Checks API responses against their schemas without taking the app down.
+ *
+ * The frontend and the Laravel API are deployed separately, so for a while one can be newer
+ * than the other. A renamed or retyped field then no longer matches the response schema in
+ * `@hello-world/api-types`. How the clients react is the *validation mode*:
+ * - `strict`: Throw a `SchemaMismatchError` (the screen shows an error). Best in tests.
+ * - `warn` (default): Report the mismatch through `logError`, with a diff of expected vs
+ *   received values, and return the data as received. Screens keep working.
+ * - `off`: Don't check responses at all.
+ *
+ * Set the mode with `NEXT_PUBLIC_SCHEMA_VALIDATION` / `EXPO_PUBLIC_SCHEMA_VALIDATION`, or at
+ * runtime with `useSchemaDriftStore.getState().setMode()`. Every mismatch is also recorded in
+ * `useSchemaDriftStore`, which `SchemaDriftOverlay` lists during development.
+ *
+ * For a learner:
+ * - Zod objects ignore unknown keys, so a field *added* by the backend never counts as drift;
+ *   only missing, renamed or retyped fields do.
+ * - In `warn` mode a screen may receive data that doesn't match its TypeScript type. That is
+ *   the trade-off for staying up; the drift report tells developers what to fix.
+ */
+import { AxiosResponse } from 'axios';
+import { z } from 'zod';
+import { SchemaMismatchError } from './apiErrors';
+import { logError, ErrorSeverity } from './errorLogger';
+import {
+  SchemaValidationMode,
+  useSchemaDriftStore,
+} from '../stores/schemaDriftStore';
+
+/**
+ * One difference between the expected and the received response.
+ * - `path`: Where in the body, e.g., `data.0.tags` (`(root)` for the body itself).
+ * - `change`: `missing` (expected but absent), `type_changed`, `invalid_value` (right type,
+ *   wrong value, e.g., an unknown enum member) or `unexpected_key` (for strict objects).
+ * - `expected`/`received`: Short human-readable descriptions, e.g., `string` / `number (42)`.
+ */
+export interface SchemaDriftEntry {
+  path: string;
+  change: 'missing' | 'type_changed' | 'invalid_value' | 'unexpected_key';
+  expected: string;
+  received: string;
+}
+
+/** A response that didn't match its schema. */
+export interface SchemaDriftEvent {
+  id: string;
+  /** The request, e.g., `GET /notes`. */
+  request: string;
+  status: number | undefined;
+  /** When the response arrived (ISO 8601). */
+  at: string;
+  /** The mode that was active, i.e., whether the app threw or carried on. */
+  mode: Exclude<SchemaValidationMode, 'off'>;
+  entries: SchemaDriftEntry[];
+}
+
+const formatPath = (path: (string | number)[]) =>
+  path.length > 0 ? path.join('.') : '(root)';
+
+// Looks up the value at `path` inside `data`, or `undefined` if any step is missing.
+function valueAt(data: unknown, path: (string | number)[]): unknown {
+  return path.reduce<unknown>(
+    (value, key) =>
+      value !== null && typeof value === 'object'
+        ? (value as Record<string | number, unknown>)[key]
+        : undefined,
+    data
+  );
+}
+
+// A short description of a received value, e.g., `number (42)` or `array (3 items)`.
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array (${value.length} items)`;
+  if (typeof value === 'object') return 'object';
+  const text = JSON.stringify(value);
+  return `${typeof value} (${text.length > 40 ? `${text.slice(0, 37)}...` : text})`;
+}
+
+/**
+ * Turns Zod's issues into a diff of what the schema expected and what the API sent.
+ *
+ * @param issues - The issues from a failed `safeParse`.
+ * @param data - The response body that was parsed.
+ */
+export function diffSchemaIssues(
+  issues: z.ZodIssue[],
+  data: unknown
+): SchemaDriftEntry[] {
+  return issues.flatMap((issue): SchemaDriftEntry[] => {
+    const received = describeValue(valueAt(data, issue.path));
+    switch (issue.code) {
+      case 'invalid_type':
+        return [
+          {
+            path: formatPath(issue.path),
+            change: issue.received === 'undefined' ? 'missing' : 'type_changed',
+            expected: issue.expected,
+            received,
+          },
+        ];
+      case 'invalid_enum_value':
+        return [
+          {
+            path: formatPath(issue.path),
+            change: 'invalid_value',
+            expected: `one of ${issue.options.join(', ')}`,
+            received,
+          },
+        ];
+      case 'unrecognized_keys':
+        return issue.keys.map((key) => ({
+          path: formatPath([...issue.path, key]),
+          change: 'unexpected_key' as const,
+          expected: 'no such key',
+          received: describeValue(valueAt(data, [...issue.path, key])),
+        }));
+      default:
+        return [
+          {
+            path: formatPath(issue.path),
+            change: 'invalid_value',
+            expected: issue.message,
+            received,
+          },
+        ];
+    }
+  });
+}
+
+/**
+ * Checks a response body against its schema according to the current validation mode.
+ *
+ * @param schema - The response schema from `@hello-world/api-types`.
+ * @param data - The response body.
+ * @param context.request - The request, e.g., `GET /notes`, for reports.
+ * @param context.status - The response's HTTP status.
+ * @returns The parsed data, or in `warn`/`off` mode the data as received.
+ * @throws SchemaMismatchError in `strict` mode when the body doesn't match.
+ */
+export function validateApiResponse<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  context: { request: string; status?: number }
+): z.infer<T> {
+  const { mode, recordDrift } = useSchemaDriftStore.getState();
+  if (mode === 'off') return data as z.infer<T>;
+
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const entries = diffSchemaIssues(result.error.issues, data);
+  recordDrift({
+    request: context.request,
+    status: context.status,
+    mode,
+    entries,
+  });
+
+  const mismatch = new SchemaMismatchError(
+    context.request,
+    context.status,
+    result.error.issues,
+    data,
+    { cause: result.error }
+  );
+  logError(
+    mismatch,
+    mode === 'strict' ? ErrorSeverity.ERROR : ErrorSeverity.WARNING,
+    {
+      action: 'API_Schema_Drift',
+      additionalData: {
+        request: context.request,
+        statusCode: context.status,
+        mode,
+        diff: entries,
+      },
+    }
+  );
+
+  if (mode === 'strict') throw mismatch;
+  // Soft-fail: hand the screen what the API sent and hope the differences don't matter to it.
+  return data as z.infer<T>;
+}
+
+/**
+ * `validateApiResponse` for an axios response, as used by every `apiClient` method.
+ *
+ * @param schema - The response schema from `@hello-world/api-types`.
+ * @param response - The axios response.
+ */
+export function parseApiResponse<T extends z.ZodTypeAny>(
+  schema: T,
+  response: AxiosResponse
+): z.infer<T> {
+  const { method = 'GET', url = 'unknown' } = response.config;
+  return validateApiResponse(schema, response.data, {
+    request: `${method.toUpperCase()} ${url}`,
+    status: response.status,
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * @file packages/shared/src/services/sessionEvents.ts
+ * @description A tiny, typed event channel for authentication session lifecycle events.
+ *
+ * The API client lives outside React, so it cannot call hooks, navigate, or touch the
+ * React Query cache directly. Instead, when it gives up on a session (the refresh token
+ * was rejected or missing), it emits a `session_expired` event here. UI code subscribes
+ * with `onSessionExpired()` and decides how to react: clear cached data, show a message,
+ * redirect to the login screen, etc.
+ *
+ * For a learner:
+ * - This is the classic observer (pub/sub) pattern, kept deliberately small.
+ * - Events are described by a TypeScript type, so subscribers get autocompletion for
+ *   `event.reason` instead of matching on magic strings.
+ * - `onSessionExpired` returns an unsubscribe function, which fits neatly into a
+ *   `useEffect` cleanup.
+ */
+
+/**
+ * Why a session ended.
+ * - `refresh_failed`: The server rejected the refresh token (expired, revoked or already used).
+ * - `no_refresh_token`: A request returned 401 and there was no refresh token to try.
+ * - `unauthorized_after_refresh`: The request was replayed with a fresh token and still got 401.
+ */
+export type SessionExpiredReason =
+  | 'refresh_failed'
+  | 'no_refresh_token'
+  | 'unauthorized_after_refresh';
+
+/**
+ * Emitted once the stored tokens have been cleared because the session could not be renewed.
+ * - `requestUrl`: The API request that triggered the expiry, when known.
+ * - `error`: The underlying error (e.g., the failed `/auth/refresh` response), when available.
+ */
+export interface SessionExpiredEvent {
+  type: 'session_expired';
+  reason: SessionExpiredReason;
+  requestUrl?: string;
+  error?: unknown;
+}
+
+/** Signature of a function subscribed via `onSessionExpired`. */
+export type SessionExpiredListener = (event: SessionExpiredEvent) => void;
+
+const listeners = new Set<SessionExpiredListener>();
+
+/**
+ * Subscribes to session expiry events.
+ *
+ * @param listener - Called with the event every time a session expires.
+ * @returns A function that removes the listener again.
+ */
+export function onSessionExpired(listener: SessionExpiredListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Notifies all subscribers that the session has expired.
+ * A listener that throws does not prevent the remaining listeners from running.
+ *
+ * @param event - Details about the expired session (without the `type` discriminator).
+ */
+export function emitSessionExpired(
+  event: Omit<SessionExpiredEvent, 'type'>
+): void {
+  const fullEvent: SessionExpiredEvent = { type: 'session_expired', ...event };
+  listeners.forEach((listener) => {
+    try {
+      listener(fullEvent);
+    } catch (listenerError) {
+      console.error('Session expired listener failed:', listenerError);
+    }
+  });
+}
@@ -0,0 +1,226 @@
+/**
+ * @file packages/shared/src/services/tokenRefresh.ts
+ * @description Refresh-token flow used by the API client's axios interceptors.
+ *
+ * Access tokens are short-lived. Instead of logging the user out when one expires, the
+ * API client's interceptors (see `apiInterceptors.ts`) call into this module to:
+ * 1. Exchange the stored refresh token for a new token pair at `POST /auth/refresh`.
+ * 2. Replay the request that failed with 401, using the new access token.
+ * 3. Only if the refresh itself fails, clear the stored tokens and emit a typed
+ *    `session_expired` event (see `sessionEvents.ts`) for the UI to react to.
+ *
+ * Concurrency: when several requests fail with 401 at the same time (e.g., a page firing
+ * three queries right after the token expired), they must not each spend the single-use
+ * refresh token. `refreshAccessToken()` keeps the in-flight refresh promise, so every
+ * caller waits in line behind the same refresh and then replays with its result.
+ *
+ * Multiple accounts: the token store can hold several sessions (see `tokenStore.ts`). A refresh
+ * always writes its result to the session it started for, and a 401 is only replayed while
+ * that session is still the active one, so a request never continues under another account.
+ *
+ * For a learner:
+ * - The refresh call uses a bare `axios.post` rather than the API client's instance, so it
+ *   does not run through the interceptors that would otherwise try to refresh again. The
+ *   interceptors would also set its timeout, so it takes the one from `REQUEST_POLICIES` here.
+ * - `_retry` is a flag we add to the request config to make sure a request is replayed
+ *   at most once. Without it, a permanently rejected token could loop forever.
+ */
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { RefreshTokenResponseSchema } from '@hello-world/api-types/src/authSchemas';
+import { useTokenStore } from '../stores/tokenStore';
+import { emitSessionExpired, SessionExpiredReason } from './sessionEvents';
+import { logError, ErrorSeverity } from './errorLogger';
+import { getRequestPolicy } from './requestPolicy';
+
+/**
+ * Refresh this long before `expiresAt` so a token doesn't expire while a request is in flight.
+ */
+export const TOKEN_EXPIRY_SKEW_MS = 30 * 1000;
+
+/**
+ * Axios request config with the flag marking a request that has already been replayed, and
+ * the ID of the session whose token the request was sent with.
+ */
+export type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retry?: boolean;
+  _sessionId?: string | null;
+};
+
+// The refresh currently in progress, shared by every request of the same session.
+let refreshPromise: {
+  sessionId: string | null;
+  promise: Promise<string>;
+} | null = null;
+
+/**
+ * Clears the stored tokens and notifies subscribers that the session is over.
+ *
+ * @param reason - Why the session could not be renewed.
+ * @param details - Optional request URL and underlying error for subscribers and logs.
+ * @param sessionId - The session to end (defaults to the active one).
+ */
+export function expireSession(
+  reason: SessionExpiredReason,
+  details: { requestUrl?: string; error?: unknown } = {},
+  sessionId?: string | null
+): void {
+  useTokenStore.getState().clearToken(sessionId ?? undefined);
+  logError(
+    details.error ?? new Error('Session expired'),
+    ErrorSeverity.WARNING,
+    {
+      action: 'Auth_SessionExpired',
+      additionalData: { reason, url: details.requestUrl },
+    }
+  );
+  emitSessionExpired({ reason, ...details });
+}
+
+/**
+ * Exchanges the stored refresh token for a new token pair and saves it in `useTokenStore`.
+ * Concurrent callers share a single request to `/auth/refresh`.
+ *
+ * @param apiBaseUrl - Base URL of the API (e.g., `http://localhost:8000/api`).
+ * @returns A promise resolving to the new access token. Rejects if there is no refresh
+ *   token or the server refuses it; in that case the session has already been expired.
+ */
+export function refreshAccessToken(apiBaseUrl: string): Promise<string> {
+  const { activeSessionId } = useTokenStore.getState();
+  if (refreshPromise?.sessionId !== activeSessionId) {
+    const current = {
+      sessionId: activeSessionId,
+      promise: performRefresh(apiBaseUrl, activeSessionId).finally(() => {
+        if (refreshPromise === current) refreshPromise = null;
+      }),
+    };
+    refreshPromise = current;
+  }
+  return refreshPromise.promise;
+}
+
+async function performRefresh(
+  apiBaseUrl: string,
+  sessionId: string | null
+): Promise<string> {
+  const { refreshToken, setTokens } = useTokenStore.getState();
+  if (!refreshToken) {
+    const error = new Error('No refresh token available');
+    expireSession('no_refresh_token', { error }, sessionId);
+    throw error;
+  }
+
+  try {
+    const response = await axios.post(
+      `${apiBaseUrl}/auth/refresh`,
+      { refresh_token: refreshToken },
+      {
+        headers: { Accept: 'application/json' },
+        timeout: getRequestPolicy('post', '/auth/refresh').timeoutMs,
+      }
+    );
+    const data = RefreshTokenResponseSchema.parse(response.data);
+    // Save to the session being refreshed, even if the user switched accounts meanwhile.
+    setTokens(
+      {
+        token: data.token,
+        refreshToken: data.refresh_token,
+        expiresAt: data.expires_at,
+      },
+      sessionId ?? undefined
+    );
+    return data.token;
+  } catch (error) {
+    expireSession('refresh_failed', { error }, sessionId);
+    throw error;
+  }
+}
+
+/**
+ * Returns the access token to attach to an outgoing request, refreshing it first when
+ * `expiresAt` says it is (about to be) expired. This avoids a guaranteed 401 round trip.
+ *
+ * @param apiBaseUrl - Base URL of the API, used for the refresh call.
+ * @returns The access token to use, or `null` if there is no session (or it just expired).
+ */
+export async function getValidAccessToken(
+  apiBaseUrl: string
+): Promise<string | null> {
+  const { token, refreshToken, isTokenExpired } = useTokenStore.getState();
+  if (token && refreshToken && isTokenExpired(TOKEN_EXPIRY_SKEW_MS)) {
+    try {
+      return await refreshAccessToken(apiBaseUrl);
+    } catch {
+      return null;
+    }
+  }
+  return token;
+}
+
+/**
+ * Handles a 401 response from the API client.
+ *
+ * If the request has not been replayed yet and a session exists, the token is refreshed
+ * (or the in-flight refresh is awaited) and the request is sent again with the new token.
+ * A request that still gets 401 after being replayed ends the session.
+ *
+ * @param instance - The axios instance that sent the original request, used for the replay.
+ * @param error - The 401 error received by the response interceptor.
+ * @param apiBaseUrl - Base URL of the API, used for the refresh call.
+ * @returns The replayed response, or a rejection with the original error.
+ */
+export async function retryWithRefreshedToken(
+  instance: AxiosInstance,
+  error: AxiosError,
+  apiBaseUrl: string
+): Promise<AxiosResponse> {
+  const originalRequest = error.config as RetriableRequestConfig | undefined;
+  const requestUrl = originalRequest?.url;
+
+  // Anonymous requests have no session to renew; just surface the 401.
+  if (!originalRequest || !useTokenStore.getState().token) {
+    throw error;
+  }
+
+  // The user switched accounts while this request was in flight. Replaying it with the
+  // new account's token would return that account's data to the old one, so give up.
+  if (
+    originalRequest._sessionId !== undefined &&
+    originalRequest._sessionId !== useTokenStore.getState().activeSessionId
+  ) {
+    throw error;
+  }
+
+  if (originalRequest._retry) {
+    expireSession(
+      'unauthorized_after_refresh',
+      { requestUrl, error },
+      originalRequest._sessionId
+    );
+    throw error;
+  }
+  originalRequest._retry = true;
+
+  // Another request may have finished refreshing while this one was in flight with the
+  // old token. In that case, replay with the current token instead of refreshing again.
+  const currentToken = useTokenStore.getState().token;
+  if (originalRequest.headers.Authorization !== `Bearer ${currentToken}`) {
+    originalRequest.headers.Authorization = `Bearer ${currentToken}`;
+    return instance(originalRequest);
+  }
+
+  try {
+    const newToken = await refreshAccessToken(apiBaseUrl);
+    originalRequest.headers.Authorization = `Bearer ${newToken}`;
+  } catch {
+    // The session has already been cleared and `session_expired` emitted.
+    // Reject with the original 401 so callers see the error they expect.
+    throw error;
+  }
+
+  return instance(originalRequest);
+}
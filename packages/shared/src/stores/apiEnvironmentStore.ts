@@ -0,0 +1,57 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+// Same platform storage as the auth token (Keychain/Keystore on native, localStorage on web)
+import { SecureStorage } from './secureStorage';
+import { useTokenStore } from './tokenStore';
+import {
+  ApiEnvironmentId,
+  DEFAULT_API_ENVIRONMENT_ID,
+  resolveEnvironmentHost,
+} from '../services/apiEnvironments';
+
+// NOTE: Which API the app talks to is a per-device developer setting, not server state.
+// It is persisted so QA can point a single build at staging once and keep it there.
+interface ApiEnvironmentState {
+  /** The environment picked in the developer menu. */
+  environmentId: ApiEnvironmentId;
+  /** URL entered for the `custom` environment (kept when switching away, for convenience). */
+  customHost: string;
+  /** Picks an environment; pass `customHost` together with `'custom'`. */
+  setEnvironment: (
+    environmentId: ApiEnvironmentId,
+    customHost?: string
+  ) => void;
+}
+
+export const useApiEnvironmentStore = create<ApiEnvironmentState>()(
+  persist(
+    (set) => ({
+      environmentId: DEFAULT_API_ENVIRONMENT_ID,
+      customHost: '',
+      setEnvironment: (environmentId, customHost) =>
+        set((state) => ({
+          environmentId,
+          customHost: customHost ?? state.customHost,
+        })),
+    }),
+    {
+      name: 'api-environment',
+      storage: createJSONStorage(() => SecureStorage),
+    }
+  )
+);
+
+/**
+ * Returns the host the API client should use right now: the active account's host when one is
+ * signed in (its tokens are only valid there), otherwise the environment chosen on this device.
+ */
+export function resolveActiveApiHost(): string {
+  const { sessions, activeSessionId } = useTokenStore.getState();
+  const sessionHost = activeSessionId
+    ? sessions[activeSessionId]?.apiHost
+    : undefined;
+  return (
+    sessionHost || resolveEnvironmentHost(useApiEnvironmentStore.getState())
+  );
+}
@@ -0,0 +1,100 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+// Same platform storage as the auth token (Keychain/Keystore on native, localStorage on web)
+import { SecureStorage } from './secureStorage';
+
+/**
+ * Lifecycle of a queued mutation.
+ * - `pending`: Waiting to be sent (or re-sent) to the API.
+ * - `conflict`: The API rejected it (e.g., 403/404/422). It stays in the queue, untouched,
+ *   until the user retries or discards it.
+ */
+export type QueuedMutationStatus = 'pending' | 'conflict';
+
+/**
+ * A write made while offline, waiting to be replayed against the API.
+ * - `id`: Client-generated identifier for the queue entry.
+ * - `type`: What to replay, e.g., `'notes.create'`. Feature code owns the meaning of each type.
+ * - `payload`: Everything needed to replay the request (must be JSON-serializable).
+ * - `userId`: Owner of the change; entries are only shown to and replayed for this user.
+ * - `attempts`: How many times replay has been tried.
+ * - `lastError`: User-facing reason for the last failure, shown for conflicts.
+ */
+export interface QueuedMutation<TPayload = unknown> {
+  id: string;
+  type: string;
+  payload: TPayload;
+  userId?: number;
+  createdAt: string;
+  status: QueuedMutationStatus;
+  attempts: number;
+  lastError?: string;
+}
+
+/** Fields supplied by callers when enqueueing; the store fills in the rest. */
+export type NewQueuedMutation<TPayload = unknown> = Pick<
+  QueuedMutation<TPayload>,
+  'type' | 'payload' | 'userId'
+>;
+
+// NOTE: Like the auth token, the offline queue is client state, not server state:
+// it holds changes the server has not seen yet, so it can't live in TanStack Query's cache.
+// It is persisted so queued changes survive the app being closed while offline.
+interface MutationQueueState {
+  /** Entries in the order they were made. Replay must preserve this order. */
+  queue: QueuedMutation[];
+  /** Appends a new pending entry and returns it. */
+  enqueue: <TPayload>(
+    mutation: NewQueuedMutation<TPayload>
+  ) => QueuedMutation<TPayload>;
+  /** Shallow-merges `changes` into the entry with the given ID. */
+  updateMutation: (
+    id: string,
+    changes: Partial<Omit<QueuedMutation, 'id'>>
+  ) => void;
+  /** Removes an entry (after a successful replay, or when the user discards it). */
+  removeMutation: (id: string) => void;
+  /** Empties the queue. */
+  clearQueue: () => void;
+}
+
+// Entry IDs only need to be unique on this device.
+const createMutationId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const useMutationQueueStore = create<MutationQueueState>()(
+  persist(
+    (set) => ({
+      queue: [],
+      enqueue: (mutation) => {
+        const entry = {
+          ...mutation,
+          id: createMutationId(),
+          createdAt: new Date().toISOString(),
+          status: 'pending' as const,
+          attempts: 0,
+        };
+        set((state) => ({ queue: [...state.queue, entry] }));
+        return entry;
+      },
+      updateMutation: (id, changes) =>
+        set((state) => ({
+          queue: state.queue.map((entry) =>
+            entry.id === id ? { ...entry, ...changes } : entry
+          ),
+        })),
+      removeMutation: (id) =>
+        set((state) => ({
+          queue: state.queue.filter((entry) => entry.id !== id),
+        })),
+      clearQueue: () => set({ queue: [] }),
+    }),
+    {
+      name: 'mutation-queue-storage',
+      storage: createJSONStorage(() => SecureStorage),
+      // Only the data is persisted; actions are recreated on every start.
+      partialize: (state) => ({ queue: state.queue }),
+    }
+  )
+);
@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import '../env';
+
+// Type-only import: the service imports this store at runtime, so this must not import it back.
+import type { SchemaDriftEvent } from '../services/schemaDrift';
+
+/** How API responses are checked against their schemas (see `services/schemaDrift.ts`). */
+export type SchemaValidationMode = 'strict' | 'warn' | 'off';
+
+const isSchemaValidationMode = (
+  value: string | undefined
+): value is SchemaValidationMode =>
+  value === 'strict' || value === 'warn' || value === 'off';
+
+/** The mode configured for this build, `warn` unless an environment variable says otherwise. */
+export const DEFAULT_SCHEMA_VALIDATION_MODE: SchemaValidationMode = (() => {
+  const configured =
+    process.env.NEXT_PUBLIC_SCHEMA_VALIDATION ||
+    process.env.EXPO_PUBLIC_SCHEMA_VALIDATION;
+  return isSchemaValidationMode(configured) ? configured : 'warn';
+})();
+
+/** How many drift events are kept; older ones are dropped first. */
+export const MAX_SCHEMA_DRIFT_EVENTS = 50;
+
+// NOTE: Drift events are diagnostics for developers, not user data, so unlike the token and
+// mutation queue stores this one is not persisted: a reload starts with an empty list.
+interface SchemaDriftState {
+  /** How API responses are checked (see `services/schemaDrift.ts`). */
+  mode: SchemaValidationMode;
+  /** Responses that didn't match their schema, newest first. */
+  events: SchemaDriftEvent[];
+  setMode: (mode: SchemaValidationMode) => void;
+  /** Adds a drift event; `id` and `at` are filled in. */
+  recordDrift: (event: Omit<SchemaDriftEvent, 'id' | 'at'>) => void;
+  clearDrift: () => void;
+}
+
+export const useSchemaDriftStore = create<SchemaDriftState>()((set) => ({
+  mode: DEFAULT_SCHEMA_VALIDATION_MODE,
+  events: [],
+  setMode: (mode) => set({ mode }),
+  recordDrift: (event) =>
+    set((state) => ({
+      events: [
+        {
+          ...event,
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+          at: new Date().toISOString(),
+        },
+        ...state.events,
+      ].slice(0, MAX_SCHEMA_DRIFT_EVENTS),
+    })),
+  clearDrift: () => set({ events: [] }),
+}));
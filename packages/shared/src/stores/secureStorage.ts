@@ -18,8 +18,9 @@
  * - Understand the importance of secure storage for sensitive items like auth tokens.
  * - Note how `Platform.OS` from `react-native` is used for conditional logic.
  * - `expo-secure-store` is crucial for security on mobile devices as it encrypts data.
- *   `localStorage` on the web is not encrypted but is standard for client-side storage;
- *   for highly sensitive web tokens, server-managed HttpOnly cookies are an alternative.
+ *   `localStorage` on the web is not encrypted but is standard for client-side storage.
+ *   The auth tokens are too sensitive for it: `useTokenStore` uses the configurable, encrypted
+ *   backends of `tokenStorage.ts` instead.
  */
 import { Platform } from 'react-native';
 // `expo-secure-store` provides access to the underlying native secure enclave
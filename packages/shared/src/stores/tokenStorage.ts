@@ -0,0 +1,408 @@
+/**
+ * @file packages/shared/src/stores/tokenStorage.ts
+ * @description Interchangeable places to keep the auth tokens ("token storage adapters").
+ *
+ * `useTokenStore` persists the signed-in sessions through a `TokenStorageAdapter`. Each
+ * backend below implements the same three async methods:
+ * - `secure-store`: `expo-secure-store` (Keychain on iOS, Keystore on Android). Native only.
+ * - `encrypted-local-storage`: `localStorage`, encrypted with AES-GCM. The key is a
+ *   non-extractable WebCrypto key kept in IndexedDB, so the stored text is useless on its own
+ *   and scripts can use the key but never read it.
+ * - `session-storage`: `sessionStorage`, in plain text. Cleared when the tab closes.
+ * - `local-storage`: `localStorage`, in plain text. Only for local development.
+ * - `memory`: A `Map`. Nothing survives a reload; for tests and server rendering.
+ *
+ * The backend is picked with the `NEXT_PUBLIC_TOKEN_STORAGE` / `EXPO_PUBLIC_TOKEN_STORAGE`
+ * environment variable. Unset, it is `secure-store` on devices, `encrypted-local-storage` in
+ * browsers (`session-storage` where WebCrypto is unavailable, e.g., plain `http://` on the LAN)
+ * and `memory` during server rendering. Call `configureTokenStorage()` (in `tokenStore.ts`) to
+ * switch at runtime.
+ *
+ * Unlike `SecureStorage`, adapters don't hide failures: a backend that can't read or write
+ * rejects with a `TokenStorageError`, which `useTokenStore` reports through `logError`.
+ *
+ * For a learner:
+ * - Encryption at rest doesn't stop a script running *in* the page (XSS) from using the key,
+ *   but it does keep the tokens out of plain-text copies of the browser profile, of disk
+ *   images and of extensions that read `localStorage`.
+ * - AES-GCM needs a fresh random IV (nonce) for every encryption; it is stored next to the
+ *   ciphertext. The storage key is bound in as "additional data", so a value copied under
+ *   another key fails to decrypt.
+ */
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import { logError, ErrorSeverity } from '../services/errorLogger';
+import '../env';
+
+/** Every available backend, by the name used in configuration. */
+export const TOKEN_STORAGE_KINDS = [
+  'secure-store',
+  'encrypted-local-storage',
+  'session-storage',
+  'local-storage',
+  'memory',
+] as const;
+
+/** Name of a token storage backend, e.g., `encrypted-local-storage`. */
+export type TokenStorageKind = (typeof TOKEN_STORAGE_KINDS)[number];
+
+/**
+ * A place to keep the persisted token store. Compatible with Zustand's `createJSONStorage`.
+ * Every method rejects with a `TokenStorageError` when the backend fails.
+ */
+export interface TokenStorageAdapter {
+  readonly kind: TokenStorageKind;
+  getItem: (name: string) => Promise<string | null>;
+  setItem: (name: string, value: string) => Promise<void>;
+  removeItem: (name: string) => Promise<void>;
+}
+
+/** A token storage backend failed to read, write or remove a value. */
+export class TokenStorageError extends Error {
+  override readonly name = 'TokenStorageError';
+
+  constructor(
+    message: string,
+    /** The backend that failed. */
+    readonly storage: TokenStorageKind,
+    readonly operation: 'read' | 'write' | 'remove',
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+  }
+}
+
+// Runs one storage operation, turning whatever it throws into a `TokenStorageError`.
+async function attempt<T>(
+  storage: TokenStorageKind,
+  operation: TokenStorageError['operation'],
+  name: string,
+  run: () => T | Promise<T>
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof TokenStorageError) throw error;
+    throw new TokenStorageError(
+      `Could not ${operation} "${name}" in ${storage}.`,
+      storage,
+      operation,
+      { cause: error }
+    );
+  }
+}
+
+/** Keeps the tokens in the iOS Keychain / Android Keystore. */
+export function createSecureStoreAdapter(): TokenStorageAdapter {
+  const kind = 'secure-store';
+  return {
+    kind,
+    getItem: (name) =>
+      attempt(kind, 'read', name, () => SecureStore.getItemAsync(name)),
+    setItem: (name, value) =>
+      attempt(kind, 'write', name, () => SecureStore.setItemAsync(name, value)),
+    removeItem: (name) =>
+      attempt(kind, 'remove', name, () => SecureStore.deleteItemAsync(name)),
+  };
+}
+
+// `localStorage` and `sessionStorage` have the same API; only the object differs. The getter
+// runs on every call because merely touching `window.localStorage` throws in some browsers
+// (e.g., with site data blocked), which must surface as a `TokenStorageError`.
+function createWebStorageAdapter(
+  kind: 'local-storage' | 'session-storage',
+  getStorage: () => Storage
+): TokenStorageAdapter {
+  return {
+    kind,
+    getItem: (name) =>
+      attempt(kind, 'read', name, () => getStorage().getItem(name)),
+    setItem: (name, value) =>
+      attempt(kind, 'write', name, () => getStorage().setItem(name, value)),
+    removeItem: (name) =>
+      attempt(kind, 'remove', name, () => getStorage().removeItem(name)),
+  };
+}
+
+/** Keeps the tokens in `localStorage`, in plain text. Not for production builds. */
+export function createLocalStorageAdapter(): TokenStorageAdapter {
+  return createWebStorageAdapter('local-storage', () => window.localStorage);
+}
+
+/** Keeps the tokens in `sessionStorage`: signed out when the tab is closed. */
+export function createSessionStorageAdapter(): TokenStorageAdapter {
+  return createWebStorageAdapter(
+    'session-storage',
+    () => window.sessionStorage
+  );
+}
+
+/** A `memory` adapter, which can also be emptied (between tests). */
+export interface MemoryTokenStorageAdapter extends TokenStorageAdapter {
+  clear: () => void;
+}
+
+/**
+ * Keeps the tokens in a `Map`, for tests and server rendering.
+ * @param initial Values to start with, by storage key.
+ */
+export function createMemoryStorageAdapter(
+  initial: Record<string, string> = {}
+): MemoryTokenStorageAdapter {
+  const values = new Map(Object.entries(initial));
+  return {
+    kind: 'memory',
+    getItem: async (name) => values.get(name) ?? null,
+    setItem: async (name, value) => {
+      values.set(name, value);
+    },
+    removeItem: async (name) => {
+      values.delete(name);
+    },
+    clear: () => values.clear(),
+  };
+}
+
+/**
+ * Options of `createEncryptedStorageAdapter`.
+ * - `getStorage`: Where the encrypted values go; `localStorage` by default.
+ * - `databaseName`: The IndexedDB database holding the key.
+ */
+export interface EncryptedStorageOptions {
+  getStorage?: () => Storage;
+  databaseName?: string;
+}
+
+// Marks values written by the encrypted adapter: `enc1.<iv>.<ciphertext>`, both in base64.
+const ENCRYPTED_PREFIX = 'enc1.';
+const KEY_STORE = 'keys';
+const KEY_ID = 'token-storage';
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+// Returns the key stored in IndexedDB, creating it on first use.
+async function loadKey(databaseName: string): Promise<CryptoKey> {
+  const open = indexedDB.open(databaseName, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore(KEY_STORE);
+  const database = await requestResult(open);
+  const readKey = () =>
+    requestResult<CryptoKey | undefined>(
+      database.transaction(KEY_STORE).objectStore(KEY_STORE).get(KEY_ID)
+    );
+  try {
+    const existing = await readKey();
+    if (existing) return existing;
+    // `extractable: false`: the key can encrypt and decrypt, but can never be exported.
+    const key = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    try {
+      await requestResult(
+        database
+          .transaction(KEY_STORE, 'readwrite')
+          .objectStore(KEY_STORE)
+          .add(key, KEY_ID)
+      );
+      return key;
+    } catch {
+      // Another tab created the key first; everyone must use that one.
+      const winner = await readKey();
+      if (!winner) throw new Error('The token storage key could not be saved.');
+      return winner;
+    }
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Keeps the tokens in `localStorage` (or `options.getStorage()`), encrypted with AES-GCM under
+ * a non-extractable key kept in IndexedDB.
+ *
+ * A plain-text value left by an older version of the app is returned as is and encrypted
+ * right away, so upgrading doesn't sign anyone out. A value that can't be decrypted (e.g., the
+ * site's IndexedDB was cleared) is removed and reported: those sessions are lost.
+ */
+export function createEncryptedStorageAdapter(
+  options: EncryptedStorageOptions = {}
+): TokenStorageAdapter {
+  const kind = 'encrypted-local-storage';
+  const {
+    getStorage = () => window.localStorage,
+    databaseName = 'hello-world-token-storage',
+  } = options;
+  let key: Promise<CryptoKey> | null = null;
+  const getKey = () => {
+    key ??= loadKey(databaseName).catch((error) => {
+      key = null; // Try again next time, e.g., after a blocked database upgrade
+      throw error;
+    });
+    return key;
+  };
+  const encoder = new TextEncoder();
+
+  // Encrypting takes a moment: a quick second write could finish first and then be overwritten
+  // with the older data of the first. Writes and removals therefore run one after the other.
+  let lastChange: Promise<unknown> = Promise.resolve();
+  const inOrder = <T>(change: () => Promise<T>): Promise<T> => {
+    const result = lastChange.then(change);
+    lastChange = result.catch(() => undefined);
+    return result;
+  };
+
+  const setItem = (name: string, value: string) =>
+    attempt(kind, 'write', name, () =>
+      inOrder(async () => {
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = await crypto.subtle.encrypt(
+          { name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+          await getKey(),
+          encoder.encode(value)
+        );
+        getStorage().setItem(
+          name,
+          `${ENCRYPTED_PREFIX}${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`
+        );
+      })
+    );
+
+  return {
+    kind,
+    setItem,
+    getItem: (name) =>
+      attempt(kind, 'read', name, async () => {
+        const stored = getStorage().getItem(name);
+        if (stored === null) return null;
+        if (!stored.startsWith(ENCRYPTED_PREFIX)) {
+          await setItem(name, stored);
+          return stored;
+        }
+        try {
+          const [iv = '', data = ''] = stored
+            .slice(ENCRYPTED_PREFIX.length)
+            .split('.');
+          const plaintext = await crypto.subtle.decrypt(
+            {
+              name: 'AES-GCM',
+              iv: fromBase64(iv),
+              additionalData: encoder.encode(name),
+            },
+            await getKey(),
+            fromBase64(data)
+          );
+          return new TextDecoder().decode(plaintext);
+        } catch (error) {
+          getStorage().removeItem(name);
+          throw new TokenStorageError(
+            `"${name}" could not be decrypted and was removed.`,
+            kind,
+            'read',
+            { cause: error }
+          );
+        }
+      }),
+    removeItem: (name) =>
+      attempt(kind, 'remove', name, () =>
+        inOrder(async () => getStorage().removeItem(name))
+      ),
+  };
+}
+
+const isBrowser = () => Platform.OS === 'web' && typeof window !== 'undefined';
+
+/** Tells whether a backend can work here, e.g., `secure-store` can't in a browser. */
+export function isTokenStorageAvailable(kind: TokenStorageKind): boolean {
+  switch (kind) {
+    case 'secure-store':
+      return Platform.OS !== 'web';
+    case 'encrypted-local-storage':
+      return (
+        isBrowser() &&
+        typeof indexedDB !== 'undefined' &&
+        typeof crypto !== 'undefined' &&
+        crypto.subtle !== undefined
+      );
+    case 'session-storage':
+    case 'local-storage':
+      return isBrowser();
+    case 'memory':
+      return true;
+  }
+}
+
+const warnAboutConfiguration = (message: string) =>
+  logError(new Error(message), ErrorSeverity.WARNING, {
+    component: 'tokenStorage',
+    action: 'resolveTokenStorageKind',
+  });
+
+const isTokenStorageKind = (value: unknown): value is TokenStorageKind =>
+  TOKEN_STORAGE_KINDS.includes(value as TokenStorageKind);
+
+/** The safest backend available here. */
+export function defaultTokenStorageKind(): TokenStorageKind {
+  if (Platform.OS !== 'web') return 'secure-store';
+  if (!isBrowser()) return 'memory';
+  return isTokenStorageAvailable('encrypted-local-storage')
+    ? 'encrypted-local-storage'
+    : 'session-storage';
+}
+
+/**
+ * The backend chosen by `*_TOKEN_STORAGE`, or the default one when the variable is unset, has
+ * an unknown value or names a backend this platform lacks.
+ */
+export function resolveTokenStorageKind(): TokenStorageKind {
+  const configured =
+    process.env.NEXT_PUBLIC_TOKEN_STORAGE ||
+    process.env.EXPO_PUBLIC_TOKEN_STORAGE;
+  const fallback = defaultTokenStorageKind();
+  if (!configured) return fallback;
+  if (!isTokenStorageKind(configured)) {
+    warnAboutConfiguration(
+      `Unknown token storage "${configured}" (expected one of ${TOKEN_STORAGE_KINDS.join(', ')}); using ${fallback}.`
+    );
+    return fallback;
+  }
+  // During server rendering nothing is available; `memory` is expected there, not a mistake.
+  if (!isTokenStorageAvailable(configured)) {
+    if (isBrowser() || Platform.OS !== 'web') {
+      warnAboutConfiguration(
+        `Token storage "${configured}" is not available here; using ${fallback}.`
+      );
+    }
+    return fallback;
+  }
+  return configured;
+}
+
+/** Creates the adapter of a backend; the configured one by default. */
+export function createTokenStorage(
+  kind: TokenStorageKind = resolveTokenStorageKind()
+): TokenStorageAdapter {
+  switch (kind) {
+    case 'secure-store':
+      return createSecureStoreAdapter();
+    case 'encrypted-local-storage':
+      return createEncryptedStorageAdapter();
+    case 'session-storage':
+      return createSessionStorageAdapter();
+    case 'local-storage':
+      return createLocalStorageAdapter();
+    case 'memory':
+      return createMemoryStorageAdapter();
+  }
+}
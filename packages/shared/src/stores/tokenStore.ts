@@ -1,8 +1,56 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import {
+  persist,
+  createJSONStorage,
+  type StateStorage,
+} from 'zustand/middleware';
 
-// Platform-specific secure storage implementation
-import { SecureStorage } from './secureStorage';
+// Where the sessions are persisted: Keychain/Keystore, encrypted `localStorage`, ... (configurable)
+import { createTokenStorage, type TokenStorageAdapter } from './tokenStorage';
+import { logError, ErrorSeverity } from '../services/errorLogger';
+
+/**
+ * The token pair returned by login, registration and `/auth/refresh`.
+ * - `token`: Short-lived access token sent as `Authorization: Bearer ...`.
+ * - `refreshToken`: Long-lived, single-use token used to obtain a new pair.
+ * - `expiresAt`: ISO 8601 timestamp after which the access token is rejected.
+ */
+export interface AuthTokens {
+  token: string;
+  refreshToken: string | null;
+  expiresAt: string | null;
+}
+
+/**
+ * The parts of the user profile kept with a session, so the account switcher can show who
+ * each session belongs to without calling the API.
+ */
+export interface SessionUser {
+  id: number;
+  name: string;
+  email: string;
+}
+
+/**
+ * One signed-in account on this device.
+ * - `id`: Local identifier of the session (not sent to the API).
+ * - `user`: Snapshot of the account's profile, refreshed whenever `/auth/user` is fetched.
+ * - `apiHost`: The API the account belongs to, e.g., `https://staging.example.com`.
+ * - `createdAt`: When the user signed in to this session.
+ */
+export interface AuthSession extends AuthTokens {
+  id: string;
+  user: SessionUser | null;
+  apiHost: string;
+  createdAt: string;
+}
+
+/** Details of a newly signed-in account, passed to `addSession`. */
+export interface NewAuthSession {
+  tokens: AuthTokens;
+  user?: SessionUser | null;
+  apiHost: string;
+}
 
 // NOTE: This is one of the few appropriate uses of Zustand in our architecture.
 // The auth token:
@@ -10,24 +58,278 @@ import { SecureStorage } from './secureStorage';
 // 2. Needs to be persisted securely between sessions
 // 3. Must be accessible throughout the app
 // 4. Is used to enable/disable TanStack Query operations
+//
+// The store can hold several named sessions (e.g., different test accounts), of which one is
+// active. `token`, `refreshToken` and `expiresAt` always mirror the active session, so code
+// that only cares about "the current token" (like the API client) doesn't need to know about
+// the other sessions.
+//
+// Loading the persisted sessions is asynchronous (every token storage is). Until it finishes,
+// the store looks signed out even for a signed-in user, so anything that decides "signed in or
+// not" must wait for `hasHydrated` (or `awaitHydration()`) first.
 interface TokenState {
+  /** Every signed-in account on this device, by session ID. */
+  sessions: Record<string, AuthSession>;
+  /** ID of the session used for API requests, or `null` when browsing anonymously. */
+  activeSessionId: string | null;
   token: string | null;
+  refreshToken: string | null;
+  expiresAt: string | null;
+  /**
+   * True once the persisted sessions have been loaded (or loading them failed). Not persisted.
+   */
+  hasHydrated: boolean;
+  /** Resolves once `hasHydrated` is true; at once if it already is. */
+  awaitHydration: () => Promise<void>;
   setToken: (token: string) => void;
-  clearToken: () => void;
+  /**
+   * Stores a full token pair, replacing the previous one (used after refresh).
+   * Updates the session with ID `sessionId` (defaults to the active session). With no session,
+   * a new one is created and activated.
+   */
+  setTokens: (tokens: AuthTokens, sessionId?: string) => void;
+  /**
+   * Signs out of one session (defaults to the active one) by forgetting its tokens.
+   * If it was the active session, no session is active afterwards.
+   */
+  clearToken: (sessionId?: string) => void;
+  /**
+   * Saves a newly signed-in account and makes it the active session. Signing in again to an
+   * account that already has a session (same user and API host) replaces that session.
+   * @returns The ID of the new session.
+   */
+  addSession: (session: NewAuthSession) => string;
+  /** Makes another stored session the active one. Unknown IDs are ignored. */
+  switchSession: (sessionId: string | null) => void;
+  /** Stores a fresh profile snapshot for the active session. */
+  setSessionUser: (user: SessionUser) => void;
   hasToken: () => boolean;
+  /**
+   * True when the access token's `expiresAt` has passed (or will within `skewMs`).
+   * Tokens without a known expiry are treated as not expired.
+   */
+  isTokenExpired: (skewMs?: number) => boolean;
 }
 
+// Session IDs only need to be unique on this device.
+const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// The `token`/`refreshToken`/`expiresAt` mirrors for a given active session.
+const activeTokens = (session: AuthSession | undefined) => ({
+  token: session?.token ?? null,
+  refreshToken: session?.refreshToken ?? null,
+  expiresAt: session?.expiresAt ?? null,
+});
+
+// Only the user fields the switcher needs, so the stored snapshot stays small.
+const toSessionUser = ({ id, name, email }: SessionUser): SessionUser => ({
+  id,
+  name,
+  email,
+});
+
+// Reports a storage failure (see `TokenStorageError`). The store keeps working in memory, so the
+// user stays signed in until the app restarts.
+const reportStorageError = (error: unknown) =>
+  logError(error, ErrorSeverity.ERROR, {
+    component: 'useTokenStore',
+    action: 'persist',
+  });
+
+// `persist` doesn't wait for writes, so a failed one would be an unhandled rejection. They are
+// reported here instead.
+const toPersistStorage = (adapter: TokenStorageAdapter): StateStorage => ({
+  getItem: (name) => adapter.getItem(name),
+  setItem: (name, value) =>
+    adapter.setItem(name, value).catch(reportStorageError),
+  removeItem: (name) => adapter.removeItem(name).catch(reportStorageError),
+});
+
 export const useTokenStore = create<TokenState>()(
   persist(
     (set, get) => ({
+      sessions: {},
+      activeSessionId: null,
       token: null,
-      setToken: (token) => set({ token }),
-      clearToken: () => set({ token: null }),
+      refreshToken: null,
+      expiresAt: null,
+      hasHydrated: false,
+      awaitHydration: () =>
+        get().hasHydrated
+          ? Promise.resolve()
+          : new Promise<void>((resolve) => {
+              const unsubscribe = useTokenStore.subscribe((state) => {
+                if (!state.hasHydrated) return;
+                unsubscribe();
+                resolve();
+              });
+            }),
+      setToken: (token) => {
+        const { refreshToken, expiresAt } = get();
+        get().setTokens({ token, refreshToken, expiresAt });
+      },
+      setTokens: (tokens, sessionId) => {
+        const { sessions, activeSessionId } = get();
+        const id = sessionId ?? activeSessionId;
+        const existing = id ? sessions[id] : undefined;
+        if (!existing) {
+          // No session to update (e.g., the one being refreshed was removed meanwhile).
+          if (sessionId) return;
+          get().addSession({ tokens, apiHost: '' });
+          return;
+        }
+        const updated = { ...existing, ...tokens };
+        set({
+          sessions: { ...sessions, [existing.id]: updated },
+          ...(existing.id === activeSessionId ? activeTokens(updated) : {}),
+        });
+      },
+      clearToken: (sessionId) => {
+        const { sessions, activeSessionId } = get();
+        const id = sessionId ?? activeSessionId;
+        if (!id) return;
+        const remaining = { ...sessions };
+        delete remaining[id];
+        set({
+          sessions: remaining,
+          ...(id === activeSessionId
+            ? { activeSessionId: null, ...activeTokens(undefined) }
+            : {}),
+        });
+      },
+      addSession: ({ tokens, user = null, apiHost }) => {
+        const sessions = { ...get().sessions };
+        // Signing in to the same account twice replaces the old session instead of listing it twice.
+        if (user) {
+          Object.values(sessions)
+            .filter(
+              (session) =>
+                session.user?.id === user.id && session.apiHost === apiHost
+            )
+            .forEach((session) => delete sessions[session.id]);
+        }
+        const session: AuthSession = {
+          ...tokens,
+          id: createSessionId(),
+          user: user ? toSessionUser(user) : null,
+          apiHost,
+          createdAt: new Date().toISOString(),
+        };
+        sessions[session.id] = session;
+        set({
+          sessions,
+          activeSessionId: session.id,
+          ...activeTokens(session),
+        });
+        return session.id;
+      },
+      switchSession: (sessionId) => {
+        const session = sessionId ? get().sessions[sessionId] : undefined;
+        if (sessionId && !session) return;
+        set({ activeSessionId: sessionId, ...activeTokens(session) });
+      },
+      setSessionUser: (user) => {
+        const { sessions, activeSessionId } = get();
+        const session = activeSessionId ? sessions[activeSessionId] : undefined;
+        if (!session) return;
+        set({
+          sessions: {
+            ...sessions,
+            [session.id]: { ...session, user: toSessionUser(user) },
+          },
+        });
+      },
       hasToken: () => Boolean(get().token),
+      isTokenExpired: (skewMs = 0) => {
+        const { expiresAt } = get();
+        if (!expiresAt) return false;
+        return new Date(expiresAt).getTime() - skewMs <= Date.now();
+      },
     }),
     {
       name: 'auth-token-storage',
-      storage: createJSONStorage(() => SecureStorage),
+      storage: createJSONStorage(() => toPersistStorage(createTokenStorage())),
+      version: 1,
+      // `hasHydrated` describes this page load, so it is never saved (functions aren't either).
+      partialize: ({
+        sessions,
+        activeSessionId,
+        token,
+        refreshToken,
+        expiresAt,
+      }) => ({
+        sessions,
+        activeSessionId,
+        token,
+        refreshToken,
+        expiresAt,
+      }),
+      // A storage that failed to load counts as loaded too: the user is signed out, and
+      // waiting longer wouldn't change that.
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) reportStorageError(error);
+        useTokenStore.setState({ hasHydrated: true });
+      },
+      // Version 0 stored a single token pair. Keep the user signed in by turning it into
+      // the first session; the user snapshot is filled in on the next `/auth/user` fetch.
+      migrate: (persistedState, version) => {
+        const state = persistedState as Partial<TokenState> & AuthTokens;
+        if (version === 0) {
+          if (!state.token) {
+            return {
+              sessions: {},
+              activeSessionId: null,
+              ...activeTokens(undefined),
+            };
+          }
+          const session: AuthSession = {
+            id: createSessionId(),
+            token: state.token,
+            refreshToken: state.refreshToken ?? null,
+            expiresAt: state.expiresAt ?? null,
+            user: null,
+            apiHost: '',
+            createdAt: new Date().toISOString(),
+          };
+          return {
+            sessions: { [session.id]: session },
+            activeSessionId: session.id,
+            ...activeTokens(session),
+          };
+        }
+        return state;
+      },
     }
   )
 );
+
+/**
+ * Switches the storage the sessions are persisted to (by default the one picked by
+ * `*_TOKEN_STORAGE`, see `tokenStorage.ts`) and loads the sessions saved there.
+ * When the new storage has no sessions, the ones in memory are kept, and saved there with the
+ * next change.
+ *
+ * @param adapter - The new storage, e.g., `createMemoryStorageAdapter()` in tests.
+ */
+export async function configureTokenStorage(
+  adapter: TokenStorageAdapter
+): Promise<void> {
+  useTokenStore.persist.setOptions({
+    storage: createJSONStorage(() => toPersistStorage(adapter)),
+  });
+  await useTokenStore.persist.rehydrate();
+}
+
+/**
+ * Returns the stored sessions as a list, oldest first (the order shown in account switchers).
+ *
+ * @param sessions - The `sessions` record from `useTokenStore`.
+ */
+export function listSessions(
+  sessions: Record<string, AuthSession>
+): AuthSession[] {
+  return Object.values(sessions).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GetNotesResponseSchema,
+  NoteSchema,
+  UserSchema,
+} from '@hello-world/api-types';
+import { buildNote, buildNotes, buildNotesPage, buildUser } from '../factories';
+
+describe('buildUser', () => {
+  it('builds users that match the schema, with increasing IDs', () => {
+    const first = buildUser();
+    const second = buildUser({ name: 'Ada Lovelace' });
+
+    expect(UserSchema.safeParse(first).success).toBe(true);
+    expect(first.id).toBe(1);
+    expect(second).toMatchObject({ id: 2, name: 'Ada Lovelace' });
+    expect(second.email).not.toBe(first.email);
+  });
+
+  it('rejects overrides the API would never send', () => {
+    expect(() => buildUser({ id: 1.5 })).toThrow();
+  });
+});
+
+describe('buildNote', () => {
+  it('builds private, untagged notes of user 1 by default', () => {
+    const note = buildNote();
+
+    expect(NoteSchema.safeParse(note).success).toBe(true);
+    expect(note).toMatchObject({
+      id: 1,
+      userId: 1,
+      visibility: 'private',
+      tags: [],
+    });
+  });
+
+  it('applies overrides', () => {
+    const author = buildUser();
+    const notes = buildNotes(2, {
+      userId: author.id,
+      visibility: 'shared',
+      sharedWith: [5],
+    });
+
+    expect(notes.map((note) => note.id)).toEqual([1, 2]);
+    notes.forEach((note) =>
+      expect(note).toMatchObject({ userId: author.id, sharedWith: [5] })
+    );
+  });
+});
+
+describe('buildNotesPage', () => {
+  it('builds the last page without a cursor', () => {
+    const page = buildNotesPage(buildNotes(3));
+
+    expect(GetNotesResponseSchema.safeParse(page).success).toBe(true);
+    expect(page.data).toHaveLength(3);
+    expect(page.meta.next_cursor).toBeNull();
+    expect(page.links.next).toBeNull();
+  });
+
+  it('links to the next page when given a cursor', () => {
+    const page = buildNotesPage([], { nextCursor: 'abc' });
+
+    expect(page.meta.next_cursor).toBe('abc');
+    expect(page.links.next).toContain('cursor=abc');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { act } from '@testing-library/react';
+import { z } from 'zod';
+import {
+  createValidationError,
+  expectFieldErrors,
+  expectGeneralError,
+  expectNoFormErrors,
+  renderFormErrors,
+} from '../formErrors';
+
+describe('form error helpers', () => {
+  it('start without errors', () => {
+    expectNoFormErrors(renderFormErrors().errors);
+  });
+
+  it('show the first message of each field of an API validation error', () => {
+    const form = renderFormErrors();
+
+    form.handleError(
+      createValidationError({
+        name: ['The name field is required.', 'Second message.'],
+        password: 'The password field must be at least 8 characters.',
+      })
+    );
+
+    expectFieldErrors(form.errors, {
+      name: 'The name field is required.',
+      password: /at least 8 characters/,
+    });
+  });
+
+  it('show client-side validation errors', () => {
+    const form = renderFormErrors();
+    const result = z
+      .object({ title: z.string().min(1, 'Required') })
+      .safeParse({
+        title: '',
+      });
+
+    form.handleError(result.success ? null : result.error);
+
+    expectFieldErrors(form.result.current, { title: 'Required' });
+  });
+
+  it('fail when a field has an unexpected error', () => {
+    const form = renderFormErrors();
+    form.handleError(
+      createValidationError({ email: 'Taken.', name: 'Short.' })
+    );
+
+    expect(() => expectFieldErrors(form.errors, { email: 'Taken.' })).toThrow();
+  });
+
+  it('check the general message', () => {
+    const form = renderFormErrors();
+    act(() => form.result.current.setGeneralError('Network connection failed'));
+
+    expectGeneralError(form.errors, /network/i);
+    expect(() => expectNoFormErrors(form.errors)).toThrow();
+  });
+});
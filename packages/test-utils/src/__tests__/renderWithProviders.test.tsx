@@ -0,0 +1,74 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { fireEvent, screen } from '@testing-library/react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useRouter, usePathname } from 'solito/navigation';
+import { Link } from 'solito/link';
+import { useTokenStore } from '@hello-world/shared';
+import { buildUser } from '../factories';
+import { memoryTokenStorage } from '../tokenStore';
+import {
+  createTestQueryClient,
+  renderWithProviders,
+} from '../renderWithProviders';
+
+function Probe() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const token = useTokenStore((state) => state.token);
+  const queryClient = useQueryClient();
+  return (
+    <div>
+      <p>Path: {pathname}</p>
+      <p>Token: {token ?? 'none'}</p>
+      <p>Retries: {String(queryClient.getDefaultOptions().queries?.retry)}</p>
+      <button onClick={() => router.push('/notes')}>Notes</button>
+      <Link href="/register">Register</Link>
+    </div>
+  );
+}
+
+describe('renderWithProviders', () => {
+  it('renders anonymously with a fresh query client without retries', () => {
+    renderWithProviders(<Probe />);
+
+    expect(screen.getByText('Token: none')).toBeTruthy();
+    expect(screen.getByText('Retries: false')).toBeTruthy();
+  });
+
+  it('signs in the given user, in memory only', async () => {
+    const user = buildUser();
+    renderWithProviders(<Probe />, { session: { user } });
+
+    expect(screen.getByText(`Token: test-token-${user.id}`)).toBeTruthy();
+    expect(useTokenStore.getState().sessions).not.toEqual({});
+    expect(await memoryTokenStorage.getItem('auth-token-storage')).toContain(
+      `test-token-${user.id}`
+    );
+  });
+
+  it('starts every test signed out', async () => {
+    expect(useTokenStore.getState().token).toBeNull();
+    expect(await memoryTokenStorage.getItem('auth-token-storage')).toBeNull();
+  });
+
+  it('records navigation on the fake router', () => {
+    const { router } = renderWithProviders(<Probe />, {
+      router: { pathname: '/login' },
+    });
+
+    expect(screen.getByText('Path: /login')).toBeTruthy();
+    fireEvent.click(screen.getByText('Notes'));
+    fireEvent.click(screen.getByText('Register'));
+    expect(router.push.mock.calls).toEqual([['/notes'], ['/register']]);
+  });
+
+  it('uses the query client it is given', () => {
+    const queryClient = createTestQueryClient();
+    queryClient.setQueryData(['greeting'], 'hello');
+
+    const result = renderWithProviders(<Probe />, { queryClient });
+
+    expect(result.queryClient.getQueryData(['greeting'])).toBe('hello');
+  });
+});
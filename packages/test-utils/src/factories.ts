@@ -0,0 +1,114 @@
+/**
+ * @file packages/test-utils/src/factories.ts
+ * @description Builders for the API objects screens display: users, notes and pages of notes.
+ *
+ * Each builder fills in believable defaults, applies the overrides a test cares about and
+ * parses the result with the schema from `@hello-world/api-types`. A test therefore can't
+ * build an object the real API would never send, and a schema change breaks the tests that
+ * rely on the old shape instead of letting them pass against stale data.
+ *
+ *   const author = buildUser({ name: 'Ada' });
+ *   const note = buildNote({ userId: author.id, tags: ['work'] });
+ *
+ * IDs count up from 1 per kind of object, and `setup.ts` restarts them before every test, so
+ * the first user of every test has ID 1.
+ *
+ * For a learner:
+ * - Overrides are typed with `z.input`, the type *before* parsing: a plain number is accepted
+ *   for `id`, and parsing turns it into the branded `UserId`/`NoteId`.
+ */
+import { z } from 'zod';
+import {
+  NoteSchema,
+  UserSchema,
+  GetNotesResponseSchema,
+  type GetNotesResponse,
+  type Note,
+  type User,
+} from '@hello-world/api-types';
+
+const sequences = { user: 0, note: 0 };
+
+// A fixed starting point, so snapshots don't change from one run to the next
+const BASE_TIME = Date.UTC(2024, 0, 1);
+
+// Objects with a higher ID were created later, a minute apart.
+const timestampFor = (id: number) =>
+  new Date(BASE_TIME + id * 60_000).toISOString();
+
+/** Restarts the IDs of every builder at 1. Called before each test by `setup.ts`. */
+export function resetFactories() {
+  sequences.user = 0;
+  sequences.note = 0;
+}
+
+/** Builds a user as `/auth/user` returns it. */
+export function buildUser(
+  overrides: Partial<z.input<typeof UserSchema>> = {}
+): User {
+  const id = overrides.id ?? ++sequences.user;
+  return UserSchema.parse({
+    id,
+    name: `Test User ${id}`,
+    email: `user${id}@example.com`,
+    created_at: timestampFor(id),
+    updated_at: timestampFor(id),
+    ...overrides,
+  });
+}
+
+/**
+ * Builds a note as the notes endpoints return it: private, untagged and written by the user
+ * with ID 1 (the first `buildUser()` of a test) unless overridden.
+ */
+export function buildNote(
+  overrides: Partial<z.input<typeof NoteSchema>> = {}
+): Note {
+  const id = overrides.id ?? ++sequences.note;
+  return NoteSchema.parse({
+    id,
+    title: `Note ${id}`,
+    content: `Content of note ${id}.`,
+    userId: 1,
+    visibility: 'private',
+    sharedWith: [],
+    tags: [],
+    created_at: timestampFor(id),
+    updated_at: timestampFor(id),
+    ...overrides,
+  });
+}
+
+/** Builds `count` notes with the same overrides (e.g., the same author). */
+export function buildNotes(
+  count: number,
+  overrides: Partial<Omit<z.input<typeof NoteSchema>, 'id'>> = {}
+): Note[] {
+  return Array.from({ length: count }, () => buildNote(overrides));
+}
+
+/**
+ * Builds one page of `GET /notes`. Pass `nextCursor` for a page that has more after it;
+ * without one, this is the last page.
+ */
+export function buildNotesPage(
+  notes: Note[],
+  { nextCursor = null }: { nextCursor?: string | null } = {}
+): GetNotesResponse {
+  const path = 'http://localhost:8000/api/notes';
+  return GetNotesResponseSchema.parse({
+    data: notes,
+    links: {
+      first: null,
+      last: null,
+      prev: null,
+      next: nextCursor ? `${path}?cursor=${nextCursor}` : null,
+    },
+    meta: {
+      path,
+      per_page: Math.max(notes.length, 15),
+      next_cursor: nextCursor,
+      prev_cursor: null,
+    },
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * @file packages/test-utils/src/formErrors.ts
+ * @description Helpers for testing `useFormErrors` and the forms built on it.
+ *
+ * Forms show whatever `useFormErrors` holds: a message under each invalid field and one
+ * general message. These helpers build the errors a form receives (an API `ValidationError`,
+ * as the API client would throw it for a 422) and check the resulting `FormErrors` state.
+ *
+ *   const form = renderFormErrors();
+ *   act(() => form.result.current.handleError(createValidationError({ email: ['Taken.'] })));
+ *   expectFieldErrors(form.result.current, { email: 'Taken.' });
+ *
+ * For a learner:
+ * - `expectFieldErrors` compares *all* field errors, not just the ones listed: a form that
+ *   shows an extra error under another field fails the test too.
+ */
+import { act, renderHook } from '@testing-library/react';
+import { expect } from 'vitest';
+import {
+  useFormErrors,
+  ValidationError,
+  type FormErrors,
+} from '@hello-world/shared';
+
+/** Either a `FormErrors` object or the `useFormErrors()` result holding one. */
+export type FormErrorsSource = FormErrors | { errors: FormErrors };
+
+const toFormErrors = (source: FormErrorsSource): FormErrors =>
+  'errors' in source ? source.errors : source;
+
+/**
+ * Renders `useFormErrors` on its own. `handleError` is wrapped in `act`, so the new state can
+ * be checked right after calling it.
+ */
+export function renderFormErrors() {
+  const hook = renderHook(() => useFormErrors());
+  return {
+    ...hook,
+    /** Current `FormErrors` state. */
+    get errors() {
+      return hook.result.current.errors;
+    },
+    handleError: (
+      ...args: Parameters<typeof hook.result.current.handleError>
+    ) => act(() => hook.result.current.handleError(...args)),
+  };
+}
+
+/**
+ * Creates the error the API client throws for a 422 response.
+ * @param fieldErrors Messages per field, e.g., `{ name: 'The name field is required.' }`.
+ * @param request The failed request, as it appears in logs.
+ */
+export function createValidationError(
+  fieldErrors: Record<string, string | string[]>,
+  request = 'POST /test'
+): ValidationError {
+  const messages = Object.fromEntries(
+    Object.entries(fieldErrors).map(([field, message]) => [
+      field,
+      Array.isArray(message) ? message : [message],
+    ])
+  );
+  const first = Object.values(messages)[0]?.[0];
+  return new ValidationError(
+    first ?? 'The given data was invalid.',
+    request,
+    messages
+  );
+}
+
+/** Asserts that exactly these fields have errors, with these messages. */
+export function expectFieldErrors(
+  source: FormErrorsSource,
+  expected: Record<string, string | RegExp>
+) {
+  const fieldErrors = toFormErrors(source).fieldErrors ?? {};
+  expect(Object.keys(fieldErrors).sort()).toEqual(Object.keys(expected).sort());
+  Object.entries(expected).forEach(([field, message]) => {
+    expect(fieldErrors[field], `error of the "${field}" field`).toMatch(
+      message
+    );
+  });
+}
+
+/** Asserts that the form shows this general (not field-specific) message. */
+export function expectGeneralError(
+  source: FormErrorsSource,
+  expected: string | RegExp
+) {
+  expect(toFormErrors(source).generalError).toMatch(expected);
+}
+
+/** Asserts that the form shows no errors at all. */
+export function expectNoFormErrors(source: FormErrorsSource) {
+  const { fieldErrors = {}, generalError } = toFormErrors(source);
+  expect(fieldErrors).toEqual({});
+  expect(generalError).toBeUndefined();
+}
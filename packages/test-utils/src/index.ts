@@ -0,0 +1,7 @@
+// Helpers for tests. The Vitest setup that installs the fakes is
+// `@hello-world/test-utils/src/setup`, listed by `vitest.preset.ts`.
+export * from './renderWithProviders'; // Render with Tamagui, TanStack Query, the token store and a fake router
+export * from './router'; // Fake Solito router (installed by `setup.ts`)
+export * from './tokenStore'; // In-memory token store and `signIn`
+export * from './factories'; // Schema-valid users, notes and pages of notes
+export * from './formErrors'; // Building and checking `useFormErrors` state
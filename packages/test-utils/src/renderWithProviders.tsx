@@ -0,0 +1,100 @@
+/**
+ * @file packages/test-utils/src/renderWithProviders.tsx
+ * @description Renders a screen or component inside the providers the apps wrap it in.
+ *
+ * The provider tree mirrors `apps/next-web/app/providers.tsx` (Tamagui, then TanStack Query),
+ * with test-friendly parts:
+ * - A fresh `QueryClient` per render, with retries off, so a failing query fails at once
+ *   instead of after three retries, and no cached data survives into the next test.
+ * - The token store in memory (see `tokenStore.ts`), optionally with a signed-in `session`.
+ * - A fake Solito router (see `router.tsx`), returned so the test can check navigation.
+ *
+ *   const user = buildUser();
+ *   const { router } = renderWithProviders(<HomeScreen />, { session: { user } });
+ *   fireEvent.click(screen.getByText('Logout'));
+ *   await waitFor(() => expect(router.push).toHaveBeenCalledWith('/login'));
+ *
+ * For a learner:
+ * - The apps use `SessionQueryClientProvider` from `@hello-world/auth`, which creates one
+ *   client per signed-in account. Tests only ever have one account, and depending on the auth
+ *   package would make it impossible for the auth package's own tests to use these helpers
+ *   (the packages would depend on each other), so a plain `QueryClientProvider` is used.
+ */
+import React, { type PropsWithChildren, type ReactElement } from 'react';
+import { render, type RenderOptions } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { TamaguiProvider } from 'tamagui';
+import TamaguiConfig from '@hello-world/config';
+import {
+  createMockRouter,
+  setMockRouter,
+  type MockRouter,
+  type MockRouterOptions,
+} from './router';
+import { signIn, type TestSession } from './tokenStore';
+
+/** Creates a `QueryClient` for one test: no retries, and nothing garbage-collected mid-test. */
+export function createTestQueryClient(): QueryClient {
+  return new QueryClient({
+    defaultOptions: {
+      queries: { retry: false, gcTime: Infinity },
+      mutations: { retry: false },
+    },
+  });
+}
+
+/**
+ * Options of `renderWithProviders`, on top of those of Testing Library's `render`.
+ * - `queryClient`: The client to use, e.g., one pre-filled with `setQueryData`.
+ * - `session`: Signs this user in before rendering; anonymous by default.
+ * - `router`: The fake router, or where the screen is (`{ pathname: '/notes' }`).
+ * - `theme`: The Tamagui theme; `light`, like the web app.
+ */
+export interface RenderWithProvidersOptions
+  extends Omit<RenderOptions, 'wrapper'> {
+  queryClient?: QueryClient;
+  session?: TestSession;
+  router?: MockRouter | MockRouterOptions;
+  theme?: 'light' | 'dark';
+}
+
+const isMockRouter = (
+  router: MockRouter | MockRouterOptions
+): router is MockRouter => 'push' in router;
+
+/**
+ * Renders `ui` with the app's providers.
+ * @returns Testing Library's render result, plus the `queryClient` and `router` used.
+ */
+export function renderWithProviders(
+  ui: ReactElement,
+  {
+    queryClient = createTestQueryClient(),
+    session,
+    router = {},
+    theme = 'light',
+    ...renderOptions
+  }: RenderWithProvidersOptions = {}
+) {
+  const mockRouter = isMockRouter(router) ? router : createMockRouter(router);
+  setMockRouter(mockRouter);
+  if (session) {
+    signIn(session);
+  }
+
+  function Providers({ children }: PropsWithChildren) {
+    return (
+      <TamaguiProvider config={TamaguiConfig} defaultTheme={theme}>
+        <QueryClientProvider client={queryClient}>
+          {children}
+        </QueryClientProvider>
+      </TamaguiProvider>
+    );
+  }
+
+  return {
+    ...render(ui, { wrapper: Providers, ...renderOptions }),
+    queryClient,
+    router: mockRouter,
+  };
+}
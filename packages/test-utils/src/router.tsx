@@ -0,0 +1,100 @@
+/**
+ * @file packages/test-utils/src/router.tsx
+ * @description A fake Solito router for rendering screens outside of Next.js and Expo Router.
+ *
+ * Screens navigate with `useRouter()` from `solito/navigation` and `<Link>` from `solito/link`,
+ * which need the router of the app they run in. In tests, `setup.ts` replaces both modules with
+ * the versions below, which read from the *active mock router*. Every navigation is a `vi.fn()`,
+ * so a test can check where the screen went:
+ *
+ *   const { router } = renderWithProviders(<LoginScreen />);
+ *   // ...submit the form...
+ *   expect(router.push).toHaveBeenCalledWith('/');
+ *
+ * For a learner:
+ * - `vi.mock` swaps a module for every file that imports it during the test run. The fake has
+ *   to be installed before the screen is imported, which is why it lives in a setup file rather
+ *   than inside `renderWithProviders`.
+ * - The router doesn't change any URL: `push` only records the call. `pathname` stays whatever
+ *   the test set up, so a screen that reads it sees a stable value.
+ */
+import React, { type PropsWithChildren } from 'react';
+import { vi, type Mock } from 'vitest';
+
+/** The fake router returned by the mocked `useRouter()`. */
+export interface MockRouter {
+  push: Mock<(url: string, options?: unknown) => void>;
+  replace: Mock<(url: string, options?: unknown) => void>;
+  back: Mock<() => void>;
+  /** Solito's helper for turning an `href` into a path; returns strings unchanged. */
+  parseNextPath: Mock<(from: string | { pathname?: string }) => string>;
+  /** Returned by the mocked `usePathname()`. */
+  pathname: string;
+  /** Returned by the mocked `useParams()`, e.g., `{ id: '3' }`. */
+  params: Record<string, string>;
+  /** Returned by the mocked `useSearchParams()`. */
+  searchParams: URLSearchParams;
+}
+
+/** Options of `createMockRouter`: where the screen is rendered. */
+export interface MockRouterOptions {
+  pathname?: string;
+  params?: Record<string, string>;
+  searchParams?: string | Record<string, string>;
+}
+
+/** Creates a fake router whose navigation methods are `vi.fn()` spies. */
+export function createMockRouter(options: MockRouterOptions = {}): MockRouter {
+  return {
+    push: vi.fn(),
+    replace: vi.fn(),
+    back: vi.fn(),
+    parseNextPath: vi.fn((from) =>
+      typeof from === 'string' ? from : (from.pathname ?? '/')
+    ),
+    pathname: options.pathname ?? '/',
+    params: options.params ?? {},
+    searchParams: new URLSearchParams(options.searchParams),
+  };
+}
+
+// The router the mocked hooks hand out; `renderWithProviders` replaces it on every render.
+let activeRouter = createMockRouter();
+
+/** The router the mocked `solito/navigation` hooks currently return. */
+export function getMockRouter(): MockRouter {
+  return activeRouter;
+}
+
+/** Makes `router` the one the mocked `solito/navigation` hooks return. */
+export function setMockRouter(router: MockRouter) {
+  activeRouter = router;
+}
+
+/** Replacement for the `solito/navigation` module, installed by `setup.ts`. */
+export function createSolitoNavigationMock() {
+  return {
+    useRouter: () => getMockRouter(),
+    usePathname: () => getMockRouter().pathname,
+    useParams: () => getMockRouter().params,
+    useSearchParams: () => getMockRouter().searchParams,
+  };
+}
+
+/** Replacement for the `solito/link` module: a plain anchor that "navigates" with `push`. */
+export function createSolitoLinkMock() {
+  function Link({ href, children }: PropsWithChildren<{ href: string }>) {
+    return (
+      <a
+        href={href}
+        onClick={(event) => {
+          event.preventDefault();
+          getMockRouter().push(href);
+        }}
+      >
+        {children}
+      </a>
+    );
+  }
+  return { Link, TextLink: Link };
+}
@@ -0,0 +1,43 @@
+/**
+ * @file packages/test-utils/src/setup.ts
+ * @description Vitest setup file for screen and component tests.
+ *
+ * Listed in `setupFiles` by `vitest.preset.ts`, so it runs before each test file:
+ * - Replaces `solito/navigation` and `solito/link` with the fake router from `router.tsx`.
+ * - Replaces `expo-secure-store`, whose native module doesn't exist outside a device.
+ * - Keeps `useTokenStore` in memory, and signs out, unmounts and restarts the factories' IDs
+ *   between tests.
+ *
+ * For a learner:
+ * - `vi.mock` calls are hoisted above the imports of the file they are in, so the factories
+ *   load `router.tsx` themselves (with `import()`) instead of using the imports below.
+ */
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { resetFactories } from './factories';
+import { createMockRouter, setMockRouter } from './router';
+import { keepTokenStoreInMemory, resetTokenStore } from './tokenStore';
+
+vi.mock('solito/navigation', async () =>
+  (await import('./router')).createSolitoNavigationMock()
+);
+vi.mock('solito/link', async () =>
+  (await import('./router')).createSolitoLinkMock()
+);
+vi.mock('expo-secure-store', () => ({
+  getItemAsync: async () => null,
+  setItemAsync: async () => undefined,
+  deleteItemAsync: async () => undefined,
+}));
+
+await keepTokenStoreInMemory();
+
+beforeEach(() => {
+  resetFactories();
+});
+
+afterEach(() => {
+  cleanup();
+  resetTokenStore();
+  setMockRouter(createMockRouter());
+});
@@ -0,0 +1,23 @@
+/**
+ * @file packages/test-utils/src/setupDom.ts
+ * @description Fills in the browser APIs jsdom lacks but our UI libraries use when they load.
+ *
+ * Listed in `setupFiles` by `vitest.preset.ts` *before* `setup.ts`: the imports of `setup.ts`
+ * are hoisted above its code, so a stub placed there would come too late.
+ * - `window.matchMedia`: `@tamagui/select` calls `matchMedia('(pointer:coarse)')` as soon as it
+ *   is imported. The stub matches no media query, like a desktop browser with a mouse.
+ */
+if (typeof window !== 'undefined' && !window.matchMedia) {
+  window.matchMedia = (query: string): MediaQueryList => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addListener: () => undefined,
+    removeListener: () => undefined,
+    addEventListener: () => undefined,
+    removeEventListener: () => undefined,
+    dispatchEvent: () => false,
+  });
+}
+
+export {};
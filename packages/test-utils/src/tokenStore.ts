@@ -0,0 +1,70 @@
+/**
+ * @file packages/test-utils/src/tokenStore.ts
+ * @description Keeps `useTokenStore` in memory during tests and signs test users in.
+ *
+ * `useTokenStore` persists its sessions to the configured token storage (the Keychain/Keystore
+ * on devices, encrypted `localStorage` on the web). In tests that would leak a signed-in user
+ * from one test into the next, so `setup.ts` switches it to a `memory` storage instead, and
+ * empties it after every test.
+ *
+ * For a learner:
+ * - Zustand stores are module-level singletons: every component reads the same store, with no
+ *   provider involved. Resetting it between tests is what keeps tests independent.
+ */
+import type { User } from '@hello-world/api-types';
+import {
+  configureTokenStorage,
+  createMemoryStorageAdapter,
+  useTokenStore,
+  type AuthTokens,
+} from '@hello-world/shared';
+
+/** The storage `useTokenStore` persists to during tests. */
+export const memoryTokenStorage = createMemoryStorageAdapter();
+
+/** Makes `useTokenStore` persist to `memoryTokenStorage`. */
+export function keepTokenStoreInMemory() {
+  return configureTokenStorage(memoryTokenStorage);
+}
+
+/** Signs out of every session and forgets everything the store persisted. */
+export function resetTokenStore() {
+  useTokenStore.setState({
+    sessions: {},
+    activeSessionId: null,
+    token: null,
+    refreshToken: null,
+    expiresAt: null,
+  });
+  // After `setState`, which `persist` answers by saving the signed-out state
+  memoryTokenStorage.clear();
+}
+
+/**
+ * A test session, passed to `signIn` or `renderWithProviders({ session })`.
+ * - `user`: Whose session it is (see `buildUser`).
+ * - `tokens`: The token pair; a fake one that expires in an hour by default.
+ * - `apiHost`: The API the session belongs to; empty (the default API) by default.
+ */
+export interface TestSession {
+  user: User;
+  tokens?: Partial<AuthTokens>;
+  apiHost?: string;
+}
+
+/**
+ * Signs `user` in, as a successful login would, and makes it the active session.
+ * @returns The ID of the new session.
+ */
+export function signIn({ user, tokens = {}, apiHost = '' }: TestSession) {
+  return useTokenStore.getState().addSession({
+    tokens: {
+      token: `test-token-${user.id}`,
+      refreshToken: `test-refresh-token-${user.id}`,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      ...tokens,
+    },
+    user,
+    apiHost,
+  });
+}
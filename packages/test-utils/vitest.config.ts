@@ -0,0 +1,4 @@
+import { mergeConfig } from 'vitest/config';
+import { screenTestConfig } from './vitest.preset';
+
+export default mergeConfig(screenTestConfig, {});
@@ -0,0 +1,68 @@
+/**
+ * @file packages/test-utils/vitest.preset.ts
+ * @description Shared Vitest configuration for testing screens and components.
+ *
+ * A package that wants to test its screens adds a `vitest.config.ts` like this one:
+ *
+ *   import { mergeConfig } from 'vitest/config';
+ *   import { screenTestConfig } from '@hello-world/test-utils/vitest.preset';
+ *
+ *   export default mergeConfig(screenTestConfig, {});
+ *
+ * For a learner:
+ * - Tests run in Node with `jsdom` standing in for the browser, so screens are rendered the way
+ *   the web app renders them: `react-native` is swapped for `react-native-web`, exactly like the
+ *   Next.js build does, and Tamagui is told to target the web.
+ * - Tamagui (with its icons), Solito, React Native Web and React Native SVG ship code Node can't
+ *   load untransformed, so Vitest is told to process them itself (`server.deps.inline`).
+ * - jsdom lacks some browser APIs these libraries use as soon as they load; `src/setupDom.ts`
+ *   stubs them.
+ */
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export const screenTestConfig = defineConfig({
+  resolve: {
+    alias: [
+      { find: /^react-native(\/.*)?$/, replacement: 'react-native-web$1' },
+      // The package's main entry is its CommonJS build, which loads the real `react-native`
+      // (Flow source Node can't parse); its ES module build goes through the alias above.
+      {
+        find: /^react-native-svg$/,
+        replacement: 'react-native-svg/lib/module/index.js',
+      },
+    ],
+    extensions: [
+      '.web.tsx',
+      '.web.ts',
+      '.web.js',
+      '.tsx',
+      '.ts',
+      '.js',
+      '.json',
+    ],
+  },
+  define: {
+    __DEV__: 'true',
+  },
+  test: {
+    environment: 'jsdom',
+    env: { TAMAGUI_TARGET: 'web' },
+    // `setupDom.ts` first: it stubs browser APIs that modules imported by `setup.ts` need.
+    setupFiles: [
+      fileURLToPath(new URL('./src/setupDom.ts', import.meta.url)),
+      fileURLToPath(new URL('./src/setup.ts', import.meta.url)),
+    ],
+    server: {
+      deps: {
+        inline: [
+          'tamagui',
+          /@tamagui\//, // Includes the icons (`@tamagui/lucide-icons`)
+          'solito',
+          'react-native-web',
+          'react-native-svg', // Drawn by the icons; published as TypeScript source
+        ],
+      },
+    },
+  },
+});
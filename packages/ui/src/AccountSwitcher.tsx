@@ -0,0 +1,143 @@
+/**
+ * @file packages/ui/src/AccountSwitcher.tsx
+ * @description A compact menu for switching between signed-in accounts.
+ *
+ * Closed, it shows the active account's name. Pressing it lists every account, with the active
+ * one ticked, a × to sign out of an account, and an "Add account" action. The component is
+ * presentational: the parent supplies the accounts and decides what switching, removing and
+ * adding mean (see `SessionSwitcher` in the auth feature).
+ *
+ * For a learner:
+ * - Only whether the menu is open is local state; everything else comes from props.
+ * - The menu is rendered inline below the button (no portal), so it works the same on web and
+ *   native without any positioning logic.
+ */
+import React, { useState } from 'react';
+import { Text, XStack, YStack } from 'tamagui';
+import { Check, ChevronDown, X } from '@tamagui/lucide-icons';
+import { Button } from './Button';
+
+/** One account shown in the switcher. */
+export interface AccountSwitcherAccount {
+  id: string;
+  /** Main label, e.g., the user's name. */
+  name: string;
+  /** Secondary label, e.g., the email address and API host. */
+  detail?: string;
+}
+
+/**
+ * Props accepted by the AccountSwitcher component.
+ */
+export interface AccountSwitcherProps {
+  accounts: AccountSwitcherAccount[];
+  /** ID of the account currently in use, or `null` when none is. */
+  activeAccountId: string | null;
+  /** Called with the ID of the account the user picked. */
+  onSwitch: (accountId: string) => void;
+  /** Called when the user presses "Add account". The action is hidden when omitted. */
+  onAddAccount?: () => void;
+  /** Called when the user presses × next to an account. The button is hidden when omitted. */
+  onRemove?: (accountId: string) => void;
+}
+
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({
+  accounts,
+  activeAccountId,
+  onSwitch,
+  onAddAccount,
+  onRemove,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const activeAccount = accounts.find(
+    (account) => account.id === activeAccountId
+  );
+
+  const close = (action: () => void) => () => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <YStack gap="$2">
+      <Button
+        size="small"
+        variant="tertiary"
+        onPress={() => setIsOpen((open) => !open)}
+        aria-label="Switch account"
+      >
+        <XStack alignItems="center" gap="$1">
+          <Text color="$color">{activeAccount?.name ?? 'Choose account'}</Text>
+          <ChevronDown size={14} color="$color" />
+        </XStack>
+      </Button>
+      {isOpen && (
+        <YStack
+          gap="$1"
+          padding="$2"
+          borderWidth={1}
+          borderColor="$borderColor"
+          borderRadius="$3"
+          backgroundColor="$background"
+          minWidth={220}
+          role="menu"
+        >
+          {accounts.map((account) => {
+            const isActive = account.id === activeAccountId;
+            return (
+              <XStack
+                key={account.id}
+                alignItems="center"
+                gap="$2"
+                padding="$2"
+                borderRadius="$2"
+                hoverStyle={{ backgroundColor: '$backgroundHover' }}
+                cursor="pointer"
+                role="menuitem"
+                aria-current={isActive ? 'true' : undefined}
+                onPress={close(() => onSwitch(account.id))}
+              >
+                <YStack width={14}>
+                  {isActive && <Check size={14} color="$color" />}
+                </YStack>
+                <YStack flex={1}>
+                  <Text color="$color" fontWeight={isActive ? '600' : '400'}>
+                    {account.name}
+                  </Text>
+                  {account.detail && (
+                    <Text fontSize="$1" color="$color" opacity={0.6}>
+                      {account.detail}
+                    </Text>
+                  )}
+                </YStack>
+                {onRemove && (
+                  <XStack
+                    role="button"
+                    aria-label={`Sign out of ${account.name}`}
+                    onPress={(event: { stopPropagation?: () => void }) => {
+                      // Don't also switch to the account being removed.
+                      event?.stopPropagation?.();
+                      setIsOpen(false);
+                      onRemove(account.id);
+                    }}
+                  >
+                    <X size={14} color="$color" />
+                  </XStack>
+                )}
+              </XStack>
+            );
+          })}
+          {onAddAccount && (
+            <Button
+              size="small"
+              variant="secondary"
+              onPress={close(onAddAccount)}
+            >
+              Add account
+            </Button>
+          )}
+        </YStack>
+      )}
+    </YStack>
+  );
+};
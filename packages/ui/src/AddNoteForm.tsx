@@ -1,24 +1,54 @@
 // packages/ui/src/AddNoteForm.tsx
 import React, { useState } from 'react';
-import { YStack, TextArea, Form } from 'tamagui';
+import { YStack, XStack, Text, Form } from 'tamagui';
+import type { CreateNoteRequest, NoteVisibility } from '@hello-world/api-types';
 import { Button } from './Button';
 import { Input } from './Input';
+import { MarkdownEditor } from './MarkdownEditor';
+import { TagInput } from './TagInput';
 
 interface AddNoteFormProps {
-  onSubmit: (data: { title: string; content: string }) => void;
+  onSubmit: (data: CreateNoteRequest) => void;
   isLoading?: boolean;
 }
 
+// Visibility choices offered in the form, in display order.
+const VISIBILITY_OPTIONS: { value: NoteVisibility; label: string }[] = [
+  { value: 'public', label: 'Public' },
+  { value: 'private', label: 'Private' },
+  { value: 'shared', label: 'Shared' },
+];
+
+// Turns "2, 5 ,7" into [2, 5, 7], ignoring anything that isn't a positive whole number.
+const parseUserIds = (text: string): number[] =>
+  text
+    .split(/[\s,]+/)
+    .map((part) => Number(part))
+    .filter((id) => Number.isInteger(id) && id > 0);
+
 export const AddNoteForm: React.FC<AddNoteFormProps> = ({
   onSubmit,
   isLoading = false,
 }) => {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [visibility, setVisibility] = useState<NoteVisibility>('public');
+  // The share list is typed as text and only parsed on submit.
+  const [sharedWithText, setSharedWithText] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
 
   const handleSubmit = () => {
     if (!isLoading) {
-      onSubmit({ title, content });
+      onSubmit({
+        title,
+        content,
+        visibility,
+        tags,
+        // Only shared notes carry a share list.
+        ...(visibility === 'shared'
+          ? { shared_with: parseUserIds(sharedWithText) }
+          : {}),
+      });
     }
   };
 
@@ -33,14 +63,40 @@ export const AddNoteForm: React.FC<AddNoteFormProps> = ({
           backgroundColor="$background"
           color="$color"
         />
-        <TextArea
+        <MarkdownEditor
           id="content"
           value={content}
           onChangeText={setContent}
-          placeholder="Note Content"
-          backgroundColor="$background"
-          color="$color"
+          placeholder="Note Content (Markdown)"
         />
+        <TagInput id="tags" value={tags} onChange={setTags} />
+        <YStack gap="$2">
+          <Text fontSize="$2" color="$color">
+            Who can see this note?
+          </Text>
+          <XStack gap="$2" flexWrap="wrap">
+            {VISIBILITY_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                size="small"
+                variant={option.value === visibility ? 'secondary' : 'tertiary'}
+                onPress={() => setVisibility(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </XStack>
+          {visibility === 'shared' && (
+            <Input
+              id="shared-with"
+              value={sharedWithText}
+              onChangeText={setSharedWithText}
+              placeholder="User IDs to share with, e.g. 2, 5"
+              backgroundColor="$background"
+              color="$color"
+            />
+          )}
+        </YStack>
         <Form.Trigger asChild marginTop="$2">
           <Button
             type="submit"
@@ -0,0 +1,209 @@
+/**
+ * @file packages/ui/src/Markdown.tsx
+ * @description Renders Markdown note content with Tamagui components, on web and native.
+ *
+ * The text is parsed by `parseMarkdown()` (see `markdown/parseMarkdown.ts`) into a tree of
+ * headings, paragraphs, lists, code blocks and inline formatting, which this component maps
+ * to `Text`, `YStack` and `XStack` elements.
+ *
+ * Security: nothing is ever rendered as HTML. A note containing `<script>` or `<img onerror>`
+ * shows those characters as text, and links only open when their URL uses a safe scheme
+ * (`http`, `https`, `mailto`). Links with any other target are shown as plain text.
+ *
+ * For a learner:
+ * - Nested `Text` elements are how React Native styles part of a sentence (like `<strong>`
+ *   inside `<p>` on the web), which is why inline formatting is rendered as nested `Text`.
+ * - `Anchor` renders an `<a>` tag on the web and opens the URL with `Linking` on native.
+ * - Task list checkboxes are read-only here; edit the `[ ]`/`[x]` in the note to change them.
+ */
+import React, { useMemo } from 'react';
+import { Platform } from 'react-native';
+import { Anchor, Text, XStack, YStack, type TextProps } from 'tamagui';
+import {
+  MarkdownBlock,
+  MarkdownInline,
+  parseMarkdown,
+} from './markdown/parseMarkdown';
+
+/**
+ * Props accepted by the Markdown component.
+ */
+export interface MarkdownProps {
+  /** The Markdown source, e.g., `note.content`. */
+  content: string;
+}
+
+// There is no monospace font in the Tamagui config, so use each platform's built-in one.
+// Tamagui only types font tokens (`$body`, ...) but passes other family names through as-is.
+const MONO_FONT = Platform.select({
+  ios: 'Menlo',
+  android: 'monospace',
+  default: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+}) as TextProps['fontFamily'];
+
+// Font sizes for heading levels 1-6, as Tamagui font size tokens.
+const HEADING_SIZES = ['$8', '$7', '$6', '$5', '$4', '$4'] as const;
+
+const renderInline = (
+  nodes: MarkdownInline[],
+  keyPrefix = ''
+): React.ReactNode =>
+  nodes.map((node, index) => {
+    const key = `${keyPrefix}${index}`;
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return (
+          <Text
+            key={key}
+            fontFamily={MONO_FONT}
+            backgroundColor="$backgroundHover"
+            borderRadius="$1"
+            paddingHorizontal="$1"
+          >
+            {node.text}
+          </Text>
+        );
+      case 'strong':
+        return (
+          <Text key={key} fontWeight="700">
+            {renderInline(node.children, `${key}-`)}
+          </Text>
+        );
+      case 'emphasis':
+        return (
+          <Text key={key} fontStyle="italic">
+            {renderInline(node.children, `${key}-`)}
+          </Text>
+        );
+      case 'strikethrough':
+        return (
+          <Text key={key} textDecorationLine="line-through">
+            {renderInline(node.children, `${key}-`)}
+          </Text>
+        );
+      case 'link':
+        // Unsafe targets were removed by the parser; show just the label.
+        return node.href ? (
+          <Anchor
+            key={key}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            color="$primary500"
+            textDecorationLine="underline"
+          >
+            {renderInline(node.children, `${key}-`)}
+          </Anchor>
+        ) : (
+          <Text key={key}>{renderInline(node.children, `${key}-`)}</Text>
+        );
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, key: string): React.ReactNode => {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <Text
+          key={key}
+          fontSize={HEADING_SIZES[block.level - 1]}
+          fontWeight="700"
+          color="$color"
+          role="heading"
+          aria-level={block.level}
+        >
+          {renderInline(block.children)}
+        </Text>
+      );
+    case 'paragraph':
+      return (
+        <Text key={key} color="$color">
+          {renderInline(block.children)}
+        </Text>
+      );
+    case 'list':
+      return (
+        <YStack key={key} gap="$1" paddingLeft="$2">
+          {block.items.map((item, index) => {
+            const marker =
+              item.checked !== undefined
+                ? item.checked
+                  ? '☑'
+                  : '☐'
+                : block.ordered
+                  ? `${block.start + index}.`
+                  : '•';
+            return (
+              <XStack key={index} gap="$2">
+                <Text color="$color" aria-hidden>
+                  {marker}
+                </Text>
+                <Text
+                  color="$color"
+                  flex={1}
+                  opacity={item.checked ? 0.7 : 1}
+                  textDecorationLine={item.checked ? 'line-through' : 'none'}
+                >
+                  {renderInline(item.children)}
+                </Text>
+              </XStack>
+            );
+          })}
+        </YStack>
+      );
+    case 'code':
+      return (
+        <YStack
+          key={key}
+          backgroundColor="$backgroundHover"
+          borderRadius="$2"
+          padding="$3"
+          aria-label={block.language ? `${block.language} code` : 'Code'}
+        >
+          <Text fontFamily={MONO_FONT} fontSize="$2" color="$color">
+            {block.text}
+          </Text>
+        </YStack>
+      );
+    case 'blockquote':
+      return (
+        <YStack
+          key={key}
+          gap="$2"
+          borderLeftWidth={3}
+          borderLeftColor="$borderColor"
+          paddingLeft="$3"
+          opacity={0.85}
+        >
+          {block.children.map((child, index) =>
+            renderBlock(child, `${key}-${index}`)
+          )}
+        </YStack>
+      );
+    case 'rule':
+      return (
+        <YStack
+          key={key}
+          height={1}
+          backgroundColor="$borderColor"
+          marginVertical="$2"
+        />
+      );
+  }
+};
+
+/**
+ * Markdown component: renders `content` as formatted, sanitised Markdown.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ content }) => {
+  // Parsing is cheap, but memoising avoids redoing it for every re-render of a long list.
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <YStack gap="$2">
+      {blocks.map((block, index) => renderBlock(block, String(index)))}
+    </YStack>
+  );
+};
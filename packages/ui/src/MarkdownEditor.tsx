@@ -0,0 +1,92 @@
+/**
+ * @file packages/ui/src/MarkdownEditor.tsx
+ * @description A text area for Markdown with a Write/Preview toggle.
+ *
+ * Used for note content in `AddNoteForm` and in `NoteCard`'s inline editor. "Write" shows the
+ * raw Markdown in a `TextArea`; "Preview" shows it rendered by the `Markdown` component,
+ * exactly as it will appear on the note card.
+ *
+ * For a learner:
+ * - The editor is "controlled": the parent owns `value` and receives changes through
+ *   `onChangeText`, just like a plain `TextArea`. Only the Write/Preview mode is local state.
+ */
+import React, { useState } from 'react';
+import { TextArea, Text, XStack, YStack } from 'tamagui';
+import { Button } from './Button';
+import { Markdown } from './Markdown';
+
+/**
+ * Props accepted by the MarkdownEditor component.
+ */
+export interface MarkdownEditorProps {
+  /** The Markdown being edited. */
+  value: string;
+  /** Called with the new text on every change. */
+  onChangeText: (value: string) => void;
+  /** ID of the underlying text area (for labels and tests). */
+  id?: string;
+  placeholder?: string;
+  'aria-label'?: string;
+}
+
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  value,
+  onChangeText,
+  id,
+  placeholder,
+  'aria-label': ariaLabel,
+}) => {
+  const [mode, setMode] = useState<'write' | 'preview'>('write');
+
+  return (
+    <YStack gap="$2">
+      <XStack gap="$2">
+        <Button
+          size="small"
+          variant={mode === 'write' ? 'secondary' : 'tertiary'}
+          onPress={() => setMode('write')}
+        >
+          Write
+        </Button>
+        <Button
+          size="small"
+          variant={mode === 'preview' ? 'secondary' : 'tertiary'}
+          onPress={() => setMode('preview')}
+        >
+          Preview
+        </Button>
+      </XStack>
+      {mode === 'write' ? (
+        <TextArea
+          id={id}
+          value={value}
+          onChangeText={onChangeText}
+          placeholder={placeholder}
+          backgroundColor="$background"
+          color="$color"
+          aria-label={ariaLabel}
+        />
+      ) : (
+        <YStack
+          minHeight={80}
+          padding="$3"
+          borderWidth={1}
+          borderColor="$borderColor"
+          borderRadius="$2"
+        >
+          {value.trim() ? (
+            <Markdown content={value} />
+          ) : (
+            <Text color="$color" opacity={0.5}>
+              Nothing to preview
+            </Text>
+          )}
+        </YStack>
+      )}
+      <Text fontSize="$1" color="$color" opacity={0.6}>
+        Markdown supported: # headings, **bold**, *italic*, `code`, lists, - [ ]
+        tasks and [links](https://example.com).
+      </Text>
+    </YStack>
+  );
+};
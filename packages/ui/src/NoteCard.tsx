@@ -7,57 +7,324 @@
  * (e.g., `$cardBackground`, `$color`, `$borderColor`) defined in the Tamagui configuration
  * to ensure consistent styling and adaptability to different themes (light/dark).
  *
+ * When the viewer is the note's author (`note.userId === currentUserId`) and the parent passes
+ * `onUpdate`/`onDelete` handlers, the card also shows Edit and Delete actions. Editing happens
+ * inline, and deleting asks for a second confirmation press to avoid accidental data loss.
+ *
+ * The content is rendered as Markdown (see `Markdown.tsx`), and the inline editor has a
+ * Write/Preview toggle (see `MarkdownEditor.tsx`).
+ *
+ * The note's tags are shown as chips below the content, and can be edited along with the
+ * title and content.
+ *
+ * Every card shows a small icon badge with the note's visibility: a globe for public notes,
+ * a lock for private ones, and a people icon (with the number of users) for shared ones.
+ *
+ * Notes changed while offline carry a `syncStatus`: a "Pending sync" badge while the change
+ * waits in the offline queue, or a "Sync failed" message with Retry/Discard actions when the
+ * server rejected it.
+ *
  * For a learner:
  * - This is an example of a simple, reusable presentational component.
  * - It receives data via props (`note: Note`). The `Note` type comes from the shared `api-types` package.
  * - Styling is applied directly using Tamagui's style props and theme tokens.
  * - It demonstrates how to display data fetched from the API (passed down through props).
+ * - The card never calls the API itself: it only reports user intent through callbacks,
+ *   leaving data mutations to the feature hooks (`useUpdateNote`, `useDeleteNote`).
  */
-import React from 'react';
-import { YStack, Text } from 'tamagui'; // Import layout and text components from Tamagui
-import type { Note } from '@hello-world/api-types'; // Import the TypeScript type definition for a Note
+import React, { useState } from 'react';
+import { YStack, XStack, Text } from 'tamagui'; // Import layout and text components from Tamagui
+import { Globe, Lock, Users } from '@tamagui/lucide-icons'; // Icons for the visibility badge
+import type {
+  Note,
+  NoteVisibility,
+  UpdateNoteRequest,
+} from '@hello-world/api-types'; // Import the TypeScript type definitions for a Note
+import { Button } from './Button';
+import { Input } from './Input';
+import { Markdown } from './Markdown';
+import { MarkdownEditor } from './MarkdownEditor';
+import { TagChip } from './TagChip';
+import { TagInput } from './TagInput';
+
+/**
+ * Offline sync state of a note.
+ * - `pending`: The change is queued locally and will be sent when the device is online.
+ * - `conflict`: The server rejected the queued change; `error` explains why.
+ */
+export type NoteSyncStatus = {
+  status: 'pending' | 'conflict';
+  error?: string;
+};
+
+// Icon and label shown in the visibility badge for each visibility value.
+const VISIBILITY_BADGES: Record<
+  NoteVisibility,
+  { Icon: typeof Globe; label: string }
+> = {
+  public: { Icon: Globe, label: 'Public' },
+  private: { Icon: Lock, label: 'Private' },
+  shared: { Icon: Users, label: 'Shared' },
+};
 
 /**
  * Props accepted by the NoteCard component.
  */
-interface NoteCardProps {
+export interface NoteCardProps {
   /** The note object containing data to display. */
   note: Note;
+  /** ID of the logged-in user. Edit/delete actions are only shown when it matches `note.userId`. */
+  currentUserId?: number;
+  /** Called with the edited fields when the author saves changes. */
+  onUpdate?: (noteId: number, data: UpdateNoteRequest) => void;
+  /** Called when the author confirms deletion of the note. */
+  onDelete?: (noteId: number) => void;
+  /** True while an update or delete request for this note is in flight. */
+  isMutating?: boolean;
+  /** Offline sync state, if the note has unsynced local changes. */
+  syncStatus?: NoteSyncStatus;
+  /** Called when the user asks to retry a change the server rejected. */
+  onRetrySync?: (noteId: number) => void;
+  /** Called when the user gives up on a change the server rejected. */
+  onDiscardSync?: (noteId: number) => void;
 }
 
 /**
  * NoteCard component displays the details of a single note.
  * It's a functional component using React.FC for type safety.
  */
-export const NoteCard: React.FC<NoteCardProps> = ({ note }) => (
-  // YStack provides vertical layout for the card content.
-  <YStack
-    // Styling using Tamagui theme tokens. These values are defined in tamagui.config.ts
-    // and will adapt based on the current theme (e.g., light/dark).
-    backgroundColor="$cardBackground" // Background color for the card.
-    padding="$4" // Inner padding using theme spacing scale.
-    borderRadius="$3" // Rounded corners using theme radius scale.
-    borderColor="$borderColor" // Border color using theme semantic token.
-    borderWidth={1} // Standard border width.
-    gap="$2" // Spacing between child elements (Text components) using theme spacing scale.
-    // Consider adding other props like elevation/shadow for more card-like appearance if needed.
-    // elevation="$1"
-  >
-    {/* Display the note title */}
-    <Text fontSize="$6" fontWeight="600" color="$color">
-      {note.title}
-    </Text>
-    {/* Display the note content */}
-    <Text color="$color">{note.content}</Text>
-    {/* Display the author's name. Note: `authorName` might be optional in the Note type
-        if the backend doesn't always include it. Add conditional rendering if needed. */}
-    <Text fontSize="$2" color="$color" opacity={0.7}>
-      By: {note.authorName || 'Unknown Author'}{' '}
-      {/* Fallback if authorName is missing */}
-    </Text>
-    {/* Display the creation timestamp. Consider formatting this date more nicely. */}
-    <Text fontSize="$1" color="$color" opacity={0.5}>
-      Created: {note.created_at} {/* TODO: Format date */}
-    </Text>
-  </YStack>
-);
+export const NoteCard: React.FC<NoteCardProps> = ({
+  note,
+  currentUserId,
+  onUpdate,
+  onDelete,
+  isMutating = false,
+  syncStatus,
+  onRetrySync,
+  onDiscardSync,
+}) => {
+  // Local UI state only: whether the card is in edit mode, the draft values,
+  // and whether the user has pressed Delete once and must confirm.
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(note.title);
+  const [content, setContent] = useState(note.content);
+  const [tags, setTags] = useState<string[]>(note.tags);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  // Ownership check. The API enforces this too (403), this only hides actions that would fail.
+  const isOwner = currentUserId !== undefined && note.userId === currentUserId;
+  const visibilityBadge = VISIBILITY_BADGES[note.visibility];
+
+  const startEditing = () => {
+    // Start from the latest server values, not a stale draft from a previous edit.
+    setTitle(note.title);
+    setContent(note.content);
+    setTags(note.tags);
+    setIsConfirmingDelete(false);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    onUpdate?.(note.id, { title, content, tags });
+    setIsEditing(false);
+  };
+
+  return (
+    // YStack provides vertical layout for the card content.
+    <YStack
+      // Styling using Tamagui theme tokens. These values are defined in tamagui.config.ts
+      // and will adapt based on the current theme (e.g., light/dark).
+      backgroundColor="$cardBackground" // Background color for the card.
+      padding="$4" // Inner padding using theme spacing scale.
+      borderRadius="$3" // Rounded corners using theme radius scale.
+      borderColor="$borderColor" // Border color using theme semantic token.
+      borderWidth={1} // Standard border width.
+      gap="$2" // Spacing between child elements (Text components) using theme spacing scale.
+      // Consider adding other props like elevation/shadow for more card-like appearance if needed.
+      // elevation="$1"
+    >
+      {isEditing ? (
+        // Inline edit form, reusing the same inputs as `AddNoteForm`.
+        <YStack gap="$2">
+          <Input
+            id={`note-${note.id}-title`}
+            value={title}
+            onChangeText={setTitle}
+            placeholder="Note Title"
+            aria-label="Note Title"
+          />
+          <MarkdownEditor
+            id={`note-${note.id}-content`}
+            value={content}
+            onChangeText={setContent}
+            placeholder="Note Content (Markdown)"
+            aria-label="Note Content"
+          />
+          <TagInput
+            id={`note-${note.id}-tags`}
+            value={tags}
+            onChange={setTags}
+          />
+        </YStack>
+      ) : (
+        <>
+          {/* Display the note title */}
+          <Text fontSize="$6" fontWeight="600" color="$color">
+            {note.title}
+          </Text>
+          {/* Display the note content, formatted as Markdown */}
+          <Markdown content={note.content} />
+          {note.tags.length > 0 && (
+            <XStack gap="$2" flexWrap="wrap">
+              {note.tags.map((tag) => (
+                <TagChip key={tag} label={tag} />
+              ))}
+            </XStack>
+          )}
+        </>
+      )}
+      {/* Visibility badge. The share count is only known to the author (others get an empty list). */}
+      <XStack
+        alignSelf="flex-start"
+        alignItems="center"
+        gap="$1"
+        backgroundColor="$backgroundHover"
+        borderRadius="$2"
+        paddingHorizontal="$2"
+        paddingVertical="$1"
+        aria-label={`Visibility: ${visibilityBadge.label}`}
+      >
+        <visibilityBadge.Icon size={12} color="$color" />
+        <Text fontSize="$1" color="$color">
+          {visibilityBadge.label}
+          {note.visibility === 'shared' && note.sharedWith.length > 0
+            ? ` with ${note.sharedWith.length}`
+            : ''}
+        </Text>
+      </XStack>
+      {/* Display the author's name. Note: `authorName` might be optional in the Note type
+          if the backend doesn't always include it. Add conditional rendering if needed. */}
+      <Text fontSize="$2" color="$color" opacity={0.7}>
+        By: {note.authorName || 'Unknown Author'}{' '}
+        {/* Fallback if authorName is missing */}
+      </Text>
+      {/* Display the creation timestamp. Consider formatting this date more nicely. */}
+      <Text fontSize="$1" color="$color" opacity={0.5}>
+        Created: {note.created_at} {/* TODO: Format date */}
+      </Text>
+
+      {/* Offline sync state: a badge while queued, or the rejection reason with actions. */}
+      {syncStatus?.status === 'pending' && (
+        <XStack
+          alignSelf="flex-start"
+          backgroundColor="$backgroundHover"
+          borderRadius="$2"
+          paddingHorizontal="$2"
+          paddingVertical="$1"
+        >
+          <Text fontSize="$1" color="$color">
+            Pending sync
+          </Text>
+        </XStack>
+      )}
+      {syncStatus?.status === 'conflict' && (
+        <YStack gap="$2">
+          <Text fontSize="$2" color="red">
+            Sync failed:{' '}
+            {syncStatus.error ?? 'The server rejected this change.'}
+          </Text>
+          <XStack gap="$2" justifyContent="flex-end">
+            {onDiscardSync && (
+              <Button
+                size="small"
+                variant="tertiary"
+                onPress={() => onDiscardSync(note.id)}
+              >
+                Discard
+              </Button>
+            )}
+            {onRetrySync && (
+              <Button
+                size="small"
+                variant="secondary"
+                onPress={() => onRetrySync(note.id)}
+              >
+                Retry
+              </Button>
+            )}
+          </XStack>
+        </YStack>
+      )}
+
+      {/* Owner-only actions. Hidden entirely for other users and for anonymous visitors. */}
+      {isOwner && (onUpdate || onDelete) && (
+        <XStack gap="$2" justifyContent="flex-end">
+          {isEditing ? (
+            <>
+              <Button
+                size="small"
+                variant="tertiary"
+                onPress={() => setIsEditing(false)}
+                disabled={isMutating}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="small"
+                onPress={handleSave}
+                disabled={!title.trim() || !content.trim()}
+                isLoading={isMutating}
+              >
+                Save
+              </Button>
+            </>
+          ) : isConfirmingDelete ? (
+            <>
+              <Text color="$color" alignSelf="center" fontSize="$2">
+                Delete this note?
+              </Text>
+              <Button
+                size="small"
+                variant="tertiary"
+                onPress={() => setIsConfirmingDelete(false)}
+                disabled={isMutating}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="small"
+                onPress={() => onDelete?.(note.id)}
+                isLoading={isMutating}
+              >
+                Confirm
+              </Button>
+            </>
+          ) : (
+            <>
+              {onUpdate && (
+                <Button
+                  size="small"
+                  variant="secondary"
+                  onPress={startEditing}
+                  disabled={isMutating}
+                >
+                  Edit
+                </Button>
+              )}
+              {onDelete && (
+                <Button
+                  size="small"
+                  variant="tertiary"
+                  onPress={() => setIsConfirmingDelete(true)}
+                  disabled={isMutating}
+                >
+                  Delete
+                </Button>
+              )}
+            </>
+          )}
+        </XStack>
+      )}
+    </YStack>
+  );
+};
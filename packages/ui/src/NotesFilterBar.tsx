@@ -0,0 +1,153 @@
+/**
+ * @file packages/ui/src/NotesFilterBar.tsx
+ * @description Search box, sort controls and tag filter shown above a notes list.
+ *
+ * The bar is presentational: it keeps the text being typed locally and reports the search
+ * term and sort order to its parent, which passes them on to `useInfiniteNotes`.
+ * Typing is debounced, so the API is queried once the user pauses rather than on every key.
+ *
+ * When `availableTags` is given, the bar also shows a row of tag chips. Pressing a chip
+ * toggles it in `selectedTags`; the list then only shows notes carrying every selected tag.
+ *
+ * For a learner:
+ * - The search input is "semi-controlled": `search` sets its initial value, and local state
+ *   holds keystrokes until the debounce timer fires `onSearchChange`.
+ * - Pressing the sort button that is already selected flips the direction (newest/oldest,
+ *   A–Z/Z–A), a common pattern for sortable lists.
+ */
+import React, { useEffect, useState } from 'react';
+import { XStack, YStack } from 'tamagui';
+import type { NotesSort } from '@hello-world/api-types';
+import { Button } from './Button';
+import { Input } from './Input';
+import { TagChip } from './TagChip';
+
+/** Sort direction of the notes list. */
+export type NotesSortDirection = 'asc' | 'desc';
+
+interface NotesFilterBarProps {
+  /** Current search term, as passed to the API as `q`. */
+  search: string;
+  /** Called with the new search term after the user stops typing. */
+  onSearchChange: (search: string) => void;
+  sort: NotesSort;
+  direction: NotesSortDirection;
+  /** Called when the user picks a sort column or flips the direction. */
+  onSortChange: (sort: NotesSort, direction: NotesSortDirection) => void;
+  /** Delay between the last keystroke and `onSearchChange`, in milliseconds. */
+  debounceMs?: number;
+  /** Tags offered as filters. The tag row is hidden when this is empty or omitted. */
+  availableTags?: string[];
+  /** Tags currently filtered by, as passed to the API as `tags`. */
+  selectedTags?: string[];
+  /** Called with the new selection when a tag chip is toggled. */
+  onTagsChange?: (tags: string[]) => void;
+}
+
+// Sort options offered to the user, with the direction each one starts in.
+const SORT_OPTIONS: {
+  sort: NotesSort;
+  label: string;
+  defaultDirection: NotesSortDirection;
+}[] = [
+  { sort: 'created_at', label: 'Created', defaultDirection: 'desc' },
+  { sort: 'updated_at', label: 'Updated', defaultDirection: 'desc' },
+  { sort: 'title', label: 'Title', defaultDirection: 'asc' },
+];
+
+export const NotesFilterBar: React.FC<NotesFilterBarProps> = ({
+  search,
+  onSearchChange,
+  sort,
+  direction,
+  onSortChange,
+  debounceMs = 300,
+  availableTags = [],
+  selectedTags = [],
+  onTagsChange,
+}) => {
+  const [searchText, setSearchText] = useState(search);
+
+  // Follow changes made by the parent (e.g., a "clear filters" action).
+  useEffect(() => {
+    setSearchText(search);
+  }, [search]);
+
+  // Report the search term once typing has paused for `debounceMs`.
+  useEffect(() => {
+    if (searchText === search) return;
+    const timer = setTimeout(() => onSearchChange(searchText), debounceMs);
+    return () => clearTimeout(timer);
+  }, [searchText, search, onSearchChange, debounceMs]);
+
+  // Selected tags stay visible even if they are not in `availableTags` (e.g., from a shared URL).
+  const tagOptions = Array.from(
+    new Set([...selectedTags, ...availableTags])
+  ).sort();
+
+  const toggleTag = (tag: string) =>
+    onTagsChange?.(
+      selectedTags.includes(tag)
+        ? selectedTags.filter((selected) => selected !== tag)
+        : [...selectedTags, tag]
+    );
+
+  return (
+    <YStack gap="$2" padding="$2">
+      <Input
+        id="notes-search"
+        value={searchText}
+        onChangeText={setSearchText}
+        placeholder="Search notes"
+        backgroundColor="$background"
+        color="$color"
+      />
+      <XStack gap="$2" flexWrap="wrap">
+        {SORT_OPTIONS.map((option) => {
+          const isActive = option.sort === sort;
+          const arrow = isActive ? (direction === 'asc' ? ' ↑' : ' ↓') : '';
+          return (
+            <Button
+              key={option.sort}
+              size="small"
+              variant={isActive ? 'secondary' : 'tertiary'}
+              onPress={() =>
+                onSortChange(
+                  option.sort,
+                  isActive
+                    ? direction === 'asc'
+                      ? 'desc'
+                      : 'asc'
+                    : option.defaultDirection
+                )
+              }
+            >
+              {`${option.label}${arrow}`}
+            </Button>
+          );
+        })}
+      </XStack>
+      {onTagsChange && tagOptions.length > 0 && (
+        <XStack gap="$2" flexWrap="wrap" alignItems="center">
+          {tagOptions.map((tag) => (
+            <TagChip
+              key={tag}
+              label={tag}
+              selected={selectedTags.includes(tag)}
+              onPress={() => toggleTag(tag)}
+            />
+          ))}
+          {selectedTags.length > 0 && (
+            <Button
+              size="small"
+              variant="tertiary"
+              onPress={() => onTagsChange([])}
+            >
+              Clear tags
+            </Button>
+          )}
+        </XStack>
+      )}
+    </YStack>
+  );
+};
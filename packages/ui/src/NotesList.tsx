@@ -1,19 +1,73 @@
 // packages/ui/src/NotesList.tsx
 import React from 'react';
-import { ScrollView, YStack } from 'tamagui';
+// `FlatList` only renders rows near the viewport and reports when the end of the list is
+// reached, both on native and (through react-native-web) on the web.
+import { FlatList } from 'react-native';
+import { Spinner, YStack } from 'tamagui';
 import type { Note } from '@hello-world/api-types';
-import { NoteCard } from './NoteCard';
+import { NoteCard, NoteCardProps, NoteSyncStatus } from './NoteCard';
 
-interface NotesListProps {
+interface NotesListProps
+  extends Pick<
+    NoteCardProps,
+    'currentUserId' | 'onUpdate' | 'onDelete' | 'onRetrySync' | 'onDiscardSync'
+  > {
   notes: Note[];
+  /** ID of the note currently being updated or deleted, if any. */
+  mutatingNoteId?: number;
+  /** Offline sync state per note ID, for notes with unsynced local changes. */
+  syncStatusByNoteId?: Record<number, NoteSyncStatus>;
+  /** Called when the user scrolls near the end of the list and `hasMore` is true. */
+  onLoadMore?: () => void;
+  /** Whether another page can be loaded (e.g., `hasNextPage` from `useInfiniteNotes`). */
+  hasMore?: boolean;
+  /** Shows a spinner below the last note while the next page is loading. */
+  isLoadingMore?: boolean;
 }
 
-export const NotesList: React.FC<NotesListProps> = ({ notes }) => (
-  <ScrollView>
-    <YStack gap="$3" padding="$2">
-      {notes.map((note) => (
-        <NoteCard key={note.id} note={note} />
-      ))}
-    </YStack>
-  </ScrollView>
+export const NotesList: React.FC<NotesListProps> = ({
+  notes,
+  currentUserId,
+  onUpdate,
+  onDelete,
+  mutatingNoteId,
+  syncStatusByNoteId,
+  onRetrySync,
+  onDiscardSync,
+  onLoadMore,
+  hasMore = false,
+  isLoadingMore = false,
+}) => (
+  <FlatList
+    data={notes}
+    keyExtractor={(note: Note) => String(note.id)}
+    renderItem={({ item: note }: { item: Note }) => (
+      <YStack paddingHorizontal="$2" paddingBottom="$3">
+        <NoteCard
+          note={note}
+          currentUserId={currentUserId}
+          onUpdate={onUpdate}
+          onDelete={onDelete}
+          isMutating={mutatingNoteId === note.id}
+          syncStatus={syncStatusByNoteId?.[note.id]}
+          onRetrySync={onRetrySync}
+          onDiscardSync={onDiscardSync}
+        />
+      </YStack>
+    )}
+    contentContainerStyle={{ paddingTop: 8 }}
+    // Ask for the next page when the user is within half a screen of the end,
+    // so it usually arrives before they get there.
+    onEndReachedThreshold={0.5}
+    onEndReached={() => {
+      if (hasMore && !isLoadingMore) onLoadMore?.();
+    }}
+    ListFooterComponent={
+      isLoadingMore ? (
+        <YStack padding="$3" alignItems="center">
+          <Spinner />
+        </YStack>
+      ) : null
+    }
+  />
 );
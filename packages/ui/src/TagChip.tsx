@@ -0,0 +1,66 @@
+/**
+ * @file packages/ui/src/TagChip.tsx
+ * @description A small rounded label for a single tag.
+ *
+ * Chips are used in three places: on `NoteCard` to show a note's tags, in `TagInput` for the
+ * tags being added (with a × to remove one), and in `NotesFilterBar` as toggles that filter
+ * the list (`selected` highlights the active ones).
+ *
+ * For a learner:
+ * - The same component covers all three cases through optional props: it only becomes
+ *   pressable when `onPress` is given, and only shows the remove button when `onRemove` is.
+ */
+import React from 'react';
+import { Text, XStack } from 'tamagui';
+import { X } from '@tamagui/lucide-icons';
+
+/**
+ * Props accepted by the TagChip component.
+ */
+export interface TagChipProps {
+  /** The tag name to display. */
+  label: string;
+  /** Highlights the chip, e.g., when it is an active filter. */
+  selected?: boolean;
+  /** Makes the whole chip pressable (used for filter toggles). */
+  onPress?: () => void;
+  /** Shows a × button that calls this when pressed (used in `TagInput`). */
+  onRemove?: () => void;
+}
+
+export const TagChip: React.FC<TagChipProps> = ({
+  label,
+  selected = false,
+  onPress,
+  onRemove,
+}) => (
+  <XStack
+    alignItems="center"
+    gap="$1"
+    borderRadius="$10"
+    borderWidth={1}
+    borderColor={selected ? '$primary500' : '$borderColor'}
+    backgroundColor={selected ? '$primary500' : '$backgroundHover'}
+    paddingHorizontal="$2"
+    paddingVertical="$1"
+    onPress={onPress}
+    cursor={onPress ? 'pointer' : undefined}
+    role={onPress ? 'button' : undefined}
+    aria-label={onPress ? `Filter by tag ${label}` : undefined}
+    aria-selected={onPress ? selected : undefined}
+  >
+    <Text fontSize="$1" color={selected ? 'white' : '$color'}>
+      #{label}
+    </Text>
+    {onRemove && (
+      <XStack
+        onPress={onRemove}
+        cursor="pointer"
+        role="button"
+        aria-label={`Remove tag ${label}`}
+      >
+        <X size={12} color={selected ? 'white' : '$color'} />
+      </XStack>
+    )}
+  </XStack>
+);
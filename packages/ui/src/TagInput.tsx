@@ -0,0 +1,116 @@
+/**
+ * @file packages/ui/src/TagInput.tsx
+ * @description A text input that turns what the user types into tag chips.
+ *
+ * Typing a comma or pressing Enter adds the typed text as a tag. Each tag is validated and
+ * normalised with `TagNameSchema` (the same rules the API applies), so invalid names are
+ * rejected with a message before anything is sent. Duplicate tags are ignored, and the input
+ * disappears once the maximum number of tags per note is reached.
+ *
+ * For a learner:
+ * - The component is controlled: the parent owns the list of tags (`value`) and receives the
+ *   new list through `onChange`. Only the half-typed text and the error message are local.
+ * - `safeParse` returns `{ success, data }` or `{ success, error }` instead of throwing, which
+ *   is convenient for validating user input as it is typed.
+ */
+import React, { useState } from 'react';
+import { Text, XStack, YStack } from 'tamagui';
+import { MAX_TAGS_PER_NOTE, TagNameSchema } from '@hello-world/api-types';
+import { Input } from './Input';
+import { TagChip } from './TagChip';
+
+/**
+ * Props accepted by the TagInput component.
+ */
+export interface TagInputProps {
+  /** The tags entered so far. */
+  value: string[];
+  /** Called with the new list whenever a tag is added or removed. */
+  onChange: (tags: string[]) => void;
+  /** ID of the underlying text input (for labels and tests). */
+  id?: string;
+  placeholder?: string;
+}
+
+export const TagInput: React.FC<TagInputProps> = ({
+  value,
+  onChange,
+  id,
+  placeholder = 'Add tags (press Enter or comma)',
+}) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Validates `names` and appends the valid, new ones. Returns false if any was rejected.
+  const addTags = (names: string[]): boolean => {
+    const next = [...value];
+    for (const name of names) {
+      if (name.trim() === '') continue;
+      const result = TagNameSchema.safeParse(name);
+      if (!result.success) {
+        setError(result.error.issues[0].message);
+        return false;
+      }
+      if (next.includes(result.data)) continue;
+      if (next.length >= MAX_TAGS_PER_NOTE) {
+        setError(`A note can have at most ${MAX_TAGS_PER_NOTE} tags`);
+        return false;
+      }
+      next.push(result.data);
+    }
+    setError(null);
+    if (next.length !== value.length) onChange(next);
+    return true;
+  };
+
+  const handleChangeText = (newText: string) => {
+    // A comma finishes every tag before it; whatever follows the last comma keeps being typed.
+    if (newText.includes(',')) {
+      const parts = newText.split(',');
+      const rest = parts.pop() ?? '';
+      setText(addTags(parts) ? rest : newText.replace(/,/g, ''));
+      return;
+    }
+    setError(null);
+    setText(newText);
+  };
+
+  const handleSubmitEditing = () => {
+    if (addTags([text])) setText('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((existing) => existing !== tag));
+    setError(null);
+  };
+
+  return (
+    <YStack gap="$2">
+      {value.length > 0 && (
+        <XStack gap="$2" flexWrap="wrap">
+          {value.map((tag) => (
+            <TagChip key={tag} label={tag} onRemove={() => removeTag(tag)} />
+          ))}
+        </XStack>
+      )}
+      {value.length < MAX_TAGS_PER_NOTE && (
+        <Input
+          id={id}
+          value={text}
+          onChangeText={handleChangeText}
+          onSubmitEditing={handleSubmitEditing}
+          // Keep the keyboard open on native so several tags can be typed in a row.
+          blurOnSubmit={false}
+          placeholder={placeholder}
+          autoCapitalize="none"
+          aria-label="Tags"
+        />
+      )}
+      {error && (
+        <Text fontSize="$2" color="red">
+          {error}
+        </Text>
+      )}
+    </YStack>
+  );
+};
@@ -1,6 +1,12 @@
 export * from './Button';
+export * from './AccountSwitcher';
 export * from './NoteCard';
 export * from './NotesList';
+export * from './NotesFilterBar';
+export * from './Markdown';
+export * from './MarkdownEditor';
+export * from './TagChip';
+export * from './TagInput';
 export * from './AddNoteForm';
 export * from './Input';
 export * from './FormField';
@@ -0,0 +1,320 @@
+/**
+ * @file packages/ui/src/markdown/parseMarkdown.ts
+ * @description A small, dependency-free Markdown parser producing a plain data tree.
+ *
+ * `parseMarkdown()` understands the subset of Markdown used in notes:
+ * - Headings (`#` to `######`), paragraphs and horizontal rules (`---`).
+ * - Bulleted (`-`, `*`, `+`) and numbered (`1.`) lists, including task items (`- [ ]`, `- [x]`).
+ * - Fenced code blocks (three backticks, optionally followed by a language name).
+ * - Blockquotes (`>`).
+ * - Inline `code`, **bold**, *italic*, ~~strikethrough~~ and [links](https://example.com).
+ *
+ * The result is rendered by `Markdown.tsx` with Tamagui components. Because the output is a
+ * tree of data rather than an HTML string, raw HTML in a note (e.g., `<script>`) is never
+ * interpreted: it is shown as the literal text the user typed. Link targets are the only
+ * values that reach the platform, and `sanitizeUrl()` only lets safe schemes through.
+ *
+ * For a learner:
+ * - Parsing happens in two passes, like most Markdown parsers: first the text is split into
+ *   blocks line by line, then the text inside each block is parsed into inline elements.
+ * - Keeping the parser free of React makes it easy to test and reuse on every platform.
+ */
+
+/** A run of formatted text inside a block. */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'strikethrough'; children: MarkdownInline[] }
+  /** `href` is `undefined` when the original target was rejected by `sanitizeUrl`. */
+  | { type: 'link'; href: string | undefined; children: MarkdownInline[] };
+
+/** One item of a list. `checked` is only set for task items (`- [ ]` / `- [x]`). */
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  checked?: boolean;
+}
+
+/** A top-level element of a Markdown document. */
+export type MarkdownBlock =
+  | {
+      type: 'heading';
+      level: 1 | 2 | 3 | 4 | 5 | 6;
+      children: MarkdownInline[];
+    }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | {
+      type: 'list';
+      ordered: boolean;
+      /** Number of the first item of an ordered list. */
+      start: number;
+      items: MarkdownListItem[];
+    }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'rule' };
+
+// URL schemes a link may use. Everything else (`javascript:`, `data:`, `vbscript:`, ...) is dropped.
+const SAFE_URL_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Returns `url` if it is safe to open, or `undefined` otherwise.
+ * Only absolute `http(s)` and `mailto` URLs are allowed; relative URLs are rejected because a
+ * note has no meaningful base URL on native.
+ *
+ * @param url - The raw link target written in the note.
+ */
+export function sanitizeUrl(url: string): string | undefined {
+  // Browsers ignore whitespace and control characters inside a scheme (`java\tscript:`),
+  // so remove them before looking at the scheme.
+  // eslint-disable-next-line no-control-regex
+  const normalized = url.trim().replace(/[\u0000-\u001F\u007F\s]+/g, '');
+  const match = /^([a-z][a-z0-9+.-]*:)/i.exec(normalized);
+  if (!match) return undefined;
+  return SAFE_URL_SCHEMES.includes(match[1].toLowerCase())
+    ? normalized
+    : undefined;
+}
+
+// --- Inline parsing ---
+
+// Delimiters that wrap formatted text, longest first so `**` wins over `*`.
+const INLINE_DELIMITERS: {
+  marker: string;
+  type: 'strong' | 'emphasis' | 'strikethrough';
+}[] = [
+  { marker: '**', type: 'strong' },
+  { marker: '__', type: 'strong' },
+  { marker: '~~', type: 'strikethrough' },
+  { marker: '*', type: 'emphasis' },
+  { marker: '_', type: 'emphasis' },
+];
+
+/**
+ * Parses the inline formatting of a single block's text.
+ *
+ * @param text - The text of a paragraph, heading or list item.
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+
+    // Backslash escapes: `\*` is a literal asterisk.
+    if (
+      rest[0] === '\\' &&
+      rest.length > 1 &&
+      /[\\`*_~[\]()#+\-.!>]/.test(rest[1])
+    ) {
+      buffer += rest[1];
+      i += 2;
+      continue;
+    }
+
+    // Inline code: everything up to the matching backtick is literal.
+    if (rest[0] === '`') {
+      const end = rest.indexOf('`', 1);
+      if (end > 1) {
+        flush();
+        nodes.push({ type: 'code', text: rest.slice(1, end) });
+        i += end + 1;
+        continue;
+      }
+    }
+
+    // Links: [label](target)
+    if (rest[0] === '[') {
+      // The target may contain one level of parentheses, e.g., Wikipedia URLs.
+      const link =
+        /^\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\)/.exec(
+          rest
+        );
+      if (link) {
+        flush();
+        nodes.push({
+          type: 'link',
+          href: sanitizeUrl(link[2]),
+          children: parseInline(link[1]),
+        });
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    // Bold, italic and strikethrough.
+    // Underscores inside a word (`snake_case_name`) are not formatting.
+    const insideWord = i > 0 && /\w/.test(text[i - 1]);
+    const delimiter = INLINE_DELIMITERS.find(
+      ({ marker }) =>
+        rest.startsWith(marker) && !(marker[0] === '_' && insideWord)
+    );
+    if (delimiter) {
+      const { marker, type } = delimiter;
+      const end = rest.indexOf(marker, marker.length);
+      // Require non-empty content that doesn't start with a space, so `2 * 3 * 4` stays text.
+      if (end > marker.length && rest[marker.length] !== ' ') {
+        flush();
+        nodes.push({
+          type,
+          children: parseInline(rest.slice(marker.length, end)),
+        });
+        i += end + marker.length;
+        continue;
+      }
+    }
+
+    buffer += rest[0];
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+}
+
+// --- Block parsing ---
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const BULLET_ITEM = /^ {0,3}[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^ {0,3}(\d{1,9})[.)]\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+
+const toListItem = (text: string): MarkdownListItem => {
+  const task = TASK.exec(text);
+  return task
+    ? { checked: task[1] !== ' ', children: parseInline(task[2]) }
+    : { children: parseInline(text) };
+};
+
+/**
+ * Parses a Markdown document into blocks.
+ *
+ * @param markdown - The raw note content.
+ * @returns The document's blocks, in order.
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: 'paragraph',
+        children: parseInline(paragraph.join(' ')),
+      });
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      flushParagraph();
+      i += 1;
+      continue;
+    }
+
+    // Fenced code block: copy lines verbatim until the closing fence (or the end of the note).
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const closing = fence[1];
+      const code: string[] = [];
+      i += 1;
+      while (i < lines.length && !lines[i].trim().startsWith(closing)) {
+        code.push(lines[i]);
+        i += 1;
+      }
+      i += 1; // Skip the closing fence.
+      blocks.push({
+        type: 'code',
+        language: fence[2] || undefined,
+        text: code.join('\n'),
+      });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseInline(heading[2]),
+      });
+      i += 1;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      i += 1;
+      continue;
+    }
+
+    // Blockquote: collect consecutive `>` lines and parse their content as a nested document.
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      let quote: RegExpExecArray | null;
+      while (i < lines.length && (quote = QUOTE.exec(lines[i]))) {
+        quoted.push(quote[1]);
+        i += 1;
+      }
+      blocks.push({
+        type: 'blockquote',
+        children: parseMarkdown(quoted.join('\n')),
+      });
+      continue;
+    }
+
+    // Lists: consecutive items of the same kind. Indented lines continue the previous item.
+    const bullet = BULLET_ITEM.exec(line);
+    const ordered = bullet ? null : ORDERED_ITEM.exec(line);
+    if (bullet || ordered) {
+      flushParagraph();
+      const isOrdered = Boolean(ordered);
+      const itemPattern = isOrdered ? ORDERED_ITEM : BULLET_ITEM;
+      const texts: string[] = [];
+      while (i < lines.length) {
+        const item = itemPattern.exec(lines[i]);
+        if (item) {
+          texts.push(item[item.length - 1]);
+        } else if (texts.length > 0 && /^\s{2,}\S/.test(lines[i])) {
+          texts[texts.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i += 1;
+      }
+      blocks.push({
+        type: 'list',
+        ordered: isOrdered,
+        start: ordered ? Number(ordered[1]) : 1,
+        items: texts.map(toListItem),
+      });
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i += 1;
+  }
+
+  flushParagraph();
+  return blocks;
+}